@@ -5,9 +5,22 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AppSidebar } from "@/components/AppSidebar";
+import { CyclePicker } from "@/components/Dashboard/CyclePicker";
+import { AuthProvider } from "@/components/Auth/AuthProvider";
+import { RequireRole } from "@/components/Auth/RequireRole";
 import Index from "./pages/Index";
 import Graficos from "./pages/Graficos";
 import Registros from "./pages/Registros";
+import Aprovacoes from "./pages/Aprovacoes";
+import Metas from "./pages/Metas";
+import Funcionarios from "./pages/Funcionarios";
+import Refinarias from "./pages/Refinarias";
+import ValorPonto from "./pages/ValorPonto";
+import Fechamento from "./pages/Fechamento";
+import Calendario from "./pages/Calendario";
+import Ausencias from "./pages/Ausencias";
+import Importacao from "./pages/Importacao";
+import Planilhas from "./pages/Planilhas";
 
 import NotFound from "./pages/NotFound";
 import Login from "./pages/Login";
@@ -21,37 +34,56 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          {/* Rotas sem sidebar - Login e Dashboard de funcionário */}
-          <Route path="/login" element={<Login />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          
-          {/* Rotas com sidebar - CEO Dashboard */}
-          <Route path="/admin/*" element={
-            <SidebarProvider>
-              <div className="min-h-screen flex w-full bg-background">
-                <AppSidebar />
-                <main className="flex-1">
-                  <header className="h-12 flex items-center border-b border-border bg-card/50 backdrop-blur-sm">
-                    <SidebarTrigger className="ml-4" />
-                  </header>
-                  <div className="p-6">
-                    <Routes>
-                      <Route path="/" element={<Index />} />
-                      <Route path="/graficos" element={<Graficos />} />
-                      <Route path="/registros" element={<Registros />} />
-                      
-                    </Routes>
+        <AuthProvider>
+          <Routes>
+            {/* Rotas sem sidebar - Login e Dashboard de funcionário */}
+            <Route path="/login" element={<Login />} />
+            <Route path="/dashboard" element={
+              <RequireRole role="employee">
+                <Dashboard />
+              </RequireRole>
+            } />
+            
+            {/* Rotas com sidebar - CEO Dashboard */}
+            <Route path="/admin/*" element={
+              <RequireRole role="admin">
+                <SidebarProvider>
+                  <div className="min-h-screen flex w-full bg-background">
+                    <AppSidebar />
+                    <main className="flex-1">
+                      <header className="h-12 flex items-center justify-between border-b border-border bg-card/50 backdrop-blur-sm">
+                        <SidebarTrigger className="ml-4" />
+                        <CyclePicker className="mr-4" />
+                      </header>
+                      <div className="p-6">
+                        <Routes>
+                          <Route path="/" element={<Index />} />
+                          <Route path="/graficos" element={<Graficos />} />
+                          <Route path="/registros" element={<Registros />} />
+                          <Route path="/aprovacoes" element={<Aprovacoes />} />
+                          <Route path="/metas" element={<Metas />} />
+                          <Route path="/funcionarios" element={<Funcionarios />} />
+                          <Route path="/refinarias" element={<Refinarias />} />
+                          <Route path="/valor-ponto" element={<ValorPonto />} />
+                          <Route path="/fechamento" element={<Fechamento />} />
+                          <Route path="/calendario" element={<Calendario />} />
+                          <Route path="/ausencias" element={<Ausencias />} />
+                          <Route path="/importar" element={<Importacao />} />
+                          <Route path="/planilhas" element={<Planilhas />} />
+                          
+                        </Routes>
+                      </div>
+                    </main>
                   </div>
-                </main>
-              </div>
-            </SidebarProvider>
-          } />
-          
-          {/* Redirect root to login */}
-          <Route path="/" element={<Login />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+                </SidebarProvider>
+              </RequireRole>
+            } />
+            
+            {/* Redirect root to login */}
+            <Route path="/" element={<Login />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
@@ -1,4 +1,4 @@
-import { Users, BarChart3, Table, TrendingUp } from "lucide-react";
+import { Users, BarChart3, Table, Target, TrendingUp, LogOut, UserCog, Factory, DollarSign, Receipt, CalendarDays, CalendarOff, ClipboardCheck, FileUp, FileSpreadsheet } from "lucide-react";
 import { useLocation, useNavigate } from "react-router-dom";
 
 import {
@@ -11,20 +11,39 @@ import {
   SidebarMenuButton,
   SidebarMenuItem,
   SidebarHeader,
+  SidebarFooter,
 } from "@/components/ui/sidebar";
+import { useSession } from "@/hooks/use-session";
 
 const items = [
   { title: "Equipe", url: "/admin", icon: Users },
   { title: "Gráficos", url: "/admin/graficos", icon: BarChart3 },
   { title: "Registros", url: "/admin/registros", icon: Table },
+  { title: "Aprovações", url: "/admin/aprovacoes", icon: ClipboardCheck },
+  { title: "Metas", url: "/admin/metas", icon: Target },
+  { title: "Fechamento", url: "/admin/fechamento", icon: Receipt },
+  { title: "Funcionários", url: "/admin/funcionarios", icon: UserCog },
+  { title: "Refinarias", url: "/admin/refinarias", icon: Factory },
+  { title: "Valor do Ponto", url: "/admin/valor-ponto", icon: DollarSign },
+  { title: "Calendário", url: "/admin/calendario", icon: CalendarDays },
+  { title: "Ausências", url: "/admin/ausencias", icon: CalendarOff },
+  { title: "Importar", url: "/admin/importar", icon: FileUp },
+  { title: "Planilhas", url: "/admin/planilhas", icon: FileSpreadsheet },
   
 ];
 
 export function AppSidebar() {
   const location = useLocation();
   const navigate = useNavigate();
+  const { user, signOut } = useSession();
   const currentPath = location.pathname;
 
+  const handleLogout = async () => {
+    // O logout é propagado para as outras abas pelo Supabase Auth
+    await signOut();
+    navigate("/login");
+  };
+
   const isActive = (path: string) => currentPath === path;
 
   return (
@@ -58,7 +77,7 @@ export function AppSidebar() {
                 return (
                   <SidebarMenuItem key={item.title}>
                     <SidebarMenuButton
-                      onClick={() => navigate(item.url)}
+                      onClick={() => navigate(item.url + location.search)}
                       className={`
                         ${active 
                           ? 'bg-gradient-primary text-primary-foreground shadow-glow' 
@@ -77,6 +96,21 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
       </SidebarContent>
+
+      <SidebarFooter className="border-t border-border">
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              onClick={handleLogout}
+              className="hover:bg-secondary/50 text-foreground hover:text-dashboard-primary transition-colors h-12"
+              title={user?.email}
+            >
+              <LogOut className="h-5 w-5" />
+              <span className="font-medium">Sair</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
     </Sidebar>
   );
 }
\ No newline at end of file
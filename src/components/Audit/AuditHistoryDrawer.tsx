@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { AuditAction, AuditRecord, AuditService } from "@/services/AuditService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { EmploymentTypeService } from "@/services/EmploymentTypeService";
+
+export interface AuditTarget {
+  type: "entry" | "employee";
+  id: number;
+  description?: string;
+}
+
+interface AuditHistoryDrawerProps {
+  target: AuditTarget | null;
+  onOpenChange: (open: boolean) => void;
+  employeeNames?: Record<number, string>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  date: "Data",
+  employee_id: "Funcionário",
+  refinery: "Refinaria",
+  points: "Pontos",
+  observations: "Observações",
+  name: "Nome",
+  real_name: "Nome real",
+  username: "Usuário",
+  role: "Função",
+  weekly_goal: "Meta semanal",
+  default_refinery: "Refinaria padrão",
+  employment_type: "Vínculo",
+  active: "Ativo",
+  deactivated_at: "Desativado em",
+  color: "Cor"
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: "Criado",
+  UPDATE: "Alterado",
+  DELETE: "Excluído"
+};
+
+export function AuditHistoryDrawer({ target, onOpenChange, employeeNames = {} }: AuditHistoryDrawerProps) {
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+
+    setLoading(true);
+    const request = target.type === "entry"
+      ? AuditService.getEntryHistory(target.id)
+      : AuditService.getEmployeeHistory(target.id);
+
+    request
+      .then(setRecords)
+      .finally(() => setLoading(false));
+  }, [target]);
+
+  const formatTimestamp = (value: string) =>
+    `${BusinessTimeService.formatDate(value)} ${BusinessTimeService.formatTime(value)}`;
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === "") return "—";
+    if (field === "date" || field === "deactivated_at") return formatTimestamp(String(value));
+    if (typeof value === "boolean") return value ? "Sim" : "Não";
+    if (field === "employee_id") return employeeNames[Number(value)] || `#${value}`;
+    if (field === "employment_type") return EmploymentTypeService.label(String(value));
+    if (typeof value === "number") return value.toLocaleString();
+    return String(value);
+  };
+
+  const getActionBadge = (action: AuditAction) => {
+    switch (action) {
+      case "INSERT":
+        return <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">{ACTION_LABELS[action]}</Badge>;
+      case "DELETE":
+        return <Badge variant="destructive">{ACTION_LABELS[action]}</Badge>;
+      default:
+        return <Badge variant="secondary" className="bg-dashboard-warning/20 text-dashboard-warning border-dashboard-warning/30">{ACTION_LABELS[action]}</Badge>;
+    }
+  };
+
+  return (
+    <Sheet open={!!target} onOpenChange={onOpenChange}>
+      <SheetContent className="bg-card border-border w-full sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Histórico de alterações
+          </SheetTitle>
+          {target?.description && <SheetDescription>{target.description}</SheetDescription>}
+        </SheetHeader>
+
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-4">
+          {loading ? (
+            <p className="text-center py-8 text-muted-foreground">Carregando histórico...</p>
+          ) : records.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">Nenhuma alteração registrada.</p>
+          ) : (
+            <div className="space-y-4">
+              {records.map(record => (
+                <div key={record.id} className="p-3 rounded-lg border border-border/50 bg-secondary/20 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      {getActionBadge(record.action)}
+                      <span className="text-xs text-muted-foreground">
+                        {record.tableName === "entry" ? `Registro #${record.recordId}` : "Cadastro"}
+                      </span>
+                    </div>
+                    <span className="text-xs text-muted-foreground">{formatTimestamp(record.changedAt)}</span>
+                  </div>
+
+                  <p className="text-sm text-foreground">
+                    por <span className="font-medium">{record.actorName}</span>
+                  </p>
+
+                  <div className="space-y-1">
+                    {AuditService.getChanges(record).map(change => (
+                      <div key={change.field} className="text-sm">
+                        <span className="text-muted-foreground">{FIELD_LABELS[change.field] || change.field}: </span>
+                        {record.action === "UPDATE" ? (
+                          <>
+                            <span className="line-through text-dashboard-danger">{formatValue(change.field, change.oldValue)}</span>
+                            {" → "}
+                            <span className="text-dashboard-success">{formatValue(change.field, change.newValue)}</span>
+                          </>
+                        ) : (
+                          <span className="text-foreground">
+                            {formatValue(change.field, record.action === "DELETE" ? change.oldValue : change.newValue)}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
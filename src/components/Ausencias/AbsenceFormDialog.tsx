@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { AbsenceRequest, AbsenceType, ABSENCE_TYPES, ABSENCE_TYPE_LABELS } from "@/services/AbsenceService";
+
+interface AbsenceFormDialogProps {
+  open: boolean;
+  employees: { id: number; real_name: string }[];
+  saving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (request: AbsenceRequest) => void;
+}
+
+export function AbsenceFormDialog({ open, employees, saving = false, onOpenChange, onSave }: AbsenceFormDialogProps) {
+  const [employeeId, setEmployeeId] = useState("");
+  const [type, setType] = useState<AbsenceType>("vacation");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  // Formulário limpo a cada abertura (período sugerido: hoje)
+  useEffect(() => {
+    if (!open) return;
+    setEmployeeId("");
+    setType("vacation");
+    setStartDate(BusinessTimeService.today());
+    setEndDate(BusinessTimeService.today());
+    setReason("");
+  }, [open]);
+
+  const isValid = !!employeeId && !!startDate && !!endDate && endDate >= startDate;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave({
+      employee_id: Number(employeeId),
+      type,
+      start_date: startDate,
+      end_date: endDate,
+      reason
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Lançar Ausência</DialogTitle>
+          <DialogDescription>
+            A ausência já entra aprovada e as metas do funcionário no período são reduzidas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Funcionário:</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {employees.map(employee => (
+                    <SelectItem key={employee.id} value={String(employee.id)}>{employee.real_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo:</Label>
+              <Select value={type} onValueChange={(value) => setType(value as AbsenceType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {ABSENCE_TYPES.map(option => (
+                    <SelectItem key={option} value={option}>{ABSENCE_TYPE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="absence-form-start">De:</Label>
+              <Input
+                id="absence-form-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="absence-form-end">Até:</Label>
+              <Input
+                id="absence-form-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="absence-form-reason">Motivo:</Label>
+            <Textarea
+              id="absence-form-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Opcional"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="bg-gradient-primary hover:opacity-90 text-white" disabled={!isValid || saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Absence, AbsenceService } from "@/services/AbsenceService";
+
+interface AbsenceReviewDialogProps {
+  absence: Absence | null;
+  saving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReview: (absence: Absence, status: "approved" | "rejected", notes: string) => void;
+}
+
+export function AbsenceReviewDialog({ absence, saving = false, onOpenChange, onReview }: AbsenceReviewDialogProps) {
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    setNotes(absence?.review_notes || "");
+  }, [absence]);
+
+  return (
+    <Dialog open={!!absence} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Revisar Ausência</DialogTitle>
+          {absence && (
+            <DialogDescription>
+              {absence.employee_name}: {AbsenceService.label(absence.type)} de {AbsenceService.formatPeriod(absence)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {absence?.reason && (
+          <p className="text-sm text-muted-foreground">Motivo: {absence.reason}</p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="absence-review-notes">Observações:</Label>
+          <Textarea
+            id="absence-review-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Opcional (visível para o funcionário)"
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="destructive"
+            disabled={saving}
+            onClick={() => absence && onReview(absence, "rejected", notes)}
+          >
+            Recusar
+          </Button>
+          <Button
+            type="button"
+            className="bg-gradient-primary hover:opacity-90 text-white"
+            disabled={saving}
+            onClick={() => absence && onReview(absence, "approved", notes)}
+          >
+            {saving ? "Salvando..." : "Aprovar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
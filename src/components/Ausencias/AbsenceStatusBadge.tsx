@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge";
+import { AbsenceStatus, ABSENCE_STATUS_LABELS } from "@/services/AbsenceService";
+
+interface AbsenceStatusBadgeProps {
+  status: AbsenceStatus;
+}
+
+export function AbsenceStatusBadge({ status }: AbsenceStatusBadgeProps) {
+  switch (status) {
+    case "approved":
+      return <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">{ABSENCE_STATUS_LABELS.approved}</Badge>;
+    case "rejected":
+      return <Badge variant="destructive">{ABSENCE_STATUS_LABELS.rejected}</Badge>;
+    default:
+      return <Badge variant="secondary" className="bg-dashboard-warning/20 text-dashboard-warning border-dashboard-warning/30">{ABSENCE_STATUS_LABELS.pending}</Badge>;
+  }
+}
@@ -0,0 +1,59 @@
+import { ReactNode, useCallback, useEffect, useMemo, useState } from "react";
+import { AuthService, AuthUser } from "@/services/AuthService";
+import { SessionContext } from "@/hooks/use-session";
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+
+    // Sessão inicial validada no servidor
+    AuthService.getCurrentUser().then(currentUser => {
+      if (!active) return;
+      setUser(currentUser);
+      setLoading(false);
+    });
+
+    // Renovação de token, login e logout (inclusive em outras abas)
+    const unsubscribe = AuthService.onAuthStateChange(changedUser => {
+      if (!active) return;
+      setUser(changedUser);
+      setLoading(false);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const signInWithAccessKey = useCallback(async (accessKey: string) => {
+    const signedIn = await AuthService.signInWithAccessKey(accessKey);
+    setUser(signedIn);
+    return signedIn;
+  }, []);
+
+  const signInWithPassword = useCallback(async (email: string, password: string) => {
+    const signedIn = await AuthService.signInWithPassword(email, password);
+    setUser(signedIn);
+    return signedIn;
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await AuthService.signOut();
+    setUser(null);
+  }, []);
+
+  const value = useMemo(
+    () => ({ user, loading, signInWithAccessKey, signInWithPassword, signOut }),
+    [user, loading, signInWithAccessKey, signInWithPassword, signOut]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
@@ -0,0 +1,32 @@
+import { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { AppRole, ROLE_HOME } from "@/services/AuthService";
+import { useSession } from "@/hooks/use-session";
+
+interface RequireRoleProps {
+  role: AppRole;
+  children: ReactNode;
+}
+
+export function RequireRole({ role, children }: RequireRoleProps) {
+  const { user, loading } = useSession();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!user || !user.role) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (user.role !== role) {
+    return <Navigate to={ROLE_HOME[user.role]} replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { DayOffFields } from "@/services/BusinessCalendarService";
+
+interface DayOffFormDialogProps {
+  open: boolean;
+  saving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (fields: DayOffFields) => void;
+}
+
+export function DayOffFormDialog({ open, saving = false, onOpenChange, onSave }: DayOffFormDialogProps) {
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+
+  // Formulário limpo a cada abertura (data sugerida: hoje)
+  useEffect(() => {
+    if (!open) return;
+    setDate(BusinessTimeService.today());
+    setName("");
+  }, [open]);
+
+  const isValid = !!date && !!name.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+    onSave({ date, name: name.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Nova Folga</DialogTitle>
+          <DialogDescription>
+            O dia deixa de contar como dia útil e as metas do período são recalculadas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="day-off-date">Data:</Label>
+              <Input
+                id="day-off-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="day-off-name">Descrição:</Label>
+              <Input
+                id="day-off-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex.: Emenda de feriado"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="bg-gradient-primary hover:opacity-90 text-white" disabled={!isValid || saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,10 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Eye, EyeOff, Users, User } from "lucide-react";
+import { RosterEntry } from "@/services/RosterService";
 
 interface EmployeeControlsProps {
+  roster: RosterEntry[];
   viewMode: "team" | "individual";
   onViewModeChange: (mode: "team" | "individual") => void;
   hiddenEmployees: Set<string>;
@@ -10,14 +12,8 @@ interface EmployeeControlsProps {
   selectedChart: string;
 }
 
-const employeeColors = {
-  'Rodrigo': '#8b5cf6',
-  'Maurício': '#f59e0b', 
-  'Matheus': '#10b981',
-  'Wesley': '#ef4444'
-};
-
 export function EmployeeControls({ 
+  roster,
   viewMode, 
   onViewModeChange, 
   hiddenEmployees, 
@@ -26,7 +22,7 @@ export function EmployeeControls({
 }: EmployeeControlsProps) {
   return (
     <div className="space-y-2">
-      {Object.entries(employeeColors).map(([employee, color]) => (
+      {roster.map(({ name: employee, color }) => (
         <Button
           key={employee}
           variant="ghost"
@@ -10,21 +10,18 @@ import {
   ResponsiveContainer 
 } from 'recharts';
 import { ExcelProcessorService } from '@/services/ExcelProcessorService';
+import { RosterEntry } from '@/services/RosterService';
 
 interface MonthlyChartProps {
   data: any[];
+  goals: Record<string, number>[];  // meta mensal de cada funcionário, alinhada com data
+  values: Record<string, number>[]; // valor em reais de cada funcionário, alinhado com data
+  roster: RosterEntry[];
   hiddenEmployees: Set<string>;
   viewMode: "team" | "individual";
 }
 
-const employeeColors = {
-  'Rodrigo': '#8b5cf6',
-  'Maurício': '#f59e0b', 
-  'Matheus': '#10b981',
-  'Wesley': '#ef4444'
-};
-
-export function MonthlyChart({ data, hiddenEmployees, viewMode }: MonthlyChartProps) {
+export function MonthlyChart({ data, goals, values, roster, hiddenEmployees, viewMode }: MonthlyChartProps) {
   if (viewMode === "individual") {
     // Modo individual: gráfico de barras por funcionário
     return (
@@ -53,15 +50,16 @@ export function MonthlyChart({ data, hiddenEmployees, viewMode }: MonthlyChartPr
               color: 'hsl(var(--card-foreground))',
               fontSize: '14px'
             }}
-            formatter={(value: any, name: string) => [
-              `${value} pontos (${ExcelProcessorService.formatCurrency(value * 3.25)})`,
+            formatter={(value: any, name: string, item: { payload?: unknown }) => [
+              // Valor em reais calculado no banco, pelo valor do ponto em vigor na data de cada registro
+              `${value} pontos (${ExcelProcessorService.formatCurrency(values[data.indexOf(item.payload)]?.[name] || 0)})`,
               name
             ]}
             cursor={{ fill: 'transparent' }}
             wrapperStyle={{ outline: 'none' }}
           />
           
-          {Object.entries(employeeColors).map(([employee, color]) => (
+          {roster.map(({ name: employee, color }) => (
             !hiddenEmployees.has(employee) && (
               <Bar 
                 key={employee} 
@@ -77,19 +75,28 @@ export function MonthlyChart({ data, hiddenEmployees, viewMode }: MonthlyChartPr
     );
   } else {
     // Modo equipe: gráfico de linha com total
-    const teamProgressData = data.map(month => {
-      const totalPoints = Object.keys(employeeColors).reduce((sum, employee) => {
+    const teamProgressData = data.map((month, index) => {
+      const totalPoints = roster.reduce((sum, { name: employee }) => {
         if (!hiddenEmployees.has(employee)) {
           return sum + (month[employee] || 0);
         }
         return sum;
       }, 0);
+
+      const totalValue = roster.reduce((sum, { name: employee }) => {
+        return hiddenEmployees.has(employee) ? sum : sum + (values[index]?.[employee] || 0);
+      }, 0);
+
+      // Meta da equipe: soma das metas dos funcionários visíveis no ciclo
+      const teamGoal = Object.entries(goals[index] || {}).reduce((sum, [employee, goal]) => {
+        return hiddenEmployees.has(employee) ? sum : sum + goal;
+      }, 0);
       
       return {
         name: month.name,
         pontos: totalPoints,
-        lucro: totalPoints * 3.25,
-        meta: 29500 // Meta mensal da equipe
+        lucro: totalValue,
+        meta: teamGoal
       };
     });
 
@@ -5,26 +5,73 @@ import {
   YAxis, 
   CartesianGrid, 
   Tooltip, 
+  LabelList,
   ResponsiveContainer 
 } from 'recharts';
-import { DataService } from '@/services/DataService';
+import { RosterEntry } from '@/services/RosterService';
 
 interface WeeklyChartProps {
   data: any[];
+  goals: Record<string, number>[];  // meta semanal proporcional de cada funcionário, alinhada com data
+  absences?: Record<string, Record<string, number>>;  // dias úteis ausentes por semana e funcionário
+  roster: RosterEntry[];
   hiddenEmployees: Set<string>;
 }
 
-const employeeColors = {
-  'Rodrigo': '#8b5cf6',
-  'Maurício': '#f59e0b', 
-  'Matheus': '#10b981',
-  'Wesley': '#ef4444'
-};
+interface MarkerProps {
+  x?: number | string;
+  y?: number | string;
+  width?: number | string;
+  value?: number | string;
+}
+
+// Chave da meta do funcionário nas linhas do gráfico
+const goalKey = (employee: string) => `meta:${employee}`;
+
+export function WeeklyChart({ data, goals, absences = {}, roster, hiddenEmployees }: WeeklyChartProps) {
+  const visibleRoster = roster.filter(({ name }) => !hiddenEmployees.has(name));
+
+  // Meta de cada semana junto dos pontos, para desenhar o traço de meta sobre cada barra
+  const chartData = data.map((row, index) => ({
+    ...row,
+    ...Object.fromEntries(Object.entries(goals[index] || {}).map(([employee, goal]) => [goalKey(employee), goal]))
+  }));
+  const maxGoal = Math.max(0, ...goals.flatMap(weekGoals =>
+    visibleRoster.map(({ name }) => weekGoals[name] || 0)
+  ));
+
+  // Traço tracejado na altura da meta, da largura da barra do funcionário
+  const renderGoalMark = ({ x, y, width }: MarkerProps) => (
+    <line
+      x1={Number(x)}
+      x2={Number(x) + Number(width)}
+      y1={Number(y)}
+      y2={Number(y)}
+      stroke="#f59e0b"
+      strokeWidth={2}
+      strokeDasharray="4 3"
+      opacity={0.9}
+    />
+  );
+
+  // Marcador "A" sobre a barra do funcionário nas semanas com ausência aprovada
+  const renderAbsenceMarker = (employee: string) => ({ x, y, width, value }: MarkerProps) => {
+    const days = absences[String(value)]?.[employee];
+    if (!days) return null;
+    const cx = Number(x) + Number(width) / 2;
+    const cy = Number(y) - 10;
+    return (
+      <g>
+        <title>{`${employee}: ${days} ${days === 1 ? 'dia útil ausente' : 'dias úteis ausentes'}`}</title>
+        <circle cx={cx} cy={cy} r={7} fill="hsl(var(--dashboard-info))" />
+        <text x={cx} y={cy} dy={3} textAnchor="middle" fontSize={9} fontWeight="bold" fill="white">A</text>
+      </g>
+    );
+  };
 
-export function WeeklyChart({ data, hiddenEmployees }: WeeklyChartProps) {
   return (
     <ResponsiveContainer width="100%" height="100%">
-      <BarChart data={data} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+      <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
         <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.3} />
         <XAxis 
           dataKey="name" 
@@ -33,12 +80,14 @@ export function WeeklyChart({ data, hiddenEmployees }: WeeklyChartProps) {
           axisLine={false}
           tickLine={false}
         />
+        {/* Eixo oculto com as mesmas semanas: as barras de meta ficam sobre as barras de pontos */}
+        <XAxis dataKey="name" xAxisId="goal" hide />
         <YAxis 
           stroke="hsl(var(--muted-foreground))"
           fontSize={12}
           axisLine={false}
           tickLine={false}
-          domain={[0, 3000]}
+          domain={[0, (dataMax: number) => Math.max(dataMax, maxGoal, 3000)]}
         />
         <Tooltip 
           contentStyle={{ 
@@ -51,34 +100,37 @@ export function WeeklyChart({ data, hiddenEmployees }: WeeklyChartProps) {
           }}
           cursor={{ fill: 'transparent' }}
           wrapperStyle={{ outline: 'none' }}
+          formatter={(value: number, employee: string, item: { payload?: Record<string, string | number> }) => {
+            const days = absences[String(item.payload?.name || '')]?.[employee];
+            const goal = item.payload?.[goalKey(employee)];
+            const text = goal !== undefined ? `${value} de ${Number(goal).toLocaleString()}` : String(value);
+            return days ? [`${text} (ausente ${days} ${days === 1 ? 'dia útil' : 'dias úteis'})`, employee] : [text, employee];
+          }}
         />
         
-        {/* Linha de Meta - 2375 pontos */}
-        {data && data.length > 0 && (
-          <g>
-            <line 
-              x1="10%" 
-              y1={`${((3000 - 2375) / 3000) * 100}%`}
-              x2="90%" 
-              y2={`${((3000 - 2375) / 3000) * 100}%`}
-              stroke="#f59e0b" 
-              strokeWidth="2" 
-              strokeDasharray="5 5"
-              opacity={0.8}
-            />
-          </g>
-        )}
-        
-        {Object.entries(employeeColors).map(([employee, color]) => (
-          !hiddenEmployees.has(employee) && (
-            <Bar 
-              key={employee} 
-              dataKey={employee} 
-              fill={color} 
-              name={employee} 
-              radius={[2, 2, 0, 0]} 
-            />
-          )
+        {visibleRoster.map(({ name: employee, color }) => (
+          <Bar 
+            key={employee} 
+            dataKey={employee} 
+            fill={color} 
+            name={employee} 
+            radius={[2, 2, 0, 0]} 
+          >
+            <LabelList dataKey="name" content={renderAbsenceMarker(employee)} />
+          </Bar>
+        ))}
+
+        {/* Meta semanal de cada funcionário, proporcional aos dias úteis da semana */}
+        {visibleRoster.map(({ name: employee }) => (
+          <Bar
+            key={goalKey(employee)}
+            dataKey={goalKey(employee)}
+            xAxisId="goal"
+            name={`Meta ${employee}`}
+            tooltipType="none"
+            isAnimationActive={false}
+            shape={renderGoalMark}
+          />
         ))}
       </BarChart>
     </ResponsiveContainer>
@@ -0,0 +1,209 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarOff, Trash2 } from "lucide-react";
+import {
+  Absence,
+  AbsenceService,
+  AbsenceType,
+  ABSENCE_TYPES,
+  ABSENCE_TYPE_LABELS
+} from "@/services/AbsenceService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { AbsenceStatusBadge } from "@/components/Ausencias/AbsenceStatusBadge";
+
+interface AbsencesTabProps {
+  employeeId: number;
+}
+
+export const AbsencesTab = ({ employeeId }: AbsencesTabProps) => {
+  const { toast } = useToast();
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [type, setType] = useState<AbsenceType>("vacation");
+  const [startDate, setStartDate] = useState(BusinessTimeService.today());
+  const [endDate, setEndDate] = useState(BusinessTimeService.today());
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadAbsences = async () => {
+    setLoading(true);
+    setAbsences(await AbsenceService.getAbsences({ employeeId }));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadAbsences();
+  }, [employeeId]);
+
+  const isValid = !!startDate && !!endDate && endDate >= startDate;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    setSaving(true);
+    const requested = await AbsenceService.requestAbsence({
+      employee_id: employeeId,
+      type,
+      start_date: startDate,
+      end_date: endDate,
+      reason
+    });
+    setSaving(false);
+
+    if (!requested) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível enviar a solicitação.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Solicitação enviada",
+      description: "A ausência passa a valer depois de aprovada pelo administrador."
+    });
+    setReason("");
+    loadAbsences();
+  };
+
+  const handleCancel = async (absence: Absence) => {
+    if (!await AbsenceService.deleteAbsence(absence.id)) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível cancelar a solicitação.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({
+      title: "Solicitação cancelada"
+    });
+    loadAbsences();
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="bg-gradient-card border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle>Solicitar Ausência</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Tipo:</Label>
+                <Select value={type} onValueChange={(value) => setType(value as AbsenceType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {ABSENCE_TYPES.map(option => (
+                      <SelectItem key={option} value={option}>{ABSENCE_TYPE_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="absence-start">De:</Label>
+                <Input id="absence-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="absence-end">Até:</Label>
+                <Input id="absence-end" type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="absence-reason">Motivo:</Label>
+              <Textarea
+                id="absence-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Opcional"
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="bg-gradient-primary hover:opacity-90 text-white"
+              disabled={!isValid || saving}
+            >
+              {saving ? 'Enviando...' : 'Solicitar'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-gradient-card border-border/50 shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarOff className="w-5 h-5" />
+            Minhas Ausências
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Período</TableHead>
+                <TableHead className="font-semibold">Tipo</TableHead>
+                <TableHead className="font-semibold">Status</TableHead>
+                <TableHead className="font-semibold">Observações</TableHead>
+                <TableHead className="font-semibold"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                    Carregando ausências...
+                  </TableCell>
+                </TableRow>
+              ) : absences.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                    Nenhuma ausência solicitada.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                absences.map(absence => (
+                  <TableRow key={absence.id} className="hover:bg-muted/30">
+                    <TableCell className="font-medium">{AbsenceService.formatPeriod(absence)}</TableCell>
+                    <TableCell>{AbsenceService.label(absence.type)}</TableCell>
+                    <TableCell><AbsenceStatusBadge status={absence.status} /></TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs">
+                      {absence.review_notes || absence.reason || "—"}
+                    </TableCell>
+                    <TableCell>
+                      {absence.status === "pending" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                          onClick={() => handleCancel(absence)}
+                          title="Cancelar solicitação"
+                        >
+                          <Trash2 className="h-4 w-4 text-dashboard-danger" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
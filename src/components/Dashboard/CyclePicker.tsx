@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Lock } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CycleCalendarService } from "@/services/CycleCalendarService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { useSelectedCycle } from "@/hooks/use-selected-cycle";
+import { useCycleClosings } from "@/hooks/use-cycle-closings";
+
+interface CyclePickerProps {
+  className?: string;
+}
+
+export function CyclePicker({ className = "" }: CyclePickerProps) {
+  const { cycleId, setCycleId } = useSelectedCycle();
+  const { getClosing } = useCycleClosings();
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    CycleCalendarService.loadConfig().then(() => setReady(true));
+  }, []);
+
+  if (!ready) return null;
+
+  const current = CycleCalendarService.current();
+  const cycle = cycleId ? CycleCalendarService.fromId(cycleId) : current;
+  const isCurrent = cycle.id === current.id;
+  const closing = getClosing(cycle.id);
+
+  const selectCycle = (id: string) => {
+    // O ciclo atual fica sem parâmetro na URL
+    setCycleId(id === current.id ? undefined : id);
+  };
+
+  const formatDay = (dateKey: string) => format(parseISO(dateKey), "dd/MM", { locale: ptBR });
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => selectCycle(CycleCalendarService.previous(cycle).id)}
+        title="Ciclo anterior"
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+
+      <div className="text-center min-w-32">
+        <div className="text-sm font-medium text-foreground">{cycle.label}</div>
+        <div className="text-xs text-muted-foreground">
+          {formatDay(cycle.start)} - {formatDay(cycle.end)}
+        </div>
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        onClick={() => selectCycle(CycleCalendarService.next(cycle).id)}
+        title="Próximo ciclo"
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+
+      {closing && (
+        <Badge
+          variant="outline"
+          className="h-6 gap-1 text-dashboard-warning border-dashboard-warning/30"
+          title={`Fechado em ${BusinessTimeService.formatDate(closing.closedAt)}${closing.closedByName ? ` por ${closing.closedByName}` : ""}`}
+        >
+          <Lock className="h-3 w-3" />
+          Fechado
+        </Badge>
+      )}
+
+      {!isCurrent && (
+        <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => selectCycle(current.id)}>
+          Atual
+        </Button>
+      )}
+    </div>
+  );
+}
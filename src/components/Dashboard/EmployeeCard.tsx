@@ -3,10 +3,12 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { AlertTriangle, CheckCircle, Clock } from "lucide-react";
+import { EmploymentType, EMPLOYMENT_TYPE_LABELS } from "@/services/EmploymentTypeService";
 
 interface EmployeeCardProps {
   name: string;
   role?: string;
+  employmentType?: EmploymentType;
   weeklyPoints: number;
   weeklyGoal: number;
   monthlyPoints: number;
@@ -19,6 +21,7 @@ interface EmployeeCardProps {
 export function EmployeeCard({
   name,
   role = "Funcionário",
+  employmentType = "clt",
   weeklyPoints,
   weeklyGoal,
   monthlyPoints,
@@ -71,7 +74,14 @@ export function EmployeeCard({
           </Avatar>
           <div className="flex-1">
             <CardTitle className="text-lg text-foreground">{name}</CardTitle>
-            <p className="text-sm text-muted-foreground">{role}</p>
+            <div className="flex items-center gap-2">
+              <p className="text-sm text-muted-foreground">{role}</p>
+              {employmentType !== "clt" && (
+                <Badge variant="outline" className="text-xs border-dashboard-info/40 text-dashboard-info">
+                  {EMPLOYMENT_TYPE_LABELS[employmentType]}
+                </Badge>
+              )}
+            </div>
           </div>
           <Badge 
             variant={statusConfig.variant} 
@@ -1,10 +1,14 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
 import { Bar, BarChart, ResponsiveContainer, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, FolderOpen, FileSpreadsheet, Users, TrendingUp, DollarSign } from 'lucide-react';
+import { ImportDropZone } from '@/components/Importacao/ImportDropZone';
+import { CycleCalendarService, MONTH_NAMES } from '@/services/CycleCalendarService';
+import { RosterEntry, RosterService } from '@/services/RosterService';
+import { PointRate, PointRateService } from '@/services/PointRateService';
+import { ExcelProcessorService, ProcessedExcelData } from '@/services/ExcelProcessorService';
 
 interface ExcelData {
   employees: Record<string, EmployeeData>;
@@ -47,70 +51,58 @@ interface EmployeeColors {
   backgroundColor: string;
 }
 
-const excelChartConfig = {
-  Rodrigo: {
-    label: "Rodrigo",
-    color: "rgba(168, 85, 247, 1)", // Roxo vivo
-  },
-  Maurício: {
-    label: "Maurício", 
-    color: "rgba(59, 130, 246, 1)", // Azul vivo
-  },
-  Matheus: {
-    label: "Matheus",
-    color: "rgba(34, 197, 94, 1)", // Verde vivo
-  },
-  Wesley: {
-    label: "Wesley",
-    color: "rgba(239, 68, 68, 1)", // Vermelho vivo
-  },
-};
+// Resultado da leitura das planilhas no formato do gráfico: registros agrupados por funcionário
+const toExcelData = (processed: ProcessedExcelData): ExcelData => ({
+  employees: Object.fromEntries(Object.entries(processed.employees).map(([name, employee]) => [name, {
+    total_points: employee.total,
+    records: processed.records
+      .filter(record => record.employee === name)
+      .map(record => ({
+        date: record.date.toISOString(),
+        points: record.points,
+        refinery: record.refinery,
+        month: record.month
+      })),
+    months: employee.months
+  }])),
+  statistics: processed.statistics
+});
 
 export default function ExcelDashboard() {
   const [isLoading, setIsLoading] = useState(false);
   const [data, setData] = useState<ExcelData | null>(null);
   const [statistics, setStatistics] = useState<Statistics | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [rates, setRates] = useState<PointRate[]>([]);
   const { toast } = useToast();
   const animationFrameRef = useRef<number>();
 
-  // Carregar pasta de arquivos Excel
-  const loadFolder = async () => {
+  // Ler as planilhas escolhidas (arquivos ou pasta) no navegador
+  const processFiles = async (files: File[]) => {
     if (isLoading) return;
 
-    console.log('🔍 === DEBUG: INICIANDO LOAD FOLDER ===');
     setIsLoading(true);
-    
     try {
-      console.log('🔍 Fazendo requisição para /api/excel/load_folder');
-      
-      const response = await fetch('/api/excel/load_folder', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          folder_path: 'registros monitorar'
-        })
-      });
+      const processed = await ExcelProcessorService.processExcelFiles(files);
 
-      console.log('📡 Resposta recebida:', response.status);
-
-      const responseData = await response.json();
-      console.log('📊 Dados recebidos:', responseData);
-
-      if (responseData.status === 'success') {
-        setData(responseData.data || {});
-        setStatistics(responseData.statistics || {});
-        
+      if (processed.statistics.total_files === 0) {
         toast({
-          title: "Sucesso",
-          description: "Arquivos carregados com sucesso!",
+          title: "Erro",
+          description: "Nenhuma planilha .xlsx ou .xls encontrada",
+          variant: "destructive",
         });
-      } else {
-        throw new Error(responseData.message || 'Erro ao carregar arquivos');
+        return;
       }
+
+      setData(toExcelData(processed));
+      setStatistics(processed.statistics);
+
+      toast({
+        title: "Sucesso",
+        description: `${processed.statistics.total_files} arquivos carregados com sucesso!`,
+      });
     } catch (error) {
-      console.error('Excel Dashboard: Erro ao carregar pasta:', error);
+      console.error('Excel Dashboard: Erro ao processar planilhas:', error);
       toast({
         title: "Erro",
         description: `Erro: ${error instanceof Error ? error.message : 'Erro desconhecido'}`,
@@ -121,9 +113,13 @@ export default function ExcelDashboard() {
     }
   };
 
-  // Calcular lucro total
+  // Calcular lucro total: cada registro pelo valor do ponto em vigor na sua data
+  // (sem registros detalhados, usa o valor atual sobre o total de pontos)
   const calculateProfit = (totalPoints: number): string => {
-    const profit = totalPoints * 3.25;
+    const records = Object.values(data?.employees || {}).flatMap(employee => employee.records || []);
+    const profit = records.length > 0
+      ? PointRateService.valueOf(rates, records)
+      : totalPoints * PointRateService.currentRate(rates);
     return profit.toLocaleString('pt-BR', { 
       style: 'currency', 
       currency: 'BRL' 
@@ -170,7 +166,7 @@ export default function ExcelDashboard() {
     animationFrameRef.current = requestAnimationFrame(animate);
   }, []);
 
-  // Obter mês a partir de uma data (considerando mês do dia 26 ao 25)
+  // Obter mês a partir de uma data (considerando o ciclo da empresa)
   const getMonthFromDate = (dateString: string | Date): string | null => {
     console.log('🔍 Processando data:', dateString);
     
@@ -194,35 +190,11 @@ export default function ExcelDashboard() {
         return null;
       }
       
-      // LÓGICA CORRETA: Se dia >= 26, pertence ao mês seguinte
+      // Mês de referência do ciclo da empresa (calendário de ciclos)
       const day = date.getDate();
-      let month = date.getMonth();
-      let year = date.getFullYear();
-      
-      let target_month: number;
-      let target_year: number;
-
-      if (day >= 26) {
-        // Mês seguinte
-        if (month === 11) { // Dezembro
-          target_month = 0; // Janeiro
-          target_year = year + 1;
-        } else {
-          target_month = month + 1;
-          target_year = year;
-        }
-      } else {
-        // Mês atual
-        target_month = month;
-        target_year = year;
-      }
-      
-      const monthNames = [
-        'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
-        'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'
-      ];
+      const cycle = CycleCalendarService.cycleFor(date);
       
-      const monthName = monthNames[target_month];
+      const monthName = MONTH_NAMES[cycle.month - 1];
       console.log(`  📅 Mês calculado: ${monthName} (dia ${day})`);
       
       return monthName;
@@ -233,29 +205,25 @@ export default function ExcelDashboard() {
   };
 
   // Obter cores para cada funcionário (igual ao da aba Gráficos)
+  // Nomes da planilha sem cadastro recebem cores livres da paleta automática
   const getEmployeeColors = (employeeName: string): EmployeeColors => {
-    const colorMap: Record<string, EmployeeColors> = {
-      'Matheus': {
-        borderColor: 'rgba(34, 197, 94, 1)',    // Verde vivo
-        backgroundColor: 'rgba(34, 197, 94, 0.8)'
-      },
-      'Maurício': {
-        borderColor: 'rgba(59, 130, 246, 1)',   // Azul vivo
-        backgroundColor: 'rgba(59, 130, 246, 0.8)'
-      },
-      'Rodrigo': {
-        borderColor: 'rgba(168, 85, 247, 1)',   // Roxo vivo
-        backgroundColor: 'rgba(168, 85, 247, 0.8)'
-      },
-      'Wesley': {
-        borderColor: 'rgba(239, 68, 68, 1)',    // Vermelho vivo
-        backgroundColor: 'rgba(239, 68, 68, 0.8)'
+    let color = roster.find(employee => employee.name === employeeName)?.color;
+
+    if (!color) {
+      const usedColors = roster.map(employee => employee.color);
+      const unregistered = Object.keys(data?.employees || {})
+        .filter(name => !roster.some(employee => employee.name === name));
+      for (const name of unregistered) {
+        color = RosterService.suggestColor(usedColors);
+        usedColors.push(color);
+        if (name === employeeName) break;
       }
-    };
-    
-    return colorMap[employeeName] || {
-      borderColor: 'rgba(107, 114, 128, 1)',      // Cinza escuro
-      backgroundColor: 'rgba(107, 114, 128, 0.8)'
+    }
+
+    const resolved = color || RosterService.colorForIndex(0);
+    return {
+      borderColor: resolved,
+      backgroundColor: `${resolved}cc`
     };
   };
 
@@ -712,7 +680,6 @@ export default function ExcelDashboard() {
         debugDataStructure,
         debugDuplication,
         debugMonthProcessing,
-        loadFolder,
         showMessage
       };
       
@@ -721,7 +688,6 @@ export default function ExcelDashboard() {
       console.log('  window.excelDebug.debugDataStructure() - Analisar estrutura dos dados');
       console.log('  window.excelDebug.debugDuplication() - Debug específico para duplicação');
       console.log('  window.excelDebug.debugMonthProcessing() - Debug para processamento de meses');
-      console.log('  window.excelDebug.loadFolder() - Carregar pasta Excel (DADOS REAIS)');
     }
     
     return () => {
@@ -731,6 +697,12 @@ export default function ExcelDashboard() {
     };
   }, [data, statistics]);
 
+  // Cores cadastradas dos funcionários
+  useEffect(() => {
+    RosterService.getRoster().then(setRoster);
+    PointRateService.getRates().then(setRates);
+  }, []);
+
   // Cleanup na desmontagem
   useEffect(() => {
     return () => {
@@ -741,11 +713,16 @@ export default function ExcelDashboard() {
   }, []);
 
   const chartData = prepareChartData();
+  const employeeNames = Object.keys(data?.employees || {});
+  const chartConfig = Object.fromEntries(employeeNames.map(name => [
+    name,
+    { label: name, color: getEmployeeColors(name).borderColor }
+  ]));
   const totalPoints = statistics?.total_points || statistics?.totalPoints || 0;
 
   return (
     <div className="space-y-6">
-      {/* Load Button */}
+      {/* File Picker */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
@@ -754,23 +731,7 @@ export default function ExcelDashboard() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <Button 
-            onClick={loadFolder} 
-            disabled={isLoading}
-            className="w-full sm:w-auto"
-          >
-            {isLoading ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Carregando...
-              </>
-            ) : (
-              <>
-                <FolderOpen className="mr-2 h-4 w-4" />
-                Carregar Pasta
-              </>
-            )}
-          </Button>
+          <ImportDropZone allowFolders disabled={isLoading} onFiles={processFiles} />
         </CardContent>
       </Card>
 
@@ -832,7 +793,7 @@ export default function ExcelDashboard() {
                 {calculateProfit(totalPoints)}
               </div>
               <p className="text-xs text-muted-foreground">
-                {calculateProfit(totalPoints)} (pontos x R$ 3,25)
+                {calculateProfit(totalPoints)} (pontos x valor do ponto na data)
               </p>
             </CardContent>
           </Card>
@@ -846,7 +807,7 @@ export default function ExcelDashboard() {
             <CardTitle>Evolução dos Funcionários</CardTitle>
           </CardHeader>
           <CardContent>
-            <ChartContainer config={excelChartConfig} className="h-[400px]">
+            <ChartContainer config={chartConfig} className="h-[400px]">
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={chartData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
@@ -868,11 +829,11 @@ export default function ExcelDashboard() {
                     labelFormatter={(label) => `📅 ${label}`}
                   />
                   <Legend />
-                  {Object.keys(excelChartConfig).map((employeeName, index) => (
+                  {employeeNames.map(employeeName => (
                     <Bar
                       key={employeeName}
                       dataKey={employeeName}
-                      fill={`var(--color-${employeeName})`}
+                      fill={chartConfig[employeeName].color}
                       radius={[4, 4, 0, 0]}
                     />
                   ))}
@@ -5,10 +5,10 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Calendar, MapPin, MessageSquare, TrendingUp, Search, Filter } from "lucide-react";
-import { EmployeeService, Entry } from "@/services/EmployeeService";
-import { format } from "date-fns";
-import { ptBR } from "date-fns/locale";
+import { Calendar, CalendarOff, MapPin, MessageSquare, TrendingUp, Search, Filter } from "lucide-react";
+import { EmployeeService, Entry, EntryStatus } from "@/services/EmployeeService";
+import { Absence, AbsenceService } from "@/services/AbsenceService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
 
 interface HistoryTabProps {
   employeeId: number;
@@ -16,6 +16,7 @@ interface HistoryTabProps {
 
 export const HistoryTab = ({ employeeId }: HistoryTabProps) => {
   const [entries, setEntries] = useState<Entry[]>([]);
+  const [absences, setAbsences] = useState<Absence[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterType, setFilterType] = useState<"all" | "week" | "month">("all");
@@ -30,15 +31,14 @@ export const HistoryTab = ({ employeeId }: HistoryTabProps) => {
       const currentPage = reset ? 0 : page;
       
       let dateFilter: { start?: string; end?: string } | undefined;
-      const now = new Date();
+      const today = BusinessTimeService.today();
       
       if (filterType === "week") {
-        const weekStart = new Date(now);
-        weekStart.setDate(now.getDate() - now.getDay());
-        dateFilter = { start: weekStart.toISOString().split('T')[0] };
+        // Semana corrente começando no domingo
+        const weekDay = new Date(`${today}T12:00:00Z`).getUTCDay();
+        dateFilter = { start: BusinessTimeService.addDays(today, -weekDay) };
       } else if (filterType === "month") {
-        const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-        dateFilter = { start: monthStart.toISOString().split('T')[0] };
+        dateFilter = { start: `${today.slice(0, 8)}01` };
       }
       
       const newEntries = await EmployeeService.getEmployeeEntries(
@@ -69,6 +69,11 @@ export const HistoryTab = ({ employeeId }: HistoryTabProps) => {
     loadEntries(true);
   }, [employeeId, filterType]);
 
+  // Ausências aprovadas do funcionário (marcadas no histórico)
+  useEffect(() => {
+    AbsenceService.getAbsences({ employeeId, status: "approved" }).then(setAbsences);
+  }, [employeeId]);
+
   const filteredEntries = entries.filter(entry =>
     entry.observations.toLowerCase().includes(searchTerm.toLowerCase()) ||
     entry.refinery.toLowerCase().includes(searchTerm.toLowerCase())
@@ -76,7 +81,7 @@ export const HistoryTab = ({ employeeId }: HistoryTabProps) => {
 
   const formatDate = (dateString: string) => {
     try {
-      return format(new Date(dateString), "dd/MM/yyyy", { locale: ptBR });
+      return BusinessTimeService.formatDate(dateString);
     } catch {
       return dateString;
     }
@@ -84,12 +89,29 @@ export const HistoryTab = ({ employeeId }: HistoryTabProps) => {
 
   const formatTime = (dateString: string) => {
     try {
-      return format(new Date(dateString), "HH:mm", { locale: ptBR });
+      return BusinessTimeService.formatTime(dateString);
     } catch {
       return "";
     }
   };
 
+  // Ausências que tocam o intervalo dos registros carregados
+  const oldestLoaded = entries.length ? BusinessTimeService.toDateKey(entries[entries.length - 1].date) : null;
+  const visibleAbsences = oldestLoaded
+    ? absences.filter(absence => absence.end_date >= oldestLoaded)
+    : absences.slice(0, 3);
+
+  const getStatusBadge = (status: EntryStatus) => {
+    switch (status) {
+      case "approved":
+        return <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">Aprovado</Badge>;
+      case "rejected":
+        return <Badge variant="destructive">Recusado</Badge>;
+      default:
+        return <Badge variant="secondary" className="bg-dashboard-warning/20 text-dashboard-warning border-dashboard-warning/30">Pendente</Badge>;
+    }
+  };
+
   const getPointsBadgeVariant = (points: number) => {
     if (points >= 500) return "default";
     if (points >= 300) return "secondary";
@@ -131,6 +153,22 @@ export const HistoryTab = ({ employeeId }: HistoryTabProps) => {
       </CardHeader>
       
       <CardContent>
+        {visibleAbsences.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <span className="text-sm text-muted-foreground">Ausências:</span>
+            {visibleAbsences.map(absence => (
+              <Badge
+                key={absence.id}
+                variant="secondary"
+                className="bg-dashboard-info/20 text-dashboard-info border-dashboard-info/30 flex items-center gap-1"
+              >
+                <CalendarOff className="w-3 h-3" />
+                {AbsenceService.label(absence.type)}: {AbsenceService.formatPeriod(absence)}
+              </Badge>
+            ))}
+          </div>
+        )}
+
         {loading && entries.length === 0 ? (
           <div className="flex items-center justify-center py-8">
             <div className="text-center">
@@ -162,45 +200,66 @@ export const HistoryTab = ({ employeeId }: HistoryTabProps) => {
                     <TableHead className="font-semibold">Refinaria</TableHead>
                     <TableHead className="font-semibold">Pontos</TableHead>
                     <TableHead className="font-semibold">Observações</TableHead>
+                    <TableHead className="font-semibold">Status</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredEntries.map((entry) => (
-                    <TableRow key={entry.id} className="hover:bg-muted/30">
-                      <TableCell className="font-medium">
-                        <div className="flex items-center gap-2">
-                          <Calendar className="w-4 h-4 text-muted-foreground" />
-                          {formatDate(entry.date)}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2 text-muted-foreground">
-                          {formatTime(entry.date)}
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex items-center gap-2">
-                          <MapPin className="w-4 h-4 text-muted-foreground" />
-                          <span className="font-medium">{entry.refinery}</span>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge 
-                          variant={getPointsBadgeVariant(entry.points)}
-                          className="flex items-center gap-1"
-                        >
-                          <TrendingUp className="w-3 h-3" />
-                          {entry.points}
-                        </Badge>
-                      </TableCell>
-                      <TableCell className="max-w-xs">
-                        <div className="flex items-start gap-2">
-                          <MessageSquare className="w-4 h-4 text-muted-foreground mt-0.5" />
-                          <span className="text-sm break-words">{entry.observations}</span>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
+                  {filteredEntries.map((entry) => {
+                    const absence = AbsenceService.absenceOn(absences, employeeId, BusinessTimeService.toDateKey(entry.date));
+                    return (
+                      <TableRow key={entry.id} className="hover:bg-muted/30">
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            <Calendar className="w-4 h-4 text-muted-foreground" />
+                            {formatDate(entry.date)}
+                            {absence && (
+                              <Badge
+                                variant="secondary"
+                                className="bg-dashboard-info/20 text-dashboard-info border-dashboard-info/30"
+                                title={AbsenceService.formatPeriod(absence)}
+                              >
+                                {AbsenceService.label(absence.type)}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2 text-muted-foreground">
+                            {formatTime(entry.date)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <MapPin className="w-4 h-4 text-muted-foreground" />
+                            <span className="font-medium">{entry.refinery}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge 
+                            variant={getPointsBadgeVariant(entry.points)}
+                            className="flex items-center gap-1"
+                          >
+                            <TrendingUp className="w-3 h-3" />
+                            {entry.points}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="max-w-xs">
+                          <div className="flex items-start gap-2">
+                            <MessageSquare className="w-4 h-4 text-muted-foreground mt-0.5" />
+                            <span className="text-sm break-words">{entry.observations}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="max-w-xs">
+                          {getStatusBadge(entry.status)}
+                          {entry.status === "rejected" && entry.rejection_reason && (
+                            <p className="text-xs text-dashboard-danger mt-1 break-words">
+                              Motivo: {entry.rejection_reason}
+                            </p>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
                 </TableBody>
               </Table>
             </div>
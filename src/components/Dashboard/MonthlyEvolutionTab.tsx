@@ -3,13 +3,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
 import { TrendingUp } from "lucide-react";
 import { EmployeeService, Entry } from "@/services/EmployeeService";
-import { CalculationsService } from "@/services/CalculationsService";
+import { CycleCalendarService } from "@/services/CycleCalendarService";
+import { BusinessCalendarService } from "@/services/BusinessCalendarService";
 import { format, startOfMonth, endOfMonth, eachWeekOfInterval, startOfWeek, endOfWeek, parseISO } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
 interface MonthlyEvolutionTabProps {
   employeeId: number;
-  monthlyGoal: number;
+  monthlyGoal: number;  // já proporcional aos dias úteis do ciclo
+  cycleId?: string;
 }
 
 interface WeeklyData {
@@ -17,9 +19,10 @@ interface WeeklyData {
   weekLabel: string;
   points: number;
   goal: number;
+  workingDays: number;
 }
 
-export const MonthlyEvolutionTab = ({ employeeId, monthlyGoal }: MonthlyEvolutionTabProps) => {
+export const MonthlyEvolutionTab = ({ employeeId, monthlyGoal, cycleId }: MonthlyEvolutionTabProps) => {
   const [entries, setEntries] = useState<Entry[]>([]);
   const [weeklyData, setWeeklyData] = useState<WeeklyData[]>([]);
   const [loading, setLoading] = useState(true);
@@ -29,48 +32,40 @@ export const MonthlyEvolutionTab = ({ employeeId, monthlyGoal }: MonthlyEvolutio
       setLoading(true);
       
       // Buscar dados do mês atual
-      const monthDates = CalculationsService.getMonthCycleDates();
+      await BusinessCalendarService.load();
+      const cycle = cycleId ? CycleCalendarService.fromId(cycleId) : CycleCalendarService.current();
       const monthEntries = await EmployeeService.getEmployeeEntries(
         employeeId,
         100, // Limite alto para pegar todos os dados do mês
         0,
-        monthDates
+        { start: cycle.start, end: cycle.end }
       );
       
       setEntries(monthEntries);
       
-      // Calcular dados por semana usando o sistema 26→25
-      const weeklyGoal = monthlyGoal / 5; // Sempre 5 semanas
+      // Calcular dados por semana do ciclo (a última pode ser parcial): a meta mensal
+      // é dividida entre as semanas pelos dias úteis de cada uma
+      const weeks = CycleCalendarService.weeksOf(cycle);
+      const cycleWorkingDays = BusinessCalendarService.workingDaysBetween(cycle.start, cycle.end);
       
-      const chartData: WeeklyData[] = [];
-      
-      // Iterar pelas 5 semanas do sistema
-      for (let weekNum = 1; weekNum <= 5; weekNum++) {
-        try {
-          const weekDates = CalculationsService.getWeekDates(weekNum.toString());
-          const weekEntries = monthEntries.filter(entry => {
-            const entryDate = entry.date.split('T')[0]; // Pegar apenas a data
-            return entryDate >= weekDates.start && entryDate <= weekDates.end;
-          });
-          
-          const weekPoints = weekEntries.reduce((sum, entry) => sum + entry.points, 0);
-          
-          chartData.push({
-            week: `week-${weekNum}`,
-            weekLabel: `Semana ${weekNum}`,
-            points: weekPoints,
-            goal: Math.round(weeklyGoal)
-          });
-        } catch (error) {
-          // Se der erro ao calcular uma semana, adicionar dados zerados
-          chartData.push({
-            week: `week-${weekNum}`,
-            weekLabel: `Semana ${weekNum}`,
-            points: 0,
-            goal: Math.round(weeklyGoal)
-          });
-        }
-      }
+      const chartData: WeeklyData[] = weeks.map(week => {
+        // Só pontos aprovados contam para a meta
+        const weekEntries = monthEntries.filter(entry => {
+          const entryDate = CycleCalendarService.toDateKey(entry.date);
+          return entry.status === 'approved' && entryDate >= week.start && entryDate <= week.end;
+        });
+        
+        const weekPoints = weekEntries.reduce((sum, entry) => sum + entry.points, 0);
+        const workingDays = BusinessCalendarService.workingDaysBetween(week.start, week.end);
+        
+        return {
+          week: `week-${week.number}`,
+          weekLabel: `Semana ${week.number}`,
+          points: weekPoints,
+          goal: cycleWorkingDays > 0 ? Math.round(monthlyGoal * workingDays / cycleWorkingDays) : 0,
+          workingDays
+        };
+      });
       
       setWeeklyData(chartData);
       
@@ -83,7 +78,7 @@ export const MonthlyEvolutionTab = ({ employeeId, monthlyGoal }: MonthlyEvolutio
 
   useEffect(() => {
     loadMonthlyData();
-  }, [employeeId, monthlyGoal]);
+  }, [employeeId, monthlyGoal, cycleId]);
 
   if (loading) {
     return (
@@ -133,7 +128,10 @@ export const MonthlyEvolutionTab = ({ employeeId, monthlyGoal }: MonthlyEvolutio
                   tickLine={false}
                 />
                 <Tooltip 
-                  labelFormatter={(value) => value}
+                  labelFormatter={(value, payload) => {
+                    const workingDays = payload?.[0]?.payload?.workingDays;
+                    return workingDays === undefined ? value : `${value} (${workingDays} dias úteis)`;
+                  }}
                   formatter={(value: number, name: string) => [
                     value.toLocaleString(), 
                     name === 'points' ? 'Pontos' : 'Meta'
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalculationsService } from "@/services/CalculationsService";
 
 interface ProgressSectionProps {
   totalPoints: number;
@@ -8,6 +9,7 @@ interface ProgressSectionProps {
   completedPercentage: number;
   selectedWeek: string;
   onWeekChange: (week: string) => void;
+  cycleId?: string;
 }
 
 export function ProgressSection({ 
@@ -15,7 +17,8 @@ export function ProgressSection({
   totalGoal, 
   completedPercentage, 
   selectedWeek, 
-  onWeekChange 
+  onWeekChange,
+  cycleId
 }: ProgressSectionProps) {
   return (
     <Card className="bg-gradient-card shadow-card border-border mb-6">
@@ -49,11 +52,9 @@ export function ProgressSection({
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="1">Semana 1</SelectItem>
-                <SelectItem value="2">Semana 2</SelectItem>
-                <SelectItem value="3">Semana 3</SelectItem>
-                <SelectItem value="4">Semana 4</SelectItem>
-                <SelectItem value="5">Semana 5</SelectItem>
+                {CalculationsService.getAvailableWeeks(cycleId).map(week => (
+                  <SelectItem key={week} value={week}>Semana {week}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { BonusTier, PayrollService } from "@/services/PayrollService";
+import { Plus, Save, Trash2 } from "lucide-react";
+
+interface BonusTiersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChange: () => void;  // faixas alteradas: recalcular o fechamento
+}
+
+// Linha em edição (texto para permitir campo vazio); id ausente = faixa nova
+interface TierDraft {
+  id?: number;
+  name: string;
+  minAttainment: string;
+  bonusValue: string;
+}
+
+const toDraft = (tier: BonusTier): TierDraft => ({
+  id: tier.id,
+  name: tier.name,
+  minAttainment: String(tier.min_attainment),
+  bonusValue: String(tier.bonus_value)
+});
+
+export function BonusTiersDialog({ open, onOpenChange, onChange }: BonusTiersDialogProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<TierDraft[]>([]);
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+
+  const loadTiers = async () => {
+    const tiers = await PayrollService.getBonusTiers();
+    setDrafts(tiers.map(toDraft));
+  };
+
+  useEffect(() => {
+    if (open) loadTiers();
+  }, [open]);
+
+  const updateDraft = (index: number, changes: Partial<TierDraft>) => {
+    setDrafts(current => current.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  const parseDraft = (draft: TierDraft) => {
+    const minAttainment = Number(draft.minAttainment.replace(",", "."));
+    const bonusValue = Number(draft.bonusValue.replace(",", "."));
+    const valid = !!draft.name.trim() &&
+      draft.minAttainment.trim() !== "" && Number.isFinite(minAttainment) && minAttainment >= 0 &&
+      draft.bonusValue.trim() !== "" && Number.isFinite(bonusValue) && bonusValue >= 0;
+    return valid ? { name: draft.name.trim(), min_attainment: minAttainment, bonus_value: bonusValue } : null;
+  };
+
+  const handleSave = async (index: number) => {
+    const fields = parseDraft(drafts[index]);
+    if (!fields) return;
+
+    setSavingIndex(index);
+    const saved = await PayrollService.saveBonusTier(fields, drafts[index].id);
+    setSavingIndex(null);
+
+    if (!saved) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a faixa. Verifique se já existe uma faixa com o mesmo atingimento.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await loadTiers();
+    onChange();
+  };
+
+  const handleDelete = async (index: number) => {
+    const draft = drafts[index];
+    if (!draft.id) {
+      setDrafts(current => current.filter((_, i) => i !== index));
+      return;
+    }
+
+    if (!await PayrollService.deleteBonusTier(draft.id)) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir a faixa",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await loadTiers();
+    onChange();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Faixas de Bônus</DialogTitle>
+          <DialogDescription>
+            Quem atinge o percentual mínimo da meta mensal recebe o bônus da maior faixa atingida.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border hover:bg-secondary/20">
+              <TableHead className="text-foreground">Faixa</TableHead>
+              <TableHead className="text-foreground">Atingimento mínimo (%)</TableHead>
+              <TableHead className="text-foreground">Bônus (R$)</TableHead>
+              <TableHead className="text-foreground">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {drafts.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                  Nenhuma faixa cadastrada.
+                </TableCell>
+              </TableRow>
+            ) : (
+              drafts.map((draft, index) => (
+                <TableRow key={draft.id ?? `new-${index}`} className="border-border hover:bg-secondary/10">
+                  <TableCell>
+                    <Input
+                      value={draft.name}
+                      onChange={(e) => updateDraft(index, { name: e.target.value })}
+                      placeholder="Ex.: Ouro"
+                      className="h-8 bg-secondary border-border"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={draft.minAttainment}
+                      onChange={(e) => updateDraft(index, { minAttainment: e.target.value })}
+                      className="h-8 w-28 bg-secondary border-border"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={draft.bonusValue}
+                      onChange={(e) => updateDraft(index, { bonusValue: e.target.value })}
+                      className="h-8 w-32 bg-secondary border-border"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 hover:bg-dashboard-primary/20"
+                        onClick={() => handleSave(index)}
+                        disabled={!parseDraft(draft) || savingIndex === index}
+                        title="Salvar faixa"
+                      >
+                        <Save className="h-4 w-4 text-dashboard-primary" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                        onClick={() => handleDelete(index)}
+                        title="Excluir faixa"
+                      >
+                        <Trash2 className="h-4 w-4 text-dashboard-danger" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setDrafts(current => [...current, { name: "", minAttainment: "", bonusValue: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Nova faixa
+          </Button>
+          <Button type="button" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Copy, Check, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface AccessKeyDialogProps {
+  reveal: { employeeName: string; accessKey: string } | null;
+  onClose: () => void;
+}
+
+// Exibe a chave de acesso recém-gerada; depois de fechado, não há como vê-la de novo
+export function AccessKeyDialog({ reveal, onClose }: AccessKeyDialogProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    if (!reveal) return;
+    try {
+      await navigator.clipboard.writeText(reveal.accessKey);
+      setCopied(true);
+    } catch (error) {
+      console.error('Erro ao copiar chave de acesso:', error);
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setCopied(false);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!reveal} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Chave de acesso de {reveal?.employeeName}
+          </DialogTitle>
+          <DialogDescription>
+            Anote ou copie a chave agora. Ela não será exibida novamente; se for perdida, gere uma nova.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 p-4 rounded-lg border border-border bg-secondary/30">
+          <code className="flex-1 text-2xl font-mono font-bold tracking-widest text-dashboard-primary text-center">
+            {reveal?.accessKey}
+          </code>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={handleCopy} title="Copiar chave">
+            {copied ? <Check className="h-4 w-4 text-dashboard-success" /> : <Copy className="h-4 w-4" />}
+          </Button>
+        </div>
+
+        <DialogFooter>
+          <Button className="bg-gradient-primary hover:opacity-90 text-white" onClick={() => handleOpenChange(false)}>
+            Concluído
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
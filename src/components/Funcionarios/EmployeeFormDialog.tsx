@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Employee, EmployeeFields } from "@/services/EmployeeService";
+import { EMPLOYMENT_TYPES, EMPLOYMENT_TYPE_LABELS, EmploymentType } from "@/services/EmploymentTypeService";
+import { useRefineries } from "@/hooks/use-refineries";
+
+interface EmployeeFormDialogProps {
+  open: boolean;
+  employee: Employee | null;  // null = novo funcionário
+  suggestedColor: string;     // cor livre da paleta, usada quando o funcionário não tem cor
+  weeklyGoal: number;         // meta semanal vigente no ciclo atual (tabela goal)
+  saving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (fields: EmployeeFields, weeklyGoal: number) => void;
+}
+
+export function EmployeeFormDialog({ open, employee, suggestedColor, weeklyGoal: currentWeeklyGoal, saving = false, onOpenChange, onSave }: EmployeeFormDialogProps) {
+  const [realName, setRealName] = useState("");
+  const [name, setName] = useState("");
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState("");
+  const [defaultRefinery, setDefaultRefinery] = useState("");
+  const [weeklyGoal, setWeeklyGoal] = useState("");
+  const [employmentType, setEmploymentType] = useState<EmploymentType>("clt");
+  const [color, setColor] = useState("");
+  const { refineries } = useRefineries();
+
+  // Preencher o formulário ao abrir (vazio para novo funcionário)
+  useEffect(() => {
+    if (!open) return;
+    setRealName(employee?.real_name || "");
+    setName(employee?.name || "");
+    setUsername(employee?.username || "");
+    setRole(employee?.role || "");
+    setDefaultRefinery(employee?.default_refinery || "");
+    setWeeklyGoal(String(currentWeeklyGoal));
+    setEmploymentType(employee?.employment_type || "clt");
+    setColor(employee?.color || suggestedColor);
+  }, [open, employee, suggestedColor, currentWeeklyGoal]);
+
+  const parsedGoal = Number(weeklyGoal);
+  const isValid = !!realName.trim() && !!username.trim() && !!defaultRefinery &&
+    weeklyGoal.trim() !== "" && Number.isInteger(parsedGoal) && parsedGoal >= 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    onSave({
+      real_name: realName.trim(),
+      name: name.trim() || realName.trim(),
+      username: username.trim().toUpperCase(),
+      role: role.trim(),
+      default_refinery: defaultRefinery,
+      employment_type: employmentType,
+      color
+    }, parsedGoal);
+  };
+
+  // Refinarias ativas; a refinaria atual do cadastro continua selecionável mesmo se desativada
+  const activeNames = refineries.map(refinery => refinery.name);
+  const refineryOptions = defaultRefinery && !activeNames.includes(defaultRefinery)
+    ? [defaultRefinery, ...activeNames]
+    : activeNames;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{employee ? "Editar Funcionário" : "Novo Funcionário"}</DialogTitle>
+          <DialogDescription>
+            {employee
+              ? "Altere os dados do cadastro e salve."
+              : "Após o cadastro, a chave de acesso será exibida uma única vez."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="employee-real-name">Nome:</Label>
+              <Input id="employee-real-name" value={realName} onChange={(e) => setRealName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="employee-name">Nome de exibição:</Label>
+              <Input
+                id="employee-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={realName || "Igual ao nome"}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="employee-username">Usuário:</Label>
+              <Input id="employee-username" value={username} onChange={(e) => setUsername(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="employee-role">Função:</Label>
+              <Input id="employee-role" value={role} onChange={(e) => setRole(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Refinaria padrão:</Label>
+              <Select value={defaultRefinery} onValueChange={setDefaultRefinery}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a refinaria" />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {refineryOptions.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="employee-weekly-goal" title="Vale a partir do ciclo atual; metas de outros ciclos ficam em Metas">
+                Meta semanal:
+              </Label>
+              <Input
+                id="employee-weekly-goal"
+                type="number"
+                min={0}
+                step={1}
+                value={weeklyGoal}
+                onChange={(e) => setWeeklyGoal(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Vínculo:</Label>
+              <Select value={employmentType} onValueChange={(value) => setEmploymentType(value as EmploymentType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {EMPLOYMENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{EMPLOYMENT_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="employee-color">Cor nos gráficos:</Label>
+              <div className="flex items-center gap-2">
+                <Input
+                  id="employee-color"
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColor(e.target.value)}
+                  className="w-16 h-10 p-1 bg-secondary border-border"
+                />
+                <span className="font-mono text-sm text-muted-foreground">{color}</span>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="bg-gradient-primary hover:opacity-90 text-white" disabled={!isValid || saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_EMPLOYMENT_RULES,
+  EMPLOYMENT_TYPES,
+  EMPLOYMENT_TYPE_LABELS,
+  EmploymentType,
+  EmploymentTypeRules,
+  EmploymentTypeService,
+  TEAM_METRIC_LABELS,
+  TeamMetric
+} from "@/services/EmploymentTypeService";
+import { SlidersHorizontal } from "lucide-react";
+
+const METRICS: TeamMetric[] = ["teamAverage", "teamGoal", "leaderboard"];
+
+// Regra por vínculo: quem entra na média da equipe, na meta da equipe e no destaque
+export function EmploymentRulesCard() {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<EmploymentTypeRules>(DEFAULT_EMPLOYMENT_RULES);
+
+  useEffect(() => {
+    EmploymentTypeService.getRules().then(setRules);
+  }, []);
+
+  // Alteração otimista: o switch muda na hora e volta se o banco recusar
+  const handleToggle = async (type: EmploymentType, metric: TeamMetric, included: boolean) => {
+    const previous = rules;
+    const rule = { ...rules[type], [metric]: included };
+    setRules({ ...rules, [type]: rule });
+
+    if (!await EmploymentTypeService.saveRule(type, rule)) {
+      setRules(previous);
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a regra",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <SlidersHorizontal className="h-5 w-5" />
+          Vínculos nas métricas da equipe
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border hover:bg-secondary/20">
+              <TableHead className="text-foreground">Vínculo</TableHead>
+              {METRICS.map(metric => (
+                <TableHead key={metric} className="text-foreground text-center">{TEAM_METRIC_LABELS[metric]}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {EMPLOYMENT_TYPES.map(type => (
+              <TableRow key={type} className="border-border hover:bg-secondary/10">
+                <TableCell className="font-medium text-foreground">{EMPLOYMENT_TYPE_LABELS[type]}</TableCell>
+                {METRICS.map(metric => (
+                  <TableCell key={metric} className="text-center">
+                    <Switch
+                      checked={rules[type][metric]}
+                      onCheckedChange={(checked) => handleToggle(type, metric, checked)}
+                      aria-label={`${TEAM_METRIC_LABELS[metric]}: ${EMPLOYMENT_TYPE_LABELS[type]}`}
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
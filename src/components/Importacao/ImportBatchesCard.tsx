@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CalculationsService } from "@/services/CalculationsService";
+import type { ImportBatch } from "@/services/ImportService";
+import { Clock, History, Undo2 } from "lucide-react";
+
+interface ImportBatchesCardProps {
+  batches: ImportBatch[];
+  loading: boolean;
+  onRollback: (batch: ImportBatch) => void;
+}
+
+export function ImportBatchesCard({ batches, loading, onRollback }: ImportBatchesCardProps) {
+  const [pendingRollback, setPendingRollback] = useState<ImportBatch | null>(null);
+
+  const formatTimestamp = (value: string) => {
+    const { date, time } = CalculationsService.formatTimestampBR(value);
+    return `${date} ${time}`;
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <History className="h-5 w-5" />
+          Importações anteriores
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border hover:bg-secondary/20">
+              <TableHead className="text-foreground">Lote</TableHead>
+              <TableHead className="text-foreground">Quando</TableHead>
+              <TableHead className="text-foreground">Arquivos</TableHead>
+              <TableHead className="text-foreground text-right">Importados</TableHead>
+              <TableHead className="text-foreground text-right">Ignorados</TableHead>
+              <TableHead className="text-foreground">Situação</TableHead>
+              <TableHead className="text-foreground">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                  Carregando importações...
+                </TableCell>
+              </TableRow>
+            ) : batches.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  Nenhuma importação feita.
+                </TableCell>
+              </TableRow>
+            ) : (
+              batches.map(batch => (
+                <TableRow key={batch.id} className="border-border hover:bg-secondary/10">
+                  <TableCell className="font-mono text-muted-foreground">#{batch.id}</TableCell>
+                  <TableCell className="text-foreground">
+                    {formatTimestamp(batch.createdAt)}
+                    {batch.createdByName && <div className="text-xs text-muted-foreground">{batch.createdByName}</div>}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground max-w-xs truncate" title={batch.fileNames.join(", ")}>
+                    {batch.fileNames.join(", ")}
+                  </TableCell>
+                  <TableCell className="font-mono text-right text-dashboard-primary font-bold">
+                    {batch.insertedCount.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="font-mono text-right text-muted-foreground">
+                    {batch.skippedCount.toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {batch.rolledBackAt ? (
+                      <Badge
+                        variant="outline"
+                        className="text-muted-foreground"
+                        title={batch.rolledBackByName ? `Desfeita por ${batch.rolledBackByName}` : undefined}
+                      >
+                        Desfeita em {formatTimestamp(batch.rolledBackAt)}
+                      </Badge>
+                    ) : (
+                      <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">
+                        Importada
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                      onClick={() => setPendingRollback(batch)}
+                      disabled={!!batch.rolledBackAt}
+                      title="Desfazer importação"
+                    >
+                      <Undo2 className="h-4 w-4 text-dashboard-danger" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+
+      <AlertDialog open={!!pendingRollback} onOpenChange={(open) => !open && setPendingRollback(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Desfazer importação #{pendingRollback?.id}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os {pendingRollback?.insertedCount.toLocaleString()} registros criados por esta importação serão excluídos.
+              Registros em ciclos já fechados impedem a operação.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (pendingRollback) onRollback(pendingRollback);
+                setPendingRollback(null);
+              }}
+            >
+              Desfazer
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,78 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { FileSpreadsheet, FolderOpen, Upload } from "lucide-react";
+
+interface ImportDropZoneProps {
+  disabled?: boolean;
+  allowFolders?: boolean;       // botão para escolher uma pasta inteira (webkitdirectory)
+  onFiles: (files: File[]) => void;
+}
+
+export function ImportDropZone({ disabled = false, allowFolders = false, onFiles }: ImportDropZoneProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    if (!disabled && e.dataTransfer.files.length) {
+      onFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+      className={`flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-10 text-center transition-colors ${
+        dragging ? "border-dashboard-primary bg-dashboard-primary/10" : "border-border"
+      }`}
+    >
+      <FileSpreadsheet className="h-10 w-10 text-muted-foreground" />
+      <div>
+        <p className="font-medium text-foreground">Arraste as planilhas aqui</p>
+        <p className="text-sm text-muted-foreground">
+          Arquivos .xlsx ou .xls, um por funcionário, com as colunas Data, Pontos e Refinaria
+        </p>
+      </div>
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button variant="dashboard" onClick={() => inputRef.current?.click()} disabled={disabled}>
+          <Upload className="h-4 w-4 mr-1" />
+          Selecionar arquivos
+        </Button>
+        {allowFolders && (
+          <Button variant="outline" onClick={() => folderRef.current?.click()} disabled={disabled}>
+            <FolderOpen className="h-4 w-4 mr-1" />
+            Selecionar pasta
+          </Button>
+        )}
+      </div>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".xlsx,.xls"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files?.length) onFiles(Array.from(e.target.files));
+          e.target.value = "";
+        }}
+      />
+      {allowFolders && (
+        <input
+          ref={folderRef}
+          type="file"
+          multiple
+          className="hidden"
+          {...{ webkitdirectory: "" }}
+          onChange={(e) => {
+            if (e.target.files?.length) onFiles(Array.from(e.target.files));
+            e.target.value = "";
+          }}
+        />
+      )}
+    </div>
+  );
+}
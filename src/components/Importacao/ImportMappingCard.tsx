@@ -0,0 +1,98 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Employee } from "@/services/EmployeeService";
+import type { SheetData } from "@/services/ExcelProcessorService";
+import { ImportColumn, ImportMapping, ImportService } from "@/services/ImportService";
+import { Columns3 } from "lucide-react";
+
+interface ImportMappingCardProps {
+  sheets: SheetData[];
+  mapping: ImportMapping;
+  employees: Employee[];
+  onChange: (mapping: ImportMapping) => void;
+}
+
+// O Select não aceita valor vazio: "none" representa coluna não usada / sem funcionário
+const NONE = "none";
+
+const COLUMN_LABELS: Record<ImportColumn, string> = {
+  date: "Data",
+  points: "Pontos",
+  refinery: "Refinaria (vazia = refinaria padrão do funcionário)",
+  observations: "Observações"
+};
+
+export function ImportMappingCard({ sheets, mapping, employees, onChange }: ImportMappingCardProps) {
+  const headers = ImportService.headersOf(sheets);
+
+  const setColumn = (column: ImportColumn, header: string) => {
+    onChange({ ...mapping, columns: { ...mapping.columns, [column]: header === NONE ? "" : header } });
+  };
+
+  const setEmployee = (fileName: string, employeeId: string) => {
+    onChange({
+      ...mapping,
+      employees: { ...mapping.employees, [fileName]: employeeId === NONE ? undefined : Number(employeeId) }
+    });
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-foreground">
+          <Columns3 className="h-5 w-5" />
+          Mapeamento
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-foreground">Colunas</h3>
+          {(Object.keys(COLUMN_LABELS) as ImportColumn[]).map(column => (
+            <div key={column} className="space-y-1">
+              <Label>{COLUMN_LABELS[column]}:</Label>
+              <Select value={mapping.columns[column] || NONE} onValueChange={(value) => setColumn(column, value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  <SelectItem value={NONE}>Não usar</SelectItem>
+                  {headers.map(header => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-foreground">Funcionário de cada arquivo</h3>
+          {sheets.map(sheet => (
+            <div key={sheet.fileName} className="space-y-1">
+              <Label className="truncate block" title={sheet.fileName}>
+                {sheet.fileName} ({sheet.rows.length} linhas):
+              </Label>
+              <Select
+                value={mapping.employees[sheet.fileName] ? String(mapping.employees[sheet.fileName]) : NONE}
+                onValueChange={(value) => setEmployee(sheet.fileName, value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  <SelectItem value={NONE}>Selecione o funcionário</SelectItem>
+                  {employees.map(employee => (
+                    <SelectItem key={employee.id} value={String(employee.id)}>
+                      {employee.real_name}{employee.active ? "" : " (inativo)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
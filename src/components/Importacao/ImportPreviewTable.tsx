@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import type { ImportRow } from "@/services/ImportService";
+import { Eye } from "lucide-react";
+
+interface ImportPreviewTableProps {
+  rows: ImportRow[];
+  error?: string | null; // falha ao conferir as linhas com o banco (a importação fica bloqueada)
+}
+
+// Planilhas antigas têm milhares de linhas: a prévia mostra as primeiras
+const PREVIEW_SIZE = 200;
+
+export function ImportPreviewTable({ rows, error }: ImportPreviewTableProps) {
+  const [onlyErrors, setOnlyErrors] = useState(false);
+
+  const errorCount = rows.filter(row => row.errors.length > 0).length;
+  const filtered = onlyErrors ? rows.filter(row => row.errors.length > 0) : rows;
+  const visible = filtered.slice(0, PREVIEW_SIZE);
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-foreground">
+          <div className="flex items-center gap-2">
+            <Eye className="h-5 w-5" />
+            Prévia
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-dashboard-success border-dashboard-success/30">
+              {(rows.length - errorCount).toLocaleString()} válidas
+            </Badge>
+            {errorCount > 0 && (
+              <Badge variant="destructive">{errorCount.toLocaleString()} com erro</Badge>
+            )}
+          </div>
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="only-errors"
+            checked={onlyErrors}
+            onCheckedChange={(checked) => setOnlyErrors(checked === true)}
+          />
+          <Label htmlFor="only-errors" className="text-sm text-muted-foreground">Mostrar só linhas com erro</Label>
+        </div>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {error && <p className="mb-3 text-sm text-destructive">{error}</p>}
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border hover:bg-secondary/20">
+              <TableHead className="text-foreground">Arquivo</TableHead>
+              <TableHead className="text-foreground text-right">Linha</TableHead>
+              <TableHead className="text-foreground">Funcionário</TableHead>
+              <TableHead className="text-foreground">Data</TableHead>
+              <TableHead className="text-foreground">Refinaria</TableHead>
+              <TableHead className="text-foreground text-right">Pontos</TableHead>
+              <TableHead className="text-foreground">Situação</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                  {onlyErrors ? "Nenhuma linha com erro." : "Nenhuma linha com pontos nas planilhas."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              visible.map(row => (
+                <TableRow key={row.key} className="border-border hover:bg-secondary/10">
+                  <TableCell className="text-muted-foreground max-w-40 truncate" title={row.fileName}>{row.fileName}</TableCell>
+                  <TableCell className="font-mono text-right text-muted-foreground">{row.line}</TableCell>
+                  <TableCell className="text-foreground">{row.employeeName || "—"}</TableCell>
+                  <TableCell className="text-foreground">{row.date ? BusinessTimeService.formatDate(row.date) : "—"}</TableCell>
+                  <TableCell className="text-foreground">{row.refineryName || "—"}</TableCell>
+                  <TableCell className="font-mono text-right text-dashboard-primary font-bold">
+                    {row.points !== null ? row.points.toLocaleString() : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {row.errors.length === 0 ? (
+                      <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">
+                        OK
+                      </Badge>
+                    ) : (
+                      <div className="space-y-0.5">
+                        {row.errors.map(message => (
+                          <p key={message} className="text-sm text-destructive">{message}</p>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+        {filtered.length > visible.length && (
+          <p className="mt-3 text-center text-sm text-muted-foreground">
+            Mostrando {visible.length.toLocaleString()} de {filtered.length.toLocaleString()} linhas
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Refinery, RefineryFields } from "@/services/RefineryService";
+
+interface RefineryFormDialogProps {
+  open: boolean;
+  refinery: Refinery | null;  // null = nova refinaria
+  saving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (fields: RefineryFields) => void;
+}
+
+export function RefineryFormDialog({ open, refinery, saving = false, onOpenChange, onSave }: RefineryFormDialogProps) {
+  const [name, setName] = useState("");
+  const [location, setLocation] = useState("");
+  const [capacity, setCapacity] = useState("");
+
+  // Preencher o formulário ao abrir (vazio para nova refinaria)
+  useEffect(() => {
+    if (!open) return;
+    setName(refinery?.name || "");
+    setLocation(refinery?.location || "");
+    setCapacity(refinery?.capacity != null ? String(refinery.capacity) : "");
+  }, [open, refinery]);
+
+  const parsedCapacity = Number(capacity);
+  const isValid = !!name.trim() &&
+    (capacity.trim() === "" || (Number.isInteger(parsedCapacity) && parsedCapacity >= 0));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    onSave({
+      name: name.trim(),
+      location: location.trim() || null,
+      capacity: capacity.trim() === "" ? null : parsedCapacity
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{refinery ? "Editar Refinaria" : "Nova Refinaria"}</DialogTitle>
+          <DialogDescription>
+            {refinery
+              ? "Um novo nome também é aplicado aos registros e cadastros existentes."
+              : "A refinaria fica disponível no formulário de registro assim que for salva."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="refinery-name">Sigla:</Label>
+              <Input
+                id="refinery-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex.: REPLAN"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refinery-capacity">Capacidade:</Label>
+              <Input
+                id="refinery-capacity"
+                type="number"
+                min={0}
+                step={1}
+                value={capacity}
+                onChange={(e) => setCapacity(e.target.value)}
+                placeholder="Opcional"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="refinery-location">Localização:</Label>
+            <Input
+              id="refinery-location"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="Opcional"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="bg-gradient-primary hover:opacity-90 text-white" disabled={!isValid || saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
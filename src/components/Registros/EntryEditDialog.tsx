@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Entry } from "@/services/EmployeeService";
+import { Refinery } from "@/services/RefineryService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { EntryFormErrors, EntryRuleService } from "@/services/EntryRuleService";
+
+export type EntryChanges = Pick<Entry, "employee_id" | "date" | "refinery" | "refinery_id" | "points" | "observations">;
+
+interface EntryEditDialogProps {
+  entry: Entry | null;
+  employees: { id: number; real_name: string }[];
+  refineries: Refinery[];  // catálogo completo, inclusive inativas
+  onOpenChange: (open: boolean) => void;
+  onSave: (changes: EntryChanges) => void;
+}
+
+export function EntryEditDialog({ entry, employees, refineries, onOpenChange, onSave }: EntryEditDialogProps) {
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("");
+  const [employeeId, setEmployeeId] = useState("");
+  const [refineryId, setRefineryId] = useState("");
+  const [points, setPoints] = useState("");
+  const [observations, setObservations] = useState("");
+  const [errors, setErrors] = useState<EntryFormErrors>({});
+
+  // Preencher o formulário com o registro selecionado (data e hora no fuso da empresa)
+  useEffect(() => {
+    if (!entry) return;
+    setDate(BusinessTimeService.toDateKey(entry.date));
+    setTime(BusinessTimeService.formatTime(entry.date));
+    setEmployeeId(String(entry.employee_id));
+    setRefineryId(entry.refinery_id ? String(entry.refinery_id) : "");
+    setPoints(String(entry.points));
+    setObservations(entry.observations || "");
+    setErrors({});
+    EntryRuleService.loadRules();
+  }, [entry]);
+
+  const refinery = refineries.find(option => String(option.id) === refineryId);
+  const isValid = !!date && !!time && !!employeeId && !!refinery && points.trim() !== "";
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entry || !isValid || !refinery) return;
+
+    // Como no banco, só os campos alterados passam pelas regras: registros antigos continuam editáveis
+    const instant = BusinessTimeService.toInstant(date, time);
+    const { data, errors: fieldErrors } = EntryRuleService.validate(
+      EntryRuleService.entrySchema().pick({ points: true, date: true }).partial(),
+      {
+        points: Number(points) !== entry.points ? points : undefined,
+        date: instant.getTime() !== new Date(entry.date).getTime() ? instant.toISOString() : undefined
+      }
+    );
+    setErrors(fieldErrors);
+    if (!data) return;
+
+    onSave({
+      employee_id: Number(employeeId),
+      date: instant.toISOString(),
+      refinery: refinery.name,
+      refinery_id: refinery.id,
+      points: data.points ?? entry.points,
+      observations: observations.trim()
+    });
+  };
+
+  // Refinarias ativas; a refinaria atual do registro continua selecionável mesmo se desativada
+  const refineryOptions = refineries.filter(option => option.active || String(option.id) === String(entry?.refinery_id));
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>Editar Registro</DialogTitle>
+          <DialogDescription>Altere os dados do registro e salve.</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-date">Data:</Label>
+              <Input id="edit-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-time">Horário:</Label>
+              <Input id="edit-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+            {errors.date && <p className="col-span-2 text-sm text-destructive">{errors.date}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Funcionário:</Label>
+              <Select value={employeeId} onValueChange={setEmployeeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione o funcionário" />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {employees.map(employee => (
+                    <SelectItem key={employee.id} value={String(employee.id)}>{employee.real_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Refinaria:</Label>
+              <Select value={refineryId} onValueChange={setRefineryId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a refinaria" />
+                </SelectTrigger>
+                <SelectContent className="bg-card border-border">
+                  {refineryOptions.map(option => (
+                    <SelectItem key={option.id} value={String(option.id)}>
+                      {option.active ? option.name : `${option.name} (inativa)`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-points">Pontos:</Label>
+            <Input
+              id="edit-points"
+              type="number"
+              min={0}
+              step={1}
+              value={points}
+              onChange={(e) => setPoints(e.target.value)}
+              aria-invalid={!!errors.points}
+            />
+            {errors.points && <p className="text-sm text-destructive">{errors.points}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-observations">Observações:</Label>
+            <Textarea
+              id="edit-observations"
+              value={observations}
+              onChange={(e) => setObservations(e.target.value)}
+              className="min-h-24"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="bg-gradient-primary hover:opacity-90 text-white" disabled={!isValid}>
+              Salvar
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { PointRate, PointRateFields } from "@/services/PointRateService";
+import { Refinery } from "@/services/RefineryService";
+
+interface PointRateFormDialogProps {
+  open: boolean;
+  rate: PointRate | null;   // null = novo valor
+  refineries: Refinery[];   // catálogo completo, inclusive inativas
+  saving?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (fields: PointRateFields) => void;
+}
+
+const ALL_REFINERIES = "todas";
+
+export function PointRateFormDialog({ open, rate, refineries, saving = false, onOpenChange, onSave }: PointRateFormDialogProps) {
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [refineryId, setRefineryId] = useState(ALL_REFINERIES);
+  const [value, setValue] = useState("");
+  const [notes, setNotes] = useState("");
+
+  // Preencher o formulário ao abrir (novo valor começa hoje, para todas as refinarias)
+  useEffect(() => {
+    if (!open) return;
+    setEffectiveFrom(rate?.effective_from || BusinessTimeService.today());
+    setRefineryId(rate?.refinery_id ? String(rate.refinery_id) : ALL_REFINERIES);
+    setValue(rate ? String(rate.value) : "");
+    setNotes(rate?.notes || "");
+  }, [open, rate]);
+
+  const parsedValue = Number(value.replace(",", "."));
+  const isValid = !!effectiveFrom && value.trim() !== "" && Number.isFinite(parsedValue) && parsedValue >= 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) return;
+
+    onSave({
+      effective_from: effectiveFrom,
+      refinery_id: refineryId === ALL_REFINERIES ? null : Number(refineryId),
+      value: parsedValue,
+      notes: notes.trim() || null
+    });
+  };
+
+  // Refinarias ativas; a refinaria atual do valor continua selecionável mesmo se desativada
+  const refineryOptions = refineries.filter(option => option.active || option.id === rate?.refinery_id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-card border-border">
+        <DialogHeader>
+          <DialogTitle>{rate ? "Editar Valor do Ponto" : "Novo Valor do Ponto"}</DialogTitle>
+          <DialogDescription>
+            O valor vale para os registros a partir da data de início, até o próximo valor cadastrado.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rate-effective-from">Vigente a partir de:</Label>
+              <Input
+                id="rate-effective-from"
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rate-value">Valor por ponto (R$):</Label>
+              <Input
+                id="rate-value"
+                type="number"
+                min={0}
+                step={0.01}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Refinaria:</Label>
+            <Select value={refineryId} onValueChange={setRefineryId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-card border-border">
+                <SelectItem value={ALL_REFINERIES}>Todas (valor geral)</SelectItem>
+                {refineryOptions.map(option => (
+                  <SelectItem key={option.id} value={String(option.id)}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rate-notes">Observações:</Label>
+            <Textarea
+              id="rate-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Ex.: aditivo contratual"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button type="submit" className="bg-gradient-primary hover:opacity-90 text-white" disabled={!isValid || saving}>
+              {saving ? "Salvando..." : "Salvar"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
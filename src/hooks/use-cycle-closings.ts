@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from "react"
+import { CycleClosing, CycleClosingService } from "@/services/CycleClosingService"
+
+/**
+ * Fechamentos de ciclo para os seletores (cadeado nos ciclos fechados).
+ * Atualiza quando um ciclo é fechado ou reaberto em outra tela.
+ */
+export function useCycleClosings() {
+  const [closings, setClosings] = useState<CycleClosing[]>([])
+
+  useEffect(() => {
+    const unsubscribe = CycleClosingService.onChange(() => {
+      CycleClosingService.loadClosings().then(setClosings)
+    })
+    CycleClosingService.loadClosings().then(setClosings)
+    return unsubscribe
+  }, [])
+
+  const getClosing = useCallback((cycleId: string) =>
+    closings.find(closing => closing.cycleId === cycleId && !closing.reopenedAt) || null
+  , [closings])
+
+  return { closings, getClosing }
+}
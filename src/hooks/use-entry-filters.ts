@@ -0,0 +1,107 @@
+import { useCallback, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+import type { EntrySortField } from "@/services/DataService"
+import type { EntryStatus } from "@/services/EmployeeService"
+
+export interface EntryFilters {
+  employeeId?: number
+  refinery?: string
+  status?: EntryStatus
+  week: string        // "todas", "ciclo" (ciclo inteiro) ou "1".."5"
+  startDate?: string  // YYYY-MM-DD
+  endDate?: string    // YYYY-MM-DD
+  search: string
+  sortBy: EntrySortField
+  ascending: boolean
+  page: number
+  pageSize: number
+}
+
+export const PAGE_SIZES = [25, 50, 100]
+
+const DEFAULT_FILTERS: EntryFilters = {
+  week: "todas",
+  search: "",
+  sortBy: "date",
+  ascending: false,
+  page: 1,
+  pageSize: 50
+}
+
+const SORT_FIELDS: EntrySortField[] = ["date", "employee", "refinery", "points"]
+const STATUSES: EntryStatus[] = ["pending", "approved", "rejected"]
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Filtros da tela Registros guardados na URL
+ * (?funcionario=3&refinaria=RPBC&status=pending&semana=2&de=2025-09-01&ate=2025-09-10&busca=...&ordem=points&dir=asc&pagina=2&itens=25).
+ * Valores padrão ficam fora da URL; outros parâmetros (ex.: ?ciclo=) são mantidos.
+ */
+export function useEntryFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = useMemo<EntryFilters>(() => {
+    const employeeId = Number(searchParams.get("funcionario"))
+    const startDate = searchParams.get("de")
+    const endDate = searchParams.get("ate")
+    const sortBy = searchParams.get("ordem") as EntrySortField
+    const status = searchParams.get("status") as EntryStatus
+    const page = Number(searchParams.get("pagina"))
+    const pageSize = Number(searchParams.get("itens"))
+
+    return {
+      employeeId: employeeId > 0 ? employeeId : undefined,
+      refinery: searchParams.get("refinaria") || undefined,
+      status: STATUSES.includes(status) ? status : undefined,
+      week: searchParams.get("semana") || DEFAULT_FILTERS.week,
+      startDate: startDate && DATE_PATTERN.test(startDate) ? startDate : undefined,
+      endDate: endDate && DATE_PATTERN.test(endDate) ? endDate : undefined,
+      search: searchParams.get("busca") || DEFAULT_FILTERS.search,
+      sortBy: SORT_FIELDS.includes(sortBy) ? sortBy : DEFAULT_FILTERS.sortBy,
+      ascending: searchParams.get("dir") === "asc",
+      page: page > 0 ? Math.floor(page) : DEFAULT_FILTERS.page,
+      pageSize: PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_FILTERS.pageSize
+    }
+  }, [searchParams])
+
+  const setFilters = useCallback((changes: Partial<EntryFilters>) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      const current = { ...filters, ...changes }
+
+      // Qualquer mudança de filtro volta para a primeira página
+      if (!("page" in changes)) {
+        current.page = 1
+      }
+
+      const values: Record<string, string | undefined> = {
+        funcionario: current.employeeId ? String(current.employeeId) : undefined,
+        refinaria: current.refinery,
+        status: current.status,
+        semana: current.week !== DEFAULT_FILTERS.week ? current.week : undefined,
+        de: current.startDate,
+        ate: current.endDate,
+        busca: current.search || undefined,
+        ordem: current.sortBy !== DEFAULT_FILTERS.sortBy ? current.sortBy : undefined,
+        dir: current.ascending ? "asc" : undefined,
+        pagina: current.page !== DEFAULT_FILTERS.page ? String(current.page) : undefined,
+        itens: current.pageSize !== DEFAULT_FILTERS.pageSize ? String(current.pageSize) : undefined
+      }
+
+      Object.entries(values).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value)
+        } else {
+          next.delete(key)
+        }
+      })
+      return next
+    }, { replace: true })
+  }, [filters, setSearchParams])
+
+  const resetFilters = useCallback(() => {
+    setFilters({ ...DEFAULT_FILTERS, employeeId: undefined, refinery: undefined, status: undefined, startDate: undefined, endDate: undefined })
+  }, [setFilters])
+
+  return { filters, setFilters, resetFilters }
+}
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from "react"
+import { Refinery, RefineryService } from "@/services/RefineryService"
+
+/**
+ * Catálogo de refinarias para selects e filtros.
+ * Por padrão traz apenas as ativas; includeInactive traz todas (ex.: filtros e edição de registros antigos).
+ */
+export function useRefineries(includeInactive = false) {
+  const [refineries, setRefineries] = useState<Refinery[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const reload = useCallback(async () => {
+    setLoading(true)
+    setRefineries(await RefineryService.getRefineries(includeInactive))
+    setLoading(false)
+  }, [includeInactive])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { refineries, loading, reload }
+}
@@ -0,0 +1,29 @@
+import { useCallback } from "react"
+import { useSearchParams } from "react-router-dom"
+
+const CYCLE_PARAM = "ciclo"
+const CYCLE_ID_PATTERN = /^\d{4}-\d{2}$/
+
+/**
+ * Ciclo selecionado (id "YYYY-MM") guardado na URL (?ciclo=2025-09).
+ * Sem parâmetro, as telas usam o ciclo atual.
+ */
+export function useSelectedCycle() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const param = searchParams.get(CYCLE_PARAM)
+  const cycleId = param && CYCLE_ID_PATTERN.test(param) ? param : undefined
+
+  const setCycleId = useCallback((id?: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      if (id) {
+        next.set(CYCLE_PARAM, id)
+      } else {
+        next.delete(CYCLE_PARAM)
+      }
+      return next
+    })
+  }, [setSearchParams])
+
+  return { cycleId, setCycleId }
+}
@@ -0,0 +1,25 @@
+import { createContext, useContext } from "react"
+import type { AuthUser } from "@/services/AuthService"
+
+export interface SessionContextValue {
+  user: AuthUser | null
+  loading: boolean
+  signInWithAccessKey: (accessKey: string) => Promise<AuthUser | null>
+  signInWithPassword: (email: string, password: string) => Promise<AuthUser | null>
+  signOut: () => Promise<void>
+}
+
+export const SessionContext = createContext<SessionContextValue | null>(null)
+
+/**
+ * Sessão do Supabase Auth compartilhada pelo AuthProvider.
+ * O usuário é atualizado quando o token é renovado e quando outra aba faz logout.
+ */
+export function useSession() {
+  const context = useContext(SessionContext)
+  if (!context) {
+    throw new Error("useSession must be used within an AuthProvider.")
+  }
+
+  return context
+}
@@ -14,6 +14,59 @@ export type Database = {
   }
   public: {
     Tables: {
+      absence: {
+        Row: {
+          created_at: string | null
+          employee_id: number
+          end_date: string
+          id: number
+          reason: string | null
+          review_notes: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          type: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          employee_id: number
+          end_date: string
+          id?: number
+          reason?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: string
+          type: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          employee_id?: number
+          end_date?: string
+          id?: number
+          reason?: string | null
+          review_notes?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: string
+          type?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "absence_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       alembic_version: {
         Row: {
           version_num: string
@@ -26,11 +79,178 @@ export type Database = {
         }
         Relationships: []
       }
+      bonus_tier: {
+        Row: {
+          bonus_value: number
+          created_at: string | null
+          id: number
+          min_attainment: number
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          bonus_value: number
+          created_at?: string | null
+          id?: number
+          min_attainment: number
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          bonus_value?: number
+          created_at?: string | null
+          id?: number
+          min_attainment?: number
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      cycle_config: {
+        Row: {
+          created_at: string | null
+          id: number
+          reference_working_days: number
+          start_day: number
+          timezone: string
+          updated_at: string | null
+          week_length_days: number
+          week_mode: string
+          weeks_per_cycle: number
+          working_weekdays: number[]
+        }
+        Insert: {
+          created_at?: string | null
+          id?: number
+          reference_working_days?: number
+          start_day?: number
+          timezone?: string
+          updated_at?: string | null
+          week_length_days?: number
+          week_mode?: string
+          weeks_per_cycle?: number
+          working_weekdays?: number[]
+        }
+        Update: {
+          created_at?: string | null
+          id?: number
+          reference_working_days?: number
+          start_day?: number
+          timezone?: string
+          updated_at?: string | null
+          week_length_days?: number
+          week_mode?: string
+          weeks_per_cycle?: number
+          working_weekdays?: number[]
+        }
+        Relationships: []
+      }
+      cycle_summary: {
+        Row: {
+          absent_days: number
+          attainment: number
+          bonus_tier: string | null
+          bonus_value: number
+          closing_id: number
+          created_at: string | null
+          cycle_id: string
+          employee_id: number
+          employee_name: string
+          employment_type: string
+          id: number
+          monthly_goal: number
+          points: number
+          total: number
+          value: number
+          week_points: number[]
+        }
+        Insert: {
+          absent_days?: number
+          attainment?: number
+          bonus_tier?: string | null
+          bonus_value?: number
+          closing_id: number
+          created_at?: string | null
+          cycle_id: string
+          employee_id: number
+          employee_name: string
+          employment_type?: string
+          id?: number
+          monthly_goal?: number
+          points?: number
+          total?: number
+          value?: number
+          week_points?: number[]
+        }
+        Update: {
+          absent_days?: number
+          attainment?: number
+          bonus_tier?: string | null
+          bonus_value?: number
+          closing_id?: number
+          created_at?: string | null
+          cycle_id?: string
+          employee_id?: number
+          employee_name?: string
+          employment_type?: string
+          id?: number
+          monthly_goal?: number
+          points?: number
+          total?: number
+          value?: number
+          week_points?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cycle_summary_closing_id_fkey"
+            columns: ["closing_id"]
+            isOneToOne: false
+            referencedRelation: "month_reset"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cycle_summary_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      day_off: {
+        Row: {
+          created_at: string | null
+          date: string
+          id: number
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          date: string
+          id?: number
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          date?: string
+          id?: number
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       employee: {
         Row: {
           access_key: string
+          active: boolean
+          auth_user_id: string | null
+          color: string | null
           created_at: string | null
+          deactivated_at: string | null
           default_refinery: string | null
+          employment_type: string
           id: number
           name: string | null
           real_name: string | null
@@ -40,9 +260,14 @@ export type Database = {
           weekly_goal: number | null
         }
         Insert: {
-          access_key: string
+          access_key?: string
+          active?: boolean
+          auth_user_id?: string | null
+          color?: string | null
           created_at?: string | null
+          deactivated_at?: string | null
           default_refinery?: string | null
+          employment_type?: string
           id?: number
           name?: string | null
           real_name?: string | null
@@ -53,8 +278,13 @@ export type Database = {
         }
         Update: {
           access_key?: string
+          active?: boolean
+          auth_user_id?: string | null
+          color?: string | null
           created_at?: string | null
+          deactivated_at?: string | null
           default_refinery?: string | null
+          employment_type?: string
           id?: number
           name?: string | null
           real_name?: string | null
@@ -65,38 +295,106 @@ export type Database = {
         }
         Relationships: []
       }
+      employment_type_rule: {
+        Row: {
+          created_at: string | null
+          employment_type: string
+          in_leaderboard: boolean
+          in_team_average: boolean
+          in_team_goal: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          employment_type: string
+          in_leaderboard?: boolean
+          in_team_average?: boolean
+          in_team_goal?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          employment_type?: string
+          in_leaderboard?: boolean
+          in_team_average?: boolean
+          in_team_goal?: boolean
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       entry: {
         Row: {
+          backdated: boolean
           created_at: string | null
           date: string
+          duplicate_suspect: boolean
           employee_id: number
           id: number
+          import_batch_id: number | null
+          lateness_minutes: number
           observations: string
           points: number
           refinery: string
+          refinery_id: number | null
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
           updated_at: string | null
         }
         Insert: {
+          backdated?: boolean
           created_at?: string | null
           date: string
+          duplicate_suspect?: boolean
           employee_id: number
           id?: number
+          import_batch_id?: number | null
+          lateness_minutes?: number
           observations: string
           points: number
           refinery: string
+          refinery_id?: number | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
           updated_at?: string | null
         }
         Update: {
+          backdated?: boolean
           created_at?: string | null
           date?: string
+          duplicate_suspect?: boolean
           employee_id?: number
           id?: number
+          import_batch_id?: number | null
+          lateness_minutes?: number
           observations?: string
           points?: number
           refinery?: string
+          refinery_id?: number | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "entry_import_batch_id_fkey"
+            columns: ["import_batch_id"]
+            isOneToOne: false
+            referencedRelation: "import_batch"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "entry_refinery_id_fkey"
+            columns: ["refinery_id"]
+            isOneToOne: false
+            referencedRelation: "refineries"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "entry_employee_id_fkey"
             columns: ["employee_id"]
@@ -113,6 +411,78 @@ export type Database = {
           },
         ]
       }
+      entry_audit: {
+        Row: {
+          action: string
+          actor_id: string | null
+          actor_name: string | null
+          changed_at: string
+          employee_id: number | null
+          id: number
+          new_data: Json | null
+          old_data: Json | null
+          record_id: number
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          actor_name?: string | null
+          changed_at?: string
+          employee_id?: number | null
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: number
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          actor_name?: string | null
+          changed_at?: string
+          employee_id?: number | null
+          id?: number
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: number
+          table_name?: string
+        }
+        Relationships: []
+      }
+      entry_rule: {
+        Row: {
+          backdate_grace_days: number
+          created_at: string | null
+          daily_max_points: number
+          duplicate_window_seconds: number
+          id: number
+          max_points: number
+          min_points: number
+          updated_at: string | null
+        }
+        Insert: {
+          backdate_grace_days?: number
+          created_at?: string | null
+          daily_max_points?: number
+          duplicate_window_seconds?: number
+          id?: number
+          max_points?: number
+          min_points?: number
+          updated_at?: string | null
+        }
+        Update: {
+          backdate_grace_days?: number
+          created_at?: string | null
+          daily_max_points?: number
+          duplicate_window_seconds?: number
+          id?: number
+          max_points?: number
+          min_points?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       funcionario: {
         Row: {
           chave_acesso: string
@@ -134,17 +504,130 @@ export type Database = {
         }
         Relationships: []
       }
+      goal: {
+        Row: {
+          created_at: string | null
+          cycle_id: string
+          daily_goal: number
+          employee_id: number
+          id: number
+          monthly_goal: number
+          updated_at: string | null
+          weekly_goal: number
+        }
+        Insert: {
+          created_at?: string | null
+          cycle_id: string
+          daily_goal: number
+          employee_id: number
+          id?: number
+          monthly_goal: number
+          updated_at?: string | null
+          weekly_goal: number
+        }
+        Update: {
+          created_at?: string | null
+          cycle_id?: string
+          daily_goal?: number
+          employee_id?: number
+          id?: number
+          monthly_goal?: number
+          updated_at?: string | null
+          weekly_goal?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goal_employee_id_fkey"
+            columns: ["employee_id"]
+            isOneToOne: false
+            referencedRelation: "employee"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_batch: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          created_by_name: string | null
+          file_names: string[]
+          id: number
+          inserted_count: number
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          rolled_back_by_name: string | null
+          row_count: number
+          skipped_count: number
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          created_by_name?: string | null
+          file_names?: string[]
+          id?: number
+          inserted_count?: number
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          rolled_back_by_name?: string | null
+          row_count?: number
+          skipped_count?: number
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          created_by_name?: string | null
+          file_names?: string[]
+          id?: number
+          inserted_count?: number
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          rolled_back_by_name?: string | null
+          row_count?: number
+          skipped_count?: number
+        }
+        Relationships: []
+      }
       month_reset: {
         Row: {
+          closed_at: string | null
+          closed_by: string | null
+          closed_by_name: string | null
+          cycle_end: string | null
+          cycle_id: string | null
+          cycle_start: string | null
           id: number
+          reopen_reason: string | null
+          reopened_at: string | null
+          reopened_by: string | null
+          reopened_by_name: string | null
           reset_date: string
         }
         Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_name?: string | null
+          cycle_end?: string | null
+          cycle_id?: string | null
+          cycle_start?: string | null
           id?: number
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          reopened_by_name?: string | null
           reset_date: string
         }
         Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_name?: string | null
+          cycle_end?: string | null
+          cycle_id?: string | null
+          cycle_start?: string | null
           id?: number
+          reopen_reason?: string | null
+          reopened_at?: string | null
+          reopened_by?: string | null
+          reopened_by_name?: string | null
           reset_date?: string
         }
         Relationships: []
@@ -231,6 +714,44 @@ export type Database = {
           },
         ]
       }
+      point_rate: {
+        Row: {
+          created_at: string | null
+          effective_from: string
+          id: number
+          notes: string | null
+          refinery_id: number | null
+          updated_at: string | null
+          value: number
+        }
+        Insert: {
+          created_at?: string | null
+          effective_from: string
+          id?: number
+          notes?: string | null
+          refinery_id?: number | null
+          updated_at?: string | null
+          value: number
+        }
+        Update: {
+          created_at?: string | null
+          effective_from?: string
+          id?: number
+          notes?: string | null
+          refinery_id?: number | null
+          updated_at?: string | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "point_rate_refinery_id_fkey"
+            columns: ["refinery_id"]
+            isOneToOne: false
+            referencedRelation: "refineries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       points: {
         Row: {
           created_at: string | null
@@ -278,7 +799,7 @@ export type Database = {
       }
       refineries: {
         Row: {
-          active: boolean | null
+          active: boolean
           capacity: number | null
           created_at: string | null
           id: number
@@ -287,7 +808,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
-          active?: boolean | null
+          active?: boolean
           capacity?: number | null
           created_at?: string | null
           id?: number
@@ -296,7 +817,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
-          active?: boolean | null
+          active?: boolean
           capacity?: number | null
           created_at?: string | null
           id?: number
@@ -382,10 +903,94 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      entry_with_employee: {
+        Row: {
+          backdated: boolean | null
+          created_at: string | null
+          date: string | null
+          duplicate_suspect: boolean | null
+          employee_id: number | null
+          employee_name: string | null
+          id: number | null
+          import_batch_id: number | null
+          lateness_minutes: number | null
+          observations: string | null
+          points: number | null
+          refinery: string | null
+          refinery_id: number | null
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          search_text: string | null
+          status: string | null
+          updated_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      auth_employee_id: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      auth_role: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      business_date: {
+        Args: { ts: string }
+        Returns: string
+      }
+      close_cycle: {
+        Args: { p_cycle_id: string; p_end: string; p_start: string; p_summary: Json }
+        Returns: number
+      }
+      cycle_start: {
+        Args: { d: string }
+        Returns: string
+      }
+      generate_access_key: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_points_by_period: {
+        Args: { periods: Json }
+        Returns: {
+          employee_id: number
+          period_key: string
+          points: number
+          real_name: string
+          value: number
+        }[]
+      }
+      grant_admin_role: {
+        Args: { user_email: string }
+        Returns: undefined
+      }
+      import_entries: {
+        Args: { p_file_names: string[]; p_rows: Json }
+        Returns: Json
+      }
+      is_date_closed: {
+        Args: { d: string }
+        Returns: boolean
+      }
+      point_rate_at: {
+        Args: { p_date: string; p_refinery_id?: number }
+        Returns: number
+      }
+      regenerate_access_key: {
+        Args: { p_employee_id: number }
+        Returns: string
+      }
+      reopen_cycle: {
+        Args: { p_cycle_id: string; p_reason: string }
+        Returns: undefined
+      }
+      rollback_import: {
+        Args: { p_batch_id: number }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
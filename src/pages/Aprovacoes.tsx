@@ -0,0 +1,272 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { CalculationsService } from "@/services/CalculationsService";
+import { CycleCalendarService } from "@/services/CycleCalendarService";
+import { DataService, EntryWithEmployee } from "@/services/DataService";
+import { EmployeeService } from "@/services/EmployeeService";
+import { RejectEntriesDialog } from "@/components/Aprovacoes/RejectEntriesDialog";
+import { Check, ClipboardCheck, X, Clock } from "lucide-react";
+
+// Fila limitada: a aprovação acontece a cada poucos dias, não acumula milhares
+const QUEUE_SIZE = 500;
+
+export default function Aprovacoes() {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<EntryWithEmployee[]>([]);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [rejecting, setRejecting] = useState<number[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadQueue = async () => {
+    try {
+      setLoading(true);
+      await CycleCalendarService.loadConfig();
+      const result = await DataService.searchEntries({
+        status: "pending",
+        sortBy: "date",
+        ascending: true,
+        pageSize: QUEUE_SIZE
+      });
+      setEntries(result.entries);
+      setTotal(result.total);
+      setSelected(new Set());
+    } catch (error) {
+      console.error('Erro ao carregar aprovações:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar registros pendentes",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const toggle = (id: number, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(entries.map(entry => entry.id)) : new Set());
+  };
+
+  const review = async (ids: number[], status: "approved" | "rejected", reason?: string) => {
+    setSaving(true);
+    const reviewed = await EmployeeService.reviewEntries(ids, status, reason);
+    setSaving(false);
+
+    if (!reviewed) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a revisão",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRejecting(null);
+    const label = ids.length === 1 ? "Registro" : `${ids.length} registros`;
+    toast({
+      title: "Sucesso",
+      description: status === "approved"
+        ? `${label} ${ids.length === 1 ? "aprovado" : "aprovados"}`
+        : `${label} ${ids.length === 1 ? "recusado" : "recusados"}`,
+    });
+    loadQueue();
+  };
+
+  const selectedIds = Array.from(selected);
+  const selectedPoints = entries
+    .filter(entry => selected.has(entry.id))
+    .reduce((sum, entry) => sum + entry.points, 0);
+  const allSelected = entries.length > 0 && selected.size === entries.length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Aprovações</h1>
+          <p className="text-muted-foreground">
+            Registros de pontos aguardando revisão. Só pontos aprovados contam nas metas, gráficos e fechamento.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="dashboard"
+            onClick={() => review(selectedIds, "approved")}
+            disabled={!selected.size || saving}
+          >
+            <Check className="h-4 w-4 mr-1" />
+            Aprovar ({selected.size})
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setRejecting(selectedIds)}
+            disabled={!selected.size || saving}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Recusar ({selected.size})
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-gradient-card shadow-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-foreground">
+            <div className="flex items-center gap-2">
+              <ClipboardCheck className="h-5 w-5" />
+              Pendentes
+            </div>
+            <div className="flex items-center gap-2">
+              {selected.size > 0 && (
+                <Badge variant="outline" className="text-dashboard-primary border-dashboard-primary/30">
+                  {selectedPoints.toLocaleString()} pontos selecionados
+                </Badge>
+              )}
+              <Badge variant="outline" className="text-dashboard-warning border-dashboard-warning/30">
+                {total.toLocaleString()} pendentes
+              </Badge>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-secondary/20">
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    aria-label="Selecionar todos"
+                  />
+                </TableHead>
+                <TableHead className="text-foreground">Data</TableHead>
+                <TableHead className="text-foreground">Horário</TableHead>
+                <TableHead className="text-foreground">Funcionário</TableHead>
+                <TableHead className="text-foreground">Refinaria</TableHead>
+                <TableHead className="text-foreground">Pontos</TableHead>
+                <TableHead className="text-foreground">Observações</TableHead>
+                <TableHead className="text-foreground">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                    Carregando registros...
+                  </TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    <ClipboardCheck className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    Nenhum registro aguardando aprovação.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map(entry => {
+                  const { date, time } = CalculationsService.formatTimestampBR(entry.date);
+                  return (
+                    <TableRow key={entry.id} className="border-border hover:bg-secondary/10">
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.has(entry.id)}
+                          onCheckedChange={(checked) => toggle(entry.id, checked === true)}
+                          aria-label="Selecionar registro"
+                        />
+                      </TableCell>
+                      <TableCell className="text-foreground">
+                        <div className="flex items-center gap-2">
+                          {date}
+                          {entry.backdated && (
+                            <Badge
+                              variant="outline"
+                              className="text-dashboard-info border-dashboard-info/30"
+                              title={`Lançado ${CalculationsService.formatLateness(entry.lateness_minutes)} depois`}
+                            >
+                              Retroativo
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{time}</TableCell>
+                      <TableCell className="font-medium text-foreground">{entry.employee_name}</TableCell>
+                      <TableCell className="text-foreground">{entry.refinery}</TableCell>
+                      <TableCell className="font-mono text-dashboard-primary font-bold">
+                        <div className="flex items-center gap-2">
+                          {entry.points.toLocaleString()}
+                          {entry.duplicate_suspect && (
+                            <Badge
+                              variant="outline"
+                              className="font-sans font-normal text-dashboard-warning border-dashboard-warning/30"
+                              title="Outro registro do funcionário no mesmo dia tem a mesma refinaria e pontos"
+                            >
+                              Possível duplicado
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground max-w-xs truncate">
+                        {entry.observations}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 hover:bg-dashboard-success/20"
+                            onClick={() => review([entry.id], "approved")}
+                            disabled={saving}
+                            title="Aprovar registro"
+                          >
+                            <Check className="h-4 w-4 text-dashboard-success" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                            onClick={() => setRejecting([entry.id])}
+                            disabled={saving}
+                            title="Recusar registro"
+                          >
+                            <X className="h-4 w-4 text-dashboard-danger" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <RejectEntriesDialog
+        open={!!rejecting}
+        count={rejecting?.length || 0}
+        saving={saving}
+        onOpenChange={(open) => !open && setRejecting(null)}
+        onConfirm={(reason) => rejecting && review(rejecting, "rejected", reason)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Absence, AbsenceRequest, AbsenceService, AbsenceStatus } from "@/services/AbsenceService";
+import { BusinessCalendarService } from "@/services/BusinessCalendarService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { EmployeeService } from "@/services/EmployeeService";
+import { AbsenceFormDialog } from "@/components/Ausencias/AbsenceFormDialog";
+import { AbsenceReviewDialog } from "@/components/Ausencias/AbsenceReviewDialog";
+import { AbsenceStatusBadge } from "@/components/Ausencias/AbsenceStatusBadge";
+import { CalendarOff, ClipboardCheck, Plus, Trash2, Clock } from "lucide-react";
+
+type StatusFilter = AbsenceStatus | "todas";
+
+export default function Ausencias() {
+  const { toast } = useToast();
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [employees, setEmployees] = useState<{ id: number; real_name: string }[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("pending");
+  const [reviewing, setReviewing] = useState<Absence | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    EmployeeService.getAllEmployees().then(list => {
+      setEmployees(list.map(employee => ({ id: employee.id, real_name: employee.real_name })));
+    });
+  }, []);
+
+  const loadAbsences = async () => {
+    try {
+      setLoading(true);
+      await BusinessCalendarService.load();
+      setAbsences(await AbsenceService.getAbsences({
+        status: statusFilter === "todas" ? undefined : statusFilter
+      }));
+    } catch (error) {
+      console.error('Erro ao carregar ausências:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar ausências",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAbsences();
+  }, [statusFilter]);
+
+  const handleReview = async (absence: Absence, status: "approved" | "rejected", notes: string) => {
+    setSaving(true);
+    const reviewed = await AbsenceService.reviewAbsence(absence.id, status, notes);
+    setSaving(false);
+
+    if (!reviewed) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a revisão",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReviewing(null);
+    toast({
+      title: status === "approved" ? "Ausência aprovada" : "Ausência recusada",
+      description: `${absence.employee_name} - ${AbsenceService.formatPeriod(absence)}`,
+    });
+    loadAbsences();
+  };
+
+  const handleRegister = async (request: AbsenceRequest) => {
+    setSaving(true);
+    const registered = await AbsenceService.registerAbsence(request);
+    setSaving(false);
+
+    if (!registered) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível lançar a ausência",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFormOpen(false);
+    toast({
+      title: "Sucesso",
+      description: "Ausência lançada",
+    });
+    loadAbsences();
+  };
+
+  const handleDelete = async (absence: Absence) => {
+    if (!await AbsenceService.deleteAbsence(absence.id)) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir a ausência",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Ausência excluída",
+      description: `${absence.employee_name} - ${AbsenceService.formatPeriod(absence)}`,
+    });
+    loadAbsences();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Ausências</h1>
+          <p className="text-muted-foreground">
+            Férias, atestados e treinamentos. Os dias úteis de ausências aprovadas saem das metas do funcionário.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+            <SelectTrigger className="w-40 bg-secondary border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pendentes</SelectItem>
+              <SelectItem value="approved">Aprovadas</SelectItem>
+              <SelectItem value="rejected">Recusadas</SelectItem>
+              <SelectItem value="todas">Todas</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="dashboard" onClick={() => setFormOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Lançar ausência
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-gradient-card shadow-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <CalendarOff className="h-5 w-5" />
+            Solicitações
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-secondary/20">
+                <TableHead className="text-foreground">Funcionário</TableHead>
+                <TableHead className="text-foreground">Tipo</TableHead>
+                <TableHead className="text-foreground">Período</TableHead>
+                <TableHead className="text-foreground text-right">Dias úteis</TableHead>
+                <TableHead className="text-foreground">Motivo</TableHead>
+                <TableHead className="text-foreground">Status</TableHead>
+                <TableHead className="text-foreground">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                    Carregando ausências...
+                  </TableCell>
+                </TableRow>
+              ) : absences.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    <CalendarOff className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                    Nenhuma ausência encontrada.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                absences.map(absence => (
+                  <TableRow key={absence.id} className="border-border hover:bg-secondary/10">
+                    <TableCell className="font-medium text-foreground">{absence.employee_name}</TableCell>
+                    <TableCell className="text-foreground">{AbsenceService.label(absence.type)}</TableCell>
+                    <TableCell className="font-mono text-muted-foreground">{AbsenceService.formatPeriod(absence)}</TableCell>
+                    <TableCell className="font-mono text-right text-dashboard-primary font-bold">
+                      {BusinessCalendarService.workingDaysBetween(absence.start_date, absence.end_date)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground max-w-xs truncate">
+                      {absence.reason}
+                      {absence.review_notes && (
+                        <span className="block text-xs">Revisão: {absence.review_notes}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <AbsenceStatusBadge status={absence.status} />
+                      {absence.reviewed_at && (
+                        <span className="block text-xs text-muted-foreground mt-1">
+                          {BusinessTimeService.formatDate(absence.reviewed_at)}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-primary/20"
+                          onClick={() => setReviewing(absence)}
+                          title={absence.status === "pending" ? "Aprovar ou recusar" : "Revisar novamente"}
+                        >
+                          <ClipboardCheck className="h-4 w-4 text-dashboard-primary" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                          onClick={() => handleDelete(absence)}
+                          title="Excluir ausência"
+                        >
+                          <Trash2 className="h-4 w-4 text-dashboard-danger" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AbsenceFormDialog
+        open={formOpen}
+        employees={employees}
+        saving={saving}
+        onOpenChange={setFormOpen}
+        onSave={handleRegister}
+      />
+
+      <AbsenceReviewDialog
+        absence={reviewing}
+        saving={saving}
+        onOpenChange={(open) => !open && setReviewing(null)}
+        onReview={handleReview}
+      />
+    </div>
+  );
+}
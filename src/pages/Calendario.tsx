@@ -0,0 +1,230 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { BusinessCalendarService, DayOff, DayOffFields } from "@/services/BusinessCalendarService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { CycleCalendarService } from "@/services/CycleCalendarService";
+import { DayOffFormDialog } from "@/components/Calendario/DayOffFormDialog";
+import { CalendarDays, ChevronLeft, ChevronRight, Plus, Trash2, Clock } from "lucide-react";
+
+const WEEKDAY_NAMES = ['Domingo', 'Segunda', 'Terça', 'Quarta', 'Quinta', 'Sexta', 'Sábado'];
+
+const weekdayOf = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return WEEKDAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+};
+
+export default function Calendario() {
+  const { toast } = useToast();
+  const [year, setYear] = useState(() => Number(BusinessTimeService.today().slice(0, 4)));
+  const [daysOff, setDaysOff] = useState<DayOff[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadDaysOff = async () => {
+    try {
+      setLoading(true);
+      setDaysOff(await BusinessCalendarService.load(true));
+    } catch (error) {
+      console.error('Erro ao carregar calendário:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar o calendário",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDaysOff();
+  }, []);
+
+  const handleSave = async (fields: DayOffFields) => {
+    setSaving(true);
+    const saved = await BusinessCalendarService.createDayOff(fields);
+    setSaving(false);
+
+    if (!saved) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar. Verifique se já existe uma folga nesta data.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFormOpen(false);
+    toast({
+      title: "Sucesso",
+      description: `Folga de ${BusinessTimeService.formatDate(fields.date)} cadastrada`,
+    });
+    setYear(Number(fields.date.slice(0, 4)));
+    loadDaysOff();
+  };
+
+  const handleDelete = async (dayOff: DayOff) => {
+    if (!await BusinessCalendarService.deleteDayOff(dayOff.id)) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir a folga",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Folga excluída",
+      description: `${BusinessTimeService.formatDate(dayOff.date)} volta a ser dia útil`,
+    });
+    loadDaysOff();
+  };
+
+  const holidays = BusinessCalendarService.holidaysBetween(`${year}-01-01`, `${year}-12-31`);
+  const cycles = Array.from({ length: 12 }, (_, index) => CycleCalendarService.fromReference(year, index + 1));
+  const { workingWeekdays, referenceWorkingDays } = CycleCalendarService.getConfig();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Calendário</h1>
+          <p className="text-muted-foreground">
+            Dias úteis: {workingWeekdays.map(day => WEEKDAY_NAMES[day]).join(", ")}, exceto feriados nacionais e folgas da empresa.
+            A meta mensal cadastrada corresponde a {referenceWorkingDays} dias úteis.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setYear(current => current - 1)} title="Ano anterior">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="w-14 text-center font-semibold text-foreground">{year}</span>
+          <Button variant="outline" size="icon" onClick={() => setYear(current => current + 1)} title="Próximo ano">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="dashboard" onClick={() => setFormOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Nova folga
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <Card className="bg-gradient-card shadow-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <CalendarDays className="h-5 w-5" />
+              Feriados e folgas de {year}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-secondary/20">
+                  <TableHead className="text-foreground">Data</TableHead>
+                  <TableHead className="text-foreground">Descrição</TableHead>
+                  <TableHead className="text-foreground">Tipo</TableHead>
+                  <TableHead className="text-foreground">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                      <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                      Carregando calendário...
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  holidays.map(holiday => {
+                    const dayOff = holiday.kind === 'company' ? daysOff.find(item => item.date === holiday.date) : undefined;
+                    return (
+                      <TableRow key={`${holiday.kind}-${holiday.date}`} className="border-border hover:bg-secondary/10">
+                        <TableCell className="font-mono text-foreground">
+                          {BusinessTimeService.formatDate(holiday.date)}
+                          <span className="ml-2 text-xs text-muted-foreground">{weekdayOf(holiday.date)}</span>
+                        </TableCell>
+                        <TableCell className="text-foreground">{holiday.name}</TableCell>
+                        <TableCell>
+                          {holiday.kind === 'national' ? (
+                            <Badge variant="outline">Nacional</Badge>
+                          ) : (
+                            <Badge variant="secondary" className="bg-dashboard-info/20 text-dashboard-info border-dashboard-info/30">Empresa</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {dayOff && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                              onClick={() => handleDelete(dayOff)}
+                              title="Excluir folga"
+                            >
+                              <Trash2 className="h-4 w-4 text-dashboard-danger" />
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-card shadow-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <CalendarDays className="h-5 w-5" />
+              Dias úteis por ciclo
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-secondary/20">
+                  <TableHead className="text-foreground">Ciclo</TableHead>
+                  <TableHead className="text-foreground">Período</TableHead>
+                  <TableHead className="text-foreground text-right">Dias úteis</TableHead>
+                  <TableHead className="text-foreground text-right">% da meta mensal</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cycles.map(cycle => {
+                  const workingDays = BusinessCalendarService.workingDaysBetween(cycle.start, cycle.end);
+                  return (
+                    <TableRow key={cycle.id} className="border-border hover:bg-secondary/10">
+                      <TableCell className="font-medium text-foreground">{cycle.label}</TableCell>
+                      <TableCell className="font-mono text-muted-foreground">
+                        {BusinessTimeService.formatDate(cycle.start)} a {BusinessTimeService.formatDate(cycle.end)}
+                      </TableCell>
+                      <TableCell className="font-mono text-right text-dashboard-primary font-bold">{workingDays}</TableCell>
+                      <TableCell className="font-mono text-right text-muted-foreground">
+                        {(workingDays / referenceWorkingDays * 100).toFixed(0)}%
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      <DayOffFormDialog
+        open={formOpen}
+        saving={saving}
+        onOpenChange={setFormOpen}
+        onSave={handleSave}
+      />
+    </div>
+  );
+}
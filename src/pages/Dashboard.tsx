@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,20 +8,36 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { LogOut, TrendingUp, Target, Calendar } from "lucide-react";
+import { LogOut, TrendingUp, Target, Calendar, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { EmployeeService, Employee } from "@/services/EmployeeService";
 import { CalculationsService } from "@/services/CalculationsService";
+import { AbsenceService } from "@/services/AbsenceService";
+import { EntryFormErrors, EntryRuleService } from "@/services/EntryRuleService";
+import { CycleClosingService } from "@/services/CycleClosingService";
+import { BusinessCalendarService } from "@/services/BusinessCalendarService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { DEFAULT_GOAL, GoalService } from "@/services/GoalService";
 import { HistoryTab } from "@/components/Dashboard/HistoryTab";
+import { AbsencesTab } from "@/components/Dashboard/AbsencesTab";
 import { MonthlyEvolutionTab } from "@/components/Dashboard/MonthlyEvolutionTab";
+import { CyclePicker } from "@/components/Dashboard/CyclePicker";
+import { AuditHistoryDrawer, AuditTarget } from "@/components/Audit/AuditHistoryDrawer";
+import { useSelectedCycle } from "@/hooks/use-selected-cycle";
+import { useSession } from "@/hooks/use-session";
+import { useRefineries } from "@/hooks/use-refineries";
 
 interface DashboardMetrics {
   todayPoints: number;
   weekPoints: number;
   monthPoints: number;
+  pendingPoints: number;         // pontos do ciclo aguardando aprovação (não contam nas metas)
+  todayRegistered: number;       // pontos registrados hoje, pendentes e aprovados (limite diário)
   dailyGoal: number;
   weeklyGoal: number;
   monthlyGoal: number;
+  remainingWorkingDays: number;  // dias úteis restantes no ciclo, contando hoje
+  todayOff: string | null;       // motivo de hoje não ter meta (feriado, folga, fim de semana ou ausência)
 }
 
 const Dashboard = () => {
@@ -30,21 +46,39 @@ const Dashboard = () => {
   const [pontos, setPontos] = useState("");
   const [observacoes, setObservacoes] = useState("");
   const [selectedRefinery, setSelectedRefinery] = useState("");
+  // Data e horário do registro (vazios = agora); retroativo dentro da janela de entry_rule
+  const [entryDate, setEntryDate] = useState("");
+  const [entryTime, setEntryTime] = useState("");
+  const [formErrors, setFormErrors] = useState<EntryFormErrors>({});
   const [metrics, setMetrics] = useState<DashboardMetrics>({
     todayPoints: 0,
     weekPoints: 0,
     monthPoints: 0,
-    dailyGoal: 475,
-    weeklyGoal: 2375,
-    monthlyGoal: 9500
+    pendingPoints: 0,
+    todayRegistered: 0,
+    dailyGoal: DEFAULT_GOAL.daily,
+    weeklyGoal: DEFAULT_GOAL.weekly,
+    monthlyGoal: DEFAULT_GOAL.monthly,
+    remainingWorkingDays: 0,
+    todayOff: null
   });
   const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const submittingRef = useRef(false); // clique duplo: o segundo envio sai antes de o botão ser desabilitado
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { cycleId } = useSelectedCycle();
+  const { user, signOut } = useSession();
+  const { refineries } = useRefineries();
 
   const progressoDiario = CalculationsService.calculateProgressPercentage(metrics.todayPoints, metrics.dailyGoal);
   const progressoSemanal = CalculationsService.calculateProgressPercentage(metrics.weekPoints, metrics.weeklyGoal);
   const progressoMensal = CalculationsService.calculateProgressPercentage(metrics.monthPoints, metrics.monthlyGoal);
+  const pontosFaltantes = Math.max(0, metrics.monthlyGoal - metrics.monthPoints);
+  const pontosPorDiaRestante = metrics.remainingWorkingDays > 0
+    ? Math.ceil(pontosFaltantes / metrics.remainingWorkingDays)
+    : 0;
 
   // Carregar dados do funcionário e métricas
   const loadEmployeeData = async (employeeId: number) => {
@@ -64,33 +98,55 @@ const Dashboard = () => {
       }
 
       setCurrentUser(employee);
+      await Promise.all([BusinessCalendarService.load(), EntryRuleService.loadRules(), CycleClosingService.loadClosings()]);
 
-      // Definir refinaria padrão
-      setSelectedRefinery(employee.default_refinery || "RPBC");
-
-      // Calcular metas baseadas no funcionário
-      const dailyGoal = CalculationsService.getDailyGoal(employee);
-      const weeklyGoal = CalculationsService.getWeeklyGoal(employee);
-      const monthlyGoal = CalculationsService.getMonthlyGoal(employee);
+      // Metas do funcionário vigentes no ciclo selecionado
+      const cycle = CalculationsService.getCycle(cycleId);
+      const goal = await GoalService.getEmployeeGoal(employeeId, cycle.id);
 
       // Calcular pontos atuais
+      const today = BusinessTimeService.today();
       const todayPoints = await EmployeeService.getTodayPoints(employeeId);
+      const todayPending = await EmployeeService.getPendingPoints(employeeId, { start: today, end: today });
       
       // Calcular pontos da semana selecionada
-      const weekDates = CalculationsService.getWeekDates(selectedWeek);
+      const weekDates = CalculationsService.getWeekDates(CalculationsService.resolveWeek(selectedWeek, cycleId), cycleId);
       const weekPoints = await EmployeeService.getWeekPoints(employeeId, weekDates);
 
       // Calcular pontos mensais
-      const monthDates = CalculationsService.getMonthCycleDates();
+      const monthDates = CalculationsService.getMonthCycleDates(cycleId);
       const monthPoints = await EmployeeService.getMonthPoints(employeeId, monthDates);
+      const pendingPoints = await EmployeeService.getPendingPoints(employeeId, monthDates);
+
+      // Metas proporcionais aos dias úteis (hoje, semana selecionada e ciclo),
+      // descontados os dias de ausência aprovada
+      const absences = await AbsenceService.getApprovedAbsences({
+        start: today < cycle.start ? today : cycle.start,
+        end: today > cycle.end ? today : cycle.end
+      }, employeeId);
+      const holiday = BusinessCalendarService.holidayOn(today);
+      const absenceToday = AbsenceService.absenceOn(absences, employeeId, today);
+      const isWorkingDay = BusinessCalendarService.isWorkingDay(today);
+      const remainingPeriod = { start: today > cycle.start ? today : cycle.start, end: cycle.end };
+      const remainingWorkingDays = today > cycle.end ? 0 :
+        BusinessCalendarService.remainingWorkingDays(cycle, today) - AbsenceService.absentDays(absences, employeeId, remainingPeriod);
 
       setMetrics({
         todayPoints,
         weekPoints,
         monthPoints,
-        dailyGoal,
-        weeklyGoal,
-        monthlyGoal
+        pendingPoints,
+        todayRegistered: todayPoints + todayPending,
+        dailyGoal: absenceToday ? 0 : BusinessCalendarService.dailyGoalOn(goal.daily, today),
+        weeklyGoal: BusinessCalendarService.weeklyGoalFor(
+          goal.weekly, weekDates, AbsenceService.absentDays(absences, employeeId, weekDates)
+        ),
+        monthlyGoal: BusinessCalendarService.monthlyGoalFor(
+          goal.monthly, cycle, AbsenceService.absentDays(absences, employeeId, cycle)
+        ),
+        remainingWorkingDays,
+        todayOff: !isWorkingDay ? holiday?.name || "Fim de semana" :
+          absenceToday ? AbsenceService.label(absenceToday.type) : null
       });
 
     } catch (error) {
@@ -100,33 +156,27 @@ const Dashboard = () => {
         description: "Não foi possível carregar os dados.",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
   };
 
+  // Acesso restrito a funcionários pelo RequireRole em App.tsx
   useEffect(() => {
-    const userData = localStorage.getItem("currentUser");
-    if (!userData) {
-      navigate("/login");
-      return;
-    }
-    
-    try {
-      const user = JSON.parse(userData);
-      if (user.id) {
-        loadEmployeeData(user.id);
-      } else {
-        navigate("/login");
-      }
-    } catch (error) {
-      console.error('Erro ao parsear dados do usuário:', error);
+    if (user?.employeeId) {
+      loadEmployeeData(user.employeeId);
+    } else {
       navigate("/login");
     }
-  }, [navigate, selectedWeek]); // Recarregar quando mudar semana
+  }, [navigate, user?.employeeId, selectedWeek, cycleId]); // Recarregar quando mudar semana ou ciclo
 
-  const handleLogout = () => {
-    localStorage.removeItem("currentUser");
+  // Refinaria padrão do funcionário (ou a primeira ativa) enquanto nenhuma refinaria ativa estiver selecionada
+  useEffect(() => {
+    if (!currentUser || refineries.some(option => String(option.id) === selectedRefinery)) return;
+    const preferred = refineries.find(option => option.name === currentUser.default_refinery) || refineries[0];
+    setSelectedRefinery(preferred ? String(preferred.id) : "");
+  }, [currentUser, refineries, selectedRefinery]);
+
+  const handleLogout = async () => {
+    await signOut();
     toast({
       title: "Logout realizado",
       description: "Até logo!"
@@ -136,51 +186,87 @@ const Dashboard = () => {
 
   const handleRegistrar = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!pontos || !observacoes || !currentUser) {
-      toast({
-        title: "Erro",
-        description: "Por favor, preencha todos os campos.",
-        variant: "destructive"
-      });
-      return;
-    }
+    if (!currentUser || submittingRef.current) return;
 
+    submittingRef.current = true;
+    setSubmitting(true);
     try {
-      setLoading(true);
-      
-      // Criar novo registro
-      const newEntry = await EmployeeService.createEntry({
-        employee_id: currentUser.id,
-        date: new Date().toISOString(),
-        refinery: selectedRefinery,
-        points: parseInt(pontos),
-        observations: observacoes
-      });
+      // Mesmas regras do banco (entry_rule): erros aparecem em cada campo
+      const rules = await EntryRuleService.loadRules();
+      const refinery = refineries.find(option => String(option.id) === selectedRefinery);
+      const today = BusinessTimeService.today();
+      const day = entryDate || today;
+      const instant = entryDate || entryTime
+        ? BusinessTimeService.toInstant(day, entryTime || BusinessTimeService.formatTime(new Date()))
+        : new Date();
+
+      // Limite diário do dia escolhido (hoje já está nas métricas)
+      const dayRegistered = day === today
+        ? metrics.todayRegistered
+        : (await EmployeeService.getWeekPoints(currentUser.id, { start: day, end: day })) +
+          (await EmployeeService.getPendingPoints(currentUser.id, { start: day, end: day }));
+
+      const { data, errors } = EntryRuleService.validate(
+        EntryRuleService.entrySchema(dayRegistered, rules, true),
+        {
+          refineryId: refinery?.id ?? 0,
+          points: pontos.trim() || undefined,
+          observations: observacoes,
+          date: instant.toISOString()
+        }
+      );
+      setFormErrors(errors);
+      if (!data || !refinery) return;
+
+      try {
+        // Criar novo registro
+        const { entry: newEntry, violation } = await EmployeeService.createEntry({
+          employee_id: currentUser.id,
+          date: data.date,
+          refinery: refinery.name,
+          refinery_id: refinery.id,
+          points: data.points,
+          observations: data.observations
+        });
+
+        if (newEntry) {
+          toast({
+            title: "Registro salvo!",
+            description: newEntry.backdated
+              ? `${data.points} pontos registrados em ${BusinessTimeService.formatDate(newEntry.date)}. Eles passam a contar depois da aprovação.`
+              : `${data.points} pontos registrados. Eles passam a contar depois da aprovação.`
+          });
 
-      if (newEntry) {
+          // Limpar formulário
+          setPontos("");
+          setObservacoes("");
+          setEntryDate("");
+          setEntryTime("");
+
+          // Recarregar métricas
+          await loadEmployeeData(currentUser.id);
+        } else if (violation) {
+          // Regra aplicada pelo banco (ex.: registro duplicado ou limite diário)
+          if (violation.field) setFormErrors({ [violation.field]: violation.message });
+          toast({
+            title: "Registro não salvo",
+            description: violation.message,
+            variant: "destructive"
+          });
+        } else {
+          throw new Error('Falha ao salvar registro');
+        }
+      } catch (error) {
+        console.error('Erro ao registrar pontos:', error);
         toast({
-          title: "Registro salvo!",
-          description: `${pontos} pontos registrados com sucesso.`
+          title: "Erro",
+          description: "Não foi possível salvar o registro.",
+          variant: "destructive"
         });
-        
-        // Limpar formulário
-        setPontos("");
-        setObservacoes("");
-        
-        // Recarregar métricas
-        await loadEmployeeData(currentUser.id);
-      } else {
-        throw new Error('Falha ao salvar registro');
       }
-    } catch (error) {
-      console.error('Erro ao registrar pontos:', error);
-      toast({
-        title: "Erro",
-        description: "Não foi possível salvar o registro.",
-        variant: "destructive"
-      });
     } finally {
-      setLoading(false);
+      submittingRef.current = false;
+      setSubmitting(false);
     }
   };
 
@@ -209,22 +295,35 @@ const Dashboard = () => {
             </div>
             
             <div className="flex items-center space-x-4">
+              <CyclePicker />
+
               <div className="flex items-center space-x-2">
                 <Label className="text-sm text-muted-foreground">Semana:</Label>
-                <Select value={selectedWeek} onValueChange={setSelectedWeek}>
+                <Select value={CalculationsService.resolveWeek(selectedWeek, cycleId)} onValueChange={setSelectedWeek}>
                   <SelectTrigger className="w-32 bg-secondary border-border">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent className="bg-card border-border">
-                    <SelectItem value="1">Semana 1</SelectItem>
-                    <SelectItem value="2">Semana 2</SelectItem>
-                    <SelectItem value="3">Semana 3</SelectItem>
-                    <SelectItem value="4">Semana 4</SelectItem>
-                    <SelectItem value="5">Semana 5</SelectItem>
+                    {CalculationsService.getAvailableWeeks(cycleId).map(week => (
+                      <SelectItem key={week} value={week}>Semana {week}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
               
+              <Button
+                variant="outline"
+                onClick={() => setAuditTarget({
+                  type: "employee",
+                  id: currentUser.id,
+                  description: currentUser.real_name || currentUser.name
+                })}
+                className="border-border"
+              >
+                <History className="w-4 h-4 mr-2" />
+                Histórico de alterações
+              </Button>
+
               <Button 
                 variant="outline" 
                 onClick={handleLogout}
@@ -253,7 +352,9 @@ const Dashboard = () => {
                 {metrics.todayPoints}
               </div>
               <p className="text-xs text-muted-foreground mb-2">
-                Meta diária: {metrics.dailyGoal} pontos
+                {metrics.todayOff
+                  ? `Sem meta hoje (${metrics.todayOff})`
+                  : `Meta diária: ${metrics.dailyGoal} pontos`}
               </p>
               <Progress value={progressoDiario} className="h-2" />
               <p className="text-xs text-muted-foreground mt-1">
@@ -265,7 +366,7 @@ const Dashboard = () => {
           <Card className="bg-gradient-card border-border/50 shadow-card">
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium text-muted-foreground">
-                Pontos Semana {selectedWeek}
+                Pontos Semana {CalculationsService.resolveWeek(selectedWeek, cycleId)}
               </CardTitle>
               <Target className="h-4 w-4 text-dashboard-secondary" />
             </CardHeader>
@@ -301,13 +402,25 @@ const Dashboard = () => {
               <p className="text-xs text-muted-foreground mt-1">
                 {progressoMensal}% da meta mensal
               </p>
+              <p className="text-xs text-muted-foreground mt-1">
+                {pontosFaltantes === 0
+                  ? "Meta mensal atingida"
+                  : metrics.remainingWorkingDays > 0
+                    ? `Pontos necessários por dia restante: ${pontosPorDiaRestante} (${metrics.remainingWorkingDays} ${metrics.remainingWorkingDays === 1 ? "dia útil" : "dias úteis"})`
+                    : `Sem dias úteis restantes no ciclo: faltam ${pontosFaltantes} pontos`}
+              </p>
+              {metrics.pendingPoints > 0 && (
+                <p className="text-xs text-dashboard-warning mt-1">
+                  {metrics.pendingPoints} pontos aguardando aprovação
+                </p>
+              )}
             </CardContent>
           </Card>
         </div>
 
         {/* Abas */}
         <Tabs defaultValue="registrar" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 bg-card/50 border border-border">
+          <TabsList className="grid w-full grid-cols-4 bg-card/50 border border-border">
             <TabsTrigger 
               value="evolucao" 
               className="data-[state=active]:bg-gradient-primary data-[state=active]:text-white"
@@ -326,12 +439,19 @@ const Dashboard = () => {
             >
               Histórico
             </TabsTrigger>
+            <TabsTrigger 
+              value="ausencias"
+              className="data-[state=active]:bg-gradient-primary data-[state=active]:text-white"
+            >
+              Ausências
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="evolucao" className="mt-6">
             <MonthlyEvolutionTab 
               employeeId={currentUser.id} 
               monthlyGoal={metrics.monthlyGoal}
+              cycleId={cycleId}
             />
           </TabsContent>
 
@@ -349,17 +469,12 @@ const Dashboard = () => {
                         <SelectValue placeholder="Selecione a refinaria" />
                       </SelectTrigger>
                       <SelectContent className="bg-card border-border">
-                        <SelectItem value="RPBC">RPBC</SelectItem>
-                        <SelectItem value="REVAP">REVAP</SelectItem>
-                        <SelectItem value="REPAR">REPAR</SelectItem>
-                        <SelectItem value="REFAP">REFAP</SelectItem>
-                        <SelectItem value="REMAN">REMAN</SelectItem>
-                        <SelectItem value="REDUC">REDUC</SelectItem>
-                        <SelectItem value="REGAP">REGAP</SelectItem>
-                        <SelectItem value="RELAN">RELAN</SelectItem>
-                        <SelectItem value="RNEST">RNEST</SelectItem>
+                        {refineries.map(refinery => (
+                          <SelectItem key={refinery.id} value={String(refinery.id)}>{refinery.name}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
+                    {formErrors.refinery && <p className="text-sm text-destructive">{formErrors.refinery}</p>}
                   </div>
 
                   <div className="space-y-2">
@@ -367,10 +482,14 @@ const Dashboard = () => {
                     <Input
                       id="pontos"
                       type="number"
+                      min={EntryRuleService.getRules().minPoints}
+                      max={EntryRuleService.getRules().maxPoints}
                       value={pontos}
                       onChange={(e) => setPontos(e.target.value)}
                       placeholder="Digite os pontos"
+                      aria-invalid={!!formErrors.points}
                     />
+                    {formErrors.points && <p className="text-sm text-destructive">{formErrors.points}</p>}
                   </div>
 
                   <div className="space-y-2">
@@ -381,15 +500,52 @@ const Dashboard = () => {
                       onChange={(e) => setObservacoes(e.target.value)}
                       placeholder="Digite suas observações"
                       className="min-h-24"
+                      aria-invalid={!!formErrors.observations}
                     />
+                    {formErrors.observations && <p className="text-sm text-destructive">{formErrors.observations}</p>}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="data-registro">Data:</Label>
+                        <Input
+                          id="data-registro"
+                          type="date"
+                          min={EntryRuleService.earliestEntryDate()}
+                          max={BusinessTimeService.today()}
+                          value={entryDate || BusinessTimeService.today()}
+                          onChange={(e) => setEntryDate(e.target.value)}
+                          aria-invalid={!!formErrors.date}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="horario-registro">Horário:</Label>
+                        <Input
+                          id="horario-registro"
+                          type="time"
+                          value={entryTime}
+                          onChange={(e) => setEntryTime(e.target.value)}
+                          placeholder="Agora"
+                        />
+                      </div>
+                    </div>
+                    {formErrors.date ? (
+                      <p className="text-sm text-destructive">{formErrors.date}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Esqueceu algum registro? Você pode lançá-lo até {EntryRuleService.getRules().backdateGraceDays} dias
+                        depois, dentro do ciclo atual. Registros retroativos ficam marcados para o admin.
+                      </p>
+                    )}
                   </div>
 
                   <Button 
                     type="submit" 
                     className="bg-gradient-primary hover:opacity-90 text-white"
-                    disabled={loading}
+                    disabled={submitting}
                   >
-                    {loading ? 'Registrando...' : 'Registrar'}
+                    {submitting ? 'Registrando...' : 'Registrar'}
                   </Button>
                 </form>
               </CardContent>
@@ -399,8 +555,18 @@ const Dashboard = () => {
           <TabsContent value="historico" className="mt-6">
             <HistoryTab employeeId={currentUser.id} />
           </TabsContent>
+
+          <TabsContent value="ausencias" className="mt-6">
+            <AbsencesTab employeeId={currentUser.id} />
+          </TabsContent>
         </Tabs>
       </div>
+
+      <AuditHistoryDrawer
+        target={auditTarget}
+        onOpenChange={(open) => !open && setAuditTarget(null)}
+        employeeNames={{ [currentUser.id]: currentUser.real_name || currentUser.name }}
+      />
     </div>
   );
 };
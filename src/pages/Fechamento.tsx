@@ -0,0 +1,343 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useSelectedCycle } from "@/hooks/use-selected-cycle";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { CycleClosingService } from "@/services/CycleClosingService";
+import { EmploymentTypeService } from "@/services/EmploymentTypeService";
+import { ExcelProcessorService } from "@/services/ExcelProcessorService";
+import { ExportService } from "@/services/ExportService";
+import { CycleStatement, PayrollService } from "@/services/PayrollService";
+import { BonusTiersDialog } from "@/components/Fechamento/BonusTiersDialog";
+import { ReopenCycleDialog } from "@/components/Fechamento/ReopenCycleDialog";
+import { Receipt, Download, FileText, Award, Clock, Lock, LockOpen } from "lucide-react";
+
+export default function Fechamento() {
+  const { toast } = useToast();
+  const { cycleId } = useSelectedCycle();
+  const [statement, setStatement] = useState<CycleStatement | null>(null);
+  const [tiersOpen, setTiersOpen] = useState(false);
+  const [confirmClose, setConfirmClose] = useState(false);
+  const [reopenOpen, setReopenOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadStatement = async () => {
+    try {
+      setLoading(true);
+      setStatement(await PayrollService.getStatement(cycleId));
+    } catch (error) {
+      console.error('Erro ao carregar fechamento:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar o fechamento do ciclo",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStatement();
+  }, [cycleId]);
+
+  const handleExportExcel = () => {
+    if (!statement) return;
+    const fileName = ExportService.exportStatementToExcel(statement);
+    toast({
+      title: "Sucesso",
+      description: `Arquivo ${fileName} baixado com sucesso!`,
+    });
+  };
+
+  const handleExportPdf = () => {
+    if (!statement) return;
+    try {
+      ExportService.printStatement(statement);
+    } catch (error) {
+      console.error('Erro ao gerar PDF:', error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível gerar o PDF",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClose = async () => {
+    if (!statement) return;
+    setSaving(true);
+    const { closing, error } = await CycleClosingService.closeCycle(statement.cycle, statement.rows);
+    setSaving(false);
+    setConfirmClose(false);
+
+    if (!closing) {
+      toast({
+        title: "Erro",
+        description: error || "Não foi possível fechar o ciclo",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Sucesso",
+      description: `Ciclo ${statement.cycle.label} fechado`,
+    });
+    loadStatement();
+  };
+
+  const handleReopen = async (reason: string) => {
+    if (!statement) return;
+    setSaving(true);
+    const reopened = await CycleClosingService.reopenCycle(statement.cycle.id, reason);
+    setSaving(false);
+
+    if (!reopened) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível reabrir o ciclo",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setReopenOpen(false);
+    toast({
+      title: "Sucesso",
+      description: `Ciclo ${statement.cycle.label} reaberto`,
+    });
+    loadStatement();
+  };
+
+  const currency = (value: number) => ExcelProcessorService.formatCurrency(value);
+  const getAttainmentColor = (attainment: number) =>
+    attainment >= 100 ? "text-dashboard-success" : attainment >= 70 ? "text-dashboard-warning" : "text-dashboard-danger";
+
+  const weeks = statement?.weeks || [];
+  const columnCount = weeks.length + 8;
+  const closing = statement?.closing || null;
+  // Só ciclos já terminados podem ser fechados
+  const canClose = !!statement && !closing && statement.cycle.end < BusinessTimeService.today();
+  const lastReopening = statement
+    ? CycleClosingService.getHistory(statement.cycle.id).find(entry => entry.reopenedAt)
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Fechamento</h1>
+          <p className="text-muted-foreground">
+            {statement
+              ? `Ciclo ${statement.cycle.label}: ${BusinessTimeService.formatDate(statement.cycle.start)} a ${BusinessTimeService.formatDate(statement.cycle.end)}`
+              : "Pontos, metas e valores do ciclo por funcionário"}
+          </p>
+          {closing ? (
+            <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
+              <Badge variant="outline" className="gap-1 text-dashboard-warning border-dashboard-warning/30">
+                <Lock className="h-3 w-3" />
+                Fechado
+              </Badge>
+              em {BusinessTimeService.formatDate(closing.closedAt)}
+              {closing.closedByName && ` por ${closing.closedByName}`}. Valores guardados no fechamento.
+            </div>
+          ) : lastReopening && (
+            <p className="mt-2 text-sm text-muted-foreground">
+              Reaberto em {BusinessTimeService.formatDate(lastReopening.reopenedAt!)}
+              {lastReopening.reopenedByName && ` por ${lastReopening.reopenedByName}`}: {lastReopening.reopenReason}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {closing ? (
+            <Button variant="outline" onClick={() => setReopenOpen(true)} disabled={loading || saving}>
+              <LockOpen className="h-4 w-4 mr-1" />
+              Reabrir ciclo
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => setConfirmClose(true)}
+              disabled={!canClose || loading || saving}
+              title={canClose ? undefined : "O ciclo só pode ser fechado depois do último dia"}
+            >
+              <Lock className="h-4 w-4 mr-1" />
+              Fechar ciclo
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setTiersOpen(true)}>
+            <Award className="h-4 w-4 mr-1" />
+            Faixas de bônus
+          </Button>
+          <Button variant="outline" onClick={handleExportPdf} disabled={!statement || loading}>
+            <FileText className="h-4 w-4 mr-1" />
+            PDF
+          </Button>
+          <Button variant="dashboard" onClick={handleExportExcel} disabled={!statement || loading}>
+            <Download className="h-4 w-4 mr-1" />
+            Excel
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-gradient-card shadow-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <Receipt className="h-5 w-5" />
+            Extrato por funcionário
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-secondary/20">
+                <TableHead className="text-foreground">Funcionário</TableHead>
+                {weeks.map(week => (
+                  <TableHead
+                    key={week.number}
+                    className="text-foreground text-right"
+                    title={`${BusinessTimeService.formatDate(week.start)} a ${BusinessTimeService.formatDate(week.end)}`}
+                  >
+                    Sem. {week.number}
+                  </TableHead>
+                ))}
+                <TableHead className="text-foreground text-right">Pontos</TableHead>
+                <TableHead className="text-foreground text-right">Meta mensal</TableHead>
+                <TableHead className="text-foreground text-right">Atingimento</TableHead>
+                <TableHead className="text-foreground text-right">Valor dos pontos</TableHead>
+                <TableHead className="text-foreground">Faixa</TableHead>
+                <TableHead className="text-foreground text-right">Bônus</TableHead>
+                <TableHead className="text-foreground text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                    <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                    Calculando fechamento...
+                  </TableCell>
+                </TableRow>
+              ) : !statement || statement.rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8 text-muted-foreground">
+                    Nenhum funcionário com registros neste ciclo.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statement.rows.map(row => (
+                  <TableRow key={row.employeeId} className="border-border hover:bg-secondary/10">
+                    <TableCell className="font-medium text-foreground">
+                      {row.name}
+                      {row.employmentType !== "clt" && (
+                        <Badge variant="outline" className="ml-2 text-xs border-dashboard-info/40 text-dashboard-info">
+                          {EmploymentTypeService.label(row.employmentType)}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {row.weekPoints.map((points, index) => (
+                      <TableCell key={index} className="font-mono text-right text-muted-foreground">
+                        {points.toLocaleString()}
+                      </TableCell>
+                    ))}
+                    <TableCell className="font-mono text-right text-dashboard-primary font-bold">{row.points.toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-right text-muted-foreground">
+                      {row.monthlyGoal.toLocaleString()}
+                      {row.absentDays > 0 && (
+                        <div className="text-xs text-dashboard-info" title="Dias úteis de ausência aprovada, descontados da meta">
+                          {row.absentDays} {row.absentDays === 1 ? "dia ausente" : "dias ausentes"}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className={`font-mono text-right font-semibold ${getAttainmentColor(row.attainment)}`}>
+                      {row.attainment.toFixed(1)}%
+                    </TableCell>
+                    <TableCell className="font-mono text-right text-foreground">{currency(row.value)}</TableCell>
+                    <TableCell>
+                      {row.bonusTier ? (
+                        <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">
+                          {row.bonusTier}
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono text-right text-foreground">{currency(row.bonusValue)}</TableCell>
+                    <TableCell className="font-mono text-right text-dashboard-success font-bold">{currency(row.total)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+            {!loading && statement && statement.rows.length > 0 && (
+              <TableFooter>
+                <TableRow className="border-border font-semibold">
+                  <TableCell className="text-foreground">Total da equipe</TableCell>
+                  {statement.totals.weekPoints.map((points, index) => (
+                    <TableCell key={index} className="font-mono text-right">{points.toLocaleString()}</TableCell>
+                  ))}
+                  <TableCell className="font-mono text-right">{statement.totals.points.toLocaleString()}</TableCell>
+                  <TableCell className="font-mono text-right" title="Soma das metas dos vínculos que entram na meta da equipe">
+                    {statement.totals.teamGoal.toLocaleString()}
+                  </TableCell>
+                  <TableCell className={`font-mono text-right ${getAttainmentColor(statement.totals.teamAttainment)}`}>
+                    {statement.totals.teamAttainment.toFixed(1)}%
+                  </TableCell>
+                  <TableCell className="font-mono text-right">{currency(statement.totals.value)}</TableCell>
+                  <TableCell />
+                  <TableCell className="font-mono text-right">{currency(statement.totals.bonusValue)}</TableCell>
+                  <TableCell className="font-mono text-right text-dashboard-success">{currency(statement.totals.total)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+        </CardContent>
+      </Card>
+
+      <BonusTiersDialog open={tiersOpen} onOpenChange={setTiersOpen} onChange={loadStatement} />
+
+      <AlertDialog open={confirmClose} onOpenChange={setConfirmClose}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Fechar ciclo {statement?.cycle.label}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os registros de {statement && BusinessTimeService.formatDate(statement.cycle.start)} a{" "}
+              {statement && BusinessTimeService.formatDate(statement.cycle.end)} deixam de aceitar inclusões, alterações
+              e exclusões, e os totais e metas de cada funcionário ficam guardados como estão agora.
+              Para alterar depois, será preciso reabrir o ciclo informando o motivo.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleClose} disabled={saving}>
+              Fechar ciclo
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReopenCycleDialog
+        open={reopenOpen}
+        cycleLabel={statement?.cycle.label || ""}
+        saving={saving}
+        onOpenChange={setReopenOpen}
+        onConfirm={handleReopen}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,380 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { CycleCalendarService } from "@/services/CycleCalendarService";
+import { EmployeeService, Employee, EmployeeFields } from "@/services/EmployeeService";
+import { DEFAULT_GOAL, EmployeeGoal, GoalService } from "@/services/GoalService";
+import { RosterService } from "@/services/RosterService";
+import { EMPLOYMENT_TYPE_LABELS } from "@/services/EmploymentTypeService";
+import { EmployeeFormDialog } from "@/components/Funcionarios/EmployeeFormDialog";
+import { AccessKeyDialog } from "@/components/Funcionarios/AccessKeyDialog";
+import { EmploymentRulesCard } from "@/components/Funcionarios/EmploymentRulesCard";
+import { AuditHistoryDrawer, AuditTarget } from "@/components/Audit/AuditHistoryDrawer";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Users, UserPlus, Edit, History, KeyRound, UserX, UserCheck, Clock } from "lucide-react";
+
+// Ação que pede confirmação antes de executar
+interface PendingAction {
+  type: "deactivate" | "regenerate";
+  employee: Employee;
+}
+
+export default function Funcionarios() {
+  const { toast } = useToast();
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [goals, setGoals] = useState<Record<number, EmployeeGoal>>({});
+  const [showInactive, setShowInactive] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [revealedKey, setRevealedKey] = useState<{ employeeName: string; accessKey: string } | null>(null);
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadEmployees = async () => {
+    try {
+      setLoading(true);
+      // Metas vigentes no ciclo atual (as mesmas de Metas, gráficos e dashboard)
+      await CycleCalendarService.loadConfig();
+      const [allEmployees, currentGoals] = await Promise.all([
+        EmployeeService.getAllEmployees(true),
+        GoalService.getGoalsForCycle(CycleCalendarService.current().id)
+      ]);
+      setEmployees(allEmployees);
+      setGoals(currentGoals);
+    } catch (error) {
+      console.error('Erro ao carregar funcionários:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar funcionários",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEmployees();
+  }, []);
+
+  const openForm = (employee: Employee | null) => {
+    setEditingEmployee(employee);
+    setFormOpen(true);
+  };
+
+  // A meta semanal do cadastro passa a valer a partir do ciclo atual (tabela goal)
+  const syncWeeklyGoal = async (employeeId: number, weeklyGoal: number) => {
+    await CycleCalendarService.loadConfig();
+    const cycleId = CycleCalendarService.current().id;
+    const goal = await GoalService.getEmployeeGoal(employeeId, cycleId);
+    if (goal.weekly === weeklyGoal) return;
+
+    await GoalService.saveGoal(employeeId, cycleId, { ...goal, weekly: weeklyGoal });
+  };
+
+  const revealNewKey = async (employee: Employee) => {
+    const accessKey = await EmployeeService.regenerateAccessKey(employee.id);
+    if (!accessKey) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível gerar a chave de acesso",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setRevealedKey({ employeeName: employee.real_name, accessKey });
+  };
+
+  const handleSave = async (fields: EmployeeFields, weeklyGoal: number) => {
+    setSaving(true);
+    const saved = editingEmployee
+      ? await EmployeeService.updateEmployee(editingEmployee.id, fields)
+      : await EmployeeService.createEmployee(fields);
+
+    if (!saved) {
+      setSaving(false);
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar o funcionário. Verifique se o usuário já existe.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await syncWeeklyGoal(saved.id, weeklyGoal);
+    setSaving(false);
+    setFormOpen(false);
+
+    toast({
+      title: "Sucesso",
+      description: editingEmployee ? "Cadastro atualizado" : `${saved.real_name} cadastrado`,
+    });
+
+    // Novo funcionário: a chave de acesso é gerada e exibida uma única vez
+    if (!editingEmployee) {
+      await revealNewKey(saved);
+    }
+    loadEmployees();
+  };
+
+  const handleToggleActive = async (employee: Employee, active: boolean) => {
+    const updated = await EmployeeService.setEmployeeActive(employee.id, active);
+    if (!updated) {
+      toast({
+        title: "Erro",
+        description: active ? "Não foi possível reativar o funcionário" : "Não foi possível desativar o funcionário",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setEmployees(current => current.map(item => item.id === updated.id ? updated : item));
+    toast({
+      title: active ? "Funcionário reativado" : "Funcionário desativado",
+      description: active
+        ? `${employee.real_name} pode voltar a registrar pontos`
+        : `${employee.real_name} não pode mais entrar nem registrar pontos. O histórico foi mantido.`,
+    });
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const { type, employee } = pendingAction;
+    setPendingAction(null);
+
+    if (type === "deactivate") {
+      await handleToggleActive(employee, false);
+    } else {
+      await revealNewKey(employee);
+    }
+  };
+
+  // Cor de cada funcionário como aparece nos gráficos (cadastrada ou automática)
+  const colors = RosterService.assignColors(employees);
+  const suggestedColor = RosterService.suggestColor(Object.values(colors));
+
+  const visibleEmployees = showInactive ? employees : employees.filter(employee => employee.active);
+  const inactiveCount = employees.filter(employee => !employee.active).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Funcionários</h1>
+          <p className="text-muted-foreground">Cadastro, desativação e chaves de acesso da equipe</p>
+        </div>
+        <Button variant="dashboard" onClick={() => openForm(null)}>
+          <UserPlus className="h-4 w-4 mr-1" />
+          Novo funcionário
+        </Button>
+      </div>
+
+      <Card className="bg-gradient-card shadow-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-foreground">
+            <div className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Equipe
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="show-inactive" checked={showInactive} onCheckedChange={setShowInactive} />
+              <Label htmlFor="show-inactive" className="text-sm font-normal text-muted-foreground">
+                Mostrar inativos ({inactiveCount})
+              </Label>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-secondary/20">
+                <TableHead className="text-foreground">Nome</TableHead>
+                <TableHead className="text-foreground">Usuário</TableHead>
+                <TableHead className="text-foreground">Função</TableHead>
+                <TableHead className="text-foreground">Vínculo</TableHead>
+                <TableHead className="text-foreground">Refinaria padrão</TableHead>
+                <TableHead className="text-foreground">Meta semanal</TableHead>
+                <TableHead className="text-foreground">Status</TableHead>
+                <TableHead className="text-foreground">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                    Carregando funcionários...
+                  </TableCell>
+                </TableRow>
+              ) : visibleEmployees.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                    Nenhum funcionário cadastrado.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleEmployees.map(employee => (
+                  <TableRow
+                    key={employee.id}
+                    className={`border-border hover:bg-secondary/10 ${employee.active ? '' : 'opacity-60'}`}
+                  >
+                    <TableCell className="font-medium text-foreground">
+                      <div className="flex items-center gap-2">
+                        <div
+                          className="w-3 h-3 rounded-full flex-shrink-0"
+                          style={{ backgroundColor: colors[employee.id] }}
+                        />
+                        <div>
+                          {employee.real_name}
+                          {employee.name && employee.name !== employee.real_name && (
+                            <span className="block text-xs text-muted-foreground">{employee.name}</span>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-muted-foreground">{employee.username}</TableCell>
+                    <TableCell className="text-foreground">{employee.role || "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={employee.employment_type === "clt" ? "" : "border-dashboard-info/40 text-dashboard-info"}>
+                        {EMPLOYMENT_TYPE_LABELS[employee.employment_type] || EMPLOYMENT_TYPE_LABELS.clt}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-foreground">{employee.default_refinery || "—"}</TableCell>
+                    <TableCell className="font-mono text-dashboard-primary font-bold">
+                      {GoalService.resolve(goals, employee.id).weekly.toLocaleString()}
+                    </TableCell>
+                    <TableCell>
+                      {employee.active ? (
+                        <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">Ativo</Badge>
+                      ) : (
+                        <Badge variant="secondary" title={employee.deactivated_at ? `Desde ${BusinessTimeService.formatDate(employee.deactivated_at)}` : undefined}>
+                          Inativo
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-primary/20"
+                          onClick={() => openForm(employee)}
+                          title="Editar cadastro"
+                        >
+                          <Edit className="h-4 w-4 text-dashboard-primary" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-info/20"
+                          onClick={() => setAuditTarget({ type: "employee", id: employee.id, description: employee.real_name })}
+                          title="Histórico de alterações"
+                        >
+                          <History className="h-4 w-4 text-dashboard-info" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-warning/20"
+                          onClick={() => setPendingAction({ type: "regenerate", employee })}
+                          disabled={!employee.active}
+                          title="Gerar nova chave de acesso"
+                        >
+                          <KeyRound className="h-4 w-4 text-dashboard-warning" />
+                        </Button>
+                        {employee.active ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                            onClick={() => setPendingAction({ type: "deactivate", employee })}
+                            title="Desativar funcionário"
+                          >
+                            <UserX className="h-4 w-4 text-dashboard-danger" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 hover:bg-dashboard-success/20"
+                            onClick={() => handleToggleActive(employee, true)}
+                            title="Reativar funcionário"
+                          >
+                            <UserCheck className="h-4 w-4 text-dashboard-success" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <EmploymentRulesCard />
+
+      <EmployeeFormDialog
+        open={formOpen}
+        employee={editingEmployee}
+        suggestedColor={editingEmployee ? colors[editingEmployee.id] : suggestedColor}
+        weeklyGoal={editingEmployee ? GoalService.resolve(goals, editingEmployee.id).weekly : DEFAULT_GOAL.weekly}
+        saving={saving}
+        onOpenChange={setFormOpen}
+        onSave={handleSave}
+      />
+
+      <AccessKeyDialog reveal={revealedKey} onClose={() => setRevealedKey(null)} />
+
+      <AuditHistoryDrawer
+        target={auditTarget}
+        onOpenChange={(open) => !open && setAuditTarget(null)}
+        employeeNames={Object.fromEntries(employees.map(emp => [emp.id, emp.real_name]))}
+      />
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.type === "deactivate" ? "Desativar funcionário?" : "Gerar nova chave de acesso?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.type === "deactivate"
+                ? `${pendingAction.employee.real_name} não poderá mais entrar nem registrar pontos. Registros, metas e histórico são mantidos e o cadastro pode ser reativado.`
+                : `A chave atual de ${pendingAction?.employee.real_name} deixará de funcionar imediatamente.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleConfirmAction}
+            >
+              {pendingAction?.type === "deactivate" ? "Desativar" : "Gerar chave"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
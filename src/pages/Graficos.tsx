@@ -12,6 +12,7 @@ import { MonthlyChart } from "@/components/Charts/MonthlyChart";
 import { TeamChart } from "@/components/Charts/TeamChart";
 import { ChartTypeSelector } from "@/components/Charts/ChartTypeSelector";
 import { EmployeeControls } from "@/components/Charts/EmployeeControls";
+import { useSelectedCycle } from "@/hooks/use-selected-cycle";
 
 export default function Graficos() {
   const [selectedChart, setSelectedChart] = useState("weekly");
@@ -21,22 +22,20 @@ export default function Graficos() {
   const [chartData, setChartData] = useState<any>(null);
   const [stats, setStats] = useState<any>(null);
   const { toast } = useToast();
+  const { cycleId } = useSelectedCycle();
 
   // Carregar dados reais do Supabase
   useEffect(() => {
     loadRealData();
-  }, []);
+  }, [cycleId]);
 
   const loadRealData = async () => {
     setLoading(true);
     try {
-      const [chartDataResult, statsResult] = await Promise.all([
-        DataService.getChartData(),
-        DataService.getGeneralStats()
-      ]);
+      const chartDataResult = await DataService.getChartData(cycleId);
       
       setChartData(chartDataResult);
-      setStats(statsResult);
+      setStats(chartDataResult.generalStats);
     } catch (error) {
       console.error('Erro ao carregar dados:', error);
       toast({
@@ -95,12 +94,23 @@ export default function Graficos() {
 
     switch (selectedChart) {
       case "weekly":
-        return <WeeklyChart data={chartData.weeklyData} hiddenEmployees={hiddenEmployees} />;
+        return (
+          <WeeklyChart
+            data={chartData.weeklyData}
+            goals={chartData.weeklyGoals}
+            absences={chartData.weeklyAbsences}
+            roster={chartData.roster}
+            hiddenEmployees={hiddenEmployees}
+          />
+        );
       
       case "progress":
         return (
           <MonthlyChart 
             data={chartData.monthlyData} 
+            goals={chartData.monthlyGoals}
+            values={chartData.monthlyValues}
+            roster={chartData.roster}
             hiddenEmployees={hiddenEmployees} 
             viewMode={viewMode} 
           />
@@ -230,6 +240,7 @@ export default function Graficos() {
               <div className="space-y-3">
                 <h4 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Funcionários</h4>
                 <EmployeeControls
+                  roster={chartData?.roster || []}
                   viewMode={viewMode}
                   onViewModeChange={setViewMode}
                   hiddenEmployees={hiddenEmployees}
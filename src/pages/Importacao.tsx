@@ -0,0 +1,182 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useRefineries } from "@/hooks/use-refineries";
+import { CycleClosingService } from "@/services/CycleClosingService";
+import { Employee, EmployeeService } from "@/services/EmployeeService";
+import { EntryRuleService } from "@/services/EntryRuleService";
+import type { SheetData } from "@/services/ExcelProcessorService";
+import { ImportBatch, ImportDayEntry, ImportMapping, ImportService } from "@/services/ImportService";
+import { ImportDropZone } from "@/components/Importacao/ImportDropZone";
+import { ImportMappingCard } from "@/components/Importacao/ImportMappingCard";
+import { ImportPreviewTable } from "@/components/Importacao/ImportPreviewTable";
+import { ImportBatchesCard } from "@/components/Importacao/ImportBatchesCard";
+import { FileUp, Upload, X } from "lucide-react";
+
+export default function Importacao() {
+  const { toast } = useToast();
+  const { refineries } = useRefineries(true);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [sheets, setSheets] = useState<SheetData[]>([]);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [dayEntries, setDayEntries] = useState<ImportDayEntry[] | null>([]);
+  const [checkingDays, setCheckingDays] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    // Regras e fechamentos usados na validação das linhas
+    Promise.all([
+      EmployeeService.getAllEmployees(true),
+      ImportService.getBatches(),
+      EntryRuleService.loadRules(),
+      CycleClosingService.loadClosings()
+    ]).then(([allEmployees, recentBatches]) => {
+      setEmployees(allEmployees);
+      setBatches(recentBatches);
+    }).finally(() => setLoading(false));
+  }, []);
+
+  const draftRows = useMemo(
+    () => mapping ? ImportService.buildRows(sheets, mapping, employees, refineries) : [],
+    [sheets, mapping, employees, refineries]
+  );
+
+  useEffect(() => {
+    let active = true;
+
+    // Pontos já registrados nos dias da planilha, para o limite diário
+    setCheckingDays(true);
+    ImportService.getDayEntries(draftRows).then(entries => {
+      if (!active) return;
+      setDayEntries(entries);
+      setCheckingDays(false);
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [draftRows]);
+
+  const rows = useMemo(() => ImportService.applyDailyCap(draftRows, dayEntries || []), [draftRows, dayEntries]);
+  const dayEntriesError = dayEntries === null
+    ? "Não foi possível buscar os registros já gravados nos dias da planilha para conferir o limite diário. Recarregue a página para tentar de novo."
+    : null;
+  const validCount = rows.filter(row => row.errors.length === 0).length;
+
+  const handleFiles = async (files: File[]) => {
+    setReading(true);
+    const read = await ImportService.readFiles(files);
+    setReading(false);
+
+    if (read.length === 0) {
+      toast({
+        title: "Erro",
+        description: "Nenhuma planilha .xlsx ou .xls pôde ser lida",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSheets(read);
+    setMapping(ImportService.guessMapping(read, employees));
+  };
+
+  const handleReset = () => {
+    setSheets([]);
+    setMapping(null);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    const result = await ImportService.commit(rows, sheets.map(sheet => sheet.fileName));
+    setImporting(false);
+
+    if (result.error) {
+      toast({
+        title: "Importação não realizada",
+        description: result.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Sucesso",
+      description: `${result.inserted.toLocaleString()} registros importados no lote #${result.batchId}` +
+        (result.skipped ? `; ${result.skipped.toLocaleString()} já existentes foram ignorados` : ""),
+    });
+    handleReset();
+    setBatches(await ImportService.getBatches());
+  };
+
+  const handleRollback = async (batch: ImportBatch) => {
+    const deleted = await ImportService.rollback(batch.id);
+    if (deleted === null) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível desfazer a importação",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Sucesso",
+      description: `Importação #${batch.id} desfeita: ${deleted.toLocaleString()} registros excluídos`,
+    });
+    setBatches(await ImportService.getBatches());
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Importar planilhas</h1>
+          <p className="text-muted-foreground">
+            Registros das planilhas antigas entram aprovados, em um único lote que pode ser desfeito.
+            Linhas já registradas (mesmo funcionário, dia, refinaria e pontos) são ignoradas.
+          </p>
+        </div>
+        {sheets.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleReset} disabled={importing}>
+              <X className="h-4 w-4 mr-1" />
+              Trocar arquivos
+            </Button>
+            <Button variant="dashboard" onClick={handleImport} disabled={!validCount || importing || checkingDays || !!dayEntriesError}>
+              <Upload className="h-4 w-4 mr-1" />
+              {importing ? "Importando..." : `Importar ${validCount.toLocaleString()} registros`}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {sheets.length === 0 || !mapping ? (
+        <Card className="bg-gradient-card shadow-card border-border">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-foreground">
+              <FileUp className="h-5 w-5" />
+              Arquivos
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ImportDropZone disabled={loading || reading} onFiles={handleFiles} />
+            {reading && <p className="mt-3 text-center text-sm text-muted-foreground">Lendo planilhas...</p>}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <ImportMappingCard sheets={sheets} mapping={mapping} employees={employees} onChange={setMapping} />
+          <ImportPreviewTable rows={rows} error={dayEntriesError} />
+        </>
+      )}
+
+      <ImportBatchesCard batches={batches} loading={loading} onRollback={handleRollback} />
+    </div>
+  );
+}
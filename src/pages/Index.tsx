@@ -1,10 +1,14 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
 import { MetricCard } from "@/components/Dashboard/MetricCard";
 import { EmployeeCard } from "@/components/Dashboard/EmployeeCard";
 import { ProgressSection } from "@/components/Dashboard/ProgressSection";
 import { EmployeeService, Employee } from "@/services/EmployeeService";
 import { CalculationsService } from "@/services/CalculationsService";
+import { AbsenceService } from "@/services/AbsenceService";
+import { BusinessCalendarService } from "@/services/BusinessCalendarService";
+import { GoalService } from "@/services/GoalService";
+import { DEFAULT_EMPLOYMENT_RULES, EmploymentTypeRules, EmploymentTypeService } from "@/services/EmploymentTypeService";
+import { useSelectedCycle } from "@/hooks/use-selected-cycle";
 
 interface EmployeeMetrics extends Employee {
   weeklyPoints: number;
@@ -19,26 +23,39 @@ interface EmployeeMetrics extends Employee {
 const Index = () => {
   const [selectedWeek, setSelectedWeek] = useState("1");
   const [employees, setEmployees] = useState<EmployeeMetrics[]>([]);
+  const [rules, setRules] = useState<EmploymentTypeRules>(DEFAULT_EMPLOYMENT_RULES);
   const [loading, setLoading] = useState(true);
-  const navigate = useNavigate();
+  const { cycleId } = useSelectedCycle();
 
   // Carregar dados dos funcionários
   const loadEmployeesData = async () => {
     try {
       setLoading(true);
+      await BusinessCalendarService.load();
       const allEmployees = await EmployeeService.getAllEmployees();
+      const week = CalculationsService.resolveWeek(selectedWeek, cycleId);
+      const cycle = CalculationsService.getCycle(cycleId);
+      const goals = await GoalService.getGoalsForCycle(cycle.id);
+      const absences = await AbsenceService.getApprovedAbsences(cycle);
+      setRules(await EmploymentTypeService.getRules());
       
       // Calcular métricas para cada funcionário
       const employeesWithMetrics = await Promise.all(
         allEmployees.map(async (employee) => {
-          const weekDates = CalculationsService.getWeekDates(selectedWeek);
-          const monthDates = CalculationsService.getMonthCycleDates();
+          const weekDates = CalculationsService.getWeekDates(week, cycleId);
+          const monthDates = CalculationsService.getMonthCycleDates(cycleId);
           
           const weeklyPoints = await EmployeeService.getWeekPoints(employee.id, weekDates);
           const monthlyPoints = await EmployeeService.getMonthPoints(employee.id, monthDates);
           
-          const weeklyGoal = CalculationsService.getWeeklyGoal(employee);
-          const monthlyGoal = CalculationsService.getMonthlyGoal(employee);
+          // Metas proporcionais aos dias úteis da semana e do ciclo, menos as ausências aprovadas
+          const goal = GoalService.resolve(goals, employee.id);
+          const weeklyGoal = BusinessCalendarService.weeklyGoalFor(
+            goal.weekly, weekDates, AbsenceService.absentDays(absences, employee.id, weekDates)
+          );
+          const monthlyGoal = BusinessCalendarService.monthlyGoalFor(
+            goal.monthly, monthDates, AbsenceService.absentDays(absences, employee.id, monthDates)
+          );
           
           const weeklyProgress = CalculationsService.calculateProgressPercentage(weeklyPoints, weeklyGoal);
           const monthlyProgress = CalculationsService.calculateProgressPercentage(monthlyPoints, monthlyGoal);
@@ -66,28 +83,19 @@ const Index = () => {
     }
   };
 
-  // Verificar se o usuário tem permissão (CEO)
+  // Acesso restrito a admins pelo RequireRole em App.tsx
   useEffect(() => {
-    const userData = localStorage.getItem("currentUser");
-    if (!userData) {
-      navigate("/login");
-      return;
-    }
-    
-    const user = JSON.parse(userData);
-    if (user.role !== "ceo") {
-      navigate("/dashboard");
-      return;
-    }
-    
     loadEmployeesData();
-  }, [navigate, selectedWeek]);
+  }, [selectedWeek, cycleId]);
 
   // Calcular métricas totais
   const totalWeeklyPoints = employees.reduce((sum, emp) => sum + emp.weeklyPoints, 0);
   const totalMonthlyPoints = employees.reduce((sum, emp) => sum + emp.monthlyPoints, 0);
-  const totalMonthlyGoal = employees.reduce((sum, emp) => sum + emp.monthlyGoal, 0);
-  const teamProgress = (totalMonthlyPoints / totalMonthlyGoal) * 100;
+  // Progresso da equipe: apenas os vínculos que entram na meta da equipe
+  const goalEmployees = employees.filter(emp => EmploymentTypeService.includes(rules, emp.employment_type, 'teamGoal'));
+  const goalMonthlyPoints = goalEmployees.reduce((sum, emp) => sum + emp.monthlyPoints, 0);
+  const totalMonthlyGoal = goalEmployees.reduce((sum, emp) => sum + emp.monthlyGoal, 0);
+  const teamProgress = totalMonthlyGoal > 0 ? (goalMonthlyPoints / totalMonthlyGoal) * 100 : 0;
 
   if (loading) {
     return (
@@ -141,11 +149,12 @@ const Index = () => {
       {/* Progresso Geral */}
       <div>
         <ProgressSection
-          totalPoints={totalMonthlyPoints}
+          totalPoints={goalMonthlyPoints}
           totalGoal={totalMonthlyGoal} 
           completedPercentage={teamProgress}
-          selectedWeek={selectedWeek}
+          selectedWeek={CalculationsService.resolveWeek(selectedWeek, cycleId)}
           onWeekChange={setSelectedWeek}
+          cycleId={cycleId}
         />
       </div>
 
@@ -156,6 +165,7 @@ const Index = () => {
             <EmployeeCard
               name={employee.real_name || employee.name}
               role={employee.role}
+              employmentType={employee.employment_type}
               weeklyPoints={employee.weeklyPoints}
               weeklyGoal={employee.weeklyGoal}
               monthlyPoints={employee.monthlyPoints}
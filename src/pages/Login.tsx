@@ -1,22 +1,32 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { EmployeeService } from "@/services/EmployeeService";
+import { AuthUser, ROLE_HOME } from "@/services/AuthService";
+import { useSession } from "@/hooks/use-session";
 
 const Login = () => {
+  const [mode, setMode] = useState<"employee" | "admin">("employee");
   const [accessKey, setAccessKey] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { user: sessionUser, loading: sessionLoading, signInWithAccessKey, signInWithPassword, signOut } = useSession();
+
+  const redirectByRole = (user: AuthUser) => {
+    navigate(ROLE_HOME[user.role]);
+  };
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!accessKey.trim()) {
+    if (mode === "employee" && !accessKey.trim()) {
       toast({
         title: "Erro",
         description: "Por favor, digite sua chave de acesso.",
@@ -25,50 +35,40 @@ const Login = () => {
       return;
     }
 
+    if (mode === "admin" && (!email.trim() || !password)) {
+      toast({
+        title: "Erro",
+        description: "Por favor, digite seu e-mail e senha.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       
-      // Verificar se é CEO primeiro
-      if (accessKey.trim().toLowerCase() === 'moni4242') {
-        // Login do CEO
-        const ceoUser = {
-          id: 'ceo_001',
-          username: 'luis',
-          real_name: 'Luis',
-          role: 'ceo',
-          access_key: 'Moni4242'
-        };
-        
-        localStorage.setItem("currentUser", JSON.stringify(ceoUser));
-        
-        toast({
-          title: "Login realizado!",
-          description: "Bem-vindo, Luis! (CEO)"
-        });
-        
-        // Redirecionar para área administrativa
-        navigate("/admin");
-        return;
-      }
-      
-      // Autenticar funcionário usando chave de acesso
-      const employee = await EmployeeService.authenticateByAccessKey(accessKey.trim());
+      // Funcionários entram pela chave de acesso; administradores por e-mail e senha
+      const user = mode === "employee"
+        ? await signInWithAccessKey(accessKey.trim())
+        : await signInWithPassword(email.trim(), password);
       
-      if (employee) {
-        // Salvar dados do funcionário no localStorage
-        localStorage.setItem("currentUser", JSON.stringify(employee));
-        
+      if (user && user.role) {
         toast({
           title: "Login realizado!",
-          description: `Bem-vindo, ${employee.real_name || employee.name}!`
+          description: `Bem-vindo, ${user.name}!`
         });
         
-        // Redirecionar para dashboard
-        navigate("/dashboard");
+        redirectByRole(user);
       } else {
+        if (user) {
+          // Usuário sem papel atribuído não tem acesso a nenhuma área
+          await signOut();
+        }
         toast({
           title: "Erro de autenticação",
-          description: "Chave de acesso inválida. Verifique e tente novamente.",
+          description: mode === "employee"
+            ? "Chave de acesso inválida. Verifique e tente novamente."
+            : "E-mail ou senha inválidos. Verifique e tente novamente.",
           variant: "destructive"
         });
       }
@@ -84,6 +84,11 @@ const Login = () => {
     }
   };
 
+  // Sessão ativa: vai direto para a área do papel
+  if (!sessionLoading && sessionUser?.role) {
+    return <Navigate to={ROLE_HOME[sessionUser.role]} replace />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background/95 to-background/90 p-4">
       <div className="w-full max-w-md space-y-8">
@@ -96,24 +101,64 @@ const Login = () => {
 
         <Card className="bg-gradient-card border-border/50 shadow-card animate-scale-in">
           <CardHeader>
-            <CardTitle className="text-xl text-center">Login por Chave de Acesso</CardTitle>
+            <CardTitle className="text-xl text-center">
+              {mode === "employee" ? "Login por Chave de Acesso" : "Login Administrativo"}
+            </CardTitle>
             <CardDescription className="text-center">
-              Digite sua chave de acesso para acessar o sistema
+              {mode === "employee"
+                ? "Digite sua chave de acesso para acessar o sistema"
+                : "Digite seu e-mail e senha para acessar o painel"}
             </CardDescription>
           </CardHeader>
           <CardContent>
+            <Tabs value={mode} onValueChange={(value) => setMode(value as "employee" | "admin")} className="mb-4">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="employee" disabled={loading}>Funcionário</TabsTrigger>
+                <TabsTrigger value="admin" disabled={loading}>Administrador</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
             <form onSubmit={handleLogin} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="accessKey">Chave de Acesso</Label>
-                <Input
-                  id="accessKey"
-                  type="password"
-                  value={accessKey}
-                  onChange={(e) => setAccessKey(e.target.value)}
-                  placeholder="Digite sua chave de acesso"
-                  disabled={loading}
-                />
-              </div>
+              {mode === "employee" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="accessKey">Chave de Acesso</Label>
+                  <Input
+                    id="accessKey"
+                    type="password"
+                    value={accessKey}
+                    onChange={(e) => setAccessKey(e.target.value)}
+                    placeholder="Digite sua chave de acesso"
+                    disabled={loading}
+                  />
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="email">E-mail</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      autoComplete="username"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="Digite seu e-mail"
+                      disabled={loading}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Senha</Label>
+                    <Input
+                      id="password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Digite sua senha"
+                      disabled={loading}
+                    />
+                  </div>
+                </>
+              )}
 
               <Button 
                 type="submit" 
@@ -128,10 +173,6 @@ const Login = () => {
 
         <div className="text-center text-sm text-muted-foreground animate-fade-in space-y-2">
           <p>Sistema de Controle de Pontos</p>
-          <div className="text-xs opacity-75">
-            <p><strong>Funcionários registrados:</strong></p>
-            <p>Rodrigo (0906) | Maurício (7070) | Matheus (0908) | Wesley (wesley123)</p>
-          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,281 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useSelectedCycle } from "@/hooks/use-selected-cycle";
+import { Absence, AbsenceService } from "@/services/AbsenceService";
+import { BusinessCalendarService } from "@/services/BusinessCalendarService";
+import { CalculationsService } from "@/services/CalculationsService";
+import { CycleCalendarService } from "@/services/CycleCalendarService";
+import { EmployeeService, Employee } from "@/services/EmployeeService";
+import { EmployeeGoal, GoalService, GoalValues } from "@/services/GoalService";
+import { Target, Save, Undo2, Clock } from "lucide-react";
+
+// Valores digitados ainda não salvos (texto para permitir campo vazio)
+type GoalDraft = Record<keyof GoalValues, string>;
+
+const GOAL_FIELDS: { key: keyof GoalValues; label: string }[] = [
+  { key: "daily", label: "Meta Diária" },
+  { key: "weekly", label: "Meta Semanal" },
+  { key: "monthly", label: "Meta Mensal" }
+];
+
+export default function Metas() {
+  const { toast } = useToast();
+  const { cycleId } = useSelectedCycle();
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [goals, setGoals] = useState<Record<number, EmployeeGoal>>({});
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [drafts, setDrafts] = useState<Record<number, GoalDraft>>({});
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedCycleId, setSelectedCycleId] = useState("");
+
+  const loadGoals = async () => {
+    try {
+      setLoading(true);
+      await BusinessCalendarService.load();
+      const cycle = CalculationsService.getCycle(cycleId);
+      setSelectedCycleId(cycle.id);
+
+      const [allEmployees, cycleGoals, cycleAbsences] = await Promise.all([
+        EmployeeService.getAllEmployees(),
+        GoalService.getGoalsForCycle(cycle.id),
+        AbsenceService.getApprovedAbsences(cycle)
+      ]);
+
+      setEmployees(allEmployees);
+      setGoals(cycleGoals);
+      setAbsences(cycleAbsences);
+      setDrafts(Object.fromEntries(allEmployees.map(employee => [
+        employee.id,
+        toDraft(GoalService.resolve(cycleGoals, employee.id))
+      ])));
+    } catch (error) {
+      console.error('Erro ao carregar metas:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar metas",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGoals();
+  }, [cycleId]);
+
+  const toDraft = (goal: GoalValues): GoalDraft => ({
+    daily: String(goal.daily),
+    weekly: String(goal.weekly),
+    monthly: String(goal.monthly)
+  });
+
+  const parseDraft = (draft: GoalDraft): GoalValues | null => {
+    const values = {
+      daily: Number(draft.daily),
+      weekly: Number(draft.weekly),
+      monthly: Number(draft.monthly)
+    };
+    const valid = Object.entries(values).every(([key, value]) =>
+      draft[key as keyof GoalValues].trim() !== "" && Number.isInteger(value) && value >= 0
+    );
+    return valid ? values : null;
+  };
+
+  const updateDraft = (employeeId: number, field: keyof GoalValues, value: string) => {
+    setDrafts(current => ({
+      ...current,
+      [employeeId]: { ...current[employeeId], [field]: value }
+    }));
+  };
+
+  const isDirty = (employeeId: number) => {
+    const draft = drafts[employeeId];
+    const goal = GoalService.resolve(goals, employeeId);
+    return !!draft && GOAL_FIELDS.some(({ key }) => draft[key] !== String(goal[key]));
+  };
+
+  const handleSave = async (employee: Employee) => {
+    const values = parseDraft(drafts[employee.id]);
+    if (!values) {
+      toast({
+        title: "Erro",
+        description: "As metas devem ser números inteiros maiores ou iguais a zero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavingId(employee.id);
+    const saved = await GoalService.saveGoal(employee.id, selectedCycleId, values);
+    setSavingId(null);
+
+    if (!saved) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a meta",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setGoals(current => ({ ...current, [employee.id]: saved }));
+    toast({
+      title: "Sucesso",
+      description: `Meta de ${employee.real_name} salva a partir de ${CycleCalendarService.fromId(selectedCycleId).label}`,
+    });
+  };
+
+  // Remove a meta cadastrada neste ciclo: volta a valer a meta anterior
+  const handleRevert = async (employee: Employee) => {
+    setSavingId(employee.id);
+    const deleted = await GoalService.deleteGoal(employee.id, selectedCycleId);
+    setSavingId(null);
+
+    if (!deleted) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível remover a meta",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Meta removida",
+      description: `${employee.real_name} volta a usar a meta do ciclo anterior`,
+    });
+    loadGoals();
+  };
+
+  const getSourceBadge = (goal: EmployeeGoal) => {
+    if (!goal.cycleId) {
+      return <Badge variant="outline">Padrão</Badge>;
+    }
+    if (goal.cycleId === selectedCycleId) {
+      return <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">Definida neste ciclo</Badge>;
+    }
+    return (
+      <Badge variant="secondary" className="bg-dashboard-info/20 text-dashboard-info border-dashboard-info/30">
+        Desde {CycleCalendarService.fromId(goal.cycleId).label}
+      </Badge>
+    );
+  };
+
+  // Meta da equipe no ciclo, proporcional aos dias úteis e às ausências aprovadas
+  const selectedCycle = selectedCycleId ? CycleCalendarService.fromId(selectedCycleId) : null;
+  const workingDays = selectedCycle ? BusinessCalendarService.workingDaysBetween(selectedCycle.start, selectedCycle.end) : 0;
+  const teamMonthlyGoal = selectedCycle
+    ? GoalService.getTeamMonthlyGoal(goals, employees.map(employee => employee.id), selectedCycle, absences)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Metas</h1>
+        <p className="text-muted-foreground">
+          Metas por funcionário. Uma meta salva vale a partir do ciclo selecionado até a próxima alteração.
+          As metas são proporcionais aos dias úteis: a diária vale por dia útil, a semanal por semana completa
+          e a mensal por {CycleCalendarService.getConfig().referenceWorkingDays} dias úteis.
+        </p>
+      </div>
+
+      <Card className="bg-gradient-card shadow-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-foreground">
+            <div className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              {selectedCycle ? `${selectedCycle.label} (${workingDays} dias úteis)` : "Ciclo"}
+            </div>
+            <Badge variant="outline" className="text-dashboard-warning border-dashboard-warning/30">
+              Meta da equipe: {teamMonthlyGoal.toLocaleString()} pontos
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-secondary/20">
+                <TableHead className="text-foreground">Funcionário</TableHead>
+                {GOAL_FIELDS.map(({ key, label }) => (
+                  <TableHead key={key} className="text-foreground">{label}</TableHead>
+                ))}
+                <TableHead className="text-foreground">Origem</TableHead>
+                <TableHead className="text-foreground">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                    Carregando metas...
+                  </TableCell>
+                </TableRow>
+              ) : (
+                employees.map(employee => {
+                  const goal = GoalService.resolve(goals, employee.id);
+                  const draft = drafts[employee.id];
+                  const saving = savingId === employee.id;
+
+                  return (
+                    <TableRow key={employee.id} className="border-border hover:bg-secondary/10">
+                      <TableCell className="font-medium text-foreground">{employee.real_name}</TableCell>
+                      {GOAL_FIELDS.map(({ key, label }) => (
+                        <TableCell key={key}>
+                          <Input
+                            type="number"
+                            min={0}
+                            step={1}
+                            value={draft?.[key] ?? ""}
+                            onChange={(e) => updateDraft(employee.id, key, e.target.value)}
+                            className="w-28 bg-secondary border-border"
+                            aria-label={`${label} de ${employee.real_name}`}
+                          />
+                        </TableCell>
+                      ))}
+                      <TableCell>{getSourceBadge(goal)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 hover:bg-dashboard-primary/20"
+                            onClick={() => handleSave(employee)}
+                            disabled={!isDirty(employee.id) || saving}
+                            title="Salvar meta a partir deste ciclo"
+                          >
+                            <Save className="h-4 w-4 text-dashboard-primary" />
+                          </Button>
+                          {goal.cycleId === selectedCycleId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                              onClick={() => handleRevert(employee)}
+                              disabled={saving}
+                              title="Remover meta deste ciclo"
+                            >
+                              <Undo2 className="h-4 w-4 text-dashboard-danger" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import ExcelDashboard from "@/components/Dashboard/ExcelDashboard";
+
+export default function Planilhas() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Planilhas</h1>
+        <p className="text-muted-foreground">
+          Consulte planilhas antigas sem gravar nada: os arquivos são lidos no navegador.
+          Para incluir os registros no sistema, use Importar.
+        </p>
+      </div>
+
+      <ExcelDashboard />
+    </div>
+  );
+}
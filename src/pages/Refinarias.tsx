@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useRefineries } from "@/hooks/use-refineries";
+import { Refinery, RefineryFields, RefineryService } from "@/services/RefineryService";
+import { RefineryFormDialog } from "@/components/Refinarias/RefineryFormDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Factory, Plus, Edit, Ban, CheckCircle, Clock } from "lucide-react";
+
+export default function Refinarias() {
+  const { toast } = useToast();
+  const { refineries, loading, reload } = useRefineries(true);
+  const [showInactive, setShowInactive] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingRefinery, setEditingRefinery] = useState<Refinery | null>(null);
+  const [pendingDeactivation, setPendingDeactivation] = useState<Refinery | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const openForm = (refinery: Refinery | null) => {
+    setEditingRefinery(refinery);
+    setFormOpen(true);
+  };
+
+  const handleSave = async (fields: RefineryFields) => {
+    setSaving(true);
+    const saved = editingRefinery
+      ? await RefineryService.updateRefinery(editingRefinery.id, fields)
+      : await RefineryService.createRefinery(fields);
+    setSaving(false);
+
+    if (!saved) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar a refinaria. Verifique se a sigla já existe.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFormOpen(false);
+    toast({
+      title: "Sucesso",
+      description: editingRefinery ? "Refinaria atualizada" : `${saved.name} cadastrada`,
+    });
+    reload();
+  };
+
+  const handleToggleActive = async (refinery: Refinery, active: boolean) => {
+    const updated = await RefineryService.setRefineryActive(refinery.id, active);
+    if (!updated) {
+      toast({
+        title: "Erro",
+        description: active ? "Não foi possível reativar a refinaria" : "Não foi possível desativar a refinaria",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: active ? "Refinaria reativada" : "Refinaria desativada",
+      description: active
+        ? `${refinery.name} volta a aparecer no formulário de registro`
+        : `${refinery.name} não aparece mais no formulário de registro. Os registros existentes foram mantidos.`,
+    });
+    reload();
+  };
+
+  const handleConfirmDeactivation = async () => {
+    if (!pendingDeactivation) return;
+    const refinery = pendingDeactivation;
+    setPendingDeactivation(null);
+    await handleToggleActive(refinery, false);
+  };
+
+  const visibleRefineries = showInactive ? refineries : refineries.filter(refinery => refinery.active);
+  const inactiveCount = refineries.filter(refinery => !refinery.active).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Refinarias</h1>
+          <p className="text-muted-foreground">Refinarias disponíveis para registro de pontos</p>
+        </div>
+        <Button variant="dashboard" onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Nova refinaria
+        </Button>
+      </div>
+
+      <Card className="bg-gradient-card shadow-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-foreground">
+            <div className="flex items-center gap-2">
+              <Factory className="h-5 w-5" />
+              Catálogo
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="show-inactive-refineries" checked={showInactive} onCheckedChange={setShowInactive} />
+              <Label htmlFor="show-inactive-refineries" className="text-sm font-normal text-muted-foreground">
+                Mostrar inativas ({inactiveCount})
+              </Label>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-secondary/20">
+                <TableHead className="text-foreground">Sigla</TableHead>
+                <TableHead className="text-foreground">Localização</TableHead>
+                <TableHead className="text-foreground">Capacidade</TableHead>
+                <TableHead className="text-foreground">Status</TableHead>
+                <TableHead className="text-foreground">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                    Carregando refinarias...
+                  </TableCell>
+                </TableRow>
+              ) : visibleRefineries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    Nenhuma refinaria cadastrada.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleRefineries.map(refinery => (
+                  <TableRow
+                    key={refinery.id}
+                    className={`border-border hover:bg-secondary/10 ${refinery.active ? '' : 'opacity-60'}`}
+                  >
+                    <TableCell className="font-mono font-medium text-foreground">{refinery.name}</TableCell>
+                    <TableCell className="text-foreground">{refinery.location || "—"}</TableCell>
+                    <TableCell className="font-mono text-muted-foreground">
+                      {refinery.capacity != null ? refinery.capacity.toLocaleString() : "—"}
+                    </TableCell>
+                    <TableCell>
+                      {refinery.active ? (
+                        <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">Ativa</Badge>
+                      ) : (
+                        <Badge variant="secondary">Inativa</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-primary/20"
+                          onClick={() => openForm(refinery)}
+                          title="Editar refinaria"
+                        >
+                          <Edit className="h-4 w-4 text-dashboard-primary" />
+                        </Button>
+                        {refinery.active ? (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                            onClick={() => setPendingDeactivation(refinery)}
+                            title="Desativar refinaria"
+                          >
+                            <Ban className="h-4 w-4 text-dashboard-danger" />
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 hover:bg-dashboard-success/20"
+                            onClick={() => handleToggleActive(refinery, true)}
+                            title="Reativar refinaria"
+                          >
+                            <CheckCircle className="h-4 w-4 text-dashboard-success" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <RefineryFormDialog
+        open={formOpen}
+        refinery={editingRefinery}
+        saving={saving}
+        onOpenChange={setFormOpen}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!pendingDeactivation} onOpenChange={(open) => !open && setPendingDeactivation(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Desativar refinaria?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDeactivation?.name} deixará de aparecer no formulário de registro. Registros existentes continuam
+              apontando para ela e a refinaria pode ser reativada.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleConfirmDeactivation}
+            >
+              Desativar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -6,23 +6,51 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { format, parseISO } from 'date-fns';
-import { ptBR } from 'date-fns/locale';
+import { format } from 'date-fns';
 import * as XLSX from 'xlsx';
 import { CalculationsService } from "@/services/CalculationsService";
-import { 
-  Search, 
-  Filter, 
-  Download, 
-  Trash2, 
-  Edit, 
+import { CycleCalendarService } from "@/services/CycleCalendarService";
+import { CycleClosingService } from "@/services/CycleClosingService";
+import { EmployeeService, Entry, EntryStatus } from "@/services/EmployeeService";
+import { Absence, AbsenceService } from "@/services/AbsenceService";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { DataService, EntrySearchParams, EntrySortField } from "@/services/DataService";
+import { EntryEditDialog, EntryChanges } from "@/components/Registros/EntryEditDialog";
+import { AuditHistoryDrawer, AuditTarget } from "@/components/Audit/AuditHistoryDrawer";
+import { ToastAction } from "@/components/ui/toast";
+import { useEntryFilters, PAGE_SIZES } from "@/hooks/use-entry-filters";
+import { useSelectedCycle } from "@/hooks/use-selected-cycle";
+import { useRefineries } from "@/hooks/use-refineries";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Search,
+  Filter,
+  Download,
+  Trash2,
+  Edit,
+  History,
   Calendar,
+  CalendarOff,
   Clock,
   User,
   Building2,
   Hash,
-  MessageSquare
+  MessageSquare,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  ChevronLeft,
+  ChevronRight,
+  X
 } from "lucide-react";
 
 interface EntryRecord {
@@ -33,67 +61,96 @@ interface EntryRecord {
   refinery: string;
   points: number;
   observations: string;
-  status: "completed" | "absent" | "pending";
+  status: "completed" | "no_points" | "pending" | "rejected";
+  absence: Absence | null;  // ausência aprovada do funcionário no dia do registro
+  entry: Entry;
 }
 
 export default function Registros() {
   const { toast } = useToast();
-  const [selectedWeek, setSelectedWeek] = useState("todas");
-  const [selectedEmployee, setSelectedEmployee] = useState("todos");
-  const [searchTerm, setSearchTerm] = useState("");
+  const { filters, setFilters, resetFilters } = useEntryFilters();
+  const { cycleId } = useSelectedCycle();
+  const [searchInput, setSearchInput] = useState(filters.search);
   const [records, setRecords] = useState<EntryRecord[]>([]);
-  const [employees, setEmployees] = useState<string[]>([]);
+  const [absences, setAbsences] = useState<Absence[]>([]);
+  const [total, setTotal] = useState(0);
+  const [employeeOptions, setEmployeeOptions] = useState<{ id: number; real_name: string }[]>([]);
+  const { refineries } = useRefineries(true);
+  const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
+  const [deletingRecord, setDeletingRecord] = useState<EntryRecord | null>(null);
+  const [auditTarget, setAuditTarget] = useState<AuditTarget | null>(null);
   const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
 
-  // Carregar dados do Supabase
+  // Carregar funcionários para filtros e edição (inclusive inativos, para o histórico)
   useEffect(() => {
-    loadRecords();
+    EmployeeService.getAllEmployees(true).then(employees => {
+      setEmployeeOptions(employees.map(emp => ({ id: emp.id, real_name: emp.real_name })));
+    });
   }, []);
 
-  const loadRecords = async () => {
+  // Carregar a página atual sempre que filtros, ordenação ou ciclo mudarem
+  useEffect(() => {
+    loadRecords();
+  }, [filters, cycleId]);
+
+  // Busca textual com atraso para não consultar a cada tecla
+  useEffect(() => {
+    setSearchInput(filters.search);
+  }, [filters.search]);
+
+  useEffect(() => {
+    if (searchInput === filters.search) return;
+    const timeout = setTimeout(() => setFilters({ search: searchInput }), 400);
+    return () => clearTimeout(timeout);
+  }, [searchInput, filters.search, setFilters]);
+
+  // Filtros da URL convertidos para a consulta no servidor
+  // Semana/ciclo e intervalo de datas se combinam (interseção dos dois)
+  const getSearchParams = (): EntrySearchParams => {
+    let startDate = filters.startDate;
+    let endDate = filters.endDate;
+
+    if (filters.week !== "todas") {
+      const period = filters.week === "ciclo"
+        ? CalculationsService.getMonthCycleDates(cycleId)
+        : CalculationsService.getWeekDates(CalculationsService.resolveWeek(filters.week, cycleId), cycleId);
+      startDate = !startDate || period.start > startDate ? period.start : startDate;
+      endDate = !endDate || period.end < endDate ? period.end : endDate;
+    }
+
+    return {
+      employeeId: filters.employeeId,
+      refinery: filters.refinery,
+      status: filters.status,
+      startDate,
+      endDate,
+      search: filters.search,
+      sortBy: filters.sortBy,
+      ascending: filters.ascending,
+      page: filters.page,
+      pageSize: filters.pageSize
+    };
+  };
+
+  const loadRecords = async (showLoading = true) => {
     try {
-      setLoading(true);
-      
-      // Buscar registros primeiro
-      const { data: entries, error: entriesError } = await supabase
-        .from('entry')
-        .select('id, date, points, observations, refinery, employee_id')
-        .order('date', { ascending: false })
-        .limit(200);
-
-      if (entriesError) throw entriesError;
-
-      // Buscar funcionários
-      const { data: employees, error: employeesError } = await supabase
-        .from('employee')
-        .select('id, real_name');
-
-      if (employeesError) throw employeesError;
-
-      // Criar mapa de funcionários para lookup rápido
-      const employeeMap = employees?.reduce((map, emp) => {
-        map[emp.id] = emp.real_name;
-        return map;
-      }, {} as Record<number, string>) || {};
-
-      // Transformar dados para o formato da interface
-      const transformedRecords: EntryRecord[] = entries?.map(entry => ({
-        id: entry.id,
-        date: format(parseISO(entry.date), 'dd/MM/yyyy', { locale: ptBR }),
-        time: format(parseISO(entry.date), 'HH:mm', { locale: ptBR }),
-        employee: employeeMap[entry.employee_id] || 'Desconhecido',
-        refinery: entry.refinery,
-        points: entry.points,
-        observations: entry.observations,
-        status: entry.points > 0 ? "completed" : "absent"
-      })) || [];
-
-      setRecords(transformedRecords);
-
-      // Extrair funcionários únicos
-      const uniqueEmployees = [...new Set(transformedRecords.map(r => r.employee))];
-      setEmployees(uniqueEmployees);
+      if (showLoading) setLoading(true);
+      await Promise.all([CycleCalendarService.loadConfig(), CycleClosingService.loadClosings()]);
+
+      const params = getSearchParams();
+      const result = await DataService.searchEntries(params);
+      const periodAbsences = await loadAbsences(params, result.entries);
 
+      setAbsences(periodAbsences);
+      setRecords(result.entries.map(entry => toRecord(entry, entry.employee_name, periodAbsences)));
+      setTotal(result.total);
+
+      // Página além do fim (ex.: após exclusões): volta para a última página
+      const lastPage = Math.max(Math.ceil(result.total / filters.pageSize), 1);
+      if (filters.page > lastPage) {
+        setFilters({ page: lastPage });
+      }
     } catch (error) {
       console.error('Erro ao carregar registros:', error);
       toast({
@@ -106,40 +163,149 @@ export default function Registros() {
     }
   };
 
-  const filteredRecords = records.filter(record => {
-    const matchesSearch = record.employee.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         record.refinery.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         record.observations.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesEmployee = selectedEmployee === "todos" || record.employee === selectedEmployee;
-    
-    // Filtro por semana baseado no ciclo 26→25
-    let matchesWeek = true;
-    if (selectedWeek !== "todas") {
-      const weekNumber = parseInt(selectedWeek);
-      // Converter data de dd/MM/yyyy de volta para ISO para o cálculo
-      const [day, month, year] = record.date.split('/');
-      const isoDate = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
-      const recordWeek = CalculationsService.getWeekFromDate(isoDate);
-      matchesWeek = recordWeek === weekNumber;
-    }
-    
-    return matchesSearch && matchesEmployee && matchesWeek;
+  // Ausências aprovadas no período filtrado (sem filtro de datas: o intervalo dos registros)
+  const loadAbsences = (params: EntrySearchParams, entries: Entry[]): Promise<Absence[]> => {
+    const dates = entries.map(entry => BusinessTimeService.toDateKey(entry.date)).sort();
+    const start = params.startDate || dates[0];
+    const end = params.endDate || dates[dates.length - 1];
+    if (!start || !end) return Promise.resolve([]);
+
+    return AbsenceService.getApprovedAbsences({ start, end }, params.employeeId);
+  };
+
+  const toRecord = (entry: Entry, employeeName?: string | null, periodAbsences = absences): EntryRecord => ({
+    id: entry.id,
+    ...CalculationsService.formatTimestampBR(entry.date),
+    employee: employeeName || employeeOptions.find(emp => emp.id === entry.employee_id)?.real_name || 'Desconhecido',
+    refinery: entry.refinery,
+    points: entry.points,
+    observations: entry.observations,
+    status: entry.status !== "approved" ? entry.status : entry.points > 0 ? "completed" : "no_points",
+    absence: AbsenceService.absenceOn(periodAbsences, entry.employee_id, BusinessTimeService.toDateKey(entry.date)),
+    entry
   });
 
-  const exportToExcel = () => {
+  // Edição otimista: a tabela muda na hora e volta ao estado anterior se o banco recusar
+  // Registros de ciclo fechado não podem ser alterados (o banco recusa)
+  const isLocked = (record: EntryRecord) =>
+    CycleClosingService.isDateClosed(BusinessTimeService.toDateKey(record.entry.date));
+
+  const handleSaveEdit = async (changes: EntryChanges) => {
+    if (!editingEntry) return;
+    const original = editingEntry;
+    const previousRecords = records;
+
+    setEditingEntry(null);
+    setRecords(records.map(record =>
+      record.id === original.id ? toRecord({ ...original, ...changes }) : record
+    ));
+
+    const { entry: updated, violation } = await EmployeeService.updateEntry(original.id, changes);
+    if (!updated) {
+      setRecords(previousRecords);
+      toast({
+        title: "Erro",
+        description: violation?.message || "Não foi possível salvar o registro",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Sucesso",
+      description: "Registro atualizado",
+    });
+
+    // Recarrega a página para refletir ordenação e filtros
+    loadRecords(false);
+  };
+
+  const handleUndoDelete = async (record: EntryRecord) => {
+    const restored = await EmployeeService.restoreEntry(record.entry);
+    if (!restored) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível restaurar o registro",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Registro restaurado",
+    });
+    loadRecords(false);
+  };
+
+  // Exclusão otimista com opção de desfazer por alguns segundos
+  const handleConfirmDelete = async () => {
+    if (!deletingRecord) return;
+    const record = deletingRecord;
+    const previousRecords = records;
+
+    setDeletingRecord(null);
+    setRecords(current => current.filter(item => item.id !== record.id));
+    setTotal(current => Math.max(current - 1, 0));
+
+    const deleted = await EmployeeService.deleteEntry(record.id);
+    if (!deleted) {
+      setRecords(previousRecords);
+      setTotal(current => current + 1);
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir o registro",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Registro excluído",
+      description: `${record.employee} - ${record.date} ${record.time} (${record.points} pontos)`,
+      action: (
+        <ToastAction altText="Desfazer exclusão" onClick={() => handleUndoDelete(record)}>
+          Desfazer
+        </ToastAction>
+      ),
+    });
+  };
+
+  const handleSort = (field: EntrySortField) => {
+    if (filters.sortBy === field) {
+      setFilters({ ascending: !filters.ascending });
+    } else {
+      // Datas e pontos começam do maior; textos em ordem alfabética
+      setFilters({ sortBy: field, ascending: field === "employee" || field === "refinery" });
+    }
+  };
+
+  const exportToExcel = async () => {
     try {
-      // Preparar dados para exportação
-      const exportData = filteredRecords.map(record => ({
-        'Data': record.date,
-        'Horário': record.time,
-        'Funcionário': record.employee,
-        'Refinaria': record.refinery,
-        'Pontos': record.points,
-        'Observações': record.observations,
-        'Status': record.status === 'completed' ? 'Concluído' : 
-                  record.status === 'absent' ? 'Ausente' : 'Pendente'
-      }));
+      setExporting(true);
+
+      // Exporta todos os registros filtrados, não apenas a página atual
+      const params = getSearchParams();
+      const entries = await DataService.getAllMatchingEntries(params);
+      const exportAbsences = await loadAbsences(params, entries);
+      const exportData = entries.map(entry => {
+        const record = toRecord(entry, entry.employee_name, exportAbsences);
+        return {
+          'Data': record.date,
+          'Horário': record.time,
+          'Funcionário': record.employee,
+          'Refinaria': record.refinery,
+          'Pontos': record.points,
+          'Observações': record.observations,
+          'Status': record.status === 'completed' ? 'Concluído' :
+                    record.status === 'no_points' ? 'Sem pontos' :
+                    record.status === 'rejected' ? 'Recusado' : 'Pendente',
+          'Motivo da recusa': record.entry.rejection_reason || '',
+          'Possível duplicado': record.entry.duplicate_suspect ? 'Sim' : '',
+          'Retroativo': record.entry.backdated ? 'Sim' : '',
+          'Atraso do lançamento (min)': record.entry.lateness_minutes,
+          'Ausência': record.absence ? AbsenceService.label(record.absence.type) : ''
+        };
+      });
 
       // Criar workbook
       const wb = XLSX.utils.book_new();
@@ -153,7 +319,9 @@ export default function Registros() {
         { wch: 10 }, // Refinaria
         { wch: 8 },  // Pontos
         { wch: 30 }, // Observações
-        { wch: 10 }  // Status
+        { wch: 10 }, // Status
+        { wch: 30 }, // Motivo da recusa
+        { wch: 12 }  // Ausência
       ];
       ws['!cols'] = colWidths;
 
@@ -161,7 +329,7 @@ export default function Registros() {
 
       // Gerar nome do arquivo com data atual
       const fileName = `registros_${format(new Date(), 'yyyy-MM-dd')}.xlsx`;
-      
+
       // Salvar arquivo
       XLSX.writeFile(wb, fileName);
 
@@ -177,24 +345,49 @@ export default function Registros() {
         description: "Erro ao exportar dados para Excel",
         variant: "destructive",
       });
+    } finally {
+      setExporting(false);
     }
   };
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: string, reason?: string | null) => {
     switch (status) {
       case "completed":
         return <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">Concluído</Badge>;
-      case "absent":
-        return <Badge variant="destructive">Ausente</Badge>;
+      case "no_points":
+        return <Badge variant="outline">Sem pontos</Badge>;
       case "pending":
         return <Badge variant="secondary" className="bg-dashboard-warning/20 text-dashboard-warning border-dashboard-warning/30">Pendente</Badge>;
+      case "rejected":
+        return <Badge variant="destructive" title={reason || undefined}>Recusado</Badge>;
       default:
         return <Badge variant="outline">Desconhecido</Badge>;
     }
   };
 
-  const totalPoints = filteredRecords.reduce((sum, record) => sum + record.points, 0);
-  const completedRecords = filteredRecords.filter(r => r.status === "completed").length;
+  const renderSortableHead = (field: EntrySortField, label: string) => {
+    const active = filters.sortBy === field;
+    const Icon = !active ? ArrowUpDown : filters.ascending ? ArrowUp : ArrowDown;
+
+    return (
+      <TableHead className="text-foreground">
+        <button
+          type="button"
+          className={`flex items-center gap-1 hover:text-dashboard-primary ${active ? 'text-dashboard-primary' : ''}`}
+          onClick={() => handleSort(field)}
+        >
+          {label}
+          <Icon className="h-3 w-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  const pagePoints = records.reduce((sum, record) => sum + record.points, 0);
+  const completedRecords = records.filter(r => r.status === "completed").length;
+  const totalPages = Math.max(Math.ceil(total / filters.pageSize), 1);
+  const firstItem = total === 0 ? 0 : (filters.page - 1) * filters.pageSize + 1;
+  const lastItem = Math.min(filters.page * filters.pageSize, total);
 
   return (
     <div className="space-y-6">
@@ -213,37 +406,37 @@ export default function Registros() {
                 <Hash className="h-4 w-4 text-dashboard-primary" />
                 <span className="text-sm font-medium text-foreground">Total de Registros</span>
               </div>
-              <p className="text-2xl font-bold text-dashboard-primary mt-2">{filteredRecords.length}</p>
+              <p className="text-2xl font-bold text-dashboard-primary mt-2">{total.toLocaleString()}</p>
             </CardContent>
           </Card>
-          
+
           <Card className="bg-gradient-card shadow-card border-border">
             <CardContent className="p-4">
               <div className="flex items-center gap-2">
                 <User className="h-4 w-4 text-dashboard-success" />
-                <span className="text-sm font-medium text-foreground">Concluídos</span>
+                <span className="text-sm font-medium text-foreground">Concluídos na Página</span>
               </div>
               <p className="text-2xl font-bold text-dashboard-success mt-2">{completedRecords}</p>
             </CardContent>
           </Card>
-          
+
           <Card className="bg-gradient-card shadow-card border-border">
             <CardContent className="p-4">
               <div className="flex items-center gap-2">
                 <Building2 className="h-4 w-4 text-dashboard-info" />
-                <span className="text-sm font-medium text-foreground">Total de Pontos</span>
+                <span className="text-sm font-medium text-foreground">Pontos na Página</span>
               </div>
-              <p className="text-2xl font-bold text-dashboard-info mt-2">{totalPoints.toLocaleString()}</p>
+              <p className="text-2xl font-bold text-dashboard-info mt-2">{pagePoints.toLocaleString()}</p>
             </CardContent>
           </Card>
-          
+
           <Card className="bg-gradient-card shadow-card border-border">
             <CardContent className="p-4">
               <div className="flex items-center gap-2">
                 <Clock className="h-4 w-4 text-dashboard-warning" />
                 <span className="text-sm font-medium text-foreground">Média Diária</span>
               </div>
-              <p className="text-2xl font-bold text-dashboard-warning mt-2">{Math.round(totalPoints / 7)}</p>
+              <p className="text-2xl font-bold text-dashboard-warning mt-2">{Math.round(pagePoints / 7)}</p>
             </CardContent>
           </Card>
         </div>
@@ -261,61 +454,131 @@ export default function Registros() {
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Semana:</label>
-              <Select value={selectedWeek} onValueChange={setSelectedWeek}>
+              <Select value={filters.week} onValueChange={(week) => setFilters({ week })}>
                 <SelectTrigger className="bg-secondary border-border">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="todas">Todas</SelectItem>
-                  <SelectItem value="1">Semana 1</SelectItem>
-                  <SelectItem value="2">Semana 2</SelectItem>
-                  <SelectItem value="3">Semana 3</SelectItem>
-                  <SelectItem value="4">Semana 4</SelectItem>
-                  <SelectItem value="5">Semana 5</SelectItem>
+                  <SelectItem value="ciclo">Ciclo inteiro</SelectItem>
+                  {CalculationsService.getAvailableWeeks(cycleId).map(week => (
+                    <SelectItem key={week} value={week}>Semana {week}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
-            
+
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Funcionário:</label>
-              <Select value={selectedEmployee} onValueChange={setSelectedEmployee}>
+              <Select
+                value={filters.employeeId ? String(filters.employeeId) : "todos"}
+                onValueChange={(value) => setFilters({ employeeId: value === "todos" ? undefined : Number(value) })}
+              >
                 <SelectTrigger className="bg-secondary border-border">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="todos">Todos</SelectItem>
-                  {employees.map(employee => (
-                    <SelectItem key={employee} value={employee}>{employee}</SelectItem>
+                  {employeeOptions.map(employee => (
+                    <SelectItem key={employee.id} value={String(employee.id)}>{employee.real_name}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
-            
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Refinaria:</label>
+              <Select
+                value={filters.refinery || "todas"}
+                onValueChange={(value) => setFilters({ refinery: value === "todas" ? undefined : value })}
+              >
+                <SelectTrigger className="bg-secondary border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todas">Todas</SelectItem>
+                  {refineries.map(refinery => (
+                    <SelectItem key={refinery.id} value={refinery.name}>{refinery.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Status:</label>
+              <Select
+                value={filters.status || "todos"}
+                onValueChange={(value) => setFilters({ status: value === "todos" ? undefined : value as EntryStatus })}
+              >
+                <SelectTrigger className="bg-secondary border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Todos</SelectItem>
+                  <SelectItem value="pending">Pendentes</SelectItem>
+                  <SelectItem value="approved">Aprovados</SelectItem>
+                  <SelectItem value="rejected">Recusados</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Buscar:</label>
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
                 <Input
                   placeholder="Buscar registros..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
                   className="pl-10 bg-secondary border-border"
                 />
               </div>
             </div>
-            
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">De:</label>
+              <Input
+                type="date"
+                value={filters.startDate || ""}
+                onChange={(e) => setFilters({ startDate: e.target.value || undefined })}
+                className="bg-secondary border-border"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Até:</label>
+              <Input
+                type="date"
+                value={filters.endDate || ""}
+                onChange={(e) => setFilters({ endDate: e.target.value || undefined })}
+                className="bg-secondary border-border"
+              />
+            </div>
+
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Ações:</label>
               <div className="flex gap-2">
-                <Button 
-                  variant="dashboard" 
-                  size="sm" 
+                <Button
+                  variant="dashboard"
+                  size="sm"
                   className="flex-1"
                   onClick={exportToExcel}
-                  disabled={filteredRecords.length === 0}
+                  disabled={total === 0 || exporting}
                 >
                   <Download className="h-4 w-4 mr-1" />
-                  Exportar
+                  {exporting ? 'Exportando...' : 'Exportar'}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => {
+                    setSearchInput("");
+                    resetFilters();
+                  }}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Limpar filtros
                 </Button>
               </div>
             </div>
@@ -332,19 +595,35 @@ export default function Registros() {
               Seus Registros
             </div>
             <Badge variant="outline" className="text-dashboard-info border-dashboard-info/30">
-              {filteredRecords.length} registros encontrados
+              {total.toLocaleString()} registros encontrados
             </Badge>
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {absences.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+              <span className="text-sm text-muted-foreground">Ausências no período:</span>
+              {absences.map(absence => (
+                <Badge
+                  key={absence.id}
+                  variant="secondary"
+                  className="bg-dashboard-info/20 text-dashboard-info border-dashboard-info/30 flex items-center gap-1"
+                >
+                  <CalendarOff className="h-3 w-3" />
+                  {absence.employee_name}: {AbsenceService.label(absence.type)} ({AbsenceService.formatPeriod(absence)})
+                </Badge>
+              ))}
+            </div>
+          )}
+
           <Table>
             <TableHeader>
               <TableRow className="border-border hover:bg-secondary/20">
-                <TableHead className="text-foreground">Data</TableHead>
+                {renderSortableHead("date", "Data")}
                 <TableHead className="text-foreground">Horário</TableHead>
-                <TableHead className="text-foreground">Funcionário</TableHead>
-                <TableHead className="text-foreground">Refinaria</TableHead>
-                <TableHead className="text-foreground">Pontos</TableHead>
+                {renderSortableHead("employee", "Funcionário")}
+                {renderSortableHead("refinery", "Refinaria")}
+                {renderSortableHead("points", "Pontos")}
                 <TableHead className="text-foreground">Observações</TableHead>
                 <TableHead className="text-foreground">Status</TableHead>
                 <TableHead className="text-foreground">Ações</TableHead>
@@ -358,7 +637,7 @@ export default function Registros() {
                     Carregando registros...
                   </TableCell>
                 </TableRow>
-              ) : filteredRecords.length === 0 ? (
+              ) : records.length === 0 ? (
                 <TableRow>
                   <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
                     <MessageSquare className="h-8 w-8 mx-auto mb-2 opacity-50" />
@@ -366,7 +645,7 @@ export default function Registros() {
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredRecords.map((record) => (
+                records.map((record) => (
                   <TableRow key={record.id} className="border-border hover:bg-secondary/10">
                     <TableCell className="text-foreground">{record.date}</TableCell>
                     <TableCell className="text-muted-foreground">{record.time}</TableCell>
@@ -378,13 +657,71 @@ export default function Registros() {
                     <TableCell className="text-muted-foreground max-w-xs truncate">
                       {record.observations}
                     </TableCell>
-                    <TableCell>{getStatusBadge(record.status)}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {getStatusBadge(record.status, record.entry.rejection_reason)}
+                        {record.entry.backdated && (
+                          <Badge
+                            variant="outline"
+                            className="text-dashboard-info border-dashboard-info/30"
+                            title={`Lançado ${CalculationsService.formatLateness(record.entry.lateness_minutes)} depois`}
+                          >
+                            Retroativo
+                          </Badge>
+                        )}
+                        {record.entry.duplicate_suspect && (
+                          <Badge
+                            variant="outline"
+                            className="text-dashboard-warning border-dashboard-warning/30"
+                            title="Outro registro do funcionário no mesmo dia tem a mesma refinaria e pontos"
+                          >
+                            Possível duplicado
+                          </Badge>
+                        )}
+                        {record.absence && (
+                          <Badge
+                            variant="secondary"
+                            className="bg-dashboard-info/20 text-dashboard-info border-dashboard-info/30"
+                            title={AbsenceService.formatPeriod(record.absence)}
+                          >
+                            {AbsenceService.label(record.absence.type)}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div className="flex gap-1">
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0 hover:bg-dashboard-primary/20">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-primary/20"
+                          onClick={() => setEditingEntry(record.entry)}
+                          disabled={isLocked(record)}
+                          title={isLocked(record) ? "Ciclo fechado" : "Editar registro"}
+                        >
                           <Edit className="h-4 w-4 text-dashboard-primary" />
                         </Button>
-                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0 hover:bg-dashboard-danger/20">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-info/20"
+                          onClick={() => setAuditTarget({
+                            type: "entry",
+                            id: record.id,
+                            description: `${record.employee} - ${record.date} ${record.time}`
+                          })}
+                          title="Histórico de alterações"
+                        >
+                          <History className="h-4 w-4 text-dashboard-info" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                          onClick={() => setDeletingRecord(record)}
+                          disabled={isLocked(record)}
+                          title={isLocked(record) ? "Ciclo fechado" : "Excluir registro"}
+                        >
                           <Trash2 className="h-4 w-4 text-dashboard-danger" />
                         </Button>
                       </div>
@@ -394,8 +731,95 @@ export default function Registros() {
               )}
             </TableBody>
           </Table>
+
+          {/* Paginação */}
+          <div className="flex flex-col md:flex-row items-center justify-between gap-4 pt-4">
+            <p className="text-sm text-muted-foreground">
+              Mostrando {firstItem}–{lastItem} de {total.toLocaleString()}
+            </p>
+
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Por página:</span>
+                <Select
+                  value={String(filters.pageSize)}
+                  onValueChange={(value) => setFilters({ pageSize: Number(value) })}
+                >
+                  <SelectTrigger className="w-20 h-8 bg-secondary border-border">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_SIZES.map(size => (
+                      <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setFilters({ page: filters.page - 1 })}
+                  disabled={filters.page <= 1 || loading}
+                  title="Página anterior"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-foreground">
+                  Página {filters.page} de {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setFilters({ page: filters.page + 1 })}
+                  disabled={filters.page >= totalPages || loading}
+                  title="Próxima página"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
         </CardContent>
       </Card>
+
+      <EntryEditDialog
+        entry={editingEntry}
+        employees={employeeOptions}
+        refineries={refineries}
+        onOpenChange={(open) => !open && setEditingEntry(null)}
+        onSave={handleSaveEdit}
+      />
+
+      <AuditHistoryDrawer
+        target={auditTarget}
+        onOpenChange={(open) => !open && setAuditTarget(null)}
+        employeeNames={Object.fromEntries(employeeOptions.map(emp => [emp.id, emp.real_name]))}
+      />
+
+      <AlertDialog open={!!deletingRecord} onOpenChange={(open) => !open && setDeletingRecord(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir registro?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingRecord && `${deletingRecord.employee} - ${deletingRecord.date} ${deletingRecord.time} (${deletingRecord.points} pontos). `}
+              Você poderá desfazer por alguns segundos após a exclusão.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleConfirmDelete}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
-}
\ No newline at end of file
+}
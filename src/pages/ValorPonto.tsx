@@ -0,0 +1,244 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useRefineries } from "@/hooks/use-refineries";
+import { BusinessTimeService } from "@/services/BusinessTimeService";
+import { ExcelProcessorService } from "@/services/ExcelProcessorService";
+import { PointRate, PointRateFields, PointRateService } from "@/services/PointRateService";
+import { PointRateFormDialog } from "@/components/ValorPonto/PointRateFormDialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { DollarSign, Plus, Edit, Trash2, Clock } from "lucide-react";
+
+export default function ValorPonto() {
+  const { toast } = useToast();
+  const { refineries } = useRefineries(true);
+  const [rates, setRates] = useState<PointRate[]>([]);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<PointRate | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PointRate | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const loadRates = async () => {
+    try {
+      setLoading(true);
+      setRates(await PointRateService.getRates());
+    } catch (error) {
+      console.error('Erro ao carregar valores do ponto:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao carregar valores do ponto",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRates();
+  }, []);
+
+  const openForm = (rate: PointRate | null) => {
+    setEditingRate(rate);
+    setFormOpen(true);
+  };
+
+  const handleSave = async (fields: PointRateFields) => {
+    setSaving(true);
+    const saved = editingRate
+      ? await PointRateService.updateRate(editingRate.id, fields)
+      : await PointRateService.createRate(fields);
+    setSaving(false);
+
+    if (!saved) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível salvar. Verifique se já existe um valor com a mesma data e refinaria.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setFormOpen(false);
+    toast({
+      title: "Sucesso",
+      description: editingRate ? "Valor do ponto atualizado" : "Valor do ponto cadastrado",
+    });
+    loadRates();
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+    const rate = pendingDelete;
+    setPendingDelete(null);
+
+    if (!await PointRateService.deleteRate(rate.id)) {
+      toast({
+        title: "Erro",
+        description: "Não foi possível excluir o valor do ponto",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Valor excluído",
+      description: "Os registros do período passam a usar o valor anterior",
+    });
+    loadRates();
+  };
+
+  // Valores em vigor hoje: o geral e o mais recente de cada refinaria
+  const today = BusinessTimeService.today();
+  const inForce = new Set(
+    [...new Set(rates.map(rate => rate.refinery_id))]
+      .map(refineryId => rates.find(rate => rate.refinery_id === refineryId && rate.effective_from <= today)?.id)
+      .filter((id): id is number => id !== undefined)
+  );
+  const currentRate = PointRateService.currentRate(rates);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Valor do Ponto</h1>
+          <p className="text-muted-foreground">
+            Valor atual: <span className="font-semibold text-dashboard-success">{ExcelProcessorService.formatCurrency(currentRate)}</span> por ponto.
+            Cada registro é valorizado pelo valor em vigor na sua data.
+          </p>
+        </div>
+        <Button variant="dashboard" onClick={() => openForm(null)}>
+          <Plus className="h-4 w-4 mr-1" />
+          Novo valor
+        </Button>
+      </div>
+
+      <Card className="bg-gradient-card shadow-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-foreground">
+            <DollarSign className="h-5 w-5" />
+            Histórico de valores
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-secondary/20">
+                <TableHead className="text-foreground">Vigente a partir de</TableHead>
+                <TableHead className="text-foreground">Refinaria</TableHead>
+                <TableHead className="text-foreground">Valor por ponto</TableHead>
+                <TableHead className="text-foreground">Observações</TableHead>
+                <TableHead className="text-foreground">Status</TableHead>
+                <TableHead className="text-foreground">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    <Clock className="h-8 w-8 mx-auto mb-2 opacity-50 animate-spin" />
+                    Carregando valores...
+                  </TableCell>
+                </TableRow>
+              ) : rates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    Nenhum valor cadastrado. Sem valor, os registros valem R$ 0,00.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rates.map(rate => (
+                  <TableRow key={rate.id} className="border-border hover:bg-secondary/10">
+                    <TableCell className="font-mono text-foreground">{BusinessTimeService.formatDate(rate.effective_from)}</TableCell>
+                    <TableCell className="text-foreground">{rate.refinery_name || "Todas"}</TableCell>
+                    <TableCell className="font-mono text-dashboard-primary font-bold">
+                      {ExcelProcessorService.formatCurrency(rate.value)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground max-w-xs truncate" title={rate.notes || undefined}>
+                      {rate.notes || "—"}
+                    </TableCell>
+                    <TableCell>
+                      {inForce.has(rate.id) ? (
+                        <Badge variant="default" className="bg-dashboard-success/20 text-dashboard-success border-dashboard-success/30">Em vigor</Badge>
+                      ) : rate.effective_from > today ? (
+                        <Badge variant="secondary">Futuro</Badge>
+                      ) : (
+                        <Badge variant="outline">Anterior</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-primary/20"
+                          onClick={() => openForm(rate)}
+                          title="Editar valor"
+                        >
+                          <Edit className="h-4 w-4 text-dashboard-primary" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 hover:bg-dashboard-danger/20"
+                          onClick={() => setPendingDelete(rate)}
+                          title="Excluir valor"
+                        >
+                          <Trash2 className="h-4 w-4 text-dashboard-danger" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <PointRateFormDialog
+        open={formOpen}
+        rate={editingRate}
+        refineries={refineries}
+        saving={saving}
+        onOpenChange={setFormOpen}
+        onSave={handleSave}
+      />
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent className="bg-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir valor do ponto?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os registros a partir de {pendingDelete ? BusinessTimeService.formatDate(pendingDelete.effective_from) : ""}
+              {pendingDelete?.refinery_name ? ` na ${pendingDelete.refinery_name}` : ""} passam a ser valorizados pelo valor anterior.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={handleConfirmDelete}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
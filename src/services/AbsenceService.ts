@@ -0,0 +1,201 @@
+import { supabase } from '@/integrations/supabase/client';
+import { BusinessCalendarService, DatePeriod } from './BusinessCalendarService';
+import { BusinessTimeService } from './BusinessTimeService';
+
+// Ausências e afastamentos (tabela absence): férias, atestado, treinamento e outros.
+// O funcionário solicita e o admin aprova ou recusa. Só ausências aprovadas contam:
+// os dias úteis ausentes saem do cálculo das metas do período.
+
+export type AbsenceType = 'vacation' | 'sick_leave' | 'training' | 'other';
+
+export type AbsenceStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Absence {
+  id: number;
+  employee_id: number;
+  employee_name: string | null;
+  type: AbsenceType;
+  start_date: string;  // YYYY-MM-DD (inclusivo)
+  end_date: string;    // YYYY-MM-DD (inclusivo)
+  status: AbsenceStatus;
+  reason: string | null;
+  review_notes: string | null;
+  reviewed_at: string | null;
+  created_at: string | null;
+}
+
+export type AbsenceRequest = Pick<Absence, 'employee_id' | 'type' | 'start_date' | 'end_date' | 'reason'>;
+
+export interface AbsenceFilters {
+  employeeId?: number;
+  status?: AbsenceStatus;
+  start?: string;  // ausências que terminam a partir desta data
+  end?: string;    // ausências que começam até esta data
+}
+
+export const ABSENCE_TYPES: AbsenceType[] = ['vacation', 'sick_leave', 'training', 'other'];
+
+export const ABSENCE_TYPE_LABELS: Record<AbsenceType, string> = {
+  vacation: 'Férias',
+  sick_leave: 'Atestado',
+  training: 'Treinamento',
+  other: 'Outro'
+};
+
+export const ABSENCE_STATUS_LABELS: Record<AbsenceStatus, string> = {
+  pending: 'Pendente',
+  approved: 'Aprovada',
+  rejected: 'Recusada'
+};
+
+const ABSENCE_COLUMNS = 'id, employee_id, type, start_date, end_date, status, reason, review_notes, reviewed_at, created_at, employee(real_name)';
+
+export class AbsenceService {
+  /**
+   * Ausências que se sobrepõem ao período, da mais recente para a mais antiga
+   */
+  static async getAbsences(filters: AbsenceFilters = {}): Promise<Absence[]> {
+    let query = supabase
+      .from('absence')
+      .select(ABSENCE_COLUMNS)
+      .order('start_date', { ascending: false });
+
+    if (filters.employeeId) query = query.eq('employee_id', filters.employeeId);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.start) query = query.gte('end_date', filters.start);
+    if (filters.end) query = query.lte('start_date', filters.end);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Erro ao buscar ausências:', error);
+      return [];
+    }
+
+    return (data || []).map(({ employee, ...row }) => ({
+      ...row,
+      type: row.type as AbsenceType,
+      status: row.status as AbsenceStatus,
+      employee_name: employee?.real_name || null
+    }));
+  }
+
+  /**
+   * Ausências aprovadas no período (todas as do funcionário logado, pelo RLS, ou da equipe para admins)
+   */
+  static getApprovedAbsences(period: DatePeriod, employeeId?: number): Promise<Absence[]> {
+    return this.getAbsences({ employeeId, status: 'approved', start: period.start, end: period.end });
+  }
+
+  /**
+   * Solicitação do funcionário (fica pendente até o admin decidir)
+   */
+  static async requestAbsence(request: AbsenceRequest): Promise<boolean> {
+    const { error } = await supabase
+      .from('absence')
+      .insert([{ ...request, reason: request.reason?.trim() || null, status: 'pending' }]);
+
+    if (error) {
+      console.error('Erro ao solicitar ausência:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Ausência lançada pelo admin, já aprovada
+   */
+  static async registerAbsence(request: AbsenceRequest): Promise<boolean> {
+    const { error } = await supabase
+      .from('absence')
+      .insert([{ ...request, reason: request.reason?.trim() || null, status: 'approved' }]);
+
+    if (error) {
+      console.error('Erro ao lançar ausência:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Aprovar ou recusar (apenas admin, pelo RLS); quem decidiu e quando ficam no banco
+   */
+  static async reviewAbsence(id: number, status: Exclude<AbsenceStatus, 'pending'>, notes?: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('absence')
+      .update({ status, review_notes: notes?.trim() || null })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erro ao revisar ausência:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Excluir: o funcionário só consegue cancelar solicitações pendentes
+   */
+  static async deleteAbsence(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('absence')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erro ao excluir ausência:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Dias úteis do período cobertos por ausências aprovadas do funcionário
+   * (fins de semana e feriados já não contam como dia útil)
+   */
+  static absentDays(absences: Absence[], employeeId: number, period: DatePeriod): number {
+    const employeeAbsences = absences.filter(absence =>
+      absence.employee_id === employeeId &&
+      absence.status === 'approved' &&
+      absence.end_date >= period.start &&
+      absence.start_date <= period.end
+    );
+    if (!employeeAbsences.length) return 0;
+
+    let count = 0;
+    for (let day = period.start; day <= period.end; day = BusinessTimeService.addDays(day, 1)) {
+      if (BusinessCalendarService.isWorkingDay(day) && employeeAbsences.some(absence => this.covers(absence, day))) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Ausência aprovada do funcionário na data (null se não houver)
+   */
+  static absenceOn(absences: Absence[], employeeId: number, dateKey: string): Absence | null {
+    return absences.find(absence =>
+      absence.employee_id === employeeId && absence.status === 'approved' && this.covers(absence, dateKey)
+    ) || null;
+  }
+
+  static label(type: AbsenceType): string {
+    return ABSENCE_TYPE_LABELS[type] || type;
+  }
+
+  // "01/10/2025 a 10/10/2025" (ou só a data, se for um dia)
+  static formatPeriod(absence: Pick<Absence, 'start_date' | 'end_date'>): string {
+    const start = BusinessTimeService.formatDate(absence.start_date);
+    const end = BusinessTimeService.formatDate(absence.end_date);
+    return start === end ? start : `${start} a ${end}`;
+  }
+
+  private static covers(absence: Absence, dateKey: string): boolean {
+    return absence.start_date <= dateKey && absence.end_date >= dateKey;
+  }
+}
@@ -0,0 +1,109 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Histórico de alterações (tabela entry_audit, preenchida por triggers em entry e employee)
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditRecord {
+  id: number;
+  tableName: 'entry' | 'employee';
+  recordId: number;
+  employeeId: number | null;
+  action: AuditAction;
+  oldData: Record<string, unknown> | null;
+  newData: Record<string, unknown> | null;
+  actorName: string;
+  changedAt: string;
+}
+
+export interface AuditChange {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Campos técnicos que não aparecem no histórico (refinery_id sempre muda junto com refinery)
+const IGNORED_FIELDS = ['id', 'created_at', 'updated_at', 'auth_user_id', 'refinery_id'];
+
+export class AuditService {
+  /**
+   * Histórico de um registro de pontos
+   */
+  static async getEntryHistory(entryId: number): Promise<AuditRecord[]> {
+    const { data, error } = await supabase
+      .from('entry_audit')
+      .select('*')
+      .eq('table_name', 'entry')
+      .eq('record_id', entryId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Erro ao buscar histórico do registro:', error);
+      return [];
+    }
+
+    return (data || []).map(row => this.toAuditRecord(row));
+  }
+
+  /**
+   * Histórico de um funcionário: cadastro e todos os seus registros de pontos
+   */
+  static async getEmployeeHistory(employeeId: number, limit = 100): Promise<AuditRecord[]> {
+    const { data, error } = await supabase
+      .from('entry_audit')
+      .select('*')
+      .eq('employee_id', employeeId)
+      .order('changed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Erro ao buscar histórico do funcionário:', error);
+      return [];
+    }
+
+    return (data || []).map(row => this.toAuditRecord(row));
+  }
+
+  /**
+   * Campos alterados em um evento de auditoria.
+   * Em inclusões/exclusões lista os valores do registro criado/removido.
+   */
+  static getChanges(record: AuditRecord): AuditChange[] {
+    const oldData = record.oldData || {};
+    const newData = record.newData || {};
+    const fields = [...new Set([...Object.keys(oldData), ...Object.keys(newData)])]
+      .filter(field => !IGNORED_FIELDS.includes(field));
+
+    return fields
+      .filter(field => record.action !== 'UPDATE' || JSON.stringify(oldData[field]) !== JSON.stringify(newData[field]))
+      .map(field => ({
+        field,
+        oldValue: oldData[field] ?? null,
+        newValue: newData[field] ?? null
+      }));
+  }
+
+  private static toAuditRecord(row: {
+    id: number;
+    table_name: string;
+    record_id: number;
+    employee_id: number | null;
+    action: string;
+    old_data: unknown;
+    new_data: unknown;
+    actor_name: string | null;
+    changed_at: string;
+  }): AuditRecord {
+    return {
+      id: row.id,
+      tableName: row.table_name as AuditRecord['tableName'],
+      recordId: row.record_id,
+      employeeId: row.employee_id,
+      action: row.action as AuditAction,
+      oldData: (row.old_data as Record<string, unknown>) || null,
+      newData: (row.new_data as Record<string, unknown>) || null,
+      actorName: row.actor_name || 'Sistema',
+      changedAt: row.changed_at
+    };
+  }
+}
@@ -0,0 +1,143 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { User } from '@supabase/supabase-js';
+import { Employee, EmployeeService } from './EmployeeService';
+
+// Autenticação via Supabase Auth
+// O papel vem de app_metadata.role (gravado apenas pelo servidor), nunca de
+// localStorage ou de algo embutido no bundle. Sessões expiram com o JWT e podem
+// ser revogadas pelo painel do Supabase.
+
+export type AppRole = 'admin' | 'employee';
+
+// Área inicial de cada papel
+export const ROLE_HOME: Record<AppRole, string> = {
+  admin: '/admin',
+  employee: '/dashboard'
+};
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  role: AppRole | null;
+  employeeId: number | null;
+  employee: Employee | null;
+  name: string;
+}
+
+export class AuthService {
+  /**
+   * Login de administrador (e-mail e senha)
+   */
+  static async signInWithPassword(email: string, password: string): Promise<AuthUser | null> {
+    try {
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+      if (error || !data.user) {
+        console.error('Erro no login:', error);
+        return null;
+      }
+
+      return this.toAuthUser(data.user);
+    } catch (error) {
+      console.error('Erro no login:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Login de funcionário pela chave de acesso.
+   * A chave é conferida no servidor (função access-key-login), que devolve um
+   * token de uso único trocado aqui por uma sessão.
+   */
+  static async signInWithAccessKey(accessKey: string): Promise<AuthUser | null> {
+    try {
+      const { data, error } = await supabase.functions.invoke('access-key-login', {
+        body: { accessKey }
+      });
+
+      if (error || !data?.token_hash) {
+        console.error('Erro na autenticação:', error);
+        return null;
+      }
+
+      const { data: session, error: otpError } = await supabase.auth.verifyOtp({
+        token_hash: data.token_hash,
+        type: 'magiclink'
+      });
+
+      if (otpError || !session.user) {
+        console.error('Erro na autenticação:', otpError);
+        return null;
+      }
+
+      return this.toAuthUser(session.user);
+    } catch (error) {
+      console.error('Erro na autenticação:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Usuário da sessão atual, validado no servidor (sessões revogadas retornam null)
+   */
+  static async getCurrentUser(): Promise<AuthUser | null> {
+    try {
+      const { data, error } = await supabase.auth.getUser();
+
+      if (error || !data.user) {
+        return null;
+      }
+
+      return this.toAuthUser(data.user);
+    } catch (error) {
+      console.error('Erro ao buscar usuário atual:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Observa mudanças da sessão (login, renovação de token, logout em outra aba).
+   * Retorna a função para cancelar a inscrição.
+   */
+  static onAuthStateChange(callback: (user: AuthUser | null) => void): () => void {
+    const { data } = supabase.auth.onAuthStateChange((event, session) => {
+      // A sessão inicial é carregada por getCurrentUser
+      if (event === 'INITIAL_SESSION') return;
+
+      // Consultas ao Supabase dentro do callback travam o cliente de auth,
+      // então o funcionário é carregado fora dele
+      setTimeout(async () => {
+        callback(session?.user ? await this.toAuthUser(session.user) : null);
+      }, 0);
+    });
+
+    return () => data.subscription.unsubscribe();
+  }
+
+  static async signOut(): Promise<void> {
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('Erro ao sair:', error);
+    }
+  }
+
+  static async toAuthUser(user: User): Promise<AuthUser> {
+    const role = this.getRole(user);
+    const employeeId = Number(user.app_metadata?.employee_id) || null;
+    const employee = employeeId ? await EmployeeService.getEmployeeById(employeeId) : null;
+
+    return {
+      id: user.id,
+      email: user.email || '',
+      role,
+      employeeId,
+      employee,
+      name: employee?.real_name || employee?.name || user.user_metadata?.name || user.email || ''
+    };
+  }
+
+  private static getRole(user: User): AppRole | null {
+    const role = user.app_metadata?.role;
+    return role === 'admin' || role === 'employee' ? role : null;
+  }
+}
@@ -0,0 +1,214 @@
+import { supabase } from '@/integrations/supabase/client';
+import { BusinessTimeService } from './BusinessTimeService';
+import { CycleCalendarService } from './CycleCalendarService';
+
+// Calendário de dias úteis da empresa
+// Dia útil = dia da semana trabalhado (cycle_config.working_weekdays) que não é
+// feriado nacional (calculado aqui) nem folga da empresa (tabela day_off).
+// As metas cadastradas são nominais: a diária vale para um dia útil, a semanal para
+// uma semana completa e a mensal para cycle_config.reference_working_days dias úteis.
+
+export interface DayOff {
+  id: number;
+  date: string;  // YYYY-MM-DD
+  name: string;
+}
+
+export type DayOffFields = Omit<DayOff, 'id'>;
+
+export type HolidayKind = 'national' | 'company';
+
+export interface Holiday {
+  date: string;
+  name: string;
+  kind: HolidayKind;
+}
+
+// Período de datas puras (inclusivo), como Cycle, CycleWeek e WeekDates
+export interface DatePeriod {
+  start: string;
+  end: string;
+}
+
+// Feriados nacionais de data fixa (MM-DD)
+const FIXED_NATIONAL_HOLIDAYS: { day: string; name: string; since?: number }[] = [
+  { day: '01-01', name: 'Confraternização Universal' },
+  { day: '04-21', name: 'Tiradentes' },
+  { day: '05-01', name: 'Dia do Trabalho' },
+  { day: '09-07', name: 'Independência do Brasil' },
+  { day: '10-12', name: 'Nossa Senhora Aparecida' },
+  { day: '11-02', name: 'Finados' },
+  { day: '11-15', name: 'Proclamação da República' },
+  { day: '11-20', name: 'Dia Nacional de Zumbi e da Consciência Negra', since: 2024 },
+  { day: '12-25', name: 'Natal' }
+];
+
+export class BusinessCalendarService {
+  private static daysOff: DayOff[] = [];
+  private static loading: Promise<DayOff[]> | null = null;
+  private static nationalCache = new Map<number, Holiday[]>();
+
+  /**
+   * Carrega a regra do ciclo e as folgas da empresa (uma vez por sessão).
+   * Em caso de erro considera apenas fins de semana e feriados nacionais.
+   */
+  static load(force = false): Promise<DayOff[]> {
+    if (!this.loading || force) {
+      this.loading = (async () => {
+        await CycleCalendarService.loadConfig();
+        const { data, error } = await supabase
+          .from('day_off')
+          .select('id, date, name')
+          .order('date');
+
+        if (error) {
+          console.error('Erro ao carregar folgas da empresa:', error);
+        } else {
+          this.daysOff = data || [];
+        }
+        return this.daysOff;
+      })();
+    }
+    return this.loading;
+  }
+
+  static async createDayOff(fields: DayOffFields): Promise<boolean> {
+    const { error } = await supabase
+      .from('day_off')
+      .insert([{ date: fields.date, name: fields.name.trim() }]);
+
+    if (error) {
+      console.error('Erro ao cadastrar folga:', error);
+      return false;
+    }
+
+    await this.load(true);
+    return true;
+  }
+
+  static async deleteDayOff(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('day_off')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erro ao excluir folga:', error);
+      return false;
+    }
+
+    await this.load(true);
+    return true;
+  }
+
+  /**
+   * Feriados nacionais do ano: datas fixas e Sexta-feira Santa (Páscoa - 2 dias)
+   */
+  static nationalHolidays(year: number): Holiday[] {
+    let holidays = this.nationalCache.get(year);
+    if (!holidays) {
+      holidays = [
+        ...FIXED_NATIONAL_HOLIDAYS
+          .filter(holiday => !holiday.since || year >= holiday.since)
+          .map(holiday => ({ date: `${year}-${holiday.day}`, name: holiday.name, kind: 'national' as const })),
+        { date: BusinessTimeService.addDays(this.easter(year), -2), name: 'Paixão de Cristo', kind: 'national' as const }
+      ].sort((a, b) => a.date.localeCompare(b.date));
+      this.nationalCache.set(year, holidays);
+    }
+    return holidays;
+  }
+
+  /**
+   * Feriados nacionais e folgas da empresa no período, em ordem de data
+   */
+  static holidaysBetween(start: string, end: string): Holiday[] {
+    const years = Array.from(
+      { length: Number(end.slice(0, 4)) - Number(start.slice(0, 4)) + 1 },
+      (_, index) => Number(start.slice(0, 4)) + index
+    );
+    const national = years.flatMap(year => this.nationalHolidays(year));
+    const company: Holiday[] = this.daysOff.map(dayOff => ({ date: dayOff.date, name: dayOff.name, kind: 'company' }));
+
+    return [...national, ...company]
+      .filter(holiday => holiday.date >= start && holiday.date <= end)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Feriado ou folga na data (o feriado nacional prevalece)
+   */
+  static holidayOn(dateKey: string): Holiday | null {
+    return this.holidaysBetween(dateKey, dateKey)[0] || null;
+  }
+
+  static isWorkingDay(dateKey: string): boolean {
+    const { workingWeekdays } = CycleCalendarService.getConfig();
+    return workingWeekdays.includes(this.weekday(dateKey)) && !this.holidayOn(dateKey);
+  }
+
+  /**
+   * Dias úteis entre start e end (inclusivos)
+   */
+  static workingDaysBetween(start: string, end: string): number {
+    let count = 0;
+    for (let day = start; day <= end; day = BusinessTimeService.addDays(day, 1)) {
+      if (this.isWorkingDay(day)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Dias úteis que ainda faltam no período, contando hoje
+   */
+  static remainingWorkingDays(period: DatePeriod, today = BusinessTimeService.today()): number {
+    if (today > period.end) return 0;
+    return this.workingDaysBetween(today > period.start ? today : period.start, period.end);
+  }
+
+  // Meta diária na data: zero em fins de semana, feriados e folgas
+  static dailyGoalOn(dailyGoal: number, dateKey: string): number {
+    return this.isWorkingDay(dateKey) ? dailyGoal : 0;
+  }
+
+  // Meta semanal proporcional aos dias úteis da semana (semana parcial, feriado ou
+  // dias úteis de ausência aprovada, ver AbsenceService.absentDays)
+  static weeklyGoalFor(weeklyGoal: number, week: DatePeriod, absentDays = 0): number {
+    const { workingWeekdays } = CycleCalendarService.getConfig();
+    if (!workingWeekdays.length) return weeklyGoal;
+    return Math.round(weeklyGoal * this.availableDays(week, absentDays) / workingWeekdays.length);
+  }
+
+  // Meta mensal proporcional aos dias úteis do ciclo, descontadas as ausências
+  static monthlyGoalFor(monthlyGoal: number, cycle: DatePeriod, absentDays = 0): number {
+    const { referenceWorkingDays } = CycleCalendarService.getConfig();
+    return Math.round(monthlyGoal * this.availableDays(cycle, absentDays) / referenceWorkingDays);
+  }
+
+  private static availableDays(period: DatePeriod, absentDays: number): number {
+    return Math.max(0, this.workingDaysBetween(period.start, period.end) - absentDays);
+  }
+
+  // Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher)
+  private static easter(year: number): string {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  private static weekday(dateKey: string): number {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  }
+}
@@ -0,0 +1,158 @@
+// Camada de datas no fuso horário da empresa
+// Toda conta de dia/semana/ciclo é feita no fuso de negócio (America/Sao_Paulo),
+// independente do fuso do navegador. entry.date é timestamptz, então filtros por
+// dia viram intervalos de instantes [início do dia, início do dia seguinte).
+
+export const DEFAULT_BUSINESS_TIMEZONE = 'America/Sao_Paulo';
+
+export interface DateRange {
+  from: string; // ISO, inclusivo
+  to: string;   // ISO, exclusivo
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export class BusinessTimeService {
+  private static timezone = DEFAULT_BUSINESS_TIMEZONE;
+  private static formatters = new Map<string, Intl.DateTimeFormat>();
+
+  static getTimezone(): string {
+    return this.timezone;
+  }
+
+  static setTimezone(timezone: string) {
+    this.timezone = timezone || DEFAULT_BUSINESS_TIMEZONE;
+  }
+
+  /**
+   * Dia (YYYY-MM-DD) no fuso da empresa.
+   * Datas puras ("2025-08-26") são mantidas como estão.
+   */
+  static toDateKey(date: Date | string): string {
+    if (typeof date === 'string' && DATE_KEY_PATTERN.test(date)) {
+      return date;
+    }
+    const parts = this.getParts(typeof date === 'string' ? new Date(date) : date);
+    return `${parts.year}-${this.pad(parts.month)}-${this.pad(parts.day)}`;
+  }
+
+  /**
+   * Hoje no fuso da empresa
+   */
+  static today(): string {
+    return this.toDateKey(new Date());
+  }
+
+  /**
+   * Soma dias a uma data pura
+   */
+  static addDays(dateKey: string, days: number): string {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().split('T')[0];
+  }
+
+  /**
+   * Primeiro instante do dia no fuso da empresa.
+   * Em dias de início de horário de verão a meia-noite não existe (00:00 → 01:00),
+   * então o dia começa no primeiro instante que já pertence a ele.
+   */
+  static startOfDay(dateKey: string): Date {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const guess = Date.UTC(year, month - 1, day);
+    const firstOffset = this.getOffset(new Date(guess));
+    const candidates = [
+      guess - firstOffset,
+      guess - this.getOffset(new Date(guess - firstOffset))
+    ].sort((a, b) => a - b);
+
+    const start = candidates.find(time => this.toDateKey(new Date(time)) === dateKey) ?? candidates[1];
+    return new Date(start);
+  }
+
+  /**
+   * Instante de um dia e horário ("HH:mm") no fuso da empresa.
+   * Horário repetido no fim do horário de verão fica com a primeira ocorrência;
+   * horário que não existe no início (00:30 em 04/11/2018) avança pelo salto (01:30).
+   */
+  static toInstant(dateKey: string, time: string): Date {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    const [hour, minute] = time.split(':').map(Number);
+    const guess = Date.UTC(year, month - 1, day, hour || 0, minute || 0);
+    const firstTry = guess - this.getOffset(new Date(guess));
+    const candidates = [firstTry, guess - this.getOffset(new Date(firstTry))].sort((a, b) => a - b);
+
+    const exact = candidates.find(instant => this.getOffset(new Date(instant)) === guess - instant);
+    return new Date(exact ?? candidates[1]);
+  }
+
+  /**
+   * Intervalo de instantes que cobre os dias de start a end (inclusivos)
+   */
+  static toRange(startKey: string, endKey: string): DateRange {
+    return {
+      from: this.startOfDay(startKey).toISOString(),
+      to: this.startOfDay(this.addDays(endKey, 1)).toISOString()
+    };
+  }
+
+  // Formatar data para exibição (dd/MM/yyyy no fuso da empresa)
+  static formatDate(date: Date | string): string {
+    if (typeof date === 'string' && DATE_KEY_PATTERN.test(date)) {
+      const [year, month, day] = date.split('-');
+      return `${day}/${month}/${year}`;
+    }
+    const parts = this.getParts(typeof date === 'string' ? new Date(date) : date);
+    return `${this.pad(parts.day)}/${this.pad(parts.month)}/${parts.year}`;
+  }
+
+  // Formatar hora para exibição (HH:mm no fuso da empresa)
+  static formatTime(date: Date | string): string {
+    const parts = this.getParts(typeof date === 'string' ? new Date(date) : date);
+    return `${this.pad(parts.hour)}:${this.pad(parts.minute)}`;
+  }
+
+  // Diferença (ms) entre o horário local da empresa e UTC naquele instante
+  private static getOffset(date: Date): number {
+    const parts = this.getParts(date);
+    const asUTC = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+  }
+
+  private static getParts(date: Date) {
+    let formatter = this.formatters.get(this.timezone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: this.timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      });
+      this.formatters.set(this.timezone, formatter);
+    }
+
+    const values: Record<string, number> = {};
+    formatter.formatToParts(date).forEach(part => {
+      if (part.type !== 'literal') {
+        values[part.type] = Number(part.value);
+      }
+    });
+
+    return {
+      year: values.year,
+      month: values.month,
+      day: values.day,
+      hour: values.hour,
+      minute: values.minute,
+      second: values.second
+    };
+  }
+
+  private static pad(value: number): string {
+    return String(value).padStart(2, '0');
+  }
+}
@@ -1,5 +1,7 @@
 // Portando lógica do utils/calculations.py para TypeScript
-// Mantendo a lógica original de semanas 26→25
+// A regra do ciclo (26→25 por padrão) vem do CycleCalendarService
+import { Cycle, CycleCalendarService } from './CycleCalendarService';
+import { BusinessTimeService } from './BusinessTimeService';
 
 export interface WeekDates {
   start: string;
@@ -14,213 +16,62 @@ export interface MonthCycleDates {
 export class CalculationsService {
   
   /**
-   * Obtém início do ciclo atual (dia 26)
+   * Obtém início do ciclo atual
    */
   static getCurrentCycleStart(): Date {
-    const today = new Date();
-    const currentDay = today.getDate();
-    let cycleYear = today.getFullYear();
-    let cycleMonth = today.getMonth() + 1;
-
-    // Se já passou do dia 25, estamos no próximo ciclo
-    if (currentDay >= 26) {
-      // Estamos no próximo ciclo - manter mês atual
-      cycleMonth = today.getMonth() + 1;
-    } else {
-      // Ainda no ciclo anterior - ir para mês anterior
-      cycleMonth -= 1;
-      if (cycleMonth < 1) {
-        cycleMonth = 12;
-        cycleYear -= 1;
-      }
-    }
+    const [year, month, day] = CycleCalendarService.current().start.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
 
-    return new Date(cycleYear, cycleMonth - 1, 26);
+  // Ciclo informado (id "YYYY-MM") ou ciclo atual
+  static getCycle(cycleId?: string): Cycle {
+    return cycleId ? CycleCalendarService.fromId(cycleId) : CycleCalendarService.current();
   }
 
-  // Lógica original: getWeekDates() do calculations.py
-  static getWeekDates(weekStr: string): WeekDates {
+  // Datas da semana do ciclo (a última semana pode ser parcial)
+  static getWeekDates(weekStr: string, cycleId?: string): WeekDates {
     const weekNum = parseInt(weekStr);
-    if (weekNum < 1 || weekNum > 5) {
-      throw new Error('Semana deve estar entre 1 e 5');
-    }
-
-    const today = new Date();
-    const currentMonth = today.getMonth() + 1; // getMonth() returns 0-11
-    const currentYear = today.getFullYear();
-    
-    // Lógica baseada no ciclo 26→25
-    let cycleYear = currentYear;
-    let cycleMonth = currentMonth;
-
-    // Se já passou do dia 25, estamos no próximo ciclo
-    if (today.getDate() >= 26) {
-      // Manter mês atual - já está no próximo ciclo
-      cycleMonth = currentMonth;
-    } else {
-      // Ir para ciclo anterior
-      cycleMonth -= 1;
-      if (cycleMonth < 1) {
-        cycleMonth = 12;
-        cycleYear -= 1;
-      }
+    const weeks = CycleCalendarService.weeksOf(this.getCycle(cycleId));
+    const week = weeks.find(w => w.number === weekNum);
+    if (!week) {
+      throw new Error(`Semana deve estar entre 1 e ${weeks.length}`);
     }
 
-    // Calcular início do ciclo (dia 26)
-    const cycleStart = new Date(cycleYear, cycleMonth - 1, 26);
-    
-    // Cada semana tem 7 dias, começando do dia 26
-    const weekStartDate = new Date(cycleStart);
-    weekStartDate.setDate(cycleStart.getDate() + (weekNum - 1) * 7);
-    
-    const weekEndDate = new Date(weekStartDate);
-    weekEndDate.setDate(weekStartDate.getDate() + 6);
-
     return {
-      start: weekStartDate.toISOString().split('T')[0],
-      end: weekEndDate.toISOString().split('T')[0]
+      start: week.start,
+      end: week.end
     };
   }
 
-  // Obter semana atual baseada no ciclo 26→25 (LÓGICA CORRIGIDA)
+  // Obter semana atual dentro do ciclo
   static getCurrentWeek(): number {
-    const today = new Date();
-    const currentDay = today.getDate();
-    const currentMonth = today.getMonth() + 1;
-    const currentYear = today.getFullYear();
-
-    // Determinar início do ciclo atual (dia 26)
-    let cycleYear = currentYear;
-    let cycleMonth = currentMonth;
-
-    // Se já passou do dia 25, estamos no próximo ciclo (igual ao DataService)
-    if (currentDay >= 26) {
-      // Estamos no próximo ciclo - manter mês atual
-      cycleMonth = currentMonth;
-    } else {
-      // Ainda no ciclo anterior - ir para mês anterior
-      cycleMonth -= 1;
-      if (cycleMonth < 1) {
-        cycleMonth = 12;
-        cycleYear -= 1;
-      }
-    }
-
-    // Início do ciclo sempre no dia 26
-    const cycleStart = new Date(cycleYear, cycleMonth - 1, 26);
-    const daysDiff = Math.floor((today.getTime() - cycleStart.getTime()) / (1000 * 60 * 60 * 24));
-    
-    // Calcular semana (1-5) - cada semana tem 7 dias
-    const week = Math.floor(daysDiff / 7) + 1;
-    return Math.min(Math.max(week, 1), 5);
+    return CycleCalendarService.weekFor(new Date()).week.number;
   }
 
-  // Obter datas do ciclo mensal (26→25) - LÓGICA PYTHON CORRIGIDA
-  static getMonthCycleDates(month?: number, year?: number): MonthCycleDates {
-    const today = new Date();
-    let targetMonth = month || today.getMonth() + 1;
-    let targetYear = year || today.getFullYear();
-
-    // Se não especificado, pegar ciclo atual baseado no dia 26
-    if (!month && !year) {
-      // Se já passou do dia 25, estamos no próximo ciclo da empresa
-      if (today.getDate() >= 26) {
-        // Já no próximo ciclo - manter mês atual
-        targetMonth = today.getMonth() + 1;
-        targetYear = today.getFullYear();
-      } else {
-        // Ainda no ciclo anterior - ir para mês anterior  
-        targetMonth = today.getMonth(); // já subtrai 1 pois getMonth() é 0-based
-        if (targetMonth < 1) {
-          targetMonth = 12;
-          targetYear -= 1;
-        }
-      }
-    }
-
-    // Início do ciclo: dia 26 do mês especificado
-    const cycleStart = new Date(targetYear, targetMonth - 1, 26);
-    
-    // Fim do ciclo: dia 25 do próximo mês  
-    let endMonth = targetMonth + 1;
-    let endYear = targetYear;
-    if (endMonth > 12) {
-      endMonth = 1;
-      endYear += 1;
-    }
-    const cycleEnd = new Date(endYear, endMonth - 1, 25);
+  // Obter datas do ciclo mensal (atual se não informado)
+  static getMonthCycleDates(cycleId?: string): MonthCycleDates {
+    const cycle = this.getCycle(cycleId);
 
     return {
-      start: cycleStart.toISOString().split('T')[0],
-      end: cycleEnd.toISOString().split('T')[0]
+      start: cycle.start,
+      end: cycle.end
     };
   }
 
-  // Determinar semana de uma data específica (baseado no ciclo 26→25)
+  // Determinar semana de uma data específica dentro do seu ciclo
   static getWeekFromDate(dateStr: string): number {
-    const date = new Date(dateStr);
-    const day = date.getDate();
-    const month = date.getMonth() + 1;
-    const year = date.getFullYear();
-
-    // Encontrar início do ciclo mensal para esta data (sempre dia 26)
-    let cycleYear = year;
-    let cycleMonth = month;
-
-    // Se já passou do dia 25, pertence ao próximo ciclo
-    if (day >= 26) {
-      // Manter mês atual - já está no próximo ciclo
-      cycleMonth = month;
-    } else {
-      // Ir para ciclo anterior
-      cycleMonth -= 1;
-      if (cycleMonth < 1) {
-        cycleMonth = 12;
-        cycleYear -= 1;
-      }
-    }
-
-    const cycleStart = new Date(cycleYear, cycleMonth - 1, 26);
-    const daysDiff = Math.floor((date.getTime() - cycleStart.getTime()) / (1000 * 60 * 60 * 24));
-    
-    // Calcular qual semana (1-5 dentro do ciclo mensal)
-    const week = Math.floor(daysDiff / 7) + 1;
-    return Math.min(Math.max(week, 1), 5);
-  }
-
-  // Semanas disponíveis (sempre 1-5)
-  static getAvailableWeeks(): string[] {
-    return ['1', '2', '3', '4', '5'];
-  }
-
-  // Calcular meta diária baseada no funcionário
-  static getDailyGoal(employee: { username: string; weekly_goal?: number }): number {
-    // Lógica original: Matheus (E89P) tem meta especial
-    if (employee.username === 'E89P') {
-      return 535; // 2675 / 5 dias
-    }
-    return 475; // 2375 / 5 dias (meta padrão)
+    return CycleCalendarService.weekFor(dateStr).week.number;
   }
 
-  // Calcular meta semanal baseada no funcionário
-  static getWeeklyGoal(employee: { username: string; weekly_goal?: number }): number {
-    if (employee.weekly_goal) {
-      return employee.weekly_goal;
-    }
-    // Fallback para lógica original
-    if (employee.username === 'E89P') {
-      return 2675;
-    }
-    return 2375;
+  // Semanas disponíveis no ciclo (atual se não informado)
+  static getAvailableWeeks(cycleId?: string): string[] {
+    return CycleCalendarService.weeksOf(this.getCycle(cycleId)).map(w => w.number.toString());
   }
 
-  // Calcular meta mensal baseada no funcionário
-  static getMonthlyGoal(employee: { username: string }): number {
-    // Lógica original do employee.py
-    if (employee.username === 'E89P') {
-      return 10500;
-    }
-    return 9500;
+  // Semana selecionada ajustada ao ciclo (ex.: semana 5 em um ciclo de 4 semanas)
+  static resolveWeek(weekStr: string, cycleId?: string): string {
+    const weeks = this.getAvailableWeeks(cycleId);
+    return weeks.includes(weekStr) ? weekStr : weeks[weeks.length - 1];
   }
 
   // Calcular porcentagem de progresso
@@ -239,18 +90,25 @@ export class CalculationsService {
     return 'on-track';
   }
 
-  // Formatar data para exibição (BR format)
+  // Formatar data para exibição (BR format, fuso da empresa)
   static formatDateBR(dateStr: string): string {
-    const date = new Date(dateStr);
-    return date.toLocaleDateString('pt-BR');
+    return BusinessTimeService.formatDate(dateStr);
   }
 
-  // Formatar timestamp para exibição (BR format)
+  // Formatar timestamp para exibição (BR format, fuso da empresa)
   static formatTimestampBR(dateStr: string): { date: string; time: string } {
-    const date = new Date(dateStr);
     return {
-      date: date.toLocaleDateString('pt-BR'),
-      time: date.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })
+      date: BusinessTimeService.formatDate(dateStr),
+      time: BusinessTimeService.formatTime(dateStr)
     };
   }
+
+  // Formatar atraso do lançamento (ex.: "45 min", "5 h", "2 d 3 h")
+  static formatLateness(minutes: number): string {
+    if (minutes < 60) return `${minutes} min`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} h`;
+    const days = Math.floor(hours / 24);
+    return hours % 24 ? `${days} d ${hours % 24} h` : `${days} d`;
+  }
 }
\ No newline at end of file
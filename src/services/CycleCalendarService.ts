@@ -0,0 +1,239 @@
+import { supabase } from '@/integrations/supabase/client';
+import { BusinessTimeService, DEFAULT_BUSINESS_TIMEZONE } from './BusinessTimeService';
+
+// Calendário de ciclos da empresa
+// A regra (dia de início, tamanho da semana, semanas por ciclo) vem da tabela
+// cycle_config, então mudar de 26→25 para 21→20 ou semanas ISO é só dado.
+
+export type WeekMode = 'cycle_start' | 'iso';
+
+export interface CycleConfig {
+  startDay: number;
+  weekLengthDays: number;
+  weeksPerCycle: number;
+  weekMode: WeekMode;
+  timezone: string;
+  workingWeekdays: number[];     // 0 = domingo ... 6 = sábado
+  referenceWorkingDays: number;  // dias úteis que a meta mensal cadastrada representa
+}
+
+export interface Cycle {
+  id: string;     // "YYYY-MM" do mês de referência (mês em que o ciclo termina)
+  year: number;
+  month: number;  // 1-12
+  start: string;  // YYYY-MM-DD (inclusivo)
+  end: string;    // YYYY-MM-DD (inclusivo)
+  label: string;  // "Setembro 2025"
+}
+
+export interface CycleWeek {
+  number: number;
+  start: string;
+  end: string;
+  days: number;
+  partial: boolean;
+}
+
+export const DEFAULT_CYCLE_CONFIG: CycleConfig = {
+  startDay: 26,
+  weekLengthDays: 7,
+  weeksPerCycle: 5,
+  weekMode: 'cycle_start',
+  timezone: DEFAULT_BUSINESS_TIMEZONE,
+  workingWeekdays: [1, 2, 3, 4, 5],
+  referenceWorkingDays: 20
+};
+
+export const MONTH_NAMES = [
+  'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
+  'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'
+];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export class CycleCalendarService {
+  private static config: CycleConfig = DEFAULT_CYCLE_CONFIG;
+  private static loading: Promise<CycleConfig> | null = null;
+
+  /**
+   * Carrega a regra do ciclo do banco (uma vez por sessão).
+   * Em caso de erro mantém a regra padrão 26→25.
+   */
+  static loadConfig(force = false): Promise<CycleConfig> {
+    if (!this.loading || force) {
+      this.loading = (async () => {
+        try {
+          const { data, error } = await supabase
+            .from('cycle_config')
+            .select('start_day, week_length_days, weeks_per_cycle, week_mode, timezone, working_weekdays, reference_working_days')
+            .order('id')
+            .limit(1)
+            .maybeSingle();
+
+          if (error) {
+            console.error('Erro ao carregar configuração do ciclo:', error);
+          } else if (data) {
+            this.config = {
+              startDay: data.start_day,
+              weekLengthDays: data.week_length_days,
+              weeksPerCycle: data.weeks_per_cycle,
+              weekMode: data.week_mode as WeekMode,
+              timezone: data.timezone,
+              workingWeekdays: data.working_weekdays,
+              referenceWorkingDays: data.reference_working_days
+            };
+          }
+          BusinessTimeService.setTimezone(this.config.timezone);
+        } catch (error) {
+          console.error('Erro ao carregar configuração do ciclo:', error);
+        }
+        return this.config;
+      })();
+    }
+    return this.loading;
+  }
+
+  static getConfig(): CycleConfig {
+    return this.config;
+  }
+
+  /**
+   * Ciclo que contém a data informada
+   */
+  static cycleFor(date: Date | string): Cycle {
+    const { year, month, day } = this.toParts(date);
+    const { startDay } = this.config;
+
+    // A partir do dia de início, a data já pertence ao ciclo do mês seguinte
+    if (startDay > 1 && day >= startDay) {
+      return this.fromReference(year, month + 1);
+    }
+    return this.fromReference(year, month);
+  }
+
+  /**
+   * Ciclo atual (hoje)
+   */
+  static current(): Cycle {
+    return this.cycleFor(new Date());
+  }
+
+  /**
+   * Ciclo a partir do id "YYYY-MM"
+   */
+  static fromId(id: string): Cycle {
+    const [year, month] = id.split('-').map(Number);
+    return this.fromReference(year, month);
+  }
+
+  /**
+   * Ciclo de referência (mês em que o ciclo termina); aceita meses fora de 1-12
+   */
+  static fromReference(year: number, month: number): Cycle {
+    const ref = new Date(Date.UTC(year, month - 1, 1));
+    const refYear = ref.getUTCFullYear();
+    const refMonth = ref.getUTCMonth() + 1;
+    const { startDay } = this.config;
+
+    const start = startDay > 1
+      ? new Date(Date.UTC(refYear, refMonth - 2, startDay))
+      : new Date(Date.UTC(refYear, refMonth - 1, 1));
+    const nextStart = startDay > 1
+      ? new Date(Date.UTC(refYear, refMonth - 1, startDay))
+      : new Date(Date.UTC(refYear, refMonth, 1));
+    const end = new Date(nextStart.getTime() - DAY_MS);
+
+    return {
+      id: `${refYear}-${String(refMonth).padStart(2, '0')}`,
+      year: refYear,
+      month: refMonth,
+      start: this.formatUTC(start),
+      end: this.formatUTC(end),
+      label: `${MONTH_NAMES[refMonth - 1]} ${refYear}`
+    };
+  }
+
+  static previous(cycle: Cycle): Cycle {
+    return this.fromReference(cycle.year, cycle.month - 1);
+  }
+
+  static next(cycle: Cycle): Cycle {
+    return this.fromReference(cycle.year, cycle.month + 1);
+  }
+
+  /**
+   * Semanas do ciclo, cortadas no fim do ciclo.
+   * A última semana pode ser parcial (ex.: semana 5 com 2-3 dias) e semanas
+   * vazias não são geradas. Se o limite de semanas por ciclo for atingido,
+   * os dias restantes entram na última semana.
+   */
+  static weeksOf(cycle: Cycle): CycleWeek[] {
+    const { weekLengthDays, weeksPerCycle, weekMode } = this.config;
+    const cycleEnd = this.toUTC(cycle.end);
+    const weeks: CycleWeek[] = [];
+    let cursor = this.toUTC(cycle.start);
+
+    while (cursor.getTime() <= cycleEnd.getTime()) {
+      const number = weeks.length + 1;
+      let end: Date;
+
+      if (number >= weeksPerCycle) {
+        end = cycleEnd;
+      } else if (weekMode === 'iso') {
+        // Semana ISO termina no domingo
+        const daysToSunday = (7 - cursor.getUTCDay()) % 7;
+        end = new Date(cursor.getTime() + daysToSunday * DAY_MS);
+      } else {
+        end = new Date(cursor.getTime() + (weekLengthDays - 1) * DAY_MS);
+      }
+      if (end.getTime() > cycleEnd.getTime()) {
+        end = cycleEnd;
+      }
+
+      const days = Math.round((end.getTime() - cursor.getTime()) / DAY_MS) + 1;
+      weeks.push({
+        number,
+        start: this.formatUTC(cursor),
+        end: this.formatUTC(end),
+        days,
+        partial: days < (weekMode === 'iso' ? 7 : weekLengthDays)
+      });
+
+      cursor = new Date(end.getTime() + DAY_MS);
+    }
+
+    return weeks;
+  }
+
+  /**
+   * Semana (dentro do seu ciclo) que contém a data informada
+   */
+  static weekFor(date: Date | string): { cycle: Cycle; week: CycleWeek } {
+    const cycle = this.cycleFor(date);
+    const key = this.toDateKey(date);
+    const weeks = this.weeksOf(cycle);
+    const week = weeks.find(w => key >= w.start && key <= w.end) || weeks[weeks.length - 1];
+    return { cycle, week };
+  }
+
+  /**
+   * Data no formato YYYY-MM-DD (no fuso da empresa)
+   */
+  static toDateKey(date: Date | string): string {
+    return BusinessTimeService.toDateKey(date);
+  }
+
+  private static toParts(date: Date | string): { year: number; month: number; day: number } {
+    const [year, month, day] = this.toDateKey(date).split('-').map(Number);
+    return { year, month, day };
+  }
+
+  private static toUTC(dateKey: string): Date {
+    const [year, month, day] = dateKey.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  }
+
+  private static formatUTC(date: Date): string {
+    return date.toISOString().split('T')[0];
+  }
+}
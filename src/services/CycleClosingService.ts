@@ -0,0 +1,205 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Cycle } from './CycleCalendarService';
+import type { EmploymentType } from './EmploymentTypeService';
+import type { StatementRow } from './PayrollService';
+
+// Fechamento de ciclo (tabela month_reset): ciclo fechado não aceita inclusões,
+// alterações nem exclusões de registros (trigger lock_closed_cycle) e guarda os
+// totais de cada funcionário em cycle_summary. Reabrir exige motivo.
+
+export interface CycleClosing {
+  id: number;
+  cycleId: string;
+  start: string;                  // YYYY-MM-DD
+  end: string;                    // YYYY-MM-DD
+  closedAt: string;
+  closedByName: string | null;
+  reopenedAt: string | null;      // preenchido = fechamento desfeito
+  reopenedByName: string | null;
+  reopenReason: string | null;
+}
+
+export interface CycleClosingResult {
+  closing: CycleClosing | null;
+  error: string | null;           // mensagem do banco (ex.: registros pendentes no ciclo)
+}
+
+type ClosingRow = {
+  id: number;
+  cycle_id: string | null;
+  cycle_start: string | null;
+  cycle_end: string | null;
+  closed_at: string | null;
+  closed_by_name: string | null;
+  reopened_at: string | null;
+  reopened_by_name: string | null;
+  reopen_reason: string | null;
+};
+
+const CLOSING_COLUMNS = 'id, cycle_id, cycle_start, cycle_end, closed_at, closed_by_name, reopened_at, reopened_by_name, reopen_reason';
+
+export class CycleClosingService {
+  private static closings: CycleClosing[] = [];
+  private static loading: Promise<CycleClosing[]> | null = null;
+  private static listeners: Array<() => void> = [];
+
+  /**
+   * Carrega os fechamentos (uma vez por sessão; force após fechar/reabrir)
+   */
+  static loadClosings(force = false): Promise<CycleClosing[]> {
+    if (!this.loading || force) {
+      this.loading = (async () => {
+        const { data, error } = await supabase
+          .from('month_reset')
+          .select(CLOSING_COLUMNS)
+          .not('cycle_id', 'is', null)
+          .order('closed_at', { ascending: false });
+
+        if (error) {
+          console.error('Erro ao carregar fechamentos de ciclo:', error);
+        } else {
+          this.closings = (data || []).map(row => this.toClosing(row));
+          this.listeners.forEach(listener => listener());
+        }
+        return this.closings;
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Avisa quando os fechamentos mudam (seletores de ciclo); devolve a função para cancelar
+   */
+  static onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(current => current !== listener);
+    };
+  }
+
+  /**
+   * Fechamento vigente do ciclo (null se aberto)
+   */
+  static getClosing(cycleId: string): CycleClosing | null {
+    return this.closings.find(closing => closing.cycleId === cycleId && !closing.reopenedAt) || null;
+  }
+
+  static isClosed(cycleId: string): boolean {
+    return !!this.getClosing(cycleId);
+  }
+
+  /**
+   * Dia (YYYY-MM-DD) dentro de um ciclo fechado
+   */
+  static isDateClosed(dateKey: string): boolean {
+    return this.closings.some(closing =>
+      !closing.reopenedAt && dateKey >= closing.start && dateKey <= closing.end
+    );
+  }
+
+  /**
+   * Fechamentos do ciclo, do mais recente ao mais antigo (inclui os reabertos)
+   */
+  static getHistory(cycleId: string): CycleClosing[] {
+    return this.closings.filter(closing => closing.cycleId === cycleId);
+  }
+
+  /**
+   * Fecha o ciclo; pontos e valores são recalculados no banco a partir dos registros aprovados
+   * e o fechamento é recusado se não baterem com as linhas do Fechamento (dados desatualizados)
+   */
+  static async closeCycle(cycle: Cycle, rows: StatementRow[]): Promise<CycleClosingResult> {
+    const { error } = await supabase.rpc('close_cycle', {
+      p_cycle_id: cycle.id,
+      p_start: cycle.start,
+      p_end: cycle.end,
+      p_summary: rows.map(row => ({
+        employee_id: row.employeeId,
+        employment_type: row.employmentType,
+        week_points: row.weekPoints,
+        points: row.points,
+        monthly_goal: row.monthlyGoal,
+        absent_days: row.absentDays,
+        bonus_tier: row.bonusTier,
+        bonus_value: row.bonusValue
+      }))
+    });
+
+    if (error) {
+      console.error('Erro ao fechar ciclo:', error);
+      return { closing: null, error: this.errorMessage(error, 'Não foi possível fechar o ciclo') };
+    }
+
+    await this.loadClosings(true);
+    return { closing: this.getClosing(cycle.id), error: null };
+  }
+
+  /**
+   * Reabre o ciclo; o motivo fica registrado no fechamento
+   */
+  static async reopenCycle(cycleId: string, reason: string): Promise<boolean> {
+    const { error } = await supabase.rpc('reopen_cycle', {
+      p_cycle_id: cycleId,
+      p_reason: reason
+    });
+
+    if (error) {
+      console.error('Erro ao reabrir ciclo:', error);
+      return false;
+    }
+
+    await this.loadClosings(true);
+    return true;
+  }
+
+  /**
+   * Linhas guardadas no fechamento, no formato do Fechamento
+   */
+  static async getSummary(closingId: number): Promise<StatementRow[]> {
+    const { data, error } = await supabase
+      .from('cycle_summary')
+      .select('employee_id, employee_name, employment_type, week_points, points, value, monthly_goal, absent_days, attainment, bonus_tier, bonus_value, total')
+      .eq('closing_id', closingId)
+      .order('employee_name');
+
+    if (error) {
+      console.error('Erro ao buscar totais do fechamento:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      employeeId: row.employee_id,
+      name: row.employee_name,
+      employmentType: row.employment_type as EmploymentType,
+      weekPoints: row.week_points,
+      points: row.points,
+      value: Number(row.value),
+      monthlyGoal: row.monthly_goal,
+      absentDays: row.absent_days,
+      attainment: Number(row.attainment),
+      bonusTier: row.bonus_tier,
+      bonusValue: Number(row.bonus_value),
+      total: Number(row.total)
+    }));
+  }
+
+  private static toClosing(row: ClosingRow): CycleClosing {
+    return {
+      id: row.id,
+      cycleId: row.cycle_id || '',
+      start: row.cycle_start || '',
+      end: row.cycle_end || '',
+      closedAt: row.closed_at || '',
+      closedByName: row.closed_by_name,
+      reopenedAt: row.reopened_at,
+      reopenedByName: row.reopened_by_name,
+      reopenReason: row.reopen_reason
+    };
+  }
+
+  // Erros de regra do fechamento trazem a mensagem do banco (com HINT); os demais, a mensagem padrão
+  private static errorMessage(error: PostgrestError, fallback: string): string {
+    return error.hint ? error.message : fallback;
+  }
+}
@@ -1,12 +1,25 @@
 import { supabase } from '@/integrations/supabase/client';
-import { Employee, Entry } from './EmployeeService';
+import { EMPLOYEE_COLUMNS, Employee, Entry, EntryStatus } from './EmployeeService';
 import { CalculationsService } from './CalculationsService';
+import { Cycle, CycleCalendarService, MONTH_NAMES } from './CycleCalendarService';
+import { BusinessTimeService } from './BusinessTimeService';
+import { BusinessCalendarService } from './BusinessCalendarService';
+import { Absence, AbsenceService } from './AbsenceService';
+import { EmployeeGoal, GoalService } from './GoalService';
+import { RosterEntry, RosterService } from './RosterService';
+import { EmploymentTypeRules, EmploymentTypeService, TeamMetric } from './EmploymentTypeService';
 
 export interface ChartData {
   weeklyData: any[];
   monthlyData: any[];
+  monthlyGoals: Record<string, number>[];  // meta mensal por funcionário, alinhada com monthlyData
+  monthlyValues: Record<string, number>[]; // valor em reais por funcionário, alinhado com monthlyData
+  weeklyGoals: Record<string, number>[];   // meta semanal proporcional por funcionário, alinhada com weeklyData
+  weeklyAbsences: Record<string, Record<string, number>>; // dias úteis de ausência por semana ({ "Semana 2": { Matheus: 3 } })
+  roster: RosterEntry[];                   // funcionários exibidos (legenda, filtros e cores)
   teamPerformance: any[];
   employeeStats: Record<string, any>;
+  generalStats: GeneralStats;
 }
 
 export interface GeneralStats {
@@ -17,17 +30,57 @@ export interface GeneralStats {
   progressPercentage: number;
 }
 
+export interface PointsPeriod {
+  key: string;    // identificador do período (ex.: "2025-09" ou "2025-09:1")
+  name: string;   // rótulo no gráfico (ex.: "Setembro" ou "Semana 1")
+  start: string;  // YYYY-MM-DD (inclusivo)
+  end: string;    // YYYY-MM-DD (inclusivo)
+}
+
+export interface PeriodPoints {
+  periodKey: string;
+  employeeId: number;
+  realName: string;
+  points: number;
+  value: number;  // R$, cada registro pelo valor do ponto em vigor na sua data
+}
+
+export type EntrySortField = 'date' | 'employee' | 'refinery' | 'points';
+
+export interface EntrySearchParams {
+  employeeId?: number;
+  refinery?: string;
+  status?: EntryStatus;
+  startDate?: string;  // YYYY-MM-DD (inclusivo, fuso da empresa)
+  endDate?: string;    // YYYY-MM-DD (inclusivo, fuso da empresa)
+  search?: string;
+  sortBy?: EntrySortField;
+  ascending?: boolean;
+  page?: number;       // começa em 1
+  pageSize?: number;
+}
+
+export interface EntryWithEmployee extends Entry {
+  employee_name: string | null;
+}
+
+export interface EntrySearchResult {
+  entries: EntryWithEmployee[];
+  total: number;
+}
+
+const ENTRY_SORT_COLUMNS: Record<EntrySortField, string> = {
+  date: 'date',
+  employee: 'employee_name',
+  refinery: 'refinery',
+  points: 'points'
+};
+
 /**
  * Serviço centralizado para busca de dados do Supabase
  * Responsável por abstrair queries complexas e fornecer dados estruturados
  */
 export class DataService {
-  private static readonly EMPLOYEE_COLORS = {
-    'Rodrigo': '#8b5cf6',
-    'Maurício': '#f59e0b', 
-    'Matheus': '#10b981',
-    'Wesley': '#ef4444'
-  };
 
   /**
    * Busca todos os funcionários com cache
@@ -35,7 +88,7 @@ export class DataService {
   static async getEmployees(): Promise<Employee[]> {
     const { data, error } = await supabase
       .from('employee')
-      .select('*')
+      .select(EMPLOYEE_COLUMNS)
       .order('real_name');
 
     if (error) {
@@ -64,10 +117,10 @@ export class DataService {
       query = query.eq('employee_id', filters.employeeId);
     }
     if (filters?.startDate) {
-      query = query.gte('date', filters.startDate);
+      query = query.gte('date', BusinessTimeService.startOfDay(filters.startDate).toISOString());
     }
     if (filters?.endDate) {
-      query = query.lte('date', filters.endDate);
+      query = query.lt('date', BusinessTimeService.startOfDay(BusinessTimeService.addDays(filters.endDate, 1)).toISOString());
     }
     if (filters?.limit) {
       query = query.limit(filters.limit);
@@ -84,19 +137,88 @@ export class DataService {
   }
 
   /**
-   * Calcula pontos de um funcionário em um período
+   * Busca paginada de registros com filtros e ordenação no servidor (view entry_with_employee)
+   */
+  static async searchEntries(params: EntrySearchParams = {}): Promise<EntrySearchResult> {
+    const page = Math.max(params.page || 1, 1);
+    const pageSize = params.pageSize || 50;
+    const from = (page - 1) * pageSize;
+
+    let query = supabase
+      .from('entry_with_employee')
+      .select('*', { count: 'exact' });
+
+    if (params.employeeId) {
+      query = query.eq('employee_id', params.employeeId);
+    }
+    if (params.refinery) {
+      query = query.eq('refinery', params.refinery);
+    }
+    if (params.status) {
+      query = query.eq('status', params.status);
+    }
+    if (params.startDate) {
+      query = query.gte('date', BusinessTimeService.startOfDay(params.startDate).toISOString());
+    }
+    if (params.endDate) {
+      query = query.lt('date', BusinessTimeService.startOfDay(BusinessTimeService.addDays(params.endDate, 1)).toISOString());
+    }
+    if (params.search?.trim()) {
+      query = query.ilike('search_text', `%${params.search.trim().toLowerCase()}%`);
+    }
+
+    const { data, error, count } = await query
+      .order(ENTRY_SORT_COLUMNS[params.sortBy || 'date'], { ascending: !!params.ascending })
+      .order('id', { ascending: !!params.ascending })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      console.error('Erro ao buscar registros:', error);
+      return { entries: [], total: 0 };
+    }
+
+    return {
+      entries: (data || []) as EntryWithEmployee[],
+      total: count || 0
+    };
+  }
+
+  /**
+   * Todos os registros que atendem aos filtros (para exportação), em lotes
+   */
+  static async getAllMatchingEntries(params: EntrySearchParams = {}): Promise<EntryWithEmployee[]> {
+    const pageSize = 1000;
+    const entries: EntryWithEmployee[] = [];
+    let page = 1;
+    let total = 0;
+
+    do {
+      const result = await this.searchEntries({ ...params, page, pageSize });
+      entries.push(...result.entries);
+      total = result.total;
+      if (!result.entries.length) break;
+      page++;
+    } while (entries.length < total);
+
+    return entries;
+  }
+
+  /**
+   * Calcula pontos aprovados de um funcionário em um período (dias no fuso da empresa)
    */
   static async getEmployeePoints(
     employeeId: number, 
     startDate: string, 
     endDate: string
   ): Promise<number> {
+    const range = BusinessTimeService.toRange(startDate, endDate);
     const { data, error } = await supabase
       .from('entry')
       .select('points')
       .eq('employee_id', employeeId)
-      .gte('date', startDate)
-      .lte('date', endDate);
+      .eq('status', 'approved')
+      .gte('date', range.from)
+      .lt('date', range.to);
 
     if (error) {
       console.error('Erro ao calcular pontos:', error);
@@ -107,191 +229,273 @@ export class DataService {
   }
 
   /**
-   * Gera dados para gráficos semanais
+   * Soma pontos por funcionário × período em uma única chamada (RPC get_points_by_period).
+   * Todo funcionário listado aparece em todo período, com 0 quando não há registros
+   * (ativos e desativados com pontos em algum dos períodos).
    */
-  static async getWeeklyChartData(): Promise<any[]> {
-    const employees = await this.getEmployees();
-    if (!employees.length) return [];
+  static async getPointsByPeriod(periods: PointsPeriod[]): Promise<PeriodPoints[]> {
+    if (!periods.length) return [];
 
-    const weeklyData = [];
-    const cycleStart = CalculationsService.getCurrentCycleStart();
-    
-    // Gerar 5 semanas do ciclo
-    for (let week = 1; week <= 5; week++) {
-      const weekDates = CalculationsService.getWeekDates(week.toString());
-      const weekData = { name: `Semana ${week}` };
-      
-      for (const employee of employees) {
-        const points = await this.getEmployeePoints(
-          employee.id, 
-          weekDates.start, 
-          weekDates.end
-        );
-        weekData[employee.real_name] = points;
-      }
-      
-      weeklyData.push(weekData);
+    const { data, error } = await supabase.rpc('get_points_by_period', {
+      periods: periods.map(period => ({
+        key: period.key,
+        start_date: period.start,
+        end_date: period.end
+      }))
+    });
+
+    if (error) {
+      console.error('Erro ao buscar pontos por período:', error);
+      return [];
     }
 
-    return weeklyData;
+    return (data || []).map(row => ({
+      periodKey: row.period_key,
+      employeeId: row.employee_id,
+      realName: row.real_name,
+      points: Number(row.points) || 0,
+      value: Number(row.value) || 0
+    }));
   }
 
   /**
-   * Gera dados para gráficos mensais
-   * IMPORTANTE: Usa o período customizado da empresa (26→25)
+   * Gera dados para gráficos semanais
    */
-  static async getMonthlyChartData(): Promise<any[]> {
-    const employees = await this.getEmployees();
-    if (!employees.length) return [];
-
-    const monthlyData = [];
-    const months = [
-      'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
-      'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'
-    ];
-    
-    const currentDate = new Date();
-    const currentDay = currentDate.getDate();
-    const currentCalendarMonth = currentDate.getMonth(); // 0-based (0=Janeiro)
-    const currentYear = currentDate.getFullYear();
-    
-    // Determinar qual é o "mês atual da empresa" baseado na regra 26-25
-    let currentCompanyMonth = currentCalendarMonth;
-    
-    console.log('🔍 DEBUG DataService:');
-    console.log('📅 Data atual:', currentDate.toLocaleDateString('pt-BR'));
-    console.log('📊 Dia atual:', currentDay);
-    console.log('📊 Mês calendário atual (0-based):', currentCalendarMonth);
-    
-    // Se já passou do dia 25, estamos no próximo mês da empresa
-    if (currentDay >= 26) {
-      // Estamos no próximo ciclo - manter mês atual
-      currentCompanyMonth = currentCalendarMonth;
-      console.log('✅ Já passou do dia 25 - estamos no próximo ciclo');
-    } else {
-      // Ainda no ciclo anterior - ir para mês anterior
-      currentCompanyMonth = currentCalendarMonth - 1;
-      if (currentCompanyMonth < 0) {
-        currentCompanyMonth = 11; // Dezembro do ano anterior
-      }
-      console.log('⚠️ Ainda no ciclo anterior');
-    }
-    
-    console.log('🎯 Mês atual da empresa (0-based):', currentCompanyMonth);
-    console.log('🎯 Nome do mês atual da empresa:', months[currentCompanyMonth]);
-    
-    // Mostrar últimos 7 meses da empresa (incluindo o atual)
-    const monthsToShow = [];
-    for (let i = 6; i >= 0; i--) {
-      let monthIndex = currentCompanyMonth - i;
-      let yearForMonth = currentYear;
-      
-      if (monthIndex < 0) {
-        monthIndex += 12;
-        yearForMonth -= 1;
-      }
-      
-      monthsToShow.push({ monthIndex, yearForMonth });
-    }
-    
-    for (const { monthIndex, yearForMonth } of monthsToShow) {
-      // monthIndex é 0-based, mas getMonthCycleDates espera 1-based
-      const monthDates = CalculationsService.getMonthCycleDates(monthIndex + 1, yearForMonth);
-      const monthData = { name: months[monthIndex] };
-      
-      console.log(`📅 Processando mês: ${months[monthIndex]} (${monthIndex + 1}/${yearForMonth})`);
-      console.log(`📅 Período: ${monthDates.start} até ${monthDates.end}`);
-      
-      for (const employee of employees) {
-        const points = await this.getEmployeePoints(
-          employee.id,
-          monthDates.start,
-          monthDates.end
-        );
-        monthData[employee.real_name] = points;
-      }
-      
-      monthlyData.push(monthData);
-    }
+  static async getWeeklyChartData(cycleId?: string): Promise<any[]> {
+    await CycleCalendarService.loadConfig();
+    const periods = this.getWeekPeriods(CalculationsService.getCycle(cycleId));
+    return this.buildSeries(periods, await this.getPointsByPeriod(periods));
+  }
 
-    return monthlyData;
+  /**
+   * Gera dados para gráficos mensais
+   * IMPORTANTE: Usa o período customizado da empresa (ciclo do CycleCalendarService)
+   */
+  static async getMonthlyChartData(cycleId?: string): Promise<any[]> {
+    await CycleCalendarService.loadConfig();
+    const periods = this.getCyclePeriods(CalculationsService.getCycle(cycleId));
+    return this.buildSeries(periods, await this.getPointsByPeriod(periods));
   }
 
   /**
    * Gera dados para gráfico de pizza da equipe
    */
-  static async getTeamPerformanceData(): Promise<any[]> {
-    const employees = await this.getEmployees();
-    if (!employees.length) return [];
-
-    const monthDates = CalculationsService.getMonthCycleDates();
-    const teamData = [];
-
-    for (const employee of employees) {
-      const points = await this.getEmployeePoints(
-        employee.id,
-        monthDates.start,
-        monthDates.end
-      );
-
-      teamData.push({
-        name: employee.real_name,
-        value: points,
-        color: this.EMPLOYEE_COLORS[employee.real_name] || '#6b7280'
-      });
-    }
-
-    return teamData;
+  static async getTeamPerformanceData(cycleId?: string): Promise<any[]> {
+    await CycleCalendarService.loadConfig();
+    const period = this.getCyclePeriod(CalculationsService.getCycle(cycleId));
+    const [rows, roster] = await Promise.all([
+      this.getPointsByPeriod([period]),
+      RosterService.getRoster()
+    ]);
+    return this.buildTeamPerformance(period, rows, roster);
   }
 
   /**
-   * Gera todos os dados de gráficos de uma vez
+   * Gera todos os dados de gráficos de uma vez (uma única chamada ao banco)
    */
-  static async getChartData(): Promise<ChartData> {
-    const [weeklyData, monthlyData, teamPerformance] = await Promise.all([
-      this.getWeeklyChartData(),
-      this.getMonthlyChartData(),
-      this.getTeamPerformanceData()
+  static async getChartData(cycleId?: string): Promise<ChartData> {
+    await BusinessCalendarService.load();
+    const cycle = CalculationsService.getCycle(cycleId);
+    const weekPeriods = this.getWeekPeriods(cycle);
+    const cyclePeriods = this.getCyclePeriods(cycle);
+    const currentPeriod = cyclePeriods[cyclePeriods.length - 1];
+
+    const [rows, goals, roster, rules, absences] = await Promise.all([
+      this.getPointsByPeriod([...weekPeriods, ...cyclePeriods]),
+      GoalService.getGoalsForCycles(cyclePeriods.map(period => period.key)),
+      RosterService.getRoster(),
+      EmploymentTypeService.getRules(),
+      AbsenceService.getApprovedAbsences({ start: cyclePeriods[0].start, end: currentPeriod.end })
     ]);
 
     return {
-      weeklyData,
-      monthlyData,
-      teamPerformance,
-      employeeStats: {}
+      weeklyData: this.buildSeries(weekPeriods, rows),
+      monthlyData: this.buildSeries(cyclePeriods, rows),
+      monthlyGoals: this.buildGoalSeries(cyclePeriods, rows, goals, absences),
+      monthlyValues: this.buildValueSeries(cyclePeriods, rows),
+      weeklyGoals: this.buildWeeklyGoals(weekPeriods, currentPeriod, rows, goals[currentPeriod.key] || {}, absences),
+      weeklyAbsences: this.buildWeeklyAbsences(weekPeriods, rows, absences),
+      roster: this.buildChartRoster(roster, rows),
+      teamPerformance: this.buildTeamPerformance(currentPeriod, rows, roster),
+      employeeStats: {},
+      generalStats: this.buildGeneralStats(currentPeriod, rows, goals[currentPeriod.key] || {}, roster, rules, absences)
     };
   }
 
   /**
    * Calcula estatísticas gerais
    */
-  static async getGeneralStats(): Promise<GeneralStats> {
-    const employees = await this.getEmployees();
-    const monthDates = CalculationsService.getMonthCycleDates();
+  static async getGeneralStats(cycleId?: string): Promise<GeneralStats> {
+    await BusinessCalendarService.load();
+    const period = this.getCyclePeriod(CalculationsService.getCycle(cycleId));
+    const [rows, goals, roster, rules, absences] = await Promise.all([
+      this.getPointsByPeriod([period]),
+      GoalService.getGoalsForCycle(period.key),
+      RosterService.getRoster(),
+      EmploymentTypeService.getRules(),
+      AbsenceService.getApprovedAbsences(period)
+    ]);
+    return this.buildGeneralStats(period, rows, goals, roster, rules, absences);
+  }
+
+  // Semanas do ciclo como períodos ("2025-09:1" ... "2025-09:5")
+  private static getWeekPeriods(cycle: Cycle): PointsPeriod[] {
+    return CycleCalendarService.weeksOf(cycle).map(week => ({
+      key: `${cycle.id}:${week.number}`,
+      name: `Semana ${week.number}`,
+      start: week.start,
+      end: week.end
+    }));
+  }
+
+  // 7 ciclos da empresa terminando no ciclo selecionado
+  private static getCyclePeriods(cycle: Cycle): PointsPeriod[] {
+    const cycles = [cycle];
+    while (cycles.length < 7) {
+      cycles.unshift(CycleCalendarService.previous(cycles[0]));
+    }
+    return cycles.map(item => this.getCyclePeriod(item));
+  }
 
+  private static getCyclePeriod(cycle: Cycle): PointsPeriod {
+    return {
+      key: cycle.id,
+      name: MONTH_NAMES[cycle.month - 1],
+      start: cycle.start,
+      end: cycle.end
+    };
+  }
+
+  // Uma linha por período com os pontos de cada funcionário ({ name, Matheus: 1200, ... })
+  private static buildSeries(periods: PointsPeriod[], rows: PeriodPoints[]): Record<string, string | number>[] {
+    return periods.map(period => {
+      const periodData: Record<string, string | number> = { name: period.name };
+      rows
+        .filter(row => row.periodKey === period.key)
+        .forEach(row => {
+          periodData[row.realName] = row.points;
+        });
+      return periodData;
+    });
+  }
+
+  // Uma linha por período com o valor em reais de cada funcionário ({ Matheus: 3900, ... })
+  private static buildValueSeries(periods: PointsPeriod[], rows: PeriodPoints[]): Record<string, number>[] {
+    return periods.map(period => Object.fromEntries(rows
+      .filter(row => row.periodKey === period.key)
+      .map(row => [row.realName, row.value])));
+  }
+
+  // Uma linha por ciclo com a meta mensal de cada funcionário, proporcional aos dias úteis
+  // menos as ausências aprovadas ({ Matheus: 10500, ... })
+  private static buildGoalSeries(
+    periods: PointsPeriod[],
+    rows: PeriodPoints[],
+    goals: Record<string, Record<number, EmployeeGoal>>,
+    absences: Absence[]
+  ): Record<string, number>[] {
+    return periods.map(period => {
+      const periodGoals: Record<string, number> = {};
+      rows
+        .filter(row => row.periodKey === period.key)
+        .forEach(row => {
+          periodGoals[row.realName] = BusinessCalendarService.monthlyGoalFor(
+            GoalService.resolve(goals[period.key] || {}, row.employeeId).monthly,
+            period,
+            AbsenceService.absentDays(absences, row.employeeId, period)
+          );
+        });
+      return periodGoals;
+    });
+  }
+
+  // Uma linha por semana com a meta semanal de cada funcionário do ciclo, proporcional aos
+  // dias úteis da semana (semana 5 parcial, feriados, folgas) menos as ausências aprovadas
+  private static buildWeeklyGoals(
+    weeks: PointsPeriod[],
+    cyclePeriod: PointsPeriod,
+    rows: PeriodPoints[],
+    goals: Record<number, EmployeeGoal>,
+    absences: Absence[]
+  ): Record<string, number>[] {
+    const employees = rows.filter(row => row.periodKey === cyclePeriod.key);
+    return weeks.map(week => Object.fromEntries(employees.map(row => [
+      row.realName,
+      BusinessCalendarService.weeklyGoalFor(
+        GoalService.resolve(goals, row.employeeId).weekly,
+        week,
+        AbsenceService.absentDays(absences, row.employeeId, week)
+      )
+    ])));
+  }
+
+  // Dias úteis de ausência aprovada de cada funcionário em cada semana (só semanas/funcionários com ausência)
+  private static buildWeeklyAbsences(
+    periods: PointsPeriod[],
+    rows: PeriodPoints[],
+    absences: Absence[]
+  ): Record<string, Record<string, number>> {
+    const employees = new Map(rows.map(row => [row.employeeId, row.realName]));
+    return Object.fromEntries(periods.map(period => [period.name, Object.fromEntries(
+      [...employees]
+        .map(([employeeId, name]) => [name, AbsenceService.absentDays(absences, employeeId, period)] as const)
+        .filter(([, days]) => days > 0)
+    )]));
+  }
+
+  // Funcionários presentes nos períodos exibidos (get_points_by_period já exclui inativos sem pontos)
+  private static buildChartRoster(roster: RosterEntry[], rows: PeriodPoints[]): RosterEntry[] {
+    const employeeIds = new Set(rows.map(row => row.employeeId));
+    return roster.filter(employee => employeeIds.has(employee.id));
+  }
+
+  private static buildTeamPerformance(
+    period: PointsPeriod,
+    rows: PeriodPoints[],
+    roster: RosterEntry[]
+  ): { name: string; value: number; color: string }[] {
+    const colors = Object.fromEntries(roster.map(employee => [employee.id, employee.color]));
+    return rows
+      .filter(row => row.periodKey === period.key)
+      .map(row => ({
+        name: row.realName,
+        value: row.points,
+        color: colors[row.employeeId] || RosterService.suggestColor(Object.values(colors))
+      }));
+  }
+
+  // Média, meta da equipe e destaque consideram apenas os vínculos incluídos pela regra de cada métrica
+  private static buildGeneralStats(
+    period: PointsPeriod,
+    rows: PeriodPoints[],
+    goals: Record<number, EmployeeGoal>,
+    roster: RosterEntry[],
+    rules: EmploymentTypeRules,
+    absences: Absence[]
+  ): GeneralStats {
     let bestPerformer = '';
     let bestPoints = 0;
-    let totalPoints = 0;
+    let totalPointsForGoal = 0;
     let totalPointsForAverage = 0;
     let employeeCountForAverage = 0;
+    const employmentTypes = Object.fromEntries(roster.map(employee => [employee.id, employee.employmentType]));
+    const includes = (row: PeriodPoints, metric: TeamMetric) =>
+      EmploymentTypeService.includes(rules, employmentTypes[row.employeeId], metric);
+    const periodRows = rows.filter(item => item.periodKey === period.key);
+    const goalRows = periodRows.filter(row => includes(row, 'teamGoal'));
+
+    for (const row of periodRows) {
+      if (includes(row, 'teamGoal')) {
+        totalPointsForGoal += row.points;
+      }
 
-    for (const employee of employees) {
-      const points = await this.getEmployeePoints(
-        employee.id,
-        monthDates.start,
-        monthDates.end
-      );
-      
-      totalPoints += points;
-
-      if (points > bestPoints) {
-        bestPoints = points;
-        bestPerformer = employee.real_name;
+      if (includes(row, 'leaderboard') && row.points > bestPoints) {
+        bestPoints = row.points;
+        bestPerformer = row.realName;
       }
 
-      // Para média: excluir Rodrigo (freelancer)
-      if (employee.real_name !== 'Rodrigo') {
-        totalPointsForAverage += points;
+      if (includes(row, 'teamAverage')) {
+        totalPointsForAverage += row.points;
         employeeCountForAverage++;
       }
     }
@@ -299,9 +503,10 @@ export class DataService {
     const avgTeam = employeeCountForAverage > 0 ? 
       Math.round(totalPointsForAverage / employeeCountForAverage) : 0;
     
-    const totalGoalTeam = 29500; // Meta mensal da equipe
+    // Meta mensal da equipe: soma das metas mensais vigentes no ciclo
+    const totalGoalTeam = GoalService.getTeamMonthlyGoal(goals, goalRows.map(row => row.employeeId), period, absences);
     const progressPercentage = totalGoalTeam > 0 ? 
-      (totalPoints / totalGoalTeam * 100) : 0;
+      (totalPointsForGoal / totalGoalTeam * 100) : 0;
 
     return {
       bestPerformer,
@@ -311,11 +516,4 @@ export class DataService {
       progressPercentage: Math.round(progressPercentage * 10) / 10
     };
   }
-
-  /**
-   * Cor específica para cada funcionário
-   */
-  static getEmployeeColor(employeeName: string): string {
-    return this.EMPLOYEE_COLORS[employeeName] || '#6b7280';
-  }
 }
\ No newline at end of file
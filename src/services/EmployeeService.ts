@@ -1,113 +1,303 @@
 import { supabase } from '@/integrations/supabase/client';
+import { BusinessTimeService } from './BusinessTimeService';
+import { EmploymentType } from './EmploymentTypeService';
+import { EntryRuleService, EntryRuleViolation } from './EntryRuleService';
 
 export interface Employee {
   id: number;
   name: string;
   real_name: string;
   username: string;
-  access_key: string;
   role: string;
-  weekly_goal: number;
+  weekly_goal: number;        // legado: as metas vigentes ficam na tabela goal (GoalService)
   default_refinery: string;
+  employment_type: EmploymentType;
+  color: string | null;
+  active: boolean;
+  deactivated_at?: string | null;
   created_at?: string;
   updated_at?: string;
 }
 
+// Registro do funcionário começa pendente; só pontos aprovados pelo admin contam
+export type EntryStatus = 'pending' | 'approved' | 'rejected';
+
 export interface Entry {
   id: number;
   employee_id: number;
   date: string;
-  refinery: string;
+  refinery: string;           // nome, mantido pelo banco a partir de refinery_id
+  refinery_id: number | null; // refinaria do catálogo (refineries)
   points: number;
   observations: string;
+  status: EntryStatus;
+  rejection_reason: string | null;
+  reviewed_at?: string | null;
+  reviewed_by?: string | null;  // auth user de quem aprovou ou recusou
+  duplicate_suspect: boolean;  // mesmo dia, refinaria e pontos de outro registro (marcado pelo banco)
+  backdated: boolean;          // registrado depois do dia do registro (marcado pelo banco)
+  lateness_minutes: number;    // atraso entre o lançamento (created_at) e a data do registro
+  import_batch_id?: number | null;  // lote da importação de planilha (Admin → Importar)
   created_at?: string;
   updated_at?: string;
 }
 
+// Resultado da gravação de um registro: o registro salvo ou a regra de validação violada
+export interface EntrySaveResult {
+  entry: Entry | null;
+  violation: EntryRuleViolation | null;
+}
+
+// Colunas legíveis pelo cliente (employee.access_key não é exposta pelo RLS)
+export const EMPLOYEE_COLUMNS = 'id, name, real_name, username, role, weekly_goal, default_refinery, employment_type, color, active, deactivated_at, created_at, updated_at';
+
+// Campos editáveis na tela de funcionários (a meta semanal é gravada na tabela goal)
+export type EmployeeFields = Pick<Employee, 'name' | 'real_name' | 'username' | 'role' | 'default_refinery' | 'employment_type' | 'color'>;
+
 export class EmployeeService {
-  // Autenticação por chave de acesso (mantendo lógica original)
-  static async authenticateByAccessKey(accessKey: string): Promise<Employee | null> {
+  // Buscar funcionário por ID
+  static async getEmployeeById(id: number): Promise<Employee | null> {
     try {
       const { data, error } = await supabase
         .from('employee')
-        .select('*')
-        .eq('access_key', accessKey)
+        .select(EMPLOYEE_COLUMNS)
+        .eq('id', id)
         .single();
 
       if (error || !data) {
-        console.error('Erro na autenticação:', error);
+        console.error('Erro ao buscar funcionário:', error);
         return null;
       }
 
       return data as Employee;
     } catch (error) {
-      console.error('Erro na autenticação:', error);
+      console.error('Erro ao buscar funcionário:', error);
       return null;
     }
   }
 
-  // Buscar funcionário por ID
-  static async getEmployeeById(id: number): Promise<Employee | null> {
+  // Buscar funcionários (apenas ativos, a menos que includeInactive)
+  static async getAllEmployees(includeInactive = false): Promise<Employee[]> {
+    try {
+      let query = supabase
+        .from('employee')
+        .select(EMPLOYEE_COLUMNS)
+        .order('real_name');
+
+      if (!includeInactive) {
+        query = query.eq('active', true);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Erro ao buscar funcionários:', error);
+        return [];
+      }
+
+      return data as Employee[];
+    } catch (error) {
+      console.error('Erro ao buscar funcionários:', error);
+      return [];
+    }
+  }
+
+  // Cadastrar funcionário (apenas admin, pelo RLS); a chave de acesso é gerada no banco
+  static async createEmployee(fields: EmployeeFields): Promise<Employee | null> {
     try {
       const { data, error } = await supabase
         .from('employee')
-        .select('*')
-        .eq('id', id)
+        .insert([fields])
+        .select(EMPLOYEE_COLUMNS)
         .single();
 
       if (error || !data) {
-        console.error('Erro ao buscar funcionário:', error);
+        console.error('Erro ao cadastrar funcionário:', error);
         return null;
       }
 
       return data as Employee;
     } catch (error) {
-      console.error('Erro ao buscar funcionário:', error);
+      console.error('Erro ao cadastrar funcionário:', error);
       return null;
     }
   }
 
-  // Buscar todos os funcionários
-  static async getAllEmployees(): Promise<Employee[]> {
+  // Atualizar cadastro do funcionário (apenas admin, pelo RLS)
+  static async updateEmployee(
+    id: number,
+    changes: Partial<EmployeeFields & Pick<Employee, 'active' | 'deactivated_at'>>
+  ): Promise<Employee | null> {
     try {
       const { data, error } = await supabase
         .from('employee')
-        .select('*')
-        .order('real_name');
+        .update(changes)
+        .eq('id', id)
+        .select(EMPLOYEE_COLUMNS)
+        .single();
 
-      if (error) {
-        console.error('Erro ao buscar funcionários:', error);
-        return [];
+      if (error || !data) {
+        console.error('Erro ao atualizar funcionário:', error);
+        return null;
       }
 
-      return data as Employee[];
+      return data as Employee;
     } catch (error) {
-      console.error('Erro ao buscar funcionários:', error);
-      return [];
+      console.error('Erro ao atualizar funcionário:', error);
+      return null;
+    }
+  }
+
+  // Desativar ou reativar funcionário; registros, metas e histórico são mantidos
+  static async setEmployeeActive(id: number, active: boolean): Promise<Employee | null> {
+    return this.updateEmployee(id, {
+      active,
+      deactivated_at: active ? null : new Date().toISOString()
+    });
+  }
+
+  // Gerar nova chave de acesso (apenas admin). A chave só é devolvida nesta chamada.
+  static async regenerateAccessKey(id: number): Promise<string | null> {
+    try {
+      const { data, error } = await supabase.rpc('regenerate_access_key', { p_employee_id: id });
+
+      if (error || !data) {
+        console.error('Erro ao gerar chave de acesso:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('Erro ao gerar chave de acesso:', error);
+      return null;
     }
   }
 
-  // Registrar novo ponto
-  static async createEntry(entry: Omit<Entry, 'id' | 'created_at' | 'updated_at'>): Promise<Entry | null> {
+  // Registrar novo ponto (fica pendente até a aprovação do admin)
+  static async createEntry(
+    entry: Omit<Entry, 'id' | 'status' | 'rejection_reason' | 'reviewed_at' | 'reviewed_by' | 'duplicate_suspect' | 'backdated' | 'lateness_minutes' | 'created_at' | 'updated_at'>
+  ): Promise<EntrySaveResult> {
     try {
       const { data, error } = await supabase
         .from('entry')
-        .insert([entry])
+        .insert([{ ...entry, status: 'pending' }])
         .select()
         .single();
 
       if (error || !data) {
         console.error('Erro ao registrar pontos:', error);
+        return { entry: null, violation: EntryRuleService.toViolation(error) };
+      }
+
+      return { entry: data as Entry, violation: null };
+    } catch (error) {
+      console.error('Erro ao registrar pontos:', error);
+      return { entry: null, violation: null };
+    }
+  }
+
+  // Atualizar registro (apenas admin, pelo RLS)
+  static async updateEntry(
+    id: number,
+    changes: Partial<Omit<Entry, 'id' | 'reviewed_at' | 'reviewed_by' | 'duplicate_suspect' | 'backdated' | 'lateness_minutes' | 'created_at' | 'updated_at'>>
+  ): Promise<EntrySaveResult> {
+    try {
+      const { data, error } = await supabase
+        .from('entry')
+        .update(changes)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Erro ao atualizar registro:', error);
+        return { entry: null, violation: EntryRuleService.toViolation(error) };
+      }
+
+      return { entry: data as Entry, violation: null };
+    } catch (error) {
+      console.error('Erro ao atualizar registro:', error);
+      return { entry: null, violation: null };
+    }
+  }
+
+  // Excluir registro (apenas admin, pelo RLS)
+  static async deleteEntry(id: number): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('entry')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Erro ao excluir registro:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Erro ao excluir registro:', error);
+      return false;
+    }
+  }
+
+  // Restaurar registro excluído (desfazer), mantendo o mesmo id, a revisão e o lote da importação
+  static async restoreEntry(entry: Entry): Promise<Entry | null> {
+    try {
+      const { data, error } = await supabase
+        .from('entry')
+        .insert([{
+          id: entry.id,
+          employee_id: entry.employee_id,
+          date: entry.date,
+          refinery: entry.refinery,
+          refinery_id: entry.refinery_id,
+          points: entry.points,
+          observations: entry.observations,
+          status: entry.status,
+          rejection_reason: entry.rejection_reason,
+          reviewed_by: entry.reviewed_by,
+          reviewed_at: entry.reviewed_at,
+          import_batch_id: entry.import_batch_id,
+          created_at: entry.created_at
+        }])
+        .select()
+        .single();
+
+      if (error || !data) {
+        console.error('Erro ao restaurar registro:', error);
         return null;
       }
 
       return data as Entry;
     } catch (error) {
-      console.error('Erro ao registrar pontos:', error);
+      console.error('Erro ao restaurar registro:', error);
       return null;
     }
   }
 
+  // Aprovar ou recusar registros em lote (apenas admin, pelo RLS); quem decidiu e quando ficam no banco
+  static async reviewEntries(ids: number[], status: Exclude<EntryStatus, 'pending'>, reason?: string): Promise<boolean> {
+    if (!ids.length) return true;
+
+    try {
+      const { error } = await supabase
+        .from('entry')
+        .update({ status, rejection_reason: status === 'rejected' ? reason?.trim() || null : null })
+        .in('id', ids);
+
+      if (error) {
+        console.error('Erro ao revisar registros:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Erro ao revisar registros:', error);
+      return false;
+    }
+  }
+
   // Buscar entradas do funcionário
   static async getEmployeeEntries(
     employeeId: number, 
@@ -122,11 +312,12 @@ export class EmployeeService {
         .eq('employee_id', employeeId)
         .order('date', { ascending: false });
 
+      // Dias (YYYY-MM-DD) no fuso da empresa convertidos para instantes
       if (dateFilter?.start) {
-        query = query.gte('date', dateFilter.start);
+        query = query.gte('date', BusinessTimeService.startOfDay(dateFilter.start).toISOString());
       }
       if (dateFilter?.end) {
-        query = query.lte('date', dateFilter.end);
+        query = query.lt('date', BusinessTimeService.startOfDay(BusinessTimeService.addDays(dateFilter.end, 1)).toISOString());
       }
       if (limit) {
         query = query.limit(limit);
@@ -149,17 +340,19 @@ export class EmployeeService {
     }
   }
 
-  // Calcular pontos do dia
+  // Calcular pontos do dia (apenas aprovados)
   static async getTodayPoints(employeeId: number): Promise<number> {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = BusinessTimeService.today();
+      const range = BusinessTimeService.toRange(today, today);
       
       const { data, error } = await supabase
         .from('entry')
         .select('points')
         .eq('employee_id', employeeId)
-        .gte('date', today)
-        .lt('date', `${today}T23:59:59`);
+        .eq('status', 'approved')
+        .gte('date', range.from)
+        .lt('date', range.to);
 
       if (error) {
         console.error('Erro ao calcular pontos do dia:', error);
@@ -173,15 +366,17 @@ export class EmployeeService {
     }
   }
 
-  // Calcular pontos da semana (baseado na lógica 26→25)
+  // Calcular pontos aprovados da semana (baseado na lógica 26→25)
   static async getWeekPoints(employeeId: number, weekDates: { start: string; end: string }): Promise<number> {
     try {
+      const range = BusinessTimeService.toRange(weekDates.start, weekDates.end);
       const { data, error } = await supabase
         .from('entry')
         .select('points')
         .eq('employee_id', employeeId)
-        .gte('date', weekDates.start)
-        .lte('date', weekDates.end);
+        .eq('status', 'approved')
+        .gte('date', range.from)
+        .lt('date', range.to);
 
       if (error) {
         console.error('Erro ao calcular pontos da semana:', error);
@@ -195,15 +390,41 @@ export class EmployeeService {
     }
   }
 
-  // Calcular pontos mensais (baseado na lógica 26→25)
+  // Pontos registrados no período que ainda aguardam aprovação
+  static async getPendingPoints(employeeId: number, period: { start: string; end: string }): Promise<number> {
+    try {
+      const range = BusinessTimeService.toRange(period.start, period.end);
+      const { data, error } = await supabase
+        .from('entry')
+        .select('points')
+        .eq('employee_id', employeeId)
+        .eq('status', 'pending')
+        .gte('date', range.from)
+        .lt('date', range.to);
+
+      if (error) {
+        console.error('Erro ao calcular pontos pendentes:', error);
+        return 0;
+      }
+
+      return data?.reduce((total, entry) => total + (entry.points || 0), 0) || 0;
+    } catch (error) {
+      console.error('Erro ao calcular pontos pendentes:', error);
+      return 0;
+    }
+  }
+
+  // Calcular pontos mensais aprovados (baseado na lógica 26→25)
   static async getMonthPoints(employeeId: number, monthDates: { start: string; end: string }): Promise<number> {
     try {
+      const range = BusinessTimeService.toRange(monthDates.start, monthDates.end);
       const { data, error } = await supabase
         .from('entry')
         .select('points')
         .eq('employee_id', employeeId)
-        .gte('date', monthDates.start)
-        .lte('date', monthDates.end);
+        .eq('status', 'approved')
+        .gte('date', range.from)
+        .lt('date', range.to);
 
       if (error) {
         console.error('Erro ao calcular pontos mensais:', error);
@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Vínculo dos funcionários (employee.employment_type) e a regra, por vínculo, de quem
+// entra na média da equipe, na meta da equipe e no destaque (tabela employment_type_rule).
+
+export type EmploymentType = 'clt' | 'freelancer' | 'temporary';
+
+// Métrica da equipe controlada pela regra
+export type TeamMetric = 'teamAverage' | 'teamGoal' | 'leaderboard';
+
+export type EmploymentTypeRules = Record<EmploymentType, Record<TeamMetric, boolean>>;
+
+export const EMPLOYMENT_TYPES: EmploymentType[] = ['clt', 'freelancer', 'temporary'];
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+  clt: 'CLT',
+  freelancer: 'Freelancer',
+  temporary: 'Temporário'
+};
+
+export const TEAM_METRIC_LABELS: Record<TeamMetric, string> = {
+  teamAverage: 'Média da equipe',
+  teamGoal: 'Meta da equipe',
+  leaderboard: 'Destaque'
+};
+
+// Regra usada quando a tabela não pode ser lida: freelancers fora da média e da meta da equipe
+export const DEFAULT_EMPLOYMENT_RULES: EmploymentTypeRules = {
+  clt: { teamAverage: true, teamGoal: true, leaderboard: true },
+  freelancer: { teamAverage: false, teamGoal: false, leaderboard: true },
+  temporary: { teamAverage: true, teamGoal: true, leaderboard: true }
+};
+
+export class EmploymentTypeService {
+  /**
+   * Regra de cada vínculo (vínculos sem linha na tabela usam a regra padrão)
+   */
+  static async getRules(): Promise<EmploymentTypeRules> {
+    const { data, error } = await supabase
+      .from('employment_type_rule')
+      .select('employment_type, in_team_average, in_team_goal, in_leaderboard');
+
+    if (error) {
+      console.error('Erro ao buscar regras de vínculo:', error);
+      return DEFAULT_EMPLOYMENT_RULES;
+    }
+
+    const rules: EmploymentTypeRules = { ...DEFAULT_EMPLOYMENT_RULES };
+    (data || []).forEach(row => {
+      if (!this.isEmploymentType(row.employment_type)) return;
+      rules[row.employment_type] = {
+        teamAverage: row.in_team_average,
+        teamGoal: row.in_team_goal,
+        leaderboard: row.in_leaderboard
+      };
+    });
+    return rules;
+  }
+
+  /**
+   * Salvar a regra de um vínculo (apenas admin, pelo RLS)
+   */
+  static async saveRule(employmentType: EmploymentType, rule: Record<TeamMetric, boolean>): Promise<boolean> {
+    const { error } = await supabase
+      .from('employment_type_rule')
+      .upsert({
+        employment_type: employmentType,
+        in_team_average: rule.teamAverage,
+        in_team_goal: rule.teamGoal,
+        in_leaderboard: rule.leaderboard
+      }, { onConflict: 'employment_type' });
+
+    if (error) {
+      console.error('Erro ao salvar regra de vínculo:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Se um funcionário com o vínculo informado entra na métrica da equipe.
+   * Vínculo desconhecido é tratado como CLT.
+   */
+  static includes(rules: EmploymentTypeRules, employmentType: string | null | undefined, metric: TeamMetric): boolean {
+    const type = this.isEmploymentType(employmentType) ? employmentType : 'clt';
+    return rules[type][metric];
+  }
+
+  static label(employmentType: string | null | undefined): string {
+    return this.isEmploymentType(employmentType) ? EMPLOYMENT_TYPE_LABELS[employmentType] : EMPLOYMENT_TYPE_LABELS.clt;
+  }
+
+  static isEmploymentType(value: unknown): value is EmploymentType {
+    return EMPLOYMENT_TYPES.includes(value as EmploymentType);
+  }
+}
@@ -0,0 +1,173 @@
+import { z } from 'zod';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { BusinessTimeService } from './BusinessTimeService';
+import { CycleClosingService } from './CycleClosingService';
+
+// Regras de validação dos registros de pontos (tabela entry_rule, uma linha ativa)
+// O banco aplica as regras no trigger validate_entry; o formulário usa o mesmo
+// schema montado aqui a partir da mesma linha, com as mesmas mensagens.
+
+export interface EntryRules {
+  minPoints: number;               // pontos mínimos por registro
+  maxPoints: number;               // pontos máximos por registro
+  dailyMaxPoints: number;          // soma máxima do funcionário no dia (registros não recusados)
+  duplicateWindowSeconds: number;  // registro idêntico neste intervalo é recusado (clique duplo)
+  backdateGraceDays: number;       // dias antes de hoje aceitos no registro retroativo do funcionário
+}
+
+// Regra violada, enviada pelo banco em HINT
+export type EntryRuleCode =
+  | 'points_range'
+  | 'future_date'
+  | 'backdate_window'
+  | 'closed_cycle'
+  | 'daily_cap'
+  | 'duplicate';
+
+export type EntryField = 'refinery' | 'points' | 'observations' | 'date';
+
+export type EntryFormErrors = Partial<Record<EntryField, string>>;
+
+export interface EntryRuleViolation {
+  code: EntryRuleCode;
+  field: EntryField | null;
+  message: string;
+}
+
+export const DEFAULT_ENTRY_RULES: EntryRules = {
+  minPoints: 1,
+  maxPoints: 2000,
+  dailyMaxPoints: 3000,
+  duplicateWindowSeconds: 120,
+  backdateGraceDays: 3
+};
+
+// Tolerância para relógios adiantados (a mesma do trigger)
+const FUTURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+const RULE_FIELDS: Record<EntryRuleCode, EntryField | null> = {
+  points_range: 'points',
+  future_date: 'date',
+  backdate_window: 'date',
+  closed_cycle: 'date',
+  daily_cap: 'points',
+  duplicate: null
+};
+
+export class EntryRuleService {
+  private static rules: EntryRules = DEFAULT_ENTRY_RULES;
+  private static loading: Promise<EntryRules> | null = null;
+
+  /**
+   * Carrega as regras do banco (uma vez por sessão).
+   * Em caso de erro mantém as regras padrão; o banco valida de qualquer forma.
+   */
+  static loadRules(force = false): Promise<EntryRules> {
+    if (!this.loading || force) {
+      this.loading = (async () => {
+        const { data, error } = await supabase
+          .from('entry_rule')
+          .select('min_points, max_points, daily_max_points, duplicate_window_seconds, backdate_grace_days')
+          .order('id')
+          .limit(1)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Erro ao carregar regras de registro:', error);
+        } else if (data) {
+          this.rules = {
+            minPoints: data.min_points,
+            maxPoints: data.max_points,
+            dailyMaxPoints: data.daily_max_points,
+            duplicateWindowSeconds: data.duplicate_window_seconds,
+            backdateGraceDays: data.backdate_grace_days
+          };
+        }
+        return this.rules;
+      })();
+    }
+    return this.loading;
+  }
+
+  static getRules(): EntryRules {
+    return this.rules;
+  }
+
+  /**
+   * Primeiro dia (YYYY-MM-DD) aceito no registro retroativo do funcionário:
+   * a janela de dias, sem entrar em ciclo fechado (fechamentos de CycleClosingService.loadClosings)
+   */
+  static earliestEntryDate(rules = this.rules): string {
+    const today = BusinessTimeService.today();
+    let earliest = BusinessTimeService.addDays(today, -rules.backdateGraceDays);
+    while (earliest < today && CycleClosingService.isDateClosed(earliest)) {
+      earliest = BusinessTimeService.addDays(earliest, 1);
+    }
+    return earliest;
+  }
+
+  /**
+   * Schema do formulário de registro com as regras do banco.
+   * pointsToday: pontos já registrados pelo funcionário no dia do registro (pendentes e aprovados).
+   * backdating: aplica a janela de registro retroativo (formulário do funcionário).
+   */
+  static entrySchema(pointsToday = 0, rules = this.rules, backdating = false) {
+    const earliest = this.earliestEntryDate(rules);
+
+    return z.object({
+      refineryId: z.number().int().positive('Selecione a refinaria'),
+      points: z.coerce
+        .number({ invalid_type_error: 'Informe os pontos' })
+        .int('Os pontos devem ser um número inteiro')
+        .min(rules.minPoints, this.pointsRangeMessage(rules))
+        .max(rules.maxPoints, this.pointsRangeMessage(rules))
+        .refine(points => pointsToday + points <= rules.dailyMaxPoints, {
+          message: `Limite diário de ${rules.dailyMaxPoints} pontos excedido (${pointsToday} já registrados no dia)`
+        }),
+      observations: z.string().trim().min(1, 'Descreva o registro nas observações'),
+      date: z.string()
+        .refine(date => new Date(date).getTime() <= Date.now() + FUTURE_TOLERANCE_MS, {
+          message: 'A data do registro não pode estar no futuro'
+        })
+        .refine(date => !CycleClosingService.isDateClosed(BusinessTimeService.toDateKey(date)), {
+          message: 'O ciclo desta data está fechado'
+        })
+        .refine(date => !backdating || BusinessTimeService.toDateKey(date) >= earliest, {
+          message: `Registros retroativos são aceitos só até ${rules.backdateGraceDays} dias atrás`
+        })
+    });
+  }
+
+  /**
+   * Valida o formulário; devolve os dados convertidos ou a primeira mensagem de cada campo
+   */
+  static validate<T extends z.ZodTypeAny>(
+    schema: T,
+    values: unknown
+  ): { data: z.output<T> | null; errors: EntryFormErrors } {
+    const result = schema.safeParse(values);
+    if (result.success) return { data: result.data, errors: {} };
+
+    const errors: EntryFormErrors = {};
+    result.error.issues.forEach(issue => {
+      const field = (issue.path[0] === 'refineryId' ? 'refinery' : issue.path[0]) as EntryField;
+      if (!errors[field]) errors[field] = issue.message;
+    });
+    return { data: null, errors };
+  }
+
+  /**
+   * Regra violada a partir do erro do banco (null se o erro não for de validação)
+   */
+  static toViolation(error: PostgrestError | null): EntryRuleViolation | null {
+    const code = error?.hint as EntryRuleCode | undefined;
+    if (!error || !code || !(code in RULE_FIELDS)) return null;
+
+    return { code, field: RULE_FIELDS[code], message: error.message };
+  }
+
+  private static pointsRangeMessage(rules: EntryRules): string {
+    return `Os pontos devem estar entre ${rules.minPoints} e ${rules.maxPoints} por registro`;
+  }
+}
@@ -1,4 +1,6 @@
 import * as XLSX from 'xlsx';
+import { CycleCalendarService } from './CycleCalendarService';
+import { PointRate, PointRateService } from './PointRateService';
 
 export interface ExcelRecord {
   employee: string;
@@ -24,20 +26,46 @@ export interface ProcessedExcelData {
     total_employees: number;
     total_records: number;
     total_points: number;
-    total_profit: number; // R$ 3.25 por ponto
+    total_profit: number; // cada registro pelo valor do ponto em vigor na sua data
   };
 }
 
+// Planilha lida como está: cabeçalhos da primeira linha e uma linha por registro
+export interface SheetData {
+  fileName: string;
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
 export class ExcelProcessorService {
-  private static readonly POINT_VALUE = 3.25; // R$ 3,25 por ponto
+  /**
+   * Lê a primeira aba da planilha sem interpretar as colunas (assistente de importação)
+   */
+  static async readSheet(file: File): Promise<SheetData> {
+    const data = new Uint8Array(await file.arrayBuffer());
+    const workbook = XLSX.read(data, { type: 'array' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1 });
 
-  static async processExcelFiles(files: FileList): Promise<ProcessedExcelData> {
+    return {
+      fileName: file.name,
+      headers: headerRow.map(header => String(header ?? '').trim()).filter(Boolean),
+      rows: XLSX.utils.sheet_to_json<Record<string, unknown>>(worksheet, { defval: '' })
+    };
+  }
+
+  /**
+   * Lê as planilhas no navegador (arquivos soltos ou uma pasta inteira); os demais arquivos são ignorados
+   */
+  static async processExcelFiles(files: FileList | File[]): Promise<ProcessedExcelData> {
+    // Arquivos temporários do Excel (~$nome.xlsx) ficam de fora
+    const spreadsheets = Array.from(files).filter(file => /\.(xlsx|xls)$/i.test(file.name) && !file.name.startsWith('~$'));
     const processedData: ProcessedExcelData = {
       employees: {},
       months: {},
       records: [],
       statistics: {
-        total_files: files.length,
+        total_files: spreadsheets.length,
         total_employees: 0,
         total_records: 0,
         total_points: 0,
@@ -45,18 +73,19 @@ export class ExcelProcessorService {
       }
     };
 
-    for (const file of Array.from(files)) {
-      if (file.name.match(/\.(xlsx|xls)$/i)) {
-        try {
-          const fileData = await this.extractDataFromExcel(file);
-          this.mergeData(processedData, fileData);
-        } catch (error) {
-          console.error(`Erro ao processar ${file.name}:`, error);
-        }
+    await CycleCalendarService.loadConfig();
+    const rates = await PointRateService.getRates();
+
+    for (const file of spreadsheets) {
+      try {
+        const fileData = await this.extractDataFromExcel(file);
+        this.mergeData(processedData, fileData);
+      } catch (error) {
+        console.error(`Erro ao processar ${file.name}:`, error);
       }
     }
 
-    this.calculateFinalStatistics(processedData);
+    this.calculateFinalStatistics(processedData, rates);
     return processedData;
   }
 
@@ -168,30 +197,11 @@ export class ExcelProcessorService {
 
   private static getMonthFromDate(date: Date): string {
     try {
-      const day = date.getDate();
-      const month = date.getMonth() + 1;
-      const year = date.getFullYear();
-
-      // Lógica: se dia >= 26, pertence ao mês atual
-      // Se dia < 26, pertence ao mês anterior
-      let targetMonth = month;
-      let targetYear = year;
-
-      if (day >= 26) {
-        // Já no próximo ciclo - manter mês e ano atuais
-        targetMonth = month;
-        targetYear = year;
-      } else {
-        // Ainda no ciclo anterior - ir para mês anterior
-        if (month === 1) {
-          targetMonth = 12;
-          targetYear = year - 1;
-        } else {
-          targetMonth = month - 1;
-        }
-      }
+      if (isNaN(date.getTime())) return 'Sem Data';
 
-      return `${targetMonth.toString().padStart(2, '0')}/${targetYear}`;
+      // Mês de referência do ciclo da empresa (ex.: 26/08 → 09/2025)
+      const cycle = CycleCalendarService.cycleFor(date);
+      return `${cycle.month.toString().padStart(2, '0')}/${cycle.year}`;
     } catch (error) {
       return 'Sem Data';
     }
@@ -235,7 +245,7 @@ export class ExcelProcessorService {
     }
   }
 
-  private static calculateFinalStatistics(processedData: ProcessedExcelData) {
+  private static calculateFinalStatistics(processedData: ProcessedExcelData, rates: PointRate[]) {
     processedData.statistics.total_employees = Object.keys(processedData.employees).length;
     processedData.statistics.total_records = processedData.records.length;
     
@@ -243,8 +253,8 @@ export class ExcelProcessorService {
     processedData.statistics.total_points = Object.values(processedData.employees)
       .reduce((sum, emp) => sum + emp.total, 0);
     
-    // Calcular lucro total (pontos × R$ 3,25)
-    processedData.statistics.total_profit = processedData.statistics.total_points * this.POINT_VALUE;
+    // Calcular lucro total (pontos × valor do ponto em vigor na data de cada registro)
+    processedData.statistics.total_profit = PointRateService.valueOf(rates, processedData.records);
   }
 
   static formatCurrency(value: number): string {
@@ -3,6 +3,15 @@ import * as XLSX from 'xlsx';
 import JSZip from 'jszip';
 import { format } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
+import { CycleCalendarService, MONTH_NAMES } from './CycleCalendarService';
+import { BusinessTimeService } from './BusinessTimeService';
+import { BusinessCalendarService } from './BusinessCalendarService';
+import { AbsenceService } from './AbsenceService';
+import { GoalService } from './GoalService';
+import { RosterService } from './RosterService';
+import { EmploymentTypeService } from './EmploymentTypeService';
+import { ExcelProcessorService } from './ExcelProcessorService';
+import { CycleStatement } from './PayrollService';
 
 interface ExportEntry {
   Data: string;
@@ -28,7 +37,7 @@ export class ExportService {
         throw new Error('Erro ao buscar funcionários');
       }
 
-      // Buscar todas as entradas
+      // Buscar as entradas aprovadas
       const { data: entries, error: entriesError } = await supabase
         .from('entry')
         .select(`
@@ -39,6 +48,7 @@ export class ExportService {
           refinery,
           employee_id
         `)
+        .eq('status', 'approved')
         .order('date', { ascending: false })
         .limit(1000);
 
@@ -67,7 +77,7 @@ export class ExportService {
         
         if (employeeEntries.length > 0) {
           exportData = employeeEntries.map(entry => ({
-            Data: format(new Date(entry.date), 'dd/MM/yyyy HH:mm:ss', { locale: ptBR }),
+            Data: `${BusinessTimeService.formatDate(entry.date)} ${BusinessTimeService.formatTime(entry.date)}`,
             Refinaria: entry.refinery || '',
             Pontos: entry.points || 0,
             Observações: entry.observations || ''
@@ -133,7 +143,7 @@ export class ExportService {
       // Buscar funcionários
       const { data: employees, error: employeesError } = await supabase
         .from('employee')
-        .select('*')
+        .select('id, real_name, color')
         .order('real_name');
 
       if (employeesError) {
@@ -151,47 +161,27 @@ export class ExportService {
         return chartData;
       }
 
-      // Gerar dados semanais usando lógica do ciclo 26→25
-      const weeklyData = [];
-      
-      // Determinar ciclo atual baseado no dia 26
-      const today = new Date();
-      const currentDay = today.getDate();
-      let cycleYear = today.getFullYear();
-      let cycleMonth = today.getMonth() + 1;
-
-      if (currentDay >= 26) {
-        // Já no próximo ciclo - manter mês atual
-        cycleMonth = today.getMonth() + 1;
-      } else {
-        // Ainda no ciclo anterior - ir para mês anterior
-        cycleMonth -= 1;
-        if (cycleMonth < 1) {
-          cycleMonth = 12;
-          cycleYear -= 1;
-        }
-      }
+      const colors = RosterService.assignColors(employees);
 
-      // Início do ciclo sempre no dia 26
-      const cycleStart = new Date(cycleYear, cycleMonth - 1, 26);
-      
-      // Gerar 5 semanas do ciclo
-      for (let week = 1; week <= 5; week++) {
-        const weekStart = new Date(cycleStart);
-        weekStart.setDate(cycleStart.getDate() + (week - 1) * 7);
-        
-        const weekEnd = new Date(weekStart);
-        weekEnd.setDate(weekStart.getDate() + 6);
+      await BusinessCalendarService.load();
+      const currentCycle = CycleCalendarService.current();
+      const currentRange = BusinessTimeService.toRange(currentCycle.start, currentCycle.end);
 
-        const weekData = { name: `Semana ${week}` };
+      // Gerar dados semanais usando o calendário de ciclos
+      const weeklyData = [];
+      
+      for (const week of CycleCalendarService.weeksOf(currentCycle)) {
+        const weekData = { name: `Semana ${week.number}` };
+        const weekRange = BusinessTimeService.toRange(week.start, week.end);
         
         for (const employee of employees) {
           const { data: entries } = await supabase
             .from('entry')
             .select('points')
             .eq('employee_id', employee.id)
-            .gte('date', weekStart.toISOString().split('T')[0])
-            .lte('date', weekEnd.toISOString().split('T')[0]);
+            .eq('status', 'approved')
+            .gte('date', weekRange.from)
+            .lt('date', weekRange.to);
 
           const points = entries?.reduce((sum, entry) => sum + entry.points, 0) || 0;
           weekData[employee.real_name] = points;
@@ -204,62 +194,26 @@ export class ExportService {
 
       // Gerar dados mensais usando MESMA LÓGICA do DataService
       const monthlyData = [];
-      const months = ['Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho', 'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'];
-      
-      const currentDateMonthly = new Date();
-      const currentDayMonthly = currentDateMonthly.getDate();
-      const currentCalendarMonth = currentDateMonthly.getMonth(); // 0-based (0=Janeiro)
-      const currentYear = currentDateMonthly.getFullYear();
-      
-      // Determinar qual é o "mês atual da empresa" baseado na regra 26-25
-      let currentCompanyMonth = currentCalendarMonth;
       
-      // Se já passou do dia 25, estamos no próximo mês da empresa
-      if (currentDayMonthly >= 26) {
-        // Estamos no próximo ciclo - manter mês atual
-        currentCompanyMonth = currentCalendarMonth;
-      } else {
-        // Ainda no ciclo anterior - ir para mês anterior
-        currentCompanyMonth = currentCalendarMonth - 1;
-        if (currentCompanyMonth < 0) {
-          currentCompanyMonth = 11; // Dezembro do ano anterior
-        }
+      // Mostrar últimos 7 ciclos da empresa (incluindo o atual)
+      const cycles = [currentCycle];
+      while (cycles.length < 7) {
+        cycles.unshift(CycleCalendarService.previous(cycles[0]));
       }
       
-      // Mostrar últimos 7 meses da empresa (incluindo o atual)
-      const monthsToShow = [];
-      for (let i = 6; i >= 0; i--) {
-        let monthIndex = currentCompanyMonth - i;
-        let yearForMonth = currentYear;
-        
-        if (monthIndex < 0) {
-          monthIndex += 12;
-          yearForMonth -= 1;
-        }
-        
-        monthsToShow.push({ monthIndex, yearForMonth });
-      }
-      
-      for (const { monthIndex, yearForMonth } of monthsToShow) {
-        // Usar ciclo 26-25 para o mês
-        const monthStart = new Date(yearForMonth, monthIndex, 26);
-        let monthEnd = new Date(yearForMonth, monthIndex + 1, 25);
-        
-        // Se monthIndex + 1 > 11, ajustar para próximo ano
-        if (monthIndex === 11) {
-          monthEnd = new Date(yearForMonth + 1, 0, 25);
-        }
-        
+      for (const cycle of cycles) {
         // Total de pontos do mês com dados por funcionário
-        const monthData = { name: months[monthIndex] };
+        const monthData = { name: MONTH_NAMES[cycle.month - 1] };
+        const monthRange = BusinessTimeService.toRange(cycle.start, cycle.end);
         
         for (const employee of employees) {
           const { data: employeeEntries } = await supabase
             .from('entry')
             .select('points')
             .eq('employee_id', employee.id)
-            .gte('date', monthStart.toISOString().split('T')[0])
-            .lte('date', monthEnd.toISOString().split('T')[0]);
+            .eq('status', 'approved')
+            .gte('date', monthRange.from)
+            .lt('date', monthRange.to);
 
           const points = employeeEntries?.reduce((sum, entry) => sum + entry.points, 0) || 0;
           monthData[employee.real_name] = points;
@@ -272,26 +226,14 @@ export class ExportService {
 
       // Para cada funcionário, calcular estatísticas
       for (const employee of employees) {
-        // Dados do mês atual (ciclo 26-25)
-        const today = new Date();
-        const currentDay = today.getDate();
-        let monthStart: Date;
-        let monthEnd: Date;
-
-        if (currentDay >= 26) {
-          monthStart = new Date(today.getFullYear(), today.getMonth(), 26);
-          monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 25);
-        } else {
-          monthStart = new Date(today.getFullYear(), today.getMonth() - 1, 26);
-          monthEnd = new Date(today.getFullYear(), today.getMonth(), 25);
-        }
-
+        // Dados do ciclo atual
         const { data: monthlyEntries } = await supabase
           .from('entry')
           .select('points')
           .eq('employee_id', employee.id)
-          .gte('date', monthStart.toISOString().split('T')[0])
-          .lte('date', monthEnd.toISOString().split('T')[0]);
+          .eq('status', 'approved')
+          .gte('date', currentRange.from)
+          .lt('date', currentRange.to);
 
         const monthlyPoints = monthlyEntries?.reduce((sum, entry) => sum + entry.points, 0) || 0;
 
@@ -299,7 +241,7 @@ export class ExportService {
         chartData.teamPerformance.push({
           name: employee.real_name,
           value: monthlyPoints,
-          color: ExportService.getEmployeeColor(employee.real_name)
+          color: colors[employee.id]
         });
       }
 
@@ -311,52 +253,34 @@ export class ExportService {
     }
   }
 
-  /**
-   * Retorna cor específica para cada funcionário
-   */
-  static getEmployeeColor(employeeName: string): string {
-    const colorMap: Record<string, string> = {
-      'Rodrigo': '#8b5cf6',
-      'Maurício': '#f59e0b', 
-      'Matheus': '#10b981',
-      'Wesley': '#ef4444'
-    };
-    return colorMap[employeeName] || '#6b7280';
-  }
-
   /**
    * Calcula estatísticas gerais dos dados
-   * IMPORTANTE: Exclui Rodrigo das médias (funcionário freelancer)
+   * Média, meta da equipe e destaque seguem a regra de cada vínculo (employment_type_rule)
    * @deprecated Usar DataService.getGeneralStats() em vez disso
    */
   static async getGeneralStats() {
     try {
       const { data: employees } = await supabase
         .from('employee')
-        .select('id, real_name, weekly_goal');
+        .select('id, real_name, weekly_goal, employment_type');
 
       if (!employees) return null;
 
-      // Dados do mês atual (ciclo 26-25)
-      const today = new Date();
-      const currentDay = today.getDate();
-      let monthStart: Date;
-      let monthEnd: Date;
-
-      if (currentDay >= 26) {
-        monthStart = new Date(today.getFullYear(), today.getMonth(), 26);
-        monthEnd = new Date(today.getFullYear(), today.getMonth() + 1, 25);
-      } else {
-        monthStart = new Date(today.getFullYear(), today.getMonth() - 1, 26);
-        monthEnd = new Date(today.getFullYear(), today.getMonth(), 25);
-      }
+      // Dados do ciclo atual
+      await CycleCalendarService.loadConfig();
+      const currentCycle = CycleCalendarService.current();
+      const currentRange = BusinessTimeService.toRange(currentCycle.start, currentCycle.end);
+      const goals = await GoalService.getGoalsForCycle(currentCycle.id);
+      const rules = await EmploymentTypeService.getRules();
+      const absences = await AbsenceService.getApprovedAbsences(currentCycle);
 
       let bestPerformer = '';
       let bestPoints = 0;
       let totalPoints = 0;
-      let totalGoalTeam = 29500; // Meta mensal da equipe definida pelo usuário
+      const totalGoalTeam = GoalService.getTeamMonthlyGoal(goals, employees
+        .filter(employee => EmploymentTypeService.includes(rules, employee.employment_type, 'teamGoal'))
+        .map(employee => employee.id), currentCycle, absences); // Meta mensal da equipe
       
-      // Para média da equipe: excluir Rodrigo (funcionário freelancer)
       let totalPointsForAverage = 0;
       let employeeCountForAverage = 0;
 
@@ -365,36 +289,37 @@ export class ExportService {
           .from('entry')
           .select('points')
           .eq('employee_id', employee.id)
-          .gte('date', monthStart.toISOString().split('T')[0])
-          .lte('date', monthEnd.toISOString().split('T')[0]);
+          .eq('status', 'approved')
+          .gte('date', currentRange.from)
+          .lt('date', currentRange.to);
 
         const points = entries?.reduce((sum, entry) => sum + entry.points, 0) || 0;
-        totalPoints += points;
+        if (EmploymentTypeService.includes(rules, employee.employment_type, 'teamGoal')) {
+          totalPoints += points;
+        }
 
         // Verificar melhor performer
-        if (points > bestPoints) {
+        if (EmploymentTypeService.includes(rules, employee.employment_type, 'leaderboard') && points > bestPoints) {
           bestPoints = points;
           bestPerformer = employee.real_name;
         }
 
-        // Para média: excluir Rodrigo
-        if (employee.real_name !== 'Rodrigo') {
+        if (EmploymentTypeService.includes(rules, employee.employment_type, 'teamAverage')) {
           totalPointsForAverage += points;
           employeeCountForAverage++;
         }
       }
 
-      // Média da equipe sem Rodrigo
       const avgTeam = employeeCountForAverage > 0 ? Math.round(totalPointsForAverage / employeeCountForAverage) : 0;
       
-      // Progresso geral baseado na meta de 29.500
+      // Progresso geral baseado na soma das metas mensais
       const progressPercentage = totalGoalTeam > 0 ? (totalPoints / totalGoalTeam * 100) : 0;
 
       return {
         bestPerformer,
         bestPoints,
-        avgTeam, // Média sem Rodrigo
-        totalGoal: Math.round(totalGoalTeam / 1000 * 10) / 10, // 29.5K
+        avgTeam,
+        totalGoal: Math.round(totalGoalTeam / 1000 * 10) / 10, // em milhares (ex.: 29.5K)
         progressPercentage: Math.round(progressPercentage * 10) / 10
       };
       
@@ -403,4 +328,166 @@ export class ExportService {
       return null;
     }
   }
+  /**
+   * Fechamento do ciclo em Excel: uma linha por funcionário e a linha de totais da equipe
+   */
+  static exportStatementToExcel(statement: CycleStatement): string {
+    const { cycle, weeks, rows, totals } = statement;
+    const header = [
+      'Funcionário',
+      'Vínculo',
+      ...weeks.map(week => `Semana ${week.number}`),
+      'Pontos',
+      'Meta Mensal',
+      'Atingimento (%)',
+      'Valor dos Pontos (R$)',
+      'Faixa de Bônus',
+      'Bônus (R$)',
+      'Total (R$)'
+    ];
+    const body = rows.map(row => [
+      row.name,
+      EmploymentTypeService.label(row.employmentType),
+      ...row.weekPoints,
+      row.points,
+      row.monthlyGoal,
+      row.attainment,
+      row.value,
+      row.bonusTier || '',
+      row.bonusValue,
+      row.total
+    ]);
+    const footer = [
+      'Total da equipe',
+      '',
+      ...totals.weekPoints,
+      totals.points,
+      totals.teamGoal,
+      totals.teamAttainment,
+      totals.value,
+      '',
+      totals.bonusValue,
+      totals.total
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet([
+      [`Fechamento ${cycle.label} (${BusinessTimeService.formatDate(cycle.start)} a ${BusinessTimeService.formatDate(cycle.end)})`],
+      [],
+      header,
+      ...body,
+      footer
+    ]);
+    ws['!cols'] = header.map((_, index) => ({ wch: index === 0 ? 20 : 14 }));
+
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Fechamento');
+
+    const fileName = `fechamento_${cycle.id}.xlsx`;
+    XLSX.writeFile(wb, fileName);
+    return fileName;
+  }
+
+  /**
+   * Fechamento do ciclo em PDF: abre a impressão do navegador com o relatório formatado
+   * (escolher "Salvar como PDF" no destino da impressão)
+   */
+  static printStatement(statement: CycleStatement): void {
+    const { cycle, weeks, rows, totals } = statement;
+    const escape = (value: string) => value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+    const number = (value: number) => value.toLocaleString('pt-BR');
+    const currency = (value: number) => ExcelProcessorService.formatCurrency(value);
+    const percent = (value: number) => `${value.toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+
+    const header = [
+      'Funcionário',
+      ...weeks.map(week => `Sem. ${week.number}`),
+      'Pontos',
+      'Meta',
+      'Ating.',
+      'Valor',
+      'Faixa',
+      'Bônus',
+      'Total'
+    ].map(label => `<th>${label}</th>`).join('');
+
+    const body = rows.map(row => `
+      <tr>
+        <td class="name">${escape(row.name)}${row.employmentType !== 'clt' ? ` <small>(${EmploymentTypeService.label(row.employmentType)})</small>` : ''}</td>
+        ${row.weekPoints.map(points => `<td>${number(points)}</td>`).join('')}
+        <td><strong>${number(row.points)}</strong></td>
+        <td>${number(row.monthlyGoal)}</td>
+        <td>${percent(row.attainment)}</td>
+        <td>${currency(row.value)}</td>
+        <td>${escape(row.bonusTier || '—')}</td>
+        <td>${currency(row.bonusValue)}</td>
+        <td><strong>${currency(row.total)}</strong></td>
+      </tr>`).join('');
+
+    const footer = `
+      <tr>
+        <td class="name">Total da equipe</td>
+        ${totals.weekPoints.map(points => `<td>${number(points)}</td>`).join('')}
+        <td>${number(totals.points)}</td>
+        <td>${number(totals.teamGoal)}</td>
+        <td>${percent(totals.teamAttainment)}</td>
+        <td>${currency(totals.value)}</td>
+        <td></td>
+        <td>${currency(totals.bonusValue)}</td>
+        <td>${currency(totals.total)}</td>
+      </tr>`;
+
+    const html = `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8" />
+  <title>Fechamento ${escape(cycle.label)}</title>
+  <style>
+    @page { size: A4 landscape; margin: 12mm; }
+    body { font-family: Arial, Helvetica, sans-serif; color: #111; font-size: 11px; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    p { margin: 0 0 12px; color: #555; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: right; white-space: nowrap; }
+    th { background: #f0f0f0; }
+    td.name, th:first-child { text-align: left; }
+    tfoot td { font-weight: bold; background: #f7f7f7; }
+    small { color: #777; }
+  </style>
+</head>
+<body>
+  <h1>Fechamento ${escape(cycle.label)}</h1>
+  <p>Ciclo de ${BusinessTimeService.formatDate(cycle.start)} a ${BusinessTimeService.formatDate(cycle.end)} · gerado em ${format(new Date(), 'dd/MM/yyyy HH:mm', { locale: ptBR })}</p>
+  <table>
+    <thead><tr>${header}</tr></thead>
+    <tbody>${body}</tbody>
+    <tfoot>${footer}</tfoot>
+  </table>
+</body>
+</html>`;
+
+    // Imprime a partir de um iframe oculto para não sair da página atual
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+
+    const frameWindow = frame.contentWindow;
+    if (!frameWindow) {
+      document.body.removeChild(frame);
+      throw new Error('Não foi possível preparar a impressão');
+    }
+
+    frameWindow.document.open();
+    frameWindow.document.write(html);
+    frameWindow.document.close();
+    frameWindow.onafterprint = () => document.body.removeChild(frame);
+    frameWindow.focus();
+    frameWindow.print();
+  }
 }
\ No newline at end of file
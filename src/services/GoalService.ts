@@ -0,0 +1,171 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Absence, AbsenceService } from './AbsenceService';
+import { BusinessCalendarService, DatePeriod } from './BusinessCalendarService';
+
+// Metas por funcionário e ciclo (tabela goal).
+// Uma meta vale a partir do ciclo em que foi cadastrada até a próxima meta do funcionário.
+
+export interface GoalValues {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface EmployeeGoal extends GoalValues {
+  employeeId: number;
+  cycleId: string | null; // ciclo em que a meta foi cadastrada (null = meta padrão)
+}
+
+// Meta usada quando o funcionário ainda não tem nenhuma meta cadastrada
+export const DEFAULT_GOAL: GoalValues = {
+  daily: 475,
+  weekly: 2375,
+  monthly: 9500
+};
+
+interface GoalRow {
+  employee_id: number;
+  cycle_id: string;
+  daily_goal: number;
+  weekly_goal: number;
+  monthly_goal: number;
+}
+
+export class GoalService {
+  /**
+   * Metas vigentes no ciclo para cada funcionário (chave: employee_id)
+   */
+  static async getGoalsForCycle(cycleId: string): Promise<Record<number, EmployeeGoal>> {
+    const goals = await this.getGoalsForCycles([cycleId]);
+    return goals[cycleId] || {};
+  }
+
+  /**
+   * Metas vigentes em vários ciclos com uma única consulta (chave: id do ciclo → employee_id)
+   */
+  static async getGoalsForCycles(cycleIds: string[]): Promise<Record<string, Record<number, EmployeeGoal>>> {
+    if (!cycleIds.length) return {};
+
+    const lastCycleId = [...cycleIds].sort().pop() as string;
+    const { data, error } = await supabase
+      .from('goal')
+      .select('employee_id, cycle_id, daily_goal, weekly_goal, monthly_goal')
+      .lte('cycle_id', lastCycleId)
+      .order('cycle_id', { ascending: false });
+
+    if (error) {
+      console.error('Erro ao buscar metas:', error);
+      return {};
+    }
+
+    const rows = data || [];
+    return Object.fromEntries(cycleIds.map(cycleId => {
+      const goals: Record<number, EmployeeGoal> = {};
+      // Linhas em ordem decrescente de ciclo: a primeira de cada funcionário é a vigente
+      rows
+        .filter(row => row.cycle_id <= cycleId)
+        .forEach(row => {
+          if (!goals[row.employee_id]) {
+            goals[row.employee_id] = this.toEmployeeGoal(row);
+          }
+        });
+      return [cycleId, goals];
+    }));
+  }
+
+  /**
+   * Meta vigente de um funcionário no ciclo (meta padrão se não houver cadastro)
+   */
+  static async getEmployeeGoal(employeeId: number, cycleId: string): Promise<EmployeeGoal> {
+    const { data, error } = await supabase
+      .from('goal')
+      .select('employee_id, cycle_id, daily_goal, weekly_goal, monthly_goal')
+      .eq('employee_id', employeeId)
+      .lte('cycle_id', cycleId)
+      .order('cycle_id', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Erro ao buscar meta do funcionário:', error);
+    }
+
+    return data ? this.toEmployeeGoal(data) : this.getDefaultGoal(employeeId);
+  }
+
+  /**
+   * Cadastra ou atualiza a meta do funcionário a partir do ciclo informado
+   */
+  static async saveGoal(employeeId: number, cycleId: string, values: GoalValues): Promise<EmployeeGoal | null> {
+    const { data, error } = await supabase
+      .from('goal')
+      .upsert({
+        employee_id: employeeId,
+        cycle_id: cycleId,
+        daily_goal: values.daily,
+        weekly_goal: values.weekly,
+        monthly_goal: values.monthly
+      }, { onConflict: 'employee_id,cycle_id' })
+      .select('employee_id, cycle_id, daily_goal, weekly_goal, monthly_goal')
+      .single();
+
+    if (error || !data) {
+      console.error('Erro ao salvar meta:', error);
+      return null;
+    }
+
+    return this.toEmployeeGoal(data);
+  }
+
+  /**
+   * Remove a meta cadastrada no ciclo; volta a valer a meta do ciclo anterior
+   */
+  static async deleteGoal(employeeId: number, cycleId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('goal')
+      .delete()
+      .eq('employee_id', employeeId)
+      .eq('cycle_id', cycleId);
+
+    if (error) {
+      console.error('Erro ao remover meta:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  // Meta do funcionário em um mapa de metas, com a meta padrão como fallback
+  static resolve(goals: Record<number, EmployeeGoal>, employeeId: number): EmployeeGoal {
+    return goals[employeeId] || this.getDefaultGoal(employeeId);
+  }
+
+  // Meta mensal da equipe: soma das metas mensais dos funcionários informados,
+  // proporcionais aos dias úteis do ciclo menos as ausências aprovadas de cada um
+  static getTeamMonthlyGoal(
+    goals: Record<number, EmployeeGoal>,
+    employeeIds: number[],
+    cycle: DatePeriod,
+    absences: Absence[] = []
+  ): number {
+    return employeeIds.reduce((sum, employeeId) => sum + BusinessCalendarService.monthlyGoalFor(
+      this.resolve(goals, employeeId).monthly,
+      cycle,
+      AbsenceService.absentDays(absences, employeeId, cycle)
+    ), 0);
+  }
+
+  private static getDefaultGoal(employeeId: number): EmployeeGoal {
+    return { employeeId, cycleId: null, ...DEFAULT_GOAL };
+  }
+
+  private static toEmployeeGoal(row: GoalRow): EmployeeGoal {
+    return {
+      employeeId: row.employee_id,
+      cycleId: row.cycle_id,
+      daily: row.daily_goal,
+      weekly: row.weekly_goal,
+      monthly: row.monthly_goal
+    };
+  }
+}
@@ -0,0 +1,385 @@
+import * as XLSX from 'xlsx';
+import { supabase } from '@/integrations/supabase/client';
+import { BusinessTimeService } from './BusinessTimeService';
+import type { Employee } from './EmployeeService';
+import { EntryRuleService } from './EntryRuleService';
+import { ExcelProcessorService, SheetData } from './ExcelProcessorService';
+import type { Refinery } from './RefineryService';
+
+// Importação de planilhas (Admin → Importar): uma planilha por funcionário, com
+// as colunas escolhidas no assistente. As linhas são validadas com as mesmas
+// regras do formulário de registro e gravadas de uma vez pela função
+// import_entries, que ignora registros já existentes e marca o lote.
+
+export type ImportColumn = 'date' | 'points' | 'refinery' | 'observations';
+
+export interface ImportMapping {
+  columns: Record<ImportColumn, string>;        // cabeçalho da planilha ('' = coluna não usada)
+  employees: Record<string, number | undefined>; // nome do arquivo → funcionário
+}
+
+export interface ImportRow {
+  key: string;
+  fileName: string;
+  line: number;                 // linha na planilha (o cabeçalho é a linha 1)
+  employeeId: number | null;
+  employeeName: string | null;
+  date: string | null;          // YYYY-MM-DD
+  refineryId: number | null;
+  refineryName: string;
+  points: number | null;
+  observations: string;
+  errors: string[];
+}
+
+// Registro já gravado (não recusado) no dia de uma linha da importação
+export interface ImportDayEntry {
+  employeeId: number;
+  date: string;                 // YYYY-MM-DD no fuso da empresa
+  refineryId: number | null;
+  points: number;
+}
+
+export interface ImportResult {
+  batchId: number | null;
+  inserted: number;
+  skipped: number;              // já existentes ou repetidas no lote
+  error: string | null;         // mensagem do banco (ex.: ciclo fechado, limite diário)
+}
+
+export interface ImportBatch {
+  id: number;
+  fileNames: string[];
+  rowCount: number;
+  insertedCount: number;
+  skippedCount: number;
+  createdAt: string;
+  createdByName: string | null;
+  rolledBackAt: string | null;
+  rolledBackByName: string | null;
+}
+
+// Nomes de coluna reconhecidos automaticamente (os mesmos do ExcelProcessorService)
+const COLUMN_ALIASES: Record<ImportColumn, string[]> = {
+  date: ['data', 'date', 'dia'],
+  points: ['pontos', 'total', 'points'],
+  refinery: ['refinaria', 'refinery'],
+  observations: ['observacoes', 'observacao', 'obs']
+};
+
+const SPREADSHEET_PATTERN = /\.(xlsx|xls)$/i;
+const DAY_ENTRIES_PAGE_SIZE = 1000;
+
+export class ImportService {
+  /**
+   * Lê as planilhas (.xlsx/.xls); arquivos ilegíveis ficam de fora com o erro no console
+   */
+  static async readFiles(files: File[]): Promise<SheetData[]> {
+    const sheets: SheetData[] = [];
+
+    for (const file of files.filter(file => SPREADSHEET_PATTERN.test(file.name))) {
+      try {
+        sheets.push(await ExcelProcessorService.readSheet(file));
+      } catch (error) {
+        console.error(`Erro ao ler ${file.name}:`, error);
+      }
+    }
+
+    return sheets;
+  }
+
+  /**
+   * Mapeamento inicial: colunas pelos nomes conhecidos e funcionários pelo nome do arquivo
+   */
+  static guessMapping(sheets: SheetData[], employees: Employee[]): ImportMapping {
+    const headers = this.headersOf(sheets);
+    const columns = Object.fromEntries(
+      (Object.keys(COLUMN_ALIASES) as ImportColumn[]).map(column => [
+        column,
+        headers.find(header => COLUMN_ALIASES[column].includes(this.normalize(header))) || ''
+      ])
+    ) as Record<ImportColumn, string>;
+
+    return {
+      columns,
+      employees: Object.fromEntries(sheets.map(sheet => [sheet.fileName, this.matchEmployee(sheet.fileName, employees)?.id]))
+    };
+  }
+
+  /**
+   * Cabeçalhos de todas as planilhas, sem repetição
+   */
+  static headersOf(sheets: SheetData[]): string[] {
+    return Array.from(new Set(sheets.flatMap(sheet => sheet.headers)));
+  }
+
+  /**
+   * Linhas a importar com os erros de validação de cada uma.
+   * Linhas sem pontos (vazias ou zero) são ignoradas, como na leitura antiga das planilhas.
+   * O limite diário, que depende dos registros já gravados, é conferido em applyDailyCap.
+   */
+  static buildRows(
+    sheets: SheetData[],
+    mapping: ImportMapping,
+    employees: Employee[],
+    refineries: Refinery[]
+  ): ImportRow[] {
+    const schema = EntryRuleService.entrySchema().pick({ refineryId: true, points: true, date: true });
+    const cell = (row: Record<string, unknown>, column: ImportColumn) =>
+      mapping.columns[column] ? row[mapping.columns[column]] : undefined;
+
+    return sheets.flatMap(sheet => {
+      const employee = employees.find(option => option.id === mapping.employees[sheet.fileName]) || null;
+
+      return sheet.rows.flatMap((row, index) => {
+        const pointsCell = cell(row, 'points');
+        if (pointsCell === undefined || pointsCell === '' || Number(pointsCell) === 0) return [];
+
+        const date = this.parseDate(cell(row, 'date'));
+        const refineryName = String(cell(row, 'refinery') ?? '').trim() || employee?.default_refinery || '';
+        const refinery = refineries.find(option => option.name.toUpperCase() === refineryName.toUpperCase());
+
+        const errors: string[] = [];
+        if (!employee) errors.push('Funcionário não definido para o arquivo');
+        if (!date) errors.push('Data inválida');
+
+        const { errors: fieldErrors } = EntryRuleService.validate(schema, {
+          refineryId: refinery?.id ?? 0,
+          points: pointsCell,
+          date: date ? BusinessTimeService.startOfDay(date).toISOString() : new Date().toISOString()
+        });
+        if (refineryName && !refinery) {
+          errors.push(`Refinaria "${refineryName}" não cadastrada`);
+        } else if (fieldErrors.refinery) {
+          errors.push('Refinaria não informada');
+        }
+        if (fieldErrors.points) errors.push(fieldErrors.points);
+        if (date && fieldErrors.date) errors.push(fieldErrors.date);
+
+        return [{
+          key: `${sheet.fileName}:${index + 2}`,
+          fileName: sheet.fileName,
+          line: index + 2,
+          employeeId: employee?.id ?? null,
+          employeeName: employee?.real_name ?? null,
+          date,
+          refineryId: refinery?.id ?? null,
+          refineryName: refinery?.name || refineryName,
+          points: Number.isFinite(Number(pointsCell)) ? Number(pointsCell) : null,
+          observations: String(cell(row, 'observations') ?? '').trim() || `Importado de ${sheet.fileName}`,
+          errors
+        }];
+      });
+    });
+  }
+
+  /**
+   * Registros não recusados dos funcionários das linhas, nos dias cobertos pela planilha.
+   * null quando a busca falha: sem eles o limite diário não pode ser conferido.
+   */
+  static async getDayEntries(rows: ImportRow[]): Promise<ImportDayEntry[] | null> {
+    const dated = rows.filter(row => row.employeeId !== null && row.date);
+    if (dated.length === 0) return [];
+
+    const employeeIds = Array.from(new Set(dated.map(row => row.employeeId!)));
+    const dates = dated.map(row => row.date!).sort();
+    const range = BusinessTimeService.toRange(dates[0], dates[dates.length - 1]);
+    const entries: ImportDayEntry[] = [];
+
+    for (let from = 0; ; from += DAY_ENTRIES_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('entry')
+        .select('id, employee_id, date, refinery_id, points')
+        .in('employee_id', employeeIds)
+        .neq('status', 'rejected')
+        .gte('date', range.from)
+        .lt('date', range.to)
+        .order('id')
+        .range(from, from + DAY_ENTRIES_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('Erro ao buscar registros dos dias importados:', error);
+        return null;
+      }
+
+      entries.push(...(data || []).map(entry => ({
+        employeeId: entry.employee_id,
+        date: BusinessTimeService.toDateKey(entry.date),
+        refineryId: entry.refinery_id,
+        points: entry.points
+      })));
+      if (!data || data.length < DAY_ENTRIES_PAGE_SIZE) break;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Limite diário somando, por funcionário e dia, os registros já gravados e as linhas
+   * anteriores da importação. Linhas que import_entries vai ignorar (já existentes ou
+   * repetidas no lote) não contam; as que passariam do limite recebem o erro.
+   */
+  static applyDailyCap(
+    rows: ImportRow[],
+    dayEntries: ImportDayEntry[],
+    rules = EntryRuleService.getRules()
+  ): ImportRow[] {
+    const dayKey = (employeeId: number, date: string) => `${employeeId}:${date}`;
+    const entryKey = (employeeId: number, date: string, refineryId: number | null, points: number) =>
+      `${dayKey(employeeId, date)}:${refineryId}:${points}`;
+
+    const dayPoints = new Map<string, number>();
+    const known = new Set<string>();
+    dayEntries.forEach(entry => {
+      const day = dayKey(entry.employeeId, entry.date);
+      dayPoints.set(day, (dayPoints.get(day) || 0) + entry.points);
+      known.add(entryKey(entry.employeeId, entry.date, entry.refineryId, entry.points));
+    });
+
+    return rows.map(row => {
+      if (row.errors.length > 0) return row;
+
+      const employeeId = row.employeeId!;
+      const date = row.date!;
+      const points = row.points!;
+      const key = entryKey(employeeId, date, row.refineryId, points);
+      if (known.has(key)) return row;
+
+      const day = dayKey(employeeId, date);
+      const registered = dayPoints.get(day) || 0;
+      if (registered + points > rules.dailyMaxPoints) {
+        return {
+          ...row,
+          errors: [`Limite diário de ${rules.dailyMaxPoints} pontos excedido (${registered} já no dia, com registros e linhas anteriores)`]
+        };
+      }
+
+      known.add(key);
+      dayPoints.set(day, registered + points);
+      return row;
+    });
+  }
+
+  /**
+   * Grava as linhas válidas em uma transação (tudo ou nada)
+   */
+  static async commit(rows: ImportRow[], fileNames: string[]): Promise<ImportResult> {
+    const validRows = rows.filter(row => row.errors.length === 0);
+    const { data, error } = await supabase.rpc('import_entries', {
+      p_file_names: fileNames,
+      p_rows: validRows.map(row => ({
+        employee_id: row.employeeId,
+        date: BusinessTimeService.startOfDay(row.date!).toISOString(),
+        refinery_id: row.refineryId,
+        points: row.points,
+        observations: row.observations,
+        file_name: row.fileName,
+        line: row.line
+      }))
+    });
+
+    if (error || !data) {
+      console.error('Erro ao importar registros:', error);
+      return {
+        batchId: null,
+        inserted: 0,
+        skipped: 0,
+        error: error?.hint ? error.message : 'Não foi possível importar os registros'
+      };
+    }
+
+    const result = data as { batch_id: number; inserted: number; skipped: number };
+    return { batchId: result.batch_id, inserted: result.inserted, skipped: result.skipped, error: null };
+  }
+
+  /**
+   * Últimas importações, da mais recente para a mais antiga
+   */
+  static async getBatches(limit = 20): Promise<ImportBatch[]> {
+    const { data, error } = await supabase
+      .from('import_batch')
+      .select('id, file_names, row_count, inserted_count, skipped_count, created_at, created_by_name, rolled_back_at, rolled_back_by_name')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Erro ao buscar importações:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      fileNames: row.file_names,
+      rowCount: row.row_count,
+      insertedCount: row.inserted_count,
+      skippedCount: row.skipped_count,
+      createdAt: row.created_at || '',
+      createdByName: row.created_by_name,
+      rolledBackAt: row.rolled_back_at,
+      rolledBackByName: row.rolled_back_by_name
+    }));
+  }
+
+  /**
+   * Desfaz a importação excluindo os registros do lote; devolve quantos foram excluídos
+   */
+  static async rollback(batchId: number): Promise<number | null> {
+    const { data, error } = await supabase.rpc('rollback_import', { p_batch_id: batchId });
+
+    if (error) {
+      console.error('Erro ao desfazer importação:', error);
+      return null;
+    }
+
+    return data ?? 0;
+  }
+
+  /**
+   * Dia (YYYY-MM-DD) de uma célula: número de série do Excel, DD/MM/AAAA ou AAAA-MM-DD
+   */
+  private static parseDate(value: unknown): string | null {
+    let year: number, month: number, day: number;
+
+    if (typeof value === 'number') {
+      const parsed = XLSX.SSF.parse_date_code(value);
+      if (!parsed) return null;
+      ({ y: year, m: month, d: day } = parsed);
+    } else {
+      const text = String(value ?? '').trim();
+      const br = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+      const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+      if (br) {
+        [day, month, year] = [Number(br[1]), Number(br[2]), Number(br[3])];
+        if (year < 100) year += 2000;
+      } else if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+      } else {
+        return null;
+      }
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+    return date.toISOString().split('T')[0];
+  }
+
+  /**
+   * Funcionário cujo nome (cadastro, nome real ou usuário) corresponde ao nome do arquivo
+   */
+  private static matchEmployee(fileName: string, employees: Employee[]): Employee | null {
+    const name = this.normalize(fileName.replace(SPREADSHEET_PATTERN, ''));
+    const candidates = (employee: Employee) =>
+      [employee.name, employee.real_name, employee.username].filter(Boolean).map(value => this.normalize(value));
+
+    return employees.find(employee => candidates(employee).includes(name))
+      || employees.find(employee => candidates(employee).some(candidate => candidate && name.includes(candidate)))
+      || null;
+  }
+
+  // Minúsculas, sem acentos e sem espaços nas pontas
+  private static normalize(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  }
+}
@@ -0,0 +1,206 @@
+import { supabase } from '@/integrations/supabase/client';
+import { AbsenceService } from './AbsenceService';
+import { BusinessCalendarService } from './BusinessCalendarService';
+import { CalculationsService } from './CalculationsService';
+import { Cycle, CycleCalendarService, CycleWeek } from './CycleCalendarService';
+import { CycleClosing, CycleClosingService } from './CycleClosingService';
+import { DataService, PointsPeriod } from './DataService';
+import { EmploymentType, EmploymentTypeRules, EmploymentTypeService } from './EmploymentTypeService';
+import { GoalService } from './GoalService';
+import { RosterService } from './RosterService';
+
+// Fechamento do ciclo: por funcionário, pontos de cada semana, atingimento da meta
+// mensal (proporcional aos dias úteis do ciclo), valor dos pontos (valor do ponto em vigor na data de cada registro) e bônus
+// da maior faixa atingida (tabela bonus_tier). Ciclo fechado mostra os totais guardados no fechamento.
+
+export interface BonusTier {
+  id: number;
+  name: string;
+  min_attainment: number;  // % da meta mensal
+  bonus_value: number;     // R$
+}
+
+export type BonusTierFields = Omit<BonusTier, 'id'>;
+
+export interface StatementRow {
+  employeeId: number;
+  name: string;
+  employmentType: EmploymentType;
+  weekPoints: number[];     // alinhado com CycleStatement.weeks
+  points: number;
+  value: number;            // R$ dos pontos
+  monthlyGoal: number;      // proporcional aos dias úteis, descontadas as ausências aprovadas
+  absentDays: number;       // dias úteis de ausência aprovada no ciclo
+  attainment: number;       // % da meta mensal
+  bonusTier: string | null;
+  bonusValue: number;
+  total: number;            // valor dos pontos + bônus
+}
+
+export interface StatementTotals {
+  weekPoints: number[];
+  points: number;
+  value: number;
+  teamGoal: number;         // soma das metas dos vínculos que entram na meta da equipe
+  teamAttainment: number;   // % da meta da equipe, com os pontos desses mesmos funcionários
+  bonusValue: number;
+  total: number;
+}
+
+export interface CycleStatement {
+  cycle: Cycle;
+  weeks: CycleWeek[];
+  rows: StatementRow[];
+  totals: StatementTotals;
+  closing: CycleClosing | null;  // fechamento vigente (linhas vêm de cycle_summary)
+}
+
+export class PayrollService {
+  /**
+   * Fechamento do ciclo (ciclo atual quando cycleId não é informado)
+   */
+  static async getStatement(cycleId?: string): Promise<CycleStatement> {
+    await Promise.all([BusinessCalendarService.load(), CycleClosingService.loadClosings()]);
+    const cycle = CalculationsService.getCycle(cycleId);
+    const weeks = CycleCalendarService.weeksOf(cycle);
+
+    // Ciclo fechado: totais e metas como estavam no fechamento
+    const closing = CycleClosingService.getClosing(cycle.id);
+    if (closing) {
+      const [rows, rules] = await Promise.all([
+        CycleClosingService.getSummary(closing.id),
+        EmploymentTypeService.getRules()
+      ]);
+      return { cycle, weeks, rows, totals: this.buildTotals(rows, weeks.length, rules), closing };
+    }
+
+    const weekPeriods: PointsPeriod[] = weeks.map(week => ({
+      key: `${cycle.id}:${week.number}`,
+      name: `Semana ${week.number}`,
+      start: week.start,
+      end: week.end
+    }));
+    const cyclePeriod: PointsPeriod = { key: cycle.id, name: cycle.label, start: cycle.start, end: cycle.end };
+
+    const [points, goals, tiers, roster, rules, absences] = await Promise.all([
+      DataService.getPointsByPeriod([...weekPeriods, cyclePeriod]),
+      GoalService.getGoalsForCycle(cycle.id),
+      this.getBonusTiers(),
+      RosterService.getRoster(),
+      EmploymentTypeService.getRules(),
+      AbsenceService.getApprovedAbsences(cycle)
+    ]);
+
+    const employmentTypes = Object.fromEntries(roster.map(employee => [employee.id, employee.employmentType]));
+    const pointsOf = (periodKey: string, employeeId: number) =>
+      points.find(row => row.periodKey === periodKey && row.employeeId === employeeId);
+
+    const rows: StatementRow[] = points
+      .filter(row => row.periodKey === cycle.id)
+      .map(row => {
+        const absentDays = AbsenceService.absentDays(absences, row.employeeId, cycle);
+        const monthlyGoal = BusinessCalendarService.monthlyGoalFor(
+          GoalService.resolve(goals, row.employeeId).monthly,
+          cycle,
+          absentDays
+        );
+        const attainment = CalculationsService.calculateProgressPercentage(row.points, monthlyGoal);
+        const tier = this.tierFor(tiers, attainment);
+        const bonusValue = tier?.bonus_value || 0;
+
+        return {
+          employeeId: row.employeeId,
+          name: row.realName,
+          employmentType: employmentTypes[row.employeeId] || 'clt',
+          weekPoints: weekPeriods.map(period => pointsOf(period.key, row.employeeId)?.points || 0),
+          points: row.points,
+          value: row.value,
+          monthlyGoal,
+          absentDays,
+          attainment,
+          bonusTier: tier?.name || null,
+          bonusValue,
+          total: row.value + bonusValue
+        };
+      });
+
+    return { cycle, weeks, rows, totals: this.buildTotals(rows, weeks.length, rules), closing: null };
+  }
+
+  /**
+   * Faixas de bônus, da menor para a maior
+   */
+  static async getBonusTiers(): Promise<BonusTier[]> {
+    const { data, error } = await supabase
+      .from('bonus_tier')
+      .select('id, name, min_attainment, bonus_value')
+      .order('min_attainment');
+
+    if (error) {
+      console.error('Erro ao buscar faixas de bônus:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({
+      ...row,
+      min_attainment: Number(row.min_attainment),
+      bonus_value: Number(row.bonus_value)
+    }));
+  }
+
+  static async saveBonusTier(fields: BonusTierFields, id?: number): Promise<boolean> {
+    const { error } = id
+      ? await supabase.from('bonus_tier').update(fields).eq('id', id)
+      : await supabase.from('bonus_tier').insert([fields]);
+
+    if (error) {
+      console.error('Erro ao salvar faixa de bônus:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  static async deleteBonusTier(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('bonus_tier')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erro ao excluir faixa de bônus:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Maior faixa cujo atingimento mínimo foi alcançado (null se nenhuma)
+   */
+  static tierFor(tiers: BonusTier[], attainment: number): BonusTier | null {
+    return [...tiers]
+      .sort((a, b) => b.min_attainment - a.min_attainment)
+      .find(tier => attainment >= tier.min_attainment) || null;
+  }
+
+  private static buildTotals(
+    rows: StatementRow[],
+    weekCount: number,
+    rules: EmploymentTypeRules
+  ): StatementTotals {
+    const goalRows = rows.filter(row => EmploymentTypeService.includes(rules, row.employmentType, 'teamGoal'));
+    const teamGoal = goalRows.reduce((sum, row) => sum + row.monthlyGoal, 0);
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+    return {
+      weekPoints: Array.from({ length: weekCount }, (_, index) => sum(rows.map(row => row.weekPoints[index]))),
+      points: sum(rows.map(row => row.points)),
+      value: sum(rows.map(row => row.value)),
+      teamGoal,
+      teamAttainment: CalculationsService.calculateProgressPercentage(sum(goalRows.map(row => row.points)), teamGoal),
+      bonusValue: sum(rows.map(row => row.bonusValue)),
+      total: sum(rows.map(row => row.total))
+    };
+  }
+}
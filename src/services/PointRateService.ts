@@ -0,0 +1,139 @@
+import { supabase } from '@/integrations/supabase/client';
+import { BusinessTimeService } from './BusinessTimeService';
+
+// Valor do ponto em reais com vigência (tabela point_rate).
+// Cada registro é valorizado pelo valor em vigor na sua data: o valor da refinaria
+// do registro, se houver, senão o valor geral. Mesma regra de point_rate_at no banco.
+
+export interface PointRate {
+  id: number;
+  effective_from: string;       // YYYY-MM-DD (inclusivo)
+  refinery_id: number | null;   // null = todas as refinarias
+  refinery_name: string | null;
+  value: number;
+  notes: string | null;
+}
+
+export type PointRateFields = Pick<PointRate, 'effective_from' | 'refinery_id' | 'value' | 'notes'>;
+
+// Valor usado quando a tabela não pode ser lida
+export const DEFAULT_POINT_VALUE = 3.25;
+
+export const DEFAULT_POINT_RATES: PointRate[] = [{
+  id: 0,
+  effective_from: '2000-01-01',
+  refinery_id: null,
+  refinery_name: null,
+  value: DEFAULT_POINT_VALUE,
+  notes: null
+}];
+
+export class PointRateService {
+  /**
+   * Todos os valores, do mais recente para o mais antigo
+   */
+  static async getRates(): Promise<PointRate[]> {
+    const { data, error } = await supabase
+      .from('point_rate')
+      .select('id, effective_from, refinery_id, value, notes, refineries(name)')
+      .order('effective_from', { ascending: false })
+      .order('refinery_id', { ascending: true, nullsFirst: true });
+
+    if (error) {
+      console.error('Erro ao buscar valores do ponto:', error);
+      return DEFAULT_POINT_RATES;
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      effective_from: row.effective_from,
+      refinery_id: row.refinery_id,
+      refinery_name: row.refineries?.name || null,
+      value: Number(row.value),
+      notes: row.notes
+    }));
+  }
+
+  /**
+   * Cadastrar valor (apenas admin, pelo RLS)
+   */
+  static async createRate(fields: PointRateFields): Promise<boolean> {
+    const { error } = await supabase
+      .from('point_rate')
+      .insert([fields]);
+
+    if (error) {
+      console.error('Erro ao cadastrar valor do ponto:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  static async updateRate(id: number, fields: PointRateFields): Promise<boolean> {
+    const { error } = await supabase
+      .from('point_rate')
+      .update(fields)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erro ao atualizar valor do ponto:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  static async deleteRate(id: number): Promise<boolean> {
+    const { error } = await supabase
+      .from('point_rate')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Erro ao excluir valor do ponto:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Valor em vigor em um dia (YYYY-MM-DD), para a refinaria informada (nome) ou geral
+   */
+  static rateFor(rates: PointRate[], dateKey: string, refinery?: string | null): number {
+    const inForce = rates
+      .filter(rate => rate.effective_from <= dateKey)
+      .sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+
+    const normalized = refinery?.trim().toUpperCase();
+    const specific = normalized
+      ? inForce.find(rate => rate.refinery_name?.toUpperCase() === normalized)
+      : undefined;
+    const general = inForce.find(rate => rate.refinery_id === null);
+
+    return (specific || general)?.value ?? 0;
+  }
+
+  /**
+   * Valor total de um conjunto de registros, cada um pelo valor em vigor na sua data
+   * (registros sem data válida usam o valor de hoje)
+   */
+  static valueOf(rates: PointRate[], records: { date: string | Date; points: number; refinery?: string | null }[]): number {
+    return records.reduce((sum, record) =>
+      sum + record.points * this.rateFor(rates, this.toDateKey(record.date), record.refinery), 0);
+  }
+
+  /**
+   * Valor geral em vigor hoje
+   */
+  static currentRate(rates: PointRate[]): number {
+    return this.rateFor(rates, BusinessTimeService.today());
+  }
+
+  private static toDateKey(date: string | Date): string {
+    const parsed = typeof date === 'string' && !/^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(date) : date;
+    if (parsed instanceof Date && isNaN(parsed.getTime())) return BusinessTimeService.today();
+    return BusinessTimeService.toDateKey(parsed);
+  }
+}
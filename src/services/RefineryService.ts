@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Catálogo de refinarias (tabela refineries). Registros referenciam a refinaria
+// por entry.refinery_id; entry.refinery guarda o nome, mantido pelo banco.
+
+export interface Refinery {
+  id: number;
+  name: string;
+  location: string | null;
+  capacity: number | null;
+  active: boolean;
+  created_at?: string | null;
+  updated_at?: string | null;
+}
+
+export type RefineryFields = Pick<Refinery, 'name' | 'location' | 'capacity'>;
+
+const REFINERY_COLUMNS = 'id, name, location, capacity, active, created_at, updated_at';
+
+export class RefineryService {
+  /**
+   * Refinarias em ordem alfabética (apenas ativas, a menos que includeInactive)
+   */
+  static async getRefineries(includeInactive = false): Promise<Refinery[]> {
+    let query = supabase
+      .from('refineries')
+      .select(REFINERY_COLUMNS)
+      .order('name');
+
+    if (!includeInactive) {
+      query = query.eq('active', true);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Erro ao buscar refinarias:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Cadastrar refinaria (apenas admin, pelo RLS)
+   */
+  static async createRefinery(fields: RefineryFields): Promise<Refinery | null> {
+    const { data, error } = await supabase
+      .from('refineries')
+      .insert([{ ...fields, name: this.normalizeName(fields.name) }])
+      .select(REFINERY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Erro ao cadastrar refinaria:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Atualizar refinaria; um novo nome é aplicado também aos registros existentes
+   */
+  static async updateRefinery(id: number, changes: Partial<RefineryFields & Pick<Refinery, 'active'>>): Promise<Refinery | null> {
+    const { data, error } = await supabase
+      .from('refineries')
+      .update(changes.name ? { ...changes, name: this.normalizeName(changes.name) } : changes)
+      .eq('id', id)
+      .select(REFINERY_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error('Erro ao atualizar refinaria:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  /**
+   * Desativar ou reativar; refinarias inativas não aparecem no formulário de registro
+   */
+  static async setRefineryActive(id: number, active: boolean): Promise<Refinery | null> {
+    return this.updateRefinery(id, { active });
+  }
+
+  // Siglas em maiúsculas, como nos registros existentes (RPBC, REVAP, ...)
+  private static normalizeName(name: string): string {
+    return name.trim().toUpperCase();
+  }
+}
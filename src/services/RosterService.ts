@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+import { EmploymentType, EmploymentTypeService } from './EmploymentTypeService';
+
+// Funcionários exibidos nos gráficos (legenda, botões de mostrar/ocultar e cores).
+// A cor vem do cadastro (employee.color); sem cor, o funcionário recebe a primeira
+// cor da paleta ainda não usada por outro funcionário.
+
+export interface RosterEntry {
+  id: number;
+  name: string;
+  color: string;
+  active: boolean;
+  employmentType: EmploymentType;
+}
+
+// Paleta automática: as quatro primeiras são as cores históricas dos gráficos
+export const EMPLOYEE_PALETTE = [
+  '#8b5cf6', // roxo
+  '#f59e0b', // âmbar
+  '#10b981', // verde
+  '#ef4444', // vermelho
+  '#3b82f6', // azul
+  '#ec4899', // rosa
+  '#14b8a6', // turquesa
+  '#f97316', // laranja
+  '#84cc16', // lima
+  '#6366f1', // índigo
+  '#06b6d4', // ciano
+  '#eab308'  // amarelo
+];
+
+export class RosterService {
+  /**
+   * Funcionários com a cor resolvida, em ordem alfabética (inclui inativos)
+   */
+  static async getRoster(): Promise<RosterEntry[]> {
+    const { data, error } = await supabase
+      .from('employee')
+      .select('id, real_name, color, active, employment_type')
+      .order('real_name');
+
+    if (error) {
+      console.error('Erro ao buscar funcionários dos gráficos:', error);
+      return [];
+    }
+
+    const colors = this.assignColors(data || []);
+    return (data || []).map(employee => ({
+      id: employee.id,
+      name: employee.real_name || `#${employee.id}`,
+      color: colors[employee.id],
+      active: employee.active,
+      employmentType: EmploymentTypeService.isEmploymentType(employee.employment_type) ? employee.employment_type : 'clt'
+    }));
+  }
+
+  /**
+   * Cor de cada funcionário (chave: id). Cores cadastradas são mantidas; os demais
+   * recebem, em ordem de cadastro, cores da paleta que ninguém está usando.
+   */
+  static assignColors(employees: { id: number; color: string | null }[]): Record<number, string> {
+    const colors: Record<number, string> = {};
+    const used = new Set<string>();
+
+    employees.forEach(employee => {
+      if (employee.color) {
+        colors[employee.id] = employee.color;
+        used.add(employee.color.toLowerCase());
+      }
+    });
+
+    [...employees]
+      .filter(employee => !employee.color)
+      .sort((a, b) => a.id - b.id)
+      .forEach(employee => {
+        const color = this.suggestColor([...used]);
+        colors[employee.id] = color;
+        used.add(color);
+      });
+
+    return colors;
+  }
+
+  /**
+   * Próxima cor livre da paleta; esgotada a paleta, gera tons distribuídos pelo círculo de cores
+   */
+  static suggestColor(usedColors: string[]): string {
+    const used = new Set(usedColors.map(color => color.toLowerCase()));
+    const free = EMPLOYEE_PALETTE.find(color => !used.has(color));
+    if (free) return free;
+
+    // Ângulo áureo: tons consecutivos ficam bem separados
+    for (let index = 0; ; index++) {
+      const color = this.hslToHex((index * 137.508) % 360, 65, 55);
+      if (!used.has(color)) return color;
+    }
+  }
+
+  /**
+   * Cor pela posição (para listas sem cadastro, ex.: planilhas importadas)
+   */
+  static colorForIndex(index: number): string {
+    const colors: string[] = [];
+    while (colors.length <= index) {
+      colors.push(this.suggestColor(colors));
+    }
+    return colors[index];
+  }
+
+  private static hslToHex(hue: number, saturation: number, lightness: number): string {
+    const s = saturation / 100;
+    const l = lightness / 100;
+    const a = s * Math.min(l, 1 - l);
+    const channel = (n: number) => {
+      const k = (n + hue / 30) % 12;
+      const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+      return Math.round(value * 255).toString(16).padStart(2, '0');
+    };
+    return `#${channel(0)}${channel(8)}${channel(4)}`;
+  }
+}
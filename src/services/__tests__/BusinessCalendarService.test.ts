@@ -0,0 +1,96 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { BusinessCalendarService } from '../BusinessCalendarService';
+import { CycleCalendarService } from '../CycleCalendarService';
+
+// Regra padrão do ciclo (seg a sex, 20 dias úteis de referência) e uma folga da
+// empresa na quarta-feira 10/09/2025
+vi.mock('@/integrations/supabase/client', () => {
+  const query = (data: unknown) => {
+    const result = { data, error: null };
+    const chain = {
+      select: () => chain,
+      order: () => chain,
+      limit: () => chain,
+      maybeSingle: () => Promise.resolve(result),
+      then: (resolve: (value: typeof result) => void) => resolve(result)
+    };
+    return chain;
+  };
+
+  return {
+    supabase: {
+      from: (table: string) =>
+        query(table === 'day_off' ? [{ id: 1, date: '2025-09-10', name: 'Aniversário da empresa' }] : null)
+    }
+  };
+});
+
+beforeAll(() => BusinessCalendarService.load());
+
+describe('BusinessCalendarService.nationalHolidays', () => {
+  it('calcula a Paixão de Cristo a partir da Páscoa', () => {
+    const goodFriday = (year: number) =>
+      BusinessCalendarService.nationalHolidays(year).find(holiday => holiday.name === 'Paixão de Cristo')?.date;
+
+    expect(goodFriday(2025)).toBe('2025-04-18');
+    expect(goodFriday(2024)).toBe('2024-03-29');
+    expect(goodFriday(2019)).toBe('2019-04-19');
+  });
+
+  it('inclui a Consciência Negra só a partir de 2024', () => {
+    const dates = (year: number) => BusinessCalendarService.nationalHolidays(year).map(holiday => holiday.date);
+
+    expect(dates(2023)).not.toContain('2023-11-20');
+    expect(dates(2024)).toContain('2024-11-20');
+  });
+});
+
+describe('BusinessCalendarService.workingDaysBetween', () => {
+  it('desconta fins de semana, feriados nacionais e folgas da empresa', () => {
+    expect(BusinessCalendarService.workingDaysBetween('2025-04-14', '2025-04-21')).toBe(4);   // Paixão e Tiradentes
+    expect(BusinessCalendarService.workingDaysBetween('2025-09-08', '2025-09-12')).toBe(4);   // folga em 10/09
+    expect(BusinessCalendarService.isWorkingDay('2025-09-10')).toBe(false);
+    expect(BusinessCalendarService.holidayOn('2025-09-10')?.kind).toBe('company');
+  });
+
+  it('conta os dias úteis do ciclo inteiro', () => {
+    expect(BusinessCalendarService.workingDaysBetween('2025-08-26', '2025-09-25')).toBe(22);
+    expect(BusinessCalendarService.workingDaysBetween('2025-03-26', '2025-04-25')).toBe(21);
+  });
+});
+
+describe('BusinessCalendarService.weeklyGoalFor', () => {
+  const weeks = CycleCalendarService.weeksOf(CycleCalendarService.fromId('2025-09'));
+
+  it('mantém a meta na semana completa', () => {
+    expect(BusinessCalendarService.weeklyGoalFor(2500, weeks[0])).toBe(2500);
+  });
+
+  it('reduz a meta na última semana parcial do ciclo', () => {
+    expect(weeks[4]).toMatchObject({ start: '2025-09-23', end: '2025-09-25' });
+    expect(BusinessCalendarService.weeklyGoalFor(2500, weeks[4])).toBe(1500);
+  });
+
+  it('desconta a folga da empresa dentro da semana', () => {
+    expect(weeks[2]).toMatchObject({ start: '2025-09-09', end: '2025-09-15' });
+    expect(BusinessCalendarService.weeklyGoalFor(2500, weeks[2])).toBe(2000);
+  });
+
+  it('desconta feriados e ausências', () => {
+    const week = { start: '2025-04-16', end: '2025-04-22' };
+
+    expect(BusinessCalendarService.weeklyGoalFor(2500, week)).toBe(1500);
+    expect(BusinessCalendarService.weeklyGoalFor(2500, week, 1)).toBe(1000);
+    expect(BusinessCalendarService.weeklyGoalFor(2500, week, 5)).toBe(0);
+  });
+});
+
+describe('BusinessCalendarService.monthlyGoalFor', () => {
+  it('ajusta a meta aos dias úteis do ciclo sobre os 20 de referência', () => {
+    const cycle = CycleCalendarService.fromId('2025-09');
+
+    expect(BusinessCalendarService.monthlyGoalFor(10500, cycle)).toBe(11550);
+    expect(BusinessCalendarService.monthlyGoalFor(10500, cycle, 2)).toBe(10500);
+    expect(BusinessCalendarService.monthlyGoalFor(10500, CycleCalendarService.fromId('2025-04'))).toBe(11025);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { BusinessTimeService } from '../BusinessTimeService';
+
+// Fuso padrão America/Sao_Paulo: -03 hoje; em 2018/2019 ainda havia horário de
+// verão (-02), que começou à meia-noite de 04/11/2018 e terminou à meia-noite
+// de 17/02/2019 (23:00–23:59 de 16/02/2019 aconteceu duas vezes).
+
+describe('BusinessTimeService.toDateKey', () => {
+  it('mantém no dia 25 os lançamentos de 22:00 a 23:59', () => {
+    expect(BusinessTimeService.toDateKey('2025-08-26T01:00:00Z')).toBe('2025-08-25');   // 22:00
+    expect(BusinessTimeService.toDateKey('2025-08-26T02:59:59Z')).toBe('2025-08-25');   // 23:59:59
+    expect(BusinessTimeService.toDateKey('2025-08-26T03:00:00Z')).toBe('2025-08-26');   // 00:00
+  });
+
+  it('mantém datas puras como estão', () => {
+    expect(BusinessTimeService.toDateKey('2025-08-25')).toBe('2025-08-25');
+  });
+
+  it('usa o horário de verão no início da transição de 2018', () => {
+    expect(BusinessTimeService.toDateKey('2018-11-04T02:59:59Z')).toBe('2018-11-03');   // 23:59:59 -03
+    expect(BusinessTimeService.toDateKey('2018-11-04T03:00:00Z')).toBe('2018-11-04');   // 01:00 -02
+  });
+
+  it('mantém a hora repetida de 16/02/2019 no dia 16', () => {
+    expect(BusinessTimeService.toDateKey('2019-02-17T01:30:00Z')).toBe('2019-02-16');   // 23:30 -02
+    expect(BusinessTimeService.toDateKey('2019-02-17T02:30:00Z')).toBe('2019-02-16');   // 23:30 -03
+    expect(BusinessTimeService.toDateKey('2019-02-17T03:00:00Z')).toBe('2019-02-17');   // 00:00 -03
+  });
+});
+
+describe('BusinessTimeService.startOfDay', () => {
+  it('começa o dia à meia-noite de Brasília', () => {
+    expect(BusinessTimeService.startOfDay('2025-08-26').toISOString()).toBe('2025-08-26T03:00:00.000Z');
+  });
+
+  it('começa 04/11/2018 à 01:00, já que a meia-noite não existiu', () => {
+    expect(BusinessTimeService.startOfDay('2018-11-04').toISOString()).toBe('2018-11-04T03:00:00.000Z');
+  });
+
+  it('começa 16 e 17/02/2019 em fusos diferentes', () => {
+    expect(BusinessTimeService.startOfDay('2019-02-16').toISOString()).toBe('2019-02-16T02:00:00.000Z');
+    expect(BusinessTimeService.startOfDay('2019-02-17').toISOString()).toBe('2019-02-17T03:00:00.000Z');
+  });
+});
+
+describe('BusinessTimeService.toRange', () => {
+  it('cobre o dia 25 inteiro, até antes da meia-noite do dia 26', () => {
+    expect(BusinessTimeService.toRange('2025-07-26', '2025-08-25')).toEqual({
+      from: '2025-07-26T03:00:00.000Z',
+      to: '2025-08-26T03:00:00.000Z'
+    });
+  });
+
+  it('tem 23 horas em 04/11/2018 e 25 horas em 16/02/2019', () => {
+    const hours = ({ from, to }: { from: string; to: string }) =>
+      (new Date(to).getTime() - new Date(from).getTime()) / 3600000;
+
+    expect(hours(BusinessTimeService.toRange('2018-11-04', '2018-11-04'))).toBe(23);
+    expect(hours(BusinessTimeService.toRange('2019-02-16', '2019-02-16'))).toBe(25);
+  });
+});
+
+describe('BusinessTimeService.toInstant', () => {
+  it('converte horário de Brasília para o instante', () => {
+    expect(BusinessTimeService.toInstant('2025-08-25', '23:59').toISOString()).toBe('2025-08-26T02:59:00.000Z');
+  });
+
+  it('avança pelo salto um horário que não existiu (00:30 de 04/11/2018 → 01:30)', () => {
+    const instant = BusinessTimeService.toInstant('2018-11-04', '00:30');
+    expect(instant.toISOString()).toBe('2018-11-04T03:30:00.000Z');
+    expect(BusinessTimeService.toDateKey(instant)).toBe('2018-11-04');
+    expect(BusinessTimeService.formatTime(instant)).toBe('01:30');
+  });
+
+  it('usa a primeira ocorrência da hora repetida de 16/02/2019', () => {
+    expect(BusinessTimeService.toInstant('2019-02-16', '23:30').toISOString()).toBe('2019-02-17T01:30:00.000Z');
+  });
+});
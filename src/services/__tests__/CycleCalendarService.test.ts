@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CycleCalendarService } from '../CycleCalendarService';
+
+// Os testes usam a regra padrão (26→25); o cliente do Supabase não é chamado
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+describe('CycleCalendarService.cycleFor', () => {
+  it('mantém no ciclo que termina no dia 25 os lançamentos de 22:00 a 23:59', () => {
+    expect(CycleCalendarService.cycleFor(new Date('2025-08-26T01:00:00Z')).id).toBe('2025-08');   // 22:00
+    expect(CycleCalendarService.cycleFor(new Date('2025-08-26T02:59:59Z')).id).toBe('2025-08');   // 23:59:59
+    expect(CycleCalendarService.cycleFor(new Date('2025-08-26T03:00:00Z')).id).toBe('2025-09');   // 00:00 do dia 26
+  });
+
+  it('vira o ano a partir de 26/12', () => {
+    expect(CycleCalendarService.cycleFor('2025-12-26')).toMatchObject({
+      id: '2026-01',
+      start: '2025-12-26',
+      end: '2026-01-25',
+      label: 'Janeiro 2026'
+    });
+  });
+
+  it('usa o dia de Brasília nas transições de horário de verão', () => {
+    expect(CycleCalendarService.cycleFor(new Date('2018-11-04T03:00:00Z')).id).toBe('2018-11');
+    expect(CycleCalendarService.cycleFor(new Date('2019-02-17T02:30:00Z')).id).toBe('2019-02');
+  });
+});
+
+describe('CycleCalendarService.weeksOf', () => {
+  it('corta a semana 5 no fim do ciclo', () => {
+    const weeks = CycleCalendarService.weeksOf(CycleCalendarService.fromId('2025-09'));
+
+    expect(weeks.map(week => [week.start, week.end, week.days])).toEqual([
+      ['2025-08-26', '2025-09-01', 7],
+      ['2025-09-02', '2025-09-08', 7],
+      ['2025-09-09', '2025-09-15', 7],
+      ['2025-09-16', '2025-09-22', 7],
+      ['2025-09-23', '2025-09-25', 3]
+    ]);
+    expect(weeks[4].partial).toBe(true);
+  });
+
+  it('não gera semana 5 vazia em ciclo de 28 dias', () => {
+    const weeks = CycleCalendarService.weeksOf(CycleCalendarService.fromId('2025-03'));
+
+    expect(weeks).toHaveLength(4);
+    expect(weeks[3].end).toBe('2025-03-25');
+  });
+
+  it('gera semana 5 de um dia no ciclo de ano bissexto', () => {
+    const weeks = CycleCalendarService.weeksOf(CycleCalendarService.fromId('2024-03'));
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks[4]).toMatchObject({ start: '2024-03-25', end: '2024-03-25', days: 1, partial: true });
+  });
+
+  it('cobre o ciclo com a transição de 2018 sem perder dias', () => {
+    const weeks = CycleCalendarService.weeksOf(CycleCalendarService.fromId('2018-11'));
+
+    expect(weeks.reduce((sum, week) => sum + week.days, 0)).toBe(31);
+    expect(weeks.find(week => week.start <= '2018-11-04' && week.end >= '2018-11-04')?.number).toBe(2);
+  });
+});
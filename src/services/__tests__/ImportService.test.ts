@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ENTRY_RULES } from '../EntryRuleService';
+import { ImportRow, ImportService } from '../ImportService';
+
+// Só a conferência em memória; o cliente do Supabase não é chamado
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const row = (line: number, overrides: Partial<ImportRow> = {}): ImportRow => ({
+  key: `joao.xlsx:${line}`,
+  fileName: 'joao.xlsx',
+  line,
+  employeeId: 1,
+  employeeName: 'João',
+  date: '2025-08-20',
+  refineryId: 10,
+  refineryName: 'REPLAN',
+  points: 1000,
+  observations: 'Importado de joao.xlsx',
+  errors: [],
+  ...overrides
+});
+
+const errorLines = (rows: ImportRow[]) => rows.filter(item => item.errors.length > 0).map(item => item.line);
+
+describe('ImportService.applyDailyCap', () => {
+  it('soma as linhas do mesmo funcionário e dia e marca as que passam do limite', () => {
+    const rows = ImportService.applyDailyCap(
+      [row(2), row(3, { points: 1500 }), row(4, { points: 800 }), row(5, { points: 500 })],
+      [],
+      DEFAULT_ENTRY_RULES
+    );
+
+    expect(errorLines(rows)).toEqual([4]);
+    expect(rows[2].errors[0]).toBe('Limite diário de 3000 pontos excedido (2500 já no dia, com registros e linhas anteriores)');
+  });
+
+  it('conta os registros já gravados no dia', () => {
+    const rows = ImportService.applyDailyCap(
+      [row(2, { points: 900 }), row(3, { date: '2025-08-21', points: 900 }), row(4, { employeeId: 2, points: 900 })],
+      [{ employeeId: 1, date: '2025-08-20', refineryId: 11, points: 2500 }],
+      DEFAULT_ENTRY_RULES
+    );
+
+    expect(errorLines(rows)).toEqual([2]);
+  });
+
+  it('não conta linhas que a importação vai ignorar (já existentes ou repetidas)', () => {
+    const rows = ImportService.applyDailyCap(
+      [row(2, { points: 2000 }), row(3, { points: 2000 }), row(4, { points: 1000 })],
+      [{ employeeId: 1, date: '2025-08-20', refineryId: 10, points: 2000 }],
+      DEFAULT_ENTRY_RULES
+    );
+
+    expect(errorLines(rows)).toEqual([]);
+  });
+
+  it('mantém os erros de validação e não soma as linhas inválidas', () => {
+    const rows = ImportService.applyDailyCap(
+      [row(2, { points: 2500, errors: ['O ciclo desta data está fechado'] }), row(3, { points: 2500 })],
+      [],
+      DEFAULT_ENTRY_RULES
+    );
+
+    expect(rows[0].errors).toEqual(['O ciclo desta data está fechado']);
+    expect(rows[1].errors).toEqual([]);
+  });
+});
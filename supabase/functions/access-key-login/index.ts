@@ -0,0 +1,87 @@
+// Login por chave de acesso (funcionários de campo)
+// Troca a chave de acesso por uma sessão do Supabase Auth: cada funcionário tem um
+// usuário vinculado (employee.auth_user_id) com app_metadata { role, employee_id }.
+// A função devolve um token de uso único que o cliente confirma com verifyOtp.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { accessKey } = await req.json();
+    if (typeof accessKey !== "string" || !accessKey.trim()) {
+      return jsonResponse({ error: "Chave de acesso obrigatória" }, 400);
+    }
+
+    const admin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+
+    const { data: employee, error: employeeError } = await admin
+      .from("employee")
+      .select("id, auth_user_id, active")
+      .eq("access_key", accessKey.trim())
+      .maybeSingle();
+
+    if (employeeError) throw employeeError;
+    if (!employee) {
+      return jsonResponse({ error: "Chave de acesso inválida" }, 401);
+    }
+    if (!employee.active) {
+      return jsonResponse({ error: "Funcionário desativado" }, 403);
+    }
+
+    const appMetadata = { role: "employee", employee_id: employee.id };
+    let email: string;
+
+    if (employee.auth_user_id) {
+      // Mantém o papel sincronizado com o cadastro do funcionário
+      const { data, error } = await admin.auth.admin.updateUserById(employee.auth_user_id, {
+        app_metadata: appMetadata,
+      });
+      if (error) throw error;
+      email = data.user.email!;
+    } else {
+      // Primeiro login: cria o usuário vinculado ao funcionário
+      email = `funcionario-${employee.id}@funcionarios.local`;
+      const { data, error } = await admin.auth.admin.createUser({
+        email,
+        email_confirm: true,
+        app_metadata: appMetadata,
+      });
+      if (error) throw error;
+
+      const { error: linkError } = await admin
+        .from("employee")
+        .update({ auth_user_id: data.user.id })
+        .eq("id", employee.id);
+      if (linkError) throw linkError;
+    }
+
+    const { data: link, error: linkError } = await admin.auth.admin.generateLink({
+      type: "magiclink",
+      email,
+    });
+    if (linkError) throw linkError;
+
+    return jsonResponse({ token_hash: link.properties.hashed_token });
+  } catch (error) {
+    console.error("Erro no login por chave de acesso:", error);
+    return jsonResponse({ error: "Não foi possível realizar o login" }, 500);
+  }
+});
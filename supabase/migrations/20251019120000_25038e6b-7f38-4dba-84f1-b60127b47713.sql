@@ -0,0 +1,28 @@
+-- CALENDÁRIO DE CICLOS CONFIGURÁVEL
+-- A regra 26→25 deixa de ficar espalhada no código e passa a ser dado
+
+-- 1. Tabela de configuração do ciclo (uma linha ativa)
+CREATE TABLE IF NOT EXISTS public.cycle_config (
+    id SERIAL PRIMARY KEY,
+    start_day INTEGER NOT NULL DEFAULT 26 CHECK (start_day BETWEEN 1 AND 28),
+    week_length_days INTEGER NOT NULL DEFAULT 7 CHECK (week_length_days BETWEEN 1 AND 31),
+    weeks_per_cycle INTEGER NOT NULL DEFAULT 5 CHECK (weeks_per_cycle BETWEEN 1 AND 31),
+    week_mode TEXT NOT NULL DEFAULT 'cycle_start' CHECK (week_mode IN ('cycle_start', 'iso')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- 2. Regra atual da empresa: ciclo 26→25, semanas de 7 dias, até 5 semanas
+INSERT INTO public.cycle_config (start_day, week_length_days, weeks_per_cycle, week_mode)
+SELECT 26, 7, 5, 'cycle_start'
+WHERE NOT EXISTS (SELECT 1 FROM public.cycle_config);
+
+-- 3. RLS: leitura liberada, alterações apenas pelo painel do Supabase
+ALTER TABLE public.cycle_config ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow read access to cycle_config" ON public.cycle_config FOR SELECT USING (true);
+
+-- 4. Trigger para updated_at
+CREATE TRIGGER update_cycle_config_updated_at
+    BEFORE UPDATE ON public.cycle_config
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
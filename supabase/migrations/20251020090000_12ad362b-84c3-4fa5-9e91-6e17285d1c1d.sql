@@ -0,0 +1,20 @@
+-- FUSO HORÁRIO DA EMPRESA
+-- Toda conta de dia/semana/ciclo passa a ser feita em America/Sao_Paulo,
+-- independente do fuso do navegador ou do servidor
+
+-- 1. Fuso de negócio na configuração do ciclo
+ALTER TABLE public.cycle_config
+    ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- 2. Dia de negócio de um instante (entry.date é timestamptz)
+CREATE OR REPLACE FUNCTION public.business_date(ts TIMESTAMP WITH TIME ZONE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT (ts AT TIME ZONE COALESCE(
+        (SELECT timezone FROM public.cycle_config ORDER BY id LIMIT 1),
+        'America/Sao_Paulo'
+    ))::DATE;
+$$;
@@ -0,0 +1,50 @@
+-- AGREGAÇÃO DE PONTOS NO SERVIDOR
+-- Os gráficos passam a buscar pontos por funcionário × período em uma única chamada,
+-- em vez de uma query por funcionário por semana/ciclo
+
+-- 1. Índice composto para somas por funcionário em um intervalo de datas
+CREATE INDEX IF NOT EXISTS idx_entry_employee_date ON public.entry(employee_id, date);
+
+-- 2. Pontos por funcionário em cada período informado
+-- periods: [{"key": "2025-09:1", "start_date": "2025-08-26", "end_date": "2025-09-01"}, ...]
+-- Os dias são interpretados no fuso da empresa (cycle_config.timezone) e todo
+-- funcionário aparece em todo período, com 0 quando não há registros.
+CREATE OR REPLACE FUNCTION public.get_points_by_period(periods JSONB)
+RETURNS TABLE (
+    period_key TEXT,
+    employee_id INTEGER,
+    real_name TEXT,
+    points BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH tz AS (
+        SELECT COALESCE(
+            (SELECT timezone FROM public.cycle_config ORDER BY id LIMIT 1),
+            'America/Sao_Paulo'
+        ) AS name
+    ),
+    bounds AS (
+        SELECT
+            p.key,
+            (p.start_date::TIMESTAMP AT TIME ZONE tz.name) AS from_ts,
+            ((p.end_date + 1)::TIMESTAMP AT TIME ZONE tz.name) AS to_ts
+        FROM jsonb_to_recordset(periods) AS p(key TEXT, start_date DATE, end_date DATE)
+        CROSS JOIN tz
+    )
+    SELECT
+        b.key,
+        emp.id,
+        emp.real_name,
+        COALESCE(SUM(e.points), 0)::BIGINT
+    FROM bounds b
+    CROSS JOIN public.employee emp
+    LEFT JOIN public.entry e
+        ON e.employee_id = emp.id
+       AND e.date >= b.from_ts
+       AND e.date < b.to_ts
+    GROUP BY b.key, emp.id, emp.real_name
+    ORDER BY b.key, emp.real_name;
+$$;
@@ -0,0 +1,50 @@
+-- AUTENTICAÇÃO REAL (SUPABASE AUTH) E PAPÉIS
+-- O papel do usuário vem de app_metadata.role no JWT, que só pode ser gravado
+-- com a service role: o cliente não consegue se promover a admin.
+-- Administradores entram com e-mail e senha; funcionários continuam usando a
+-- chave de acesso, trocada por uma sessão na função access-key-login.
+
+-- 1. Vínculo entre funcionário e usuário do Supabase Auth
+ALTER TABLE public.employee
+    ADD COLUMN IF NOT EXISTS auth_user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- 2. Papel da sessão atual ('admin' ou 'employee'; NULL para anônimo)
+CREATE OR REPLACE FUNCTION public.auth_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT NULLIF(auth.jwt() -> 'app_metadata' ->> 'role', '');
+$$;
+
+-- 3. Funcionário vinculado à sessão atual
+CREATE OR REPLACE FUNCTION public.auth_employee_id()
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT NULLIF(auth.jwt() -> 'app_metadata' ->> 'employee_id', '')::INTEGER;
+$$;
+
+-- 4. Promover um usuário já cadastrado no Supabase Auth a administrador
+-- Uso (SQL editor do Supabase): SELECT public.grant_admin_role('luis@empresa.com');
+CREATE OR REPLACE FUNCTION public.grant_admin_role(user_email TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE auth.users
+    SET raw_app_meta_data = COALESCE(raw_app_meta_data, '{}'::JSONB) || '{"role": "admin"}'::JSONB
+    WHERE email = user_email;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Usuário % não encontrado', user_email;
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_admin_role(TEXT) FROM PUBLIC, anon, authenticated;
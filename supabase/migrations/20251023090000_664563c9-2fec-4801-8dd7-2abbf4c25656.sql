@@ -0,0 +1,105 @@
+-- RLS POR FUNCIONÁRIO
+-- Substitui as políticas "Allow all access" (USING true) por regras baseadas no
+-- papel da sessão (public.auth_role() / public.auth_employee_id(), ver migração de auth):
+--   * admin: acesso total
+--   * employee: lê e registra apenas os próprios pontos, lê apenas o próprio cadastro
+--   * anônimo: nenhum acesso aos dados
+-- A função access-key-login usa a service role e não passa pelo RLS.
+
+-- 1. Remover as políticas abertas
+DROP POLICY IF EXISTS "Allow all access to employee" ON public.employee;
+DROP POLICY IF EXISTS "Allow all access to entry" ON public.entry;
+DROP POLICY IF EXISTS "Allow all access to funcionario" ON public.funcionario;
+DROP POLICY IF EXISTS "Allow all access to registro" ON public.registro;
+DROP POLICY IF EXISTS "Allow all access to month_reset" ON public.month_reset;
+DROP POLICY IF EXISTS "Allow all access to notification" ON public.notification;
+DROP POLICY IF EXISTS "Allow all access to notification_preference" ON public.notification_preference;
+DROP POLICY IF EXISTS "Allow all access to points" ON public.points;
+DROP POLICY IF EXISTS "Allow all access to refineries" ON public.refineries;
+DROP POLICY IF EXISTS "Allow all access to users" ON public.users;
+DROP POLICY IF EXISTS "Allow all access to alembic_version" ON public.alembic_version;
+
+-- 2. employee: admin gerencia; funcionário lê apenas o próprio cadastro
+CREATE POLICY "Admins manage employee" ON public.employee
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Employees read own employee row" ON public.employee
+    FOR SELECT TO authenticated
+    USING (id = (SELECT public.auth_employee_id()));
+
+-- 3. employee.access_key não pode ser lida pelo cliente (nem por admins)
+REVOKE ALL ON public.employee FROM anon;
+REVOKE SELECT ON public.employee FROM authenticated;
+GRANT SELECT (
+    id, name, real_name, username, role, weekly_goal, default_refinery,
+    auth_user_id, created_at, updated_at
+) ON public.employee TO authenticated;
+
+-- 4. entry: funcionário lê e registra apenas os próprios pontos; só admin altera ou exclui
+CREATE POLICY "Admins manage entry" ON public.entry
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Employees read own entries" ON public.entry
+    FOR SELECT TO authenticated
+    USING (employee_id = (SELECT public.auth_employee_id()));
+
+CREATE POLICY "Employees insert own entries" ON public.entry
+    FOR INSERT TO authenticated
+    WITH CHECK (employee_id = (SELECT public.auth_employee_id()));
+
+REVOKE ALL ON public.entry FROM anon;
+
+-- 5. Tabelas legadas e administrativas: apenas admin
+CREATE POLICY "Admins manage funcionario" ON public.funcionario
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Admins manage registro" ON public.registro
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Admins manage month_reset" ON public.month_reset
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Admins manage notification" ON public.notification
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Admins manage notification_preference" ON public.notification_preference
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Admins manage points" ON public.points
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Admins manage users" ON public.users
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Admins manage alembic_version" ON public.alembic_version
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+-- 6. refineries: leitura para usuários autenticados, alterações apenas admin
+CREATE POLICY "Authenticated read refineries" ON public.refineries
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins manage refineries" ON public.refineries
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
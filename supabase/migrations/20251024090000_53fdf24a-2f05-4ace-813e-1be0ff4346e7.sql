@@ -0,0 +1,99 @@
+-- TRILHA DE AUDITORIA
+-- Toda alteração em entry e employee fica registrada em entry_audit com os dados
+-- antigos/novos, quem alterou e quando (para rastrear pontos contestados no fechamento)
+
+-- 1. Tabela de auditoria
+CREATE TABLE IF NOT EXISTS public.entry_audit (
+    id BIGSERIAL PRIMARY KEY,
+    table_name TEXT NOT NULL CHECK (table_name IN ('entry', 'employee')),
+    record_id INTEGER NOT NULL,
+    employee_id INTEGER,
+    action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+    old_data JSONB,
+    new_data JSONB,
+    actor_id UUID,
+    actor_name TEXT,
+    changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_entry_audit_record ON public.entry_audit(table_name, record_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_entry_audit_employee ON public.entry_audit(employee_id, changed_at DESC);
+
+-- 2. Função de auditoria (SECURITY DEFINER para gravar independente do RLS)
+-- employee.access_key nunca é copiada para a auditoria
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    old_row JSONB;
+    new_row JSONB;
+    row_id INTEGER;
+    row_employee_id INTEGER;
+    actor UUID := auth.uid();
+    actor_label TEXT;
+BEGIN
+    IF TG_OP <> 'INSERT' THEN
+        old_row := to_jsonb(OLD) - 'access_key';
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        new_row := to_jsonb(NEW) - 'access_key';
+    END IF;
+
+    row_id := COALESCE(new_row ->> 'id', old_row ->> 'id')::INTEGER;
+
+    IF TG_TABLE_NAME = 'entry' THEN
+        row_employee_id := COALESCE(new_row ->> 'employee_id', old_row ->> 'employee_id')::INTEGER;
+    ELSE
+        row_employee_id := row_id;
+    END IF;
+
+    -- Alteração sem mudança real (ex.: apenas updated_at) não é registrada
+    IF TG_OP = 'UPDATE' AND (old_row - 'updated_at') = (new_row - 'updated_at') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Nome de quem alterou: funcionário vinculado, senão o e-mail da sessão
+    IF actor IS NOT NULL THEN
+        SELECT COALESCE(emp.real_name, emp.name) INTO actor_label
+        FROM public.employee emp
+        WHERE emp.auth_user_id = actor;
+
+        actor_label := COALESCE(actor_label, auth.jwt() ->> 'email');
+    END IF;
+
+    INSERT INTO public.entry_audit (
+        table_name, record_id, employee_id, action, old_data, new_data, actor_id, actor_name
+    ) VALUES (
+        TG_TABLE_NAME, row_id, row_employee_id, TG_OP, old_row, new_row, actor, COALESCE(actor_label, 'Sistema')
+    );
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- 3. Triggers em entry e employee
+CREATE TRIGGER audit_entry_changes
+    AFTER INSERT OR UPDATE OR DELETE ON public.entry
+    FOR EACH ROW
+    EXECUTE FUNCTION public.audit_row_change();
+
+CREATE TRIGGER audit_employee_changes
+    AFTER INSERT OR UPDATE OR DELETE ON public.employee
+    FOR EACH ROW
+    EXECUTE FUNCTION public.audit_row_change();
+
+-- 4. RLS: somente leitura; admin vê tudo, funcionário vê o histórico dos próprios dados
+ALTER TABLE public.entry_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read entry_audit" ON public.entry_audit
+    FOR SELECT TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Employees read own entry_audit" ON public.entry_audit
+    FOR SELECT TO authenticated
+    USING (employee_id = (SELECT public.auth_employee_id()));
+
+REVOKE ALL ON public.entry_audit FROM anon;
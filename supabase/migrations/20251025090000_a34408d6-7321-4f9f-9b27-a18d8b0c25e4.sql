@@ -0,0 +1,28 @@
+-- CONSULTA DE REGISTROS NO SERVIDOR
+-- A tela Registros passa a paginar, ordenar e filtrar no banco, inclusive por
+-- nome do funcionário e busca textual, sem carregar tudo no navegador
+
+-- 1. Registros com o nome do funcionário e um texto de busca normalizado
+-- security_invoker: o RLS de entry/employee continua valendo para quem consulta
+CREATE OR REPLACE VIEW public.entry_with_employee
+WITH (security_invoker = true)
+AS
+SELECT
+    e.id,
+    e.employee_id,
+    e.date,
+    e.refinery,
+    e.points,
+    e.observations,
+    e.created_at,
+    e.updated_at,
+    emp.real_name AS employee_name,
+    lower(concat_ws(' ', emp.real_name, e.refinery, e.observations)) AS search_text
+FROM public.entry e
+LEFT JOIN public.employee emp ON emp.id = e.employee_id;
+
+GRANT SELECT ON public.entry_with_employee TO authenticated;
+
+-- 2. Índices para os filtros e ordenações mais comuns
+CREATE INDEX IF NOT EXISTS idx_entry_refinery_date ON public.entry(refinery, date);
+CREATE INDEX IF NOT EXISTS idx_entry_points ON public.entry(points);
@@ -0,0 +1,54 @@
+-- METAS POR FUNCIONÁRIO E CICLO
+-- Substitui as regras fixas no código (E89P: 535/2675/10500, demais: 475/2375/9500,
+-- equipe: 29500) por metas cadastradas pelo admin.
+-- Uma meta vale a partir do ciclo informado (id "YYYY-MM", mês de referência do
+-- ciclo) até a próxima meta cadastrada para o mesmo funcionário.
+
+-- 1. Tabela de metas
+CREATE TABLE IF NOT EXISTS public.goal (
+    id SERIAL PRIMARY KEY,
+    employee_id INTEGER NOT NULL REFERENCES public.employee(id) ON DELETE CASCADE,
+    cycle_id TEXT NOT NULL CHECK (cycle_id ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+    daily_goal INTEGER NOT NULL CHECK (daily_goal >= 0),
+    weekly_goal INTEGER NOT NULL CHECK (weekly_goal >= 0),
+    monthly_goal INTEGER NOT NULL CHECK (monthly_goal >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (employee_id, cycle_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_goal_employee_cycle ON public.goal (employee_id, cycle_id DESC);
+
+-- 2. Metas atuais como ponto de partida, válidas desde o primeiro registro de cada funcionário
+INSERT INTO public.goal (employee_id, cycle_id, daily_goal, weekly_goal, monthly_goal)
+SELECT
+    e.id,
+    COALESCE(
+        (SELECT to_char(MIN(en.date), 'YYYY-MM') FROM public.entry en WHERE en.employee_id = e.id),
+        to_char(now(), 'YYYY-MM')
+    ),
+    CASE WHEN e.username = 'E89P' THEN 535 ELSE 475 END,
+    COALESCE(NULLIF(e.weekly_goal, 0), CASE WHEN e.username = 'E89P' THEN 2675 ELSE 2375 END),
+    CASE WHEN e.username = 'E89P' THEN 10500 ELSE 9500 END
+FROM public.employee e
+ON CONFLICT (employee_id, cycle_id) DO NOTHING;
+
+-- 3. RLS: admin gerencia; funcionário lê apenas as próprias metas
+ALTER TABLE public.goal ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage goal" ON public.goal
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Employees read own goals" ON public.goal
+    FOR SELECT TO authenticated
+    USING (employee_id = (SELECT public.auth_employee_id()));
+
+REVOKE ALL ON public.goal FROM anon;
+
+-- 4. Trigger para updated_at
+CREATE TRIGGER update_goal_updated_at
+    BEFORE UPDATE ON public.goal
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,91 @@
+-- ADMINISTRAÇÃO DE FUNCIONÁRIOS
+-- Cadastro e edição pela tela Admin → Funcionários.
+-- Funcionários não são excluídos: a desativação mantém registros, metas e auditoria.
+-- A chave de acesso continua ilegível para o cliente; ela só é exibida uma vez,
+-- no retorno de regenerate_access_key (admin).
+
+-- 1. Desativação
+ALTER TABLE public.employee
+    ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (active, deactivated_at) ON public.employee TO authenticated;
+
+-- 2. Gerador de chaves (10 caracteres, sem 0/O/1/I para evitar confusão na digitação)
+CREATE OR REPLACE FUNCTION public.generate_access_key()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = public, extensions
+AS $$
+DECLARE
+    alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    random_bytes BYTEA;
+    new_key TEXT;
+BEGIN
+    LOOP
+        random_bytes := gen_random_bytes(10);
+        new_key := '';
+        FOR i IN 0..9 LOOP
+            new_key := new_key || substr(alphabet, (get_byte(random_bytes, i) % length(alphabet)) + 1, 1);
+        END LOOP;
+
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM public.employee WHERE lower(access_key) = lower(new_key));
+    END LOOP;
+
+    RETURN new_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_access_key() FROM PUBLIC, anon, authenticated;
+
+-- Novos funcionários recebem uma chave que ninguém conhece até ser regenerada
+ALTER TABLE public.employee
+    ALTER COLUMN access_key SET DEFAULT public.generate_access_key();
+
+-- 3. Nova chave de acesso (apenas admin); a chave anterior deixa de funcionar
+CREATE OR REPLACE FUNCTION public.regenerate_access_key(p_employee_id INTEGER)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_key TEXT;
+BEGIN
+    IF public.auth_role() IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Apenas administradores podem gerar chaves de acesso'
+            USING ERRCODE = '42501';
+    END IF;
+
+    new_key := public.generate_access_key();
+
+    UPDATE public.employee
+    SET access_key = new_key
+    WHERE id = p_employee_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Funcionário % não encontrado', p_employee_id;
+    END IF;
+
+    RETURN new_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.regenerate_access_key(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.regenerate_access_key(INTEGER) TO authenticated;
+
+-- 4. Funcionário desativado não registra pontos, mesmo com uma sessão ainda válida
+DROP POLICY IF EXISTS "Employees insert own entries" ON public.entry;
+
+CREATE POLICY "Employees insert own entries" ON public.entry
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        employee_id = (SELECT public.auth_employee_id())
+        AND EXISTS (
+            SELECT 1 FROM public.employee
+            WHERE id = (SELECT public.auth_employee_id()) AND active
+        )
+    );
+
+CREATE INDEX IF NOT EXISTS idx_employee_active ON public.employee(active);
@@ -0,0 +1,69 @@
+-- COR DE CADA FUNCIONÁRIO NOS GRÁFICOS
+-- A cor deixa de ficar fixa no código (quatro nomes) e passa a ser do cadastro.
+-- Funcionários sem cor recebem uma cor livre da paleta automática no cliente
+-- (RosterService), e a tela de funcionários grava a cor sugerida no cadastro.
+
+-- 1. Coluna de cor (#RRGGBB)
+ALTER TABLE public.employee
+    ADD COLUMN IF NOT EXISTS color TEXT CHECK (color ~ '^#[0-9a-fA-F]{6}$');
+
+GRANT SELECT (color) ON public.employee TO authenticated;
+
+-- 2. Cores que já eram usadas nos gráficos
+UPDATE public.employee SET color = '#8b5cf6' WHERE real_name = 'Rodrigo' AND color IS NULL;
+UPDATE public.employee SET color = '#f59e0b' WHERE real_name = 'Maurício' AND color IS NULL;
+UPDATE public.employee SET color = '#10b981' WHERE real_name = 'Matheus' AND color IS NULL;
+UPDATE public.employee SET color = '#ef4444' WHERE real_name = 'Wesley' AND color IS NULL;
+
+-- 3. Funcionários nos gráficos: ativos e os desativados que têm pontos nos períodos pedidos
+-- (um funcionário desativado some dos gráficos e da meta da equipe a partir dos ciclos sem registros)
+CREATE OR REPLACE FUNCTION public.get_points_by_period(periods JSONB)
+RETURNS TABLE (
+    period_key TEXT,
+    employee_id INTEGER,
+    real_name TEXT,
+    points BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH tz AS (
+        SELECT COALESCE(
+            (SELECT timezone FROM public.cycle_config ORDER BY id LIMIT 1),
+            'America/Sao_Paulo'
+        ) AS name
+    ),
+    bounds AS (
+        SELECT
+            p.key,
+            (p.start_date::TIMESTAMP AT TIME ZONE tz.name) AS from_ts,
+            ((p.end_date + 1)::TIMESTAMP AT TIME ZONE tz.name) AS to_ts
+        FROM jsonb_to_recordset(periods) AS p(key TEXT, start_date DATE, end_date DATE)
+        CROSS JOIN tz
+    ),
+    roster AS (
+        SELECT emp.id, emp.real_name
+        FROM public.employee emp
+        WHERE emp.active
+           OR EXISTS (
+               SELECT 1
+               FROM public.entry e
+               JOIN bounds b ON e.date >= b.from_ts AND e.date < b.to_ts
+               WHERE e.employee_id = emp.id
+           )
+    )
+    SELECT
+        b.key,
+        r.id,
+        r.real_name,
+        COALESCE(SUM(e.points), 0)::BIGINT
+    FROM bounds b
+    CROSS JOIN roster r
+    LEFT JOIN public.entry e
+        ON e.employee_id = r.id
+       AND e.date >= b.from_ts
+       AND e.date < b.to_ts
+    GROUP BY b.key, r.id, r.real_name
+    ORDER BY b.key, r.real_name;
+$$;
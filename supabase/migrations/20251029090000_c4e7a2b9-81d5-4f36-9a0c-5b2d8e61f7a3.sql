@@ -0,0 +1,140 @@
+-- CATÁLOGO DE REFINARIAS
+-- A lista fixa no código (RPBC, REVAP, ...) passa a ser a tabela refineries,
+-- gerenciada pela tela Admin → Refinarias. entry.refinery_id referencia o catálogo;
+-- entry.refinery continua existindo com o nome da refinaria, mantido pelo banco,
+-- para buscas, exportações e histórico.
+
+-- 1. Nome único (sem diferenciar maiúsculas)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refineries_name_upper ON public.refineries (upper(name));
+
+-- 2. Refinarias que eram fixas no código e nomes já usados em registros e cadastros
+INSERT INTO public.refineries (name, active)
+SELECT name, true
+FROM (
+    VALUES ('RPBC'), ('REVAP'), ('REPAR'), ('REFAP'), ('REMAN'),
+           ('REDUC'), ('REGAP'), ('RELAN'), ('RNEST')
+    UNION
+    SELECT DISTINCT upper(btrim(refinery)) FROM public.entry WHERE btrim(COALESCE(refinery, '')) <> ''
+    UNION
+    SELECT DISTINCT upper(btrim(default_refinery)) FROM public.employee WHERE btrim(COALESCE(default_refinery, '')) <> ''
+) AS names(name)
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.refineries r WHERE upper(r.name) = names.name
+);
+
+UPDATE public.refineries SET active = true WHERE active IS NULL;
+ALTER TABLE public.refineries
+    ALTER COLUMN active SET DEFAULT true,
+    ALTER COLUMN active SET NOT NULL;
+
+-- 3. Referência do registro para o catálogo, preenchida pelos nomes atuais
+-- (preenchimento técnico: sem auditoria e sem alterar updated_at)
+ALTER TABLE public.entry
+    ADD COLUMN IF NOT EXISTS refinery_id INTEGER REFERENCES public.refineries(id);
+
+ALTER TABLE public.entry DISABLE TRIGGER audit_entry_changes;
+ALTER TABLE public.entry DISABLE TRIGGER update_entry_updated_at;
+ALTER TABLE public.employee DISABLE TRIGGER audit_employee_changes;
+ALTER TABLE public.employee DISABLE TRIGGER update_employee_updated_at;
+
+UPDATE public.entry e
+SET refinery_id = r.id,
+    refinery = r.name
+FROM public.refineries r
+WHERE e.refinery_id IS NULL
+  AND upper(btrim(e.refinery)) = upper(r.name);
+
+UPDATE public.employee emp
+SET default_refinery = r.name
+FROM public.refineries r
+WHERE upper(btrim(emp.default_refinery)) = upper(r.name)
+  AND emp.default_refinery IS DISTINCT FROM r.name;
+
+ALTER TABLE public.entry ENABLE TRIGGER audit_entry_changes;
+ALTER TABLE public.entry ENABLE TRIGGER update_entry_updated_at;
+ALTER TABLE public.employee ENABLE TRIGGER audit_employee_changes;
+ALTER TABLE public.employee ENABLE TRIGGER update_employee_updated_at;
+
+CREATE INDEX IF NOT EXISTS idx_entry_refinery_id ON public.entry(refinery_id);
+
+-- 4. refinery_id e refinery sempre consistentes: o cliente pode enviar qualquer um dos dois
+CREATE OR REPLACE FUNCTION public.sync_entry_refinery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND NEW.refinery_id IS NOT DISTINCT FROM OLD.refinery_id
+       AND NEW.refinery IS DISTINCT FROM OLD.refinery THEN
+        -- Apenas o nome mudou: procurar a refinaria pelo nome
+        NEW.refinery_id := NULL;
+    END IF;
+
+    IF NEW.refinery_id IS NOT NULL THEN
+        SELECT name INTO NEW.refinery FROM public.refineries WHERE id = NEW.refinery_id;
+    ELSIF btrim(COALESCE(NEW.refinery, '')) <> '' THEN
+        SELECT id, name INTO NEW.refinery_id, NEW.refinery
+        FROM public.refineries
+        WHERE upper(name) = upper(btrim(NEW.refinery));
+
+        IF NEW.refinery_id IS NULL THEN
+            RAISE EXCEPTION 'Refinaria "%" não cadastrada', btrim(NEW.refinery)
+                USING ERRCODE = '23503';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_entry_refinery
+    BEFORE INSERT OR UPDATE OF refinery, refinery_id ON public.entry
+    FOR EACH ROW
+    EXECUTE FUNCTION public.sync_entry_refinery();
+
+-- 5. Renomear uma refinaria atualiza o nome nos registros e cadastros
+CREATE OR REPLACE FUNCTION public.propagate_refinery_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.entry SET refinery = NEW.name WHERE refinery_id = NEW.id;
+    UPDATE public.employee SET default_refinery = NEW.name WHERE default_refinery = OLD.name;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER propagate_refinery_name
+    AFTER UPDATE OF name ON public.refineries
+    FOR EACH ROW
+    WHEN (OLD.name IS DISTINCT FROM NEW.name)
+    EXECUTE FUNCTION public.propagate_refinery_name();
+
+-- 6. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_refineries_updated_at ON public.refineries;
+CREATE TRIGGER update_refineries_updated_at
+    BEFORE UPDATE ON public.refineries
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 7. Consulta de registros com o id da refinaria (coluna nova no fim da view)
+CREATE OR REPLACE VIEW public.entry_with_employee
+WITH (security_invoker = true)
+AS
+SELECT
+    e.id,
+    e.employee_id,
+    e.date,
+    e.refinery,
+    e.points,
+    e.observations,
+    e.created_at,
+    e.updated_at,
+    emp.real_name AS employee_name,
+    lower(concat_ws(' ', emp.real_name, e.refinery, e.observations)) AS search_text,
+    e.refinery_id
+FROM public.entry e
+LEFT JOIN public.employee emp ON emp.id = e.employee_id;
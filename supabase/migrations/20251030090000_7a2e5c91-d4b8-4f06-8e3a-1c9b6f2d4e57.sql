@@ -0,0 +1,52 @@
+-- TIPO DE VÍNCULO DOS FUNCIONÁRIOS
+-- A média da equipe deixava de fora "Rodrigo" pelo nome, por ser freelancer.
+-- Agora cada funcionário tem um vínculo (CLT, freelancer, temporário) e a tabela
+-- employment_type_rule define, por vínculo, quem entra na média da equipe,
+-- na meta da equipe e no destaque (melhor desempenho).
+
+-- 1. Vínculo do funcionário
+ALTER TABLE public.employee
+    ADD COLUMN IF NOT EXISTS employment_type TEXT NOT NULL DEFAULT 'clt'
+        CHECK (employment_type IN ('clt', 'freelancer', 'temporary'));
+
+GRANT SELECT (employment_type) ON public.employee TO authenticated;
+
+UPDATE public.employee SET employment_type = 'freelancer' WHERE real_name = 'Rodrigo';
+
+-- 2. Regra por vínculo
+CREATE TABLE IF NOT EXISTS public.employment_type_rule (
+    employment_type TEXT PRIMARY KEY CHECK (employment_type IN ('clt', 'freelancer', 'temporary')),
+    in_team_average BOOLEAN NOT NULL DEFAULT true,
+    in_team_goal BOOLEAN NOT NULL DEFAULT true,
+    in_leaderboard BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- 3. Regra atual: freelancers fora da média da equipe; meta da equipe e destaque incluem todos
+INSERT INTO public.employment_type_rule (employment_type, in_team_average, in_team_goal, in_leaderboard)
+VALUES
+    ('clt', true, true, true),
+    ('freelancer', false, true, true),
+    ('temporary', true, true, true)
+ON CONFLICT (employment_type) DO NOTHING;
+
+-- 4. RLS: leitura para usuários autenticados, alterações apenas admin
+ALTER TABLE public.employment_type_rule ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated read employment_type_rule" ON public.employment_type_rule
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins manage employment_type_rule" ON public.employment_type_rule
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+REVOKE ALL ON public.employment_type_rule FROM anon;
+
+-- 5. Trigger para updated_at
+CREATE TRIGGER update_employment_type_rule_updated_at
+    BEFORE UPDATE ON public.employment_type_rule
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,121 @@
+-- VALOR DO PONTO COM VIGÊNCIA
+-- O valor de R$ 3,25 por ponto ficava fixo no código; quando o contrato mudava,
+-- todos os meses anteriores eram recalculados com o valor novo.
+-- Agora cada valor tem data de início de vigência e, opcionalmente, uma refinaria.
+-- Cada registro é valorizado pelo valor em vigor na sua data (dia no fuso da empresa):
+-- o valor da refinaria do registro, se houver, senão o valor geral.
+
+-- 1. Tabela de valores
+CREATE TABLE IF NOT EXISTS public.point_rate (
+    id SERIAL PRIMARY KEY,
+    effective_from DATE NOT NULL,
+    refinery_id INTEGER REFERENCES public.refineries(id) ON DELETE CASCADE,
+    value NUMERIC(10, 4) NOT NULL CHECK (value >= 0),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Um valor por data de início e refinaria (NULL = geral)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_point_rate_effective
+    ON public.point_rate (COALESCE(refinery_id, 0), effective_from);
+
+-- 2. Valor atual do contrato, vigente desde o início
+INSERT INTO public.point_rate (effective_from, refinery_id, value, notes)
+SELECT DATE '2000-01-01', NULL, 3.25, 'Valor original do contrato'
+WHERE NOT EXISTS (SELECT 1 FROM public.point_rate);
+
+-- 3. Valor em vigor em uma data (refinaria específica primeiro, depois o geral; 0 sem valor)
+CREATE OR REPLACE FUNCTION public.point_rate_at(p_date DATE, p_refinery_id INTEGER DEFAULT NULL)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT value FROM public.point_rate
+         WHERE refinery_id = p_refinery_id AND effective_from <= p_date
+         ORDER BY effective_from DESC LIMIT 1),
+        (SELECT value FROM public.point_rate
+         WHERE refinery_id IS NULL AND effective_from <= p_date
+         ORDER BY effective_from DESC LIMIT 1),
+        0
+    );
+$$;
+
+-- 4. Pontos por período passam a trazer também o valor em reais
+-- (o tipo de retorno muda, então a função é recriada)
+DROP FUNCTION IF EXISTS public.get_points_by_period(JSONB);
+
+CREATE FUNCTION public.get_points_by_period(periods JSONB)
+RETURNS TABLE (
+    period_key TEXT,
+    employee_id INTEGER,
+    real_name TEXT,
+    points BIGINT,
+    value NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH tz AS (
+        SELECT COALESCE(
+            (SELECT timezone FROM public.cycle_config ORDER BY id LIMIT 1),
+            'America/Sao_Paulo'
+        ) AS name
+    ),
+    bounds AS (
+        SELECT
+            p.key,
+            (p.start_date::TIMESTAMP AT TIME ZONE tz.name) AS from_ts,
+            ((p.end_date + 1)::TIMESTAMP AT TIME ZONE tz.name) AS to_ts
+        FROM jsonb_to_recordset(periods) AS p(key TEXT, start_date DATE, end_date DATE)
+        CROSS JOIN tz
+    ),
+    roster AS (
+        SELECT emp.id, emp.real_name
+        FROM public.employee emp
+        WHERE emp.active
+           OR EXISTS (
+               SELECT 1
+               FROM public.entry e
+               JOIN bounds b ON e.date >= b.from_ts AND e.date < b.to_ts
+               WHERE e.employee_id = emp.id
+           )
+    )
+    SELECT
+        b.key,
+        r.id,
+        r.real_name,
+        COALESCE(SUM(e.points), 0)::BIGINT,
+        COALESCE(SUM(e.points * public.point_rate_at(public.business_date(e.date), e.refinery_id)), 0)::NUMERIC(14, 2)
+    FROM bounds b
+    CROSS JOIN roster r
+    LEFT JOIN public.entry e
+        ON e.employee_id = r.id
+       AND e.date >= b.from_ts
+       AND e.date < b.to_ts
+    GROUP BY b.key, r.id, r.real_name
+    ORDER BY b.key, r.real_name;
+$$;
+
+-- 5. RLS: leitura para usuários autenticados, alterações apenas admin
+ALTER TABLE public.point_rate ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated read point_rate" ON public.point_rate
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins manage point_rate" ON public.point_rate
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+REVOKE ALL ON public.point_rate FROM anon;
+
+-- 6. Trigger para updated_at
+CREATE TRIGGER update_point_rate_updated_at
+    BEFORE UPDATE ON public.point_rate
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
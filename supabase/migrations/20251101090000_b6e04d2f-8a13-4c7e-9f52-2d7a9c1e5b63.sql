@@ -0,0 +1,30 @@
+-- FAIXAS DE BÔNUS DO FECHAMENTO
+-- O fechamento do ciclo (Admin → Fechamento) lista pontos, atingimento da meta mensal
+-- e o valor dos pontos de cada funcionário. Quem atinge o percentual mínimo de uma
+-- faixa recebe o bônus fixo dela (vale a maior faixa atingida).
+
+-- 1. Tabela de faixas
+CREATE TABLE IF NOT EXISTS public.bonus_tier (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    min_attainment NUMERIC(6, 2) NOT NULL UNIQUE CHECK (min_attainment >= 0),
+    bonus_value NUMERIC(12, 2) NOT NULL CHECK (bonus_value >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- 2. RLS: valores de pagamento, apenas admin
+ALTER TABLE public.bonus_tier ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage bonus_tier" ON public.bonus_tier
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+REVOKE ALL ON public.bonus_tier FROM anon;
+
+-- 3. Trigger para updated_at
+CREATE TRIGGER update_bonus_tier_updated_at
+    BEFORE UPDATE ON public.bonus_tier
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,40 @@
+-- CALENDÁRIO DE DIAS ÚTEIS
+-- Metas diária, semanal e mensal passam a ser proporcionais aos dias úteis do
+-- período: fins de semana, feriados nacionais (calculados no app) e folgas da
+-- empresa (tabela day_off, tela Admin → Calendário) não contam.
+
+-- 1. Dias da semana trabalhados (0 = domingo ... 6 = sábado) e quantos dias úteis
+-- a meta mensal cadastrada representa (475 pontos/dia x 20 dias = 9500)
+ALTER TABLE public.cycle_config
+    ADD COLUMN IF NOT EXISTS working_weekdays INTEGER[] NOT NULL DEFAULT '{1,2,3,4,5}',
+    ADD COLUMN IF NOT EXISTS reference_working_days INTEGER NOT NULL DEFAULT 20
+        CHECK (reference_working_days BETWEEN 1 AND 31);
+
+-- 2. Folgas da empresa (emendas, recessos, feriados locais)
+CREATE TABLE IF NOT EXISTS public.day_off (
+    id SERIAL PRIMARY KEY,
+    date DATE NOT NULL UNIQUE,
+    name TEXT NOT NULL CHECK (btrim(name) <> ''),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- 3. RLS: funcionários leem (meta do dia no painel), apenas admin altera
+ALTER TABLE public.day_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated read day_off" ON public.day_off
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins manage day_off" ON public.day_off
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+REVOKE ALL ON public.day_off FROM anon;
+
+-- 4. Trigger para updated_at
+CREATE TRIGGER update_day_off_updated_at
+    BEFORE UPDATE ON public.day_off
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,74 @@
+-- AUSÊNCIAS E AFASTAMENTOS
+-- Férias, atestados, treinamentos e outras ausências com período de datas.
+-- O funcionário solicita (status 'pending') e o admin aprova ou recusa; ausências
+-- aprovadas reduzem as metas do período (dias úteis ausentes não contam).
+
+-- 1. Tabela de ausências
+CREATE TABLE IF NOT EXISTS public.absence (
+    id SERIAL PRIMARY KEY,
+    employee_id INTEGER NOT NULL REFERENCES public.employee(id),
+    type TEXT NOT NULL CHECK (type IN ('vacation', 'sick_leave', 'training', 'other')),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    reason TEXT,
+    review_notes TEXT,
+    reviewed_by UUID,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CONSTRAINT absence_period_check CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_absence_employee_period ON public.absence (employee_id, start_date, end_date);
+
+-- 2. Quem decidiu e quando: preenchido pelo banco ao aprovar/recusar
+CREATE OR REPLACE FUNCTION public.set_absence_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'pending' THEN
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+    ELSIF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_absence_review
+    BEFORE INSERT OR UPDATE ON public.absence
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_absence_review();
+
+-- 3. RLS: admin gerencia; funcionário lê as próprias, solicita e cancela enquanto pendente
+ALTER TABLE public.absence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins manage absence" ON public.absence
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Employees read own absences" ON public.absence
+    FOR SELECT TO authenticated
+    USING (employee_id = (SELECT public.auth_employee_id()));
+
+CREATE POLICY "Employees request own absences" ON public.absence
+    FOR INSERT TO authenticated
+    WITH CHECK (employee_id = (SELECT public.auth_employee_id()) AND status = 'pending');
+
+CREATE POLICY "Employees cancel own pending absences" ON public.absence
+    FOR DELETE TO authenticated
+    USING (employee_id = (SELECT public.auth_employee_id()) AND status = 'pending');
+
+REVOKE ALL ON public.absence FROM anon;
+
+-- 4. Trigger para updated_at
+CREATE TRIGGER update_absence_updated_at
+    BEFORE UPDATE ON public.absence
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
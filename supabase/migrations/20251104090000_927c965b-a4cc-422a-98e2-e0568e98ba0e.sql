@@ -0,0 +1,137 @@
+-- APROVAÇÃO DE REGISTROS
+-- Registros de pontos passam a ter status: o funcionário registra ('pending') e o
+-- admin aprova ou recusa com um motivo. Só pontos aprovados contam nas somas
+-- (get_points_by_period, metas, gráficos e fechamento).
+-- Registros anteriores a esta migração são considerados aprovados.
+
+-- 1. Colunas de revisão (existentes entram como aprovados; novos começam pendentes)
+ALTER TABLE public.entry
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'approved'
+        CHECK (status IN ('pending', 'approved', 'rejected')),
+    ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+    ADD COLUMN IF NOT EXISTS reviewed_by UUID,
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.entry ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_entry_status_date ON public.entry(status, date);
+
+-- 2. Quem decidiu e quando: preenchido pelo banco ao aprovar/recusar
+-- (o motivo só é mantido para registros recusados)
+CREATE OR REPLACE FUNCTION public.set_entry_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status <> 'rejected' THEN
+        NEW.rejection_reason := NULL;
+    END IF;
+
+    IF NEW.status = 'pending' THEN
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+    ELSIF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_entry_review
+    BEFORE INSERT OR UPDATE OF status, rejection_reason ON public.entry
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_entry_review();
+
+-- 3. Funcionário só registra pontos pendentes (a aprovação é sempre do admin)
+DROP POLICY IF EXISTS "Employees insert own entries" ON public.entry;
+
+CREATE POLICY "Employees insert own entries" ON public.entry
+    FOR INSERT TO authenticated
+    WITH CHECK (
+        employee_id = (SELECT public.auth_employee_id())
+        AND status = 'pending'
+        AND EXISTS (
+            SELECT 1 FROM public.employee
+            WHERE id = (SELECT public.auth_employee_id()) AND active
+        )
+    );
+
+-- 4. Pontos por período contam apenas registros aprovados
+CREATE OR REPLACE FUNCTION public.get_points_by_period(periods JSONB)
+RETURNS TABLE (
+    period_key TEXT,
+    employee_id INTEGER,
+    real_name TEXT,
+    points BIGINT,
+    value NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH tz AS (
+        SELECT COALESCE(
+            (SELECT timezone FROM public.cycle_config ORDER BY id LIMIT 1),
+            'America/Sao_Paulo'
+        ) AS name
+    ),
+    bounds AS (
+        SELECT
+            p.key,
+            (p.start_date::TIMESTAMP AT TIME ZONE tz.name) AS from_ts,
+            ((p.end_date + 1)::TIMESTAMP AT TIME ZONE tz.name) AS to_ts
+        FROM jsonb_to_recordset(periods) AS p(key TEXT, start_date DATE, end_date DATE)
+        CROSS JOIN tz
+    ),
+    roster AS (
+        SELECT emp.id, emp.real_name
+        FROM public.employee emp
+        WHERE emp.active
+           OR EXISTS (
+               SELECT 1
+               FROM public.entry e
+               JOIN bounds b ON e.date >= b.from_ts AND e.date < b.to_ts
+               WHERE e.employee_id = emp.id
+                 AND e.status = 'approved'
+           )
+    )
+    SELECT
+        b.key,
+        r.id,
+        r.real_name,
+        COALESCE(SUM(e.points), 0)::BIGINT,
+        COALESCE(SUM(e.points * public.point_rate_at(public.business_date(e.date), e.refinery_id)), 0)::NUMERIC(14, 2)
+    FROM bounds b
+    CROSS JOIN roster r
+    LEFT JOIN public.entry e
+        ON e.employee_id = r.id
+       AND e.date >= b.from_ts
+       AND e.date < b.to_ts
+       AND e.status = 'approved'
+    GROUP BY b.key, r.id, r.real_name
+    ORDER BY b.key, r.real_name;
+$$;
+
+-- 5. Consulta de registros com status e motivo da recusa (colunas novas no fim da view)
+CREATE OR REPLACE VIEW public.entry_with_employee
+WITH (security_invoker = true)
+AS
+SELECT
+    e.id,
+    e.employee_id,
+    e.date,
+    e.refinery,
+    e.points,
+    e.observations,
+    e.created_at,
+    e.updated_at,
+    emp.real_name AS employee_name,
+    lower(concat_ws(' ', emp.real_name, e.refinery, e.observations)) AS search_text,
+    e.refinery_id,
+    e.status,
+    e.rejection_reason,
+    e.reviewed_at
+FROM public.entry e
+LEFT JOIN public.employee emp ON emp.id = e.employee_id;
@@ -0,0 +1,151 @@
+-- VALIDAÇÃO DE REGISTROS NO BANCO
+-- O formulário só verificava campos vazios: pontos negativos, erros de digitação
+-- (99999 pontos) e o mesmo registro enviado duas vezes por clique duplo entravam.
+-- As regras ficam na tabela entry_rule (uma linha ativa), lida também pelo cliente
+-- para montar o schema do formulário (EntryRuleService), e são aplicadas pelo
+-- trigger validate_entry. Cada erro leva em HINT a regra violada, que o cliente
+-- associa ao campo do formulário.
+
+-- 1. Regras de registro
+CREATE TABLE IF NOT EXISTS public.entry_rule (
+    id SERIAL PRIMARY KEY,
+    min_points INTEGER NOT NULL DEFAULT 1 CHECK (min_points >= 0),
+    max_points INTEGER NOT NULL DEFAULT 2000,
+    daily_max_points INTEGER NOT NULL DEFAULT 3000,
+    duplicate_window_seconds INTEGER NOT NULL DEFAULT 120 CHECK (duplicate_window_seconds >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    CONSTRAINT entry_rule_points_check CHECK (max_points >= min_points AND daily_max_points >= max_points)
+);
+
+INSERT INTO public.entry_rule (min_points, max_points, daily_max_points, duplicate_window_seconds)
+SELECT 1, 2000, 3000, 120
+WHERE NOT EXISTS (SELECT 1 FROM public.entry_rule);
+
+-- 2. Pontos nunca negativos (registros antigos não são verificados)
+ALTER TABLE public.entry
+    ADD CONSTRAINT entry_points_non_negative CHECK (points >= 0) NOT VALID;
+
+-- 3. Suspeita de duplicidade: mesmo funcionário, dia, refinaria e pontos de outro
+-- registro não recusado. O registro entra, marcado para a revisão do admin.
+ALTER TABLE public.entry
+    ADD COLUMN IF NOT EXISTS duplicate_suspect BOOLEAN NOT NULL DEFAULT false;
+
+-- 4. Validação (roda depois de sync_entry_refinery, que preenche refinery_id)
+CREATE OR REPLACE FUNCTION public.validate_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    rule public.entry_rule%ROWTYPE;
+    day_points BIGINT;
+BEGIN
+    SELECT * INTO rule FROM public.entry_rule ORDER BY id LIMIT 1;
+
+    IF rule.id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.points IS DISTINCT FROM OLD.points) THEN
+        IF NEW.points < rule.min_points OR NEW.points > rule.max_points THEN
+            RAISE EXCEPTION 'Os pontos devem estar entre % e % por registro', rule.min_points, rule.max_points
+                USING ERRCODE = '23514', HINT = 'points_range';
+        END IF;
+    END IF;
+
+    IF NEW.date > now() + INTERVAL '5 minutes'
+       AND (TG_OP = 'INSERT' OR NEW.date IS DISTINCT FROM OLD.date) THEN
+        RAISE EXCEPTION 'A data do registro não pode estar no futuro'
+            USING ERRCODE = '23514', HINT = 'future_date';
+    END IF;
+
+    IF NEW.status <> 'rejected' THEN
+        IF rule.id IS NOT NULL THEN
+            SELECT COALESCE(SUM(points), 0) INTO day_points
+            FROM public.entry
+            WHERE employee_id = NEW.employee_id
+              AND status <> 'rejected'
+              AND id IS DISTINCT FROM NEW.id
+              AND public.business_date(date) = public.business_date(NEW.date);
+
+            IF day_points + NEW.points > rule.daily_max_points
+               AND (TG_OP = 'INSERT' OR NEW.points > OLD.points OR NEW.date IS DISTINCT FROM OLD.date
+                    OR NEW.employee_id IS DISTINCT FROM OLD.employee_id) THEN
+                RAISE EXCEPTION 'Limite diário de % pontos excedido (% já registrados no dia)', rule.daily_max_points, day_points
+                    USING ERRCODE = '23514', HINT = 'daily_cap';
+            END IF;
+
+            -- Clique duplo: o mesmo registro enviado de novo em poucos segundos
+            IF TG_OP = 'INSERT' AND EXISTS (
+                SELECT 1 FROM public.entry
+                WHERE employee_id = NEW.employee_id
+                  AND status <> 'rejected'
+                  AND refinery_id IS NOT DISTINCT FROM NEW.refinery_id
+                  AND points = NEW.points
+                  AND date BETWEEN NEW.date - make_interval(secs => rule.duplicate_window_seconds)
+                               AND NEW.date + make_interval(secs => rule.duplicate_window_seconds)
+            ) THEN
+                RAISE EXCEPTION 'Registro idêntico enviado há poucos instantes'
+                    USING ERRCODE = '23505', HINT = 'duplicate';
+            END IF;
+        END IF;
+
+        NEW.duplicate_suspect := EXISTS (
+            SELECT 1 FROM public.entry
+            WHERE employee_id = NEW.employee_id
+              AND status <> 'rejected'
+              AND id IS DISTINCT FROM NEW.id
+              AND refinery_id IS NOT DISTINCT FROM NEW.refinery_id
+              AND points = NEW.points
+              AND public.business_date(date) = public.business_date(NEW.date)
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_entry
+    BEFORE INSERT OR UPDATE OF employee_id, date, refinery, refinery_id, points, status ON public.entry
+    FOR EACH ROW
+    EXECUTE FUNCTION public.validate_entry();
+
+-- 5. Consulta de registros com a suspeita de duplicidade (coluna nova no fim da view)
+CREATE OR REPLACE VIEW public.entry_with_employee
+WITH (security_invoker = true)
+AS
+SELECT
+    e.id,
+    e.employee_id,
+    e.date,
+    e.refinery,
+    e.points,
+    e.observations,
+    e.created_at,
+    e.updated_at,
+    emp.real_name AS employee_name,
+    lower(concat_ws(' ', emp.real_name, e.refinery, e.observations)) AS search_text,
+    e.refinery_id,
+    e.status,
+    e.rejection_reason,
+    e.reviewed_at,
+    e.duplicate_suspect
+FROM public.entry e
+LEFT JOIN public.employee emp ON emp.id = e.employee_id;
+
+-- 6. RLS: leitura para usuários autenticados, alterações apenas admin
+ALTER TABLE public.entry_rule ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated read entry_rule" ON public.entry_rule
+    FOR SELECT TO authenticated
+    USING (true);
+
+CREATE POLICY "Admins manage entry_rule" ON public.entry_rule
+    FOR ALL TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin')
+    WITH CHECK ((SELECT public.auth_role()) = 'admin');
+
+REVOKE ALL ON public.entry_rule FROM anon;
+
+-- 7. Trigger para updated_at
+CREATE TRIGGER update_entry_rule_updated_at
+    BEFORE UPDATE ON public.entry_rule
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,156 @@
+-- REGISTROS RETROATIVOS
+-- O registro do funcionário sempre usava "agora", então quem esqueceu o trabalho
+-- de ontem não conseguia lançá-lo no dia certo. O funcionário passa a escolher
+-- data e horário dentro de uma janela (entry_rule.backdate_grace_days, padrão 3
+-- dias), nunca antes do início do ciclo atual: ciclos anteriores já estão fechados.
+-- Registros retroativos ficam marcados para o admin e o atraso entre o lançamento
+-- (created_at) e a data do registro fica guardado em minutos.
+
+-- 1. Janela de registro retroativo (dias antes de hoje; 0 = só hoje)
+ALTER TABLE public.entry_rule
+    ADD COLUMN IF NOT EXISTS backdate_grace_days INTEGER NOT NULL DEFAULT 3 CHECK (backdate_grace_days >= 0);
+
+-- 2. Marcação e atraso do lançamento
+ALTER TABLE public.entry
+    ADD COLUMN IF NOT EXISTS backdated BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN IF NOT EXISTS lateness_minutes INTEGER NOT NULL DEFAULT 0;
+
+-- Registros existentes: atraso calculado a partir do created_at
+UPDATE public.entry
+SET lateness_minutes = GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (created_at - date)) / 60))::INTEGER,
+    backdated = public.business_date(date) < public.business_date(created_at)
+WHERE created_at IS NOT NULL;
+
+-- 3. Início do ciclo que contém o dia (mesma regra do CycleCalendarService)
+CREATE OR REPLACE FUNCTION public.cycle_start(d DATE)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN c.start_day <= 1 THEN date_trunc('month', d)::DATE
+        WHEN EXTRACT(DAY FROM d) >= c.start_day THEN (date_trunc('month', d) + (c.start_day - 1) * INTERVAL '1 day')::DATE
+        ELSE (date_trunc('month', d) - INTERVAL '1 month' + (c.start_day - 1) * INTERVAL '1 day')::DATE
+    END
+    FROM (
+        SELECT COALESCE((SELECT start_day FROM public.cycle_config ORDER BY id LIMIT 1), 26) AS start_day
+    ) c;
+$$;
+
+-- 4. Validação com a janela retroativa (admins continuam livres para corrigir datas)
+CREATE OR REPLACE FUNCTION public.validate_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    rule public.entry_rule%ROWTYPE;
+    day_points BIGINT;
+    entry_day DATE;
+    today DATE;
+BEGIN
+    SELECT * INTO rule FROM public.entry_rule ORDER BY id LIMIT 1;
+    entry_day := public.business_date(NEW.date);
+    today := public.business_date(now());
+
+    IF rule.id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.points IS DISTINCT FROM OLD.points) THEN
+        IF NEW.points < rule.min_points OR NEW.points > rule.max_points THEN
+            RAISE EXCEPTION 'Os pontos devem estar entre % e % por registro', rule.min_points, rule.max_points
+                USING ERRCODE = '23514', HINT = 'points_range';
+        END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.date IS DISTINCT FROM OLD.date THEN
+        IF NEW.date > now() + INTERVAL '5 minutes' THEN
+            RAISE EXCEPTION 'A data do registro não pode estar no futuro'
+                USING ERRCODE = '23514', HINT = 'future_date';
+        END IF;
+
+        IF (SELECT public.auth_role()) IS DISTINCT FROM 'admin' THEN
+            IF entry_day < public.cycle_start(today) THEN
+                RAISE EXCEPTION 'O ciclo desta data já foi fechado'
+                    USING ERRCODE = '23514', HINT = 'closed_cycle';
+            END IF;
+
+            IF rule.id IS NOT NULL AND entry_day < today - rule.backdate_grace_days THEN
+                RAISE EXCEPTION 'Registros retroativos são aceitos só até % dias atrás', rule.backdate_grace_days
+                    USING ERRCODE = '23514', HINT = 'backdate_window';
+            END IF;
+        END IF;
+
+        -- Atraso do lançamento em relação à data do registro
+        NEW.lateness_minutes := GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (COALESCE(NEW.created_at, now()) - NEW.date)) / 60))::INTEGER;
+        NEW.backdated := entry_day < public.business_date(COALESCE(NEW.created_at, now()));
+    END IF;
+
+    IF NEW.status <> 'rejected' THEN
+        IF rule.id IS NOT NULL THEN
+            SELECT COALESCE(SUM(points), 0) INTO day_points
+            FROM public.entry
+            WHERE employee_id = NEW.employee_id
+              AND status <> 'rejected'
+              AND id IS DISTINCT FROM NEW.id
+              AND public.business_date(date) = entry_day;
+
+            IF day_points + NEW.points > rule.daily_max_points
+               AND (TG_OP = 'INSERT' OR NEW.points > OLD.points OR NEW.date IS DISTINCT FROM OLD.date
+                    OR NEW.employee_id IS DISTINCT FROM OLD.employee_id) THEN
+                RAISE EXCEPTION 'Limite diário de % pontos excedido (% já registrados no dia)', rule.daily_max_points, day_points
+                    USING ERRCODE = '23514', HINT = 'daily_cap';
+            END IF;
+
+            -- Clique duplo: o mesmo registro enviado de novo em poucos segundos
+            IF TG_OP = 'INSERT' AND EXISTS (
+                SELECT 1 FROM public.entry
+                WHERE employee_id = NEW.employee_id
+                  AND status <> 'rejected'
+                  AND refinery_id IS NOT DISTINCT FROM NEW.refinery_id
+                  AND points = NEW.points
+                  AND date BETWEEN NEW.date - make_interval(secs => rule.duplicate_window_seconds)
+                               AND NEW.date + make_interval(secs => rule.duplicate_window_seconds)
+            ) THEN
+                RAISE EXCEPTION 'Registro idêntico enviado há poucos instantes'
+                    USING ERRCODE = '23505', HINT = 'duplicate';
+            END IF;
+        END IF;
+
+        NEW.duplicate_suspect := EXISTS (
+            SELECT 1 FROM public.entry
+            WHERE employee_id = NEW.employee_id
+              AND status <> 'rejected'
+              AND id IS DISTINCT FROM NEW.id
+              AND refinery_id IS NOT DISTINCT FROM NEW.refinery_id
+              AND points = NEW.points
+              AND public.business_date(date) = entry_day
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 5. Consulta de registros com a marcação retroativa (colunas novas no fim da view)
+CREATE OR REPLACE VIEW public.entry_with_employee
+WITH (security_invoker = true)
+AS
+SELECT
+    e.id,
+    e.employee_id,
+    e.date,
+    e.refinery,
+    e.points,
+    e.observations,
+    e.created_at,
+    e.updated_at,
+    emp.real_name AS employee_name,
+    lower(concat_ws(' ', emp.real_name, e.refinery, e.observations)) AS search_text,
+    e.refinery_id,
+    e.status,
+    e.rejection_reason,
+    e.reviewed_at,
+    e.duplicate_suspect,
+    e.backdated,
+    e.lateness_minutes
+FROM public.entry e
+LEFT JOIN public.employee emp ON emp.id = e.employee_id;
@@ -0,0 +1,339 @@
+-- FECHAMENTO DE CICLO
+-- A tabela month_reset (herdada do sistema antigo) passa a registrar o fechamento
+-- de cada ciclo 26→25: com o ciclo fechado, o banco recusa inclusões, alterações
+-- e exclusões de registros no período, e o fechamento guarda em cycle_summary os
+-- totais e metas de cada funcionário naquele momento. Reabrir exige um motivo e
+-- fica registrado na própria linha (quem, quando e por quê); fechar de novo cria
+-- uma nova linha, então o histórico de fechamentos é mantido.
+-- Fechar e reabrir só pelas funções close_cycle/reopen_cycle (admin).
+
+-- 1. Fechamentos: ciclo, período e quem fechou/reabriu
+-- Linhas antigas (sem cycle_id) não bloqueiam nada
+ALTER TABLE public.month_reset
+    ADD COLUMN IF NOT EXISTS cycle_id TEXT,
+    ADD COLUMN IF NOT EXISTS cycle_start DATE,
+    ADD COLUMN IF NOT EXISTS cycle_end DATE,
+    ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    ADD COLUMN IF NOT EXISTS closed_by UUID,
+    ADD COLUMN IF NOT EXISTS closed_by_name TEXT,
+    ADD COLUMN IF NOT EXISTS reopened_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS reopened_by UUID,
+    ADD COLUMN IF NOT EXISTS reopened_by_name TEXT,
+    ADD COLUMN IF NOT EXISTS reopen_reason TEXT;
+
+-- Um fechamento vigente por ciclo
+CREATE UNIQUE INDEX IF NOT EXISTS idx_month_reset_open_cycle
+    ON public.month_reset(cycle_id)
+    WHERE cycle_id IS NOT NULL AND reopened_at IS NULL;
+
+-- 2. Totais e metas de cada funcionário no fechamento
+CREATE TABLE IF NOT EXISTS public.cycle_summary (
+    id SERIAL PRIMARY KEY,
+    closing_id INTEGER NOT NULL REFERENCES public.month_reset(id) ON DELETE CASCADE,
+    cycle_id TEXT NOT NULL,
+    employee_id INTEGER NOT NULL REFERENCES public.employee(id),
+    employee_name TEXT NOT NULL,
+    employment_type TEXT NOT NULL DEFAULT 'clt',
+    week_points INTEGER[] NOT NULL DEFAULT '{}',
+    points INTEGER NOT NULL DEFAULT 0,
+    value NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    monthly_goal INTEGER NOT NULL DEFAULT 0,
+    absent_days INTEGER NOT NULL DEFAULT 0,
+    attainment NUMERIC(7, 2) NOT NULL DEFAULT 0,
+    bonus_tier TEXT,
+    bonus_value NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    UNIQUE (closing_id, employee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cycle_summary_employee ON public.cycle_summary(employee_id, cycle_id);
+
+-- 3. Dia dentro de um ciclo fechado
+CREATE OR REPLACE FUNCTION public.is_date_closed(d DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.month_reset
+        WHERE cycle_id IS NOT NULL
+          AND reopened_at IS NULL
+          AND d BETWEEN cycle_start AND cycle_end
+    );
+$$;
+
+-- 4. Bloqueio dos registros de ciclos fechados (vale também para admins)
+-- A troca do nome da refinaria (propagate_refinery_name) continua liberada
+CREATE OR REPLACE FUNCTION public.lock_closed_cycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    closed_day DATE;
+BEGIN
+    IF TG_OP = 'UPDATE'
+       AND (to_jsonb(NEW) - 'refinery' - 'updated_at') = (to_jsonb(OLD) - 'refinery' - 'updated_at') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP <> 'INSERT' AND public.is_date_closed(public.business_date(OLD.date)) THEN
+        closed_day := public.business_date(OLD.date);
+    ELSIF TG_OP <> 'DELETE' AND public.is_date_closed(public.business_date(NEW.date)) THEN
+        closed_day := public.business_date(NEW.date);
+    END IF;
+
+    IF closed_day IS NOT NULL THEN
+        RAISE EXCEPTION 'O ciclo de % está fechado', to_char(closed_day, 'DD/MM/YYYY')
+            USING ERRCODE = '55000', HINT = 'closed_cycle';
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER lock_closed_cycle
+    BEFORE INSERT OR UPDATE OR DELETE ON public.entry
+    FOR EACH ROW
+    EXECUTE FUNCTION public.lock_closed_cycle();
+
+-- 5. Validação: o limite de "ciclos anteriores" do registro retroativo dá lugar
+-- ao fechamento explícito (o funcionário pode lançar o dia 25 antes do fechamento)
+CREATE OR REPLACE FUNCTION public.validate_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    rule public.entry_rule%ROWTYPE;
+    day_points BIGINT;
+    entry_day DATE;
+    today DATE;
+BEGIN
+    SELECT * INTO rule FROM public.entry_rule ORDER BY id LIMIT 1;
+    entry_day := public.business_date(NEW.date);
+    today := public.business_date(now());
+
+    IF rule.id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.points IS DISTINCT FROM OLD.points) THEN
+        IF NEW.points < rule.min_points OR NEW.points > rule.max_points THEN
+            RAISE EXCEPTION 'Os pontos devem estar entre % e % por registro', rule.min_points, rule.max_points
+                USING ERRCODE = '23514', HINT = 'points_range';
+        END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.date IS DISTINCT FROM OLD.date THEN
+        IF NEW.date > now() + INTERVAL '5 minutes' THEN
+            RAISE EXCEPTION 'A data do registro não pode estar no futuro'
+                USING ERRCODE = '23514', HINT = 'future_date';
+        END IF;
+
+        IF rule.id IS NOT NULL AND (SELECT public.auth_role()) IS DISTINCT FROM 'admin'
+           AND entry_day < today - rule.backdate_grace_days THEN
+            RAISE EXCEPTION 'Registros retroativos são aceitos só até % dias atrás', rule.backdate_grace_days
+                USING ERRCODE = '23514', HINT = 'backdate_window';
+        END IF;
+
+        -- Atraso do lançamento em relação à data do registro
+        NEW.lateness_minutes := GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (COALESCE(NEW.created_at, now()) - NEW.date)) / 60))::INTEGER;
+        NEW.backdated := entry_day < public.business_date(COALESCE(NEW.created_at, now()));
+    END IF;
+
+    IF NEW.status <> 'rejected' THEN
+        IF rule.id IS NOT NULL THEN
+            SELECT COALESCE(SUM(points), 0) INTO day_points
+            FROM public.entry
+            WHERE employee_id = NEW.employee_id
+              AND status <> 'rejected'
+              AND id IS DISTINCT FROM NEW.id
+              AND public.business_date(date) = entry_day;
+
+            IF day_points + NEW.points > rule.daily_max_points
+               AND (TG_OP = 'INSERT' OR NEW.points > OLD.points OR NEW.date IS DISTINCT FROM OLD.date
+                    OR NEW.employee_id IS DISTINCT FROM OLD.employee_id) THEN
+                RAISE EXCEPTION 'Limite diário de % pontos excedido (% já registrados no dia)', rule.daily_max_points, day_points
+                    USING ERRCODE = '23514', HINT = 'daily_cap';
+            END IF;
+
+            -- Clique duplo: o mesmo registro enviado de novo em poucos segundos
+            IF TG_OP = 'INSERT' AND EXISTS (
+                SELECT 1 FROM public.entry
+                WHERE employee_id = NEW.employee_id
+                  AND status <> 'rejected'
+                  AND refinery_id IS NOT DISTINCT FROM NEW.refinery_id
+                  AND points = NEW.points
+                  AND date BETWEEN NEW.date - make_interval(secs => rule.duplicate_window_seconds)
+                               AND NEW.date + make_interval(secs => rule.duplicate_window_seconds)
+            ) THEN
+                RAISE EXCEPTION 'Registro idêntico enviado há poucos instantes'
+                    USING ERRCODE = '23505', HINT = 'duplicate';
+            END IF;
+        END IF;
+
+        NEW.duplicate_suspect := EXISTS (
+            SELECT 1 FROM public.entry
+            WHERE employee_id = NEW.employee_id
+              AND status <> 'rejected'
+              AND id IS DISTINCT FROM NEW.id
+              AND refinery_id IS NOT DISTINCT FROM NEW.refinery_id
+              AND points = NEW.points
+              AND public.business_date(date) = entry_day
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- 6. Fechar o ciclo com os totais calculados pelo Fechamento (PayrollService)
+-- p_summary: [{ employee_id, employee_name, employment_type, week_points, points, value,
+--               monthly_goal, absent_days, attainment, bonus_tier, bonus_value, total }]
+CREATE OR REPLACE FUNCTION public.close_cycle(p_cycle_id TEXT, p_start DATE, p_end DATE, p_summary JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    closing_id INTEGER;
+    pending_count INTEGER;
+    actor_label TEXT;
+BEGIN
+    IF (SELECT public.auth_role()) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Apenas administradores podem fechar ciclos'
+            USING ERRCODE = '42501';
+    END IF;
+
+    -- O período precisa ser exatamente um ciclo do calendário, já terminado
+    IF public.cycle_start(p_start) <> p_start
+       OR public.cycle_start(p_end) <> p_start
+       OR public.cycle_start(p_end + 1) <> p_end + 1 THEN
+        RAISE EXCEPTION 'Período % a % não corresponde a um ciclo', p_start, p_end
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_end >= public.business_date(now()) THEN
+        RAISE EXCEPTION 'O ciclo só pode ser fechado depois do dia %', to_char(p_end, 'DD/MM/YYYY')
+            USING ERRCODE = '55000', HINT = 'cycle_not_ended';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.month_reset
+        WHERE cycle_id = p_cycle_id AND reopened_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'O ciclo já está fechado'
+            USING ERRCODE = '55000', HINT = 'already_closed';
+    END IF;
+
+    -- Registros pendentes ficariam congelados sem revisão
+    SELECT COUNT(*) INTO pending_count
+    FROM public.entry
+    WHERE status = 'pending'
+      AND public.business_date(date) BETWEEN p_start AND p_end;
+
+    IF pending_count > 0 THEN
+        RAISE EXCEPTION 'Há % registros pendentes de aprovação no ciclo', pending_count
+            USING ERRCODE = '55000', HINT = 'pending_entries';
+    END IF;
+
+    SELECT COALESCE(emp.real_name, emp.name) INTO actor_label
+    FROM public.employee emp
+    WHERE emp.auth_user_id = auth.uid();
+
+    INSERT INTO public.month_reset (reset_date, cycle_id, cycle_start, cycle_end, closed_by, closed_by_name)
+    VALUES (
+        public.business_date(now()), p_cycle_id, p_start, p_end,
+        auth.uid(), COALESCE(actor_label, auth.jwt() ->> 'email', 'Sistema')
+    )
+    RETURNING id INTO closing_id;
+
+    INSERT INTO public.cycle_summary (
+        closing_id, cycle_id, employee_id, employee_name, employment_type, week_points, points,
+        value, monthly_goal, absent_days, attainment, bonus_tier, bonus_value, total
+    )
+    SELECT
+        closing_id, p_cycle_id, s.employee_id, s.employee_name, COALESCE(s.employment_type, 'clt'),
+        COALESCE(s.week_points, '{}'), s.points, s.value, s.monthly_goal, s.absent_days,
+        s.attainment, s.bonus_tier, s.bonus_value, s.total
+    FROM jsonb_to_recordset(COALESCE(p_summary, '[]'::JSONB)) AS s(
+        employee_id INTEGER,
+        employee_name TEXT,
+        employment_type TEXT,
+        week_points INTEGER[],
+        points INTEGER,
+        value NUMERIC,
+        monthly_goal INTEGER,
+        absent_days INTEGER,
+        attainment NUMERIC,
+        bonus_tier TEXT,
+        bonus_value NUMERIC,
+        total NUMERIC
+    );
+
+    RETURN closing_id;
+END;
+$$;
+
+-- 7. Reabrir o ciclo (motivo obrigatório; o fechamento e seus totais ficam no histórico)
+CREATE OR REPLACE FUNCTION public.reopen_cycle(p_cycle_id TEXT, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    actor_label TEXT;
+BEGIN
+    IF (SELECT public.auth_role()) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Apenas administradores podem reabrir ciclos'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF COALESCE(btrim(p_reason), '') = '' THEN
+        RAISE EXCEPTION 'Informe o motivo da reabertura'
+            USING ERRCODE = '22023', HINT = 'reason_required';
+    END IF;
+
+    SELECT COALESCE(emp.real_name, emp.name) INTO actor_label
+    FROM public.employee emp
+    WHERE emp.auth_user_id = auth.uid();
+
+    UPDATE public.month_reset
+    SET reopened_at = now(),
+        reopened_by = auth.uid(),
+        reopened_by_name = COALESCE(actor_label, auth.jwt() ->> 'email', 'Sistema'),
+        reopen_reason = btrim(p_reason)
+    WHERE cycle_id = p_cycle_id AND reopened_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'O ciclo não está fechado'
+            USING ERRCODE = '55000', HINT = 'not_closed';
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_cycle(TEXT, DATE, DATE, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reopen_cycle(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_cycle(TEXT, DATE, DATE, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reopen_cycle(TEXT, TEXT) TO authenticated;
+
+-- 8. RLS: todos leem os fechamentos (cadeado nos seletores de ciclo);
+-- alterações só pelas funções acima. Cada funcionário lê os próprios totais.
+DROP POLICY IF EXISTS "Admins manage month_reset" ON public.month_reset;
+
+CREATE POLICY "Authenticated read month_reset" ON public.month_reset
+    FOR SELECT TO authenticated
+    USING (true);
+
+ALTER TABLE public.cycle_summary ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read cycle_summary" ON public.cycle_summary
+    FOR SELECT TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin');
+
+CREATE POLICY "Employees read own cycle_summary" ON public.cycle_summary
+    FOR SELECT TO authenticated
+    USING (employee_id = (SELECT public.auth_employee_id()));
+
+REVOKE ALL ON public.cycle_summary FROM anon;
@@ -0,0 +1,161 @@
+-- IMPORTAÇÃO DE PLANILHAS
+-- As planilhas antigas (uma por funcionário, colunas Data/Pontos/Refinaria) eram
+-- só lidas para estatísticas em memória. O assistente de importação (Admin →
+-- Importar) envia as linhas validadas para import_entries, que grava tudo em uma
+-- única transação: registros aprovados, marcados com o lote da importação, e
+-- ignorando linhas que já existem (mesmo funcionário, dia, refinaria e pontos).
+-- Um lote pode ser desfeito com rollback_import.
+
+-- 1. Lotes de importação
+CREATE TABLE IF NOT EXISTS public.import_batch (
+    id SERIAL PRIMARY KEY,
+    file_names TEXT[] NOT NULL DEFAULT '{}',
+    row_count INTEGER NOT NULL DEFAULT 0,      -- linhas enviadas
+    inserted_count INTEGER NOT NULL DEFAULT 0, -- registros criados
+    skipped_count INTEGER NOT NULL DEFAULT 0,  -- linhas já existentes (ou repetidas no lote)
+    created_by UUID,
+    created_by_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+    rolled_back_at TIMESTAMP WITH TIME ZONE,
+    rolled_back_by UUID,
+    rolled_back_by_name TEXT
+);
+
+-- 2. Lote de origem do registro (NULL = registrado pelo sistema)
+ALTER TABLE public.entry
+    ADD COLUMN IF NOT EXISTS import_batch_id INTEGER REFERENCES public.import_batch(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_entry_import_batch ON public.entry(import_batch_id)
+    WHERE import_batch_id IS NOT NULL;
+
+-- 3. Importar as linhas em uma transação
+-- p_rows: [{ employee_id, date, refinery_id, points, observations }]
+-- Qualquer erro (ciclo fechado, limite diário, refinaria inexistente) desfaz a importação inteira
+CREATE OR REPLACE FUNCTION public.import_entries(p_file_names TEXT[], p_rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    batch_id INTEGER;
+    total_rows INTEGER;
+    inserted_rows INTEGER;
+    actor_label TEXT;
+BEGIN
+    IF (SELECT public.auth_role()) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Apenas administradores podem importar registros'
+            USING ERRCODE = '42501';
+    END IF;
+
+    total_rows := jsonb_array_length(COALESCE(p_rows, '[]'::JSONB));
+    IF total_rows = 0 THEN
+        RAISE EXCEPTION 'Nenhuma linha para importar'
+            USING ERRCODE = '22023', HINT = 'empty_import';
+    END IF;
+
+    SELECT COALESCE(emp.real_name, emp.name) INTO actor_label
+    FROM public.employee emp
+    WHERE emp.auth_user_id = auth.uid();
+
+    INSERT INTO public.import_batch (file_names, row_count, created_by, created_by_name)
+    VALUES (COALESCE(p_file_names, '{}'), total_rows, auth.uid(), COALESCE(actor_label, auth.jwt() ->> 'email', 'Sistema'))
+    RETURNING id INTO batch_id;
+
+    -- Linhas repetidas no próprio lote entram uma vez só
+    WITH incoming AS (
+        SELECT DISTINCT ON (r.employee_id, public.business_date(r.date), r.refinery_id, r.points)
+            r.employee_id, r.date, r.refinery_id, r.points, r.observations
+        FROM jsonb_to_recordset(p_rows) AS r(
+            employee_id INTEGER,
+            date TIMESTAMP WITH TIME ZONE,
+            refinery_id INTEGER,
+            points INTEGER,
+            observations TEXT
+        )
+        ORDER BY r.employee_id, public.business_date(r.date), r.refinery_id, r.points, r.date
+    )
+    INSERT INTO public.entry (employee_id, date, refinery, refinery_id, points, observations, status, import_batch_id)
+    SELECT
+        i.employee_id, i.date, ref.name, i.refinery_id, i.points,
+        COALESCE(NULLIF(btrim(i.observations), ''), 'Importado de planilha'), 'approved', batch_id
+    FROM incoming i
+    JOIN public.refineries ref ON ref.id = i.refinery_id
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.entry e
+        WHERE e.employee_id = i.employee_id
+          AND e.status <> 'rejected'
+          AND e.refinery_id IS NOT DISTINCT FROM i.refinery_id
+          AND e.points = i.points
+          AND public.business_date(e.date) = public.business_date(i.date)
+    );
+
+    GET DIAGNOSTICS inserted_rows = ROW_COUNT;
+
+    UPDATE public.import_batch
+    SET inserted_count = inserted_rows,
+        skipped_count = total_rows - inserted_rows
+    WHERE id = batch_id;
+
+    RETURN jsonb_build_object(
+        'batch_id', batch_id,
+        'inserted', inserted_rows,
+        'skipped', total_rows - inserted_rows
+    );
+END;
+$$;
+
+-- 4. Desfazer um lote (exclui os registros criados por ele; a auditoria guarda as exclusões)
+CREATE OR REPLACE FUNCTION public.rollback_import(p_batch_id INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    deleted_rows INTEGER;
+    actor_label TEXT;
+BEGIN
+    IF (SELECT public.auth_role()) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Apenas administradores podem desfazer importações'
+            USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.import_batch
+        WHERE id = p_batch_id AND rolled_back_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'Importação não encontrada ou já desfeita'
+            USING ERRCODE = '55000', HINT = 'not_found';
+    END IF;
+
+    DELETE FROM public.entry WHERE import_batch_id = p_batch_id;
+    GET DIAGNOSTICS deleted_rows = ROW_COUNT;
+
+    SELECT COALESCE(emp.real_name, emp.name) INTO actor_label
+    FROM public.employee emp
+    WHERE emp.auth_user_id = auth.uid();
+
+    UPDATE public.import_batch
+    SET rolled_back_at = now(),
+        rolled_back_by = auth.uid(),
+        rolled_back_by_name = COALESCE(actor_label, auth.jwt() ->> 'email', 'Sistema')
+    WHERE id = p_batch_id;
+
+    RETURN deleted_rows;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_entries(TEXT[], JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.rollback_import(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_entries(TEXT[], JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_import(INTEGER) TO authenticated;
+
+-- 5. RLS: somente leitura para admins; gravações só pelas funções acima
+ALTER TABLE public.import_batch ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins read import_batch" ON public.import_batch
+    FOR SELECT TO authenticated
+    USING ((SELECT public.auth_role()) = 'admin');
+
+REVOKE ALL ON public.import_batch FROM anon;
@@ -0,0 +1,37 @@
+-- CHAVE DE ACESSO NO CADASTRO DE FUNCIONÁRIOS
+-- O default de employee.access_key é avaliado com o papel de quem insere: o admin,
+-- na tela Admin → Funcionários, insere como authenticated. O gerador passa a rodar
+-- como dono (SECURITY DEFINER) para conferir as chaves existentes, coluna que o
+-- cliente não lê, e pode ser executado por authenticated. Nenhuma chave existente
+-- é devolvida: a função só gera uma chave nova e ainda não usada.
+
+-- 1. Gerador de chaves como SECURITY DEFINER
+CREATE OR REPLACE FUNCTION public.generate_access_key()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    alphabet CONSTANT TEXT := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+    random_bytes BYTEA;
+    new_key TEXT;
+BEGIN
+    LOOP
+        random_bytes := gen_random_bytes(10);
+        new_key := '';
+        FOR i IN 0..9 LOOP
+            new_key := new_key || substr(alphabet, (get_byte(random_bytes, i) % length(alphabet)) + 1, 1);
+        END LOOP;
+
+        EXIT WHEN NOT EXISTS (SELECT 1 FROM public.employee WHERE lower(access_key) = lower(new_key));
+    END LOOP;
+
+    RETURN new_key;
+END;
+$$;
+
+-- 2. O default da coluna precisa da permissão de quem insere
+REVOKE EXECUTE ON FUNCTION public.generate_access_key() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.generate_access_key() TO authenticated;
@@ -0,0 +1,131 @@
+-- FECHAMENTO COM TOTAIS DO BANCO
+-- close_cycle gravava em cycle_summary os pontos e valores enviados pelo cliente.
+-- Agora pontos e valor de cada funcionário saem dos registros aprovados do ciclo
+-- (get_points_by_period de p_start a p_end). Do cliente vêm só as entradas de meta
+-- e bônus (meta mensal, faltas, faixa e valor do bônus) e a divisão por semana.
+-- Um resumo cujos pontos não batem com o banco (registro aprovado ou excluído
+-- depois de o Fechamento ser carregado) é recusado com HINT summary_mismatch.
+
+-- 1. Fechar o ciclo conferindo os totais com os registros aprovados
+-- p_summary: [{ employee_id, employment_type, week_points, points,
+--               monthly_goal, absent_days, bonus_tier, bonus_value }]
+CREATE OR REPLACE FUNCTION public.close_cycle(p_cycle_id TEXT, p_start DATE, p_end DATE, p_summary JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    closing_id INTEGER;
+    pending_count INTEGER;
+    mismatch_count INTEGER;
+    actor_label TEXT;
+BEGIN
+    IF (SELECT public.auth_role()) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Apenas administradores podem fechar ciclos'
+            USING ERRCODE = '42501';
+    END IF;
+
+    -- O período precisa ser exatamente um ciclo do calendário, já terminado
+    IF public.cycle_start(p_start) <> p_start
+       OR public.cycle_start(p_end) <> p_start
+       OR public.cycle_start(p_end + 1) <> p_end + 1 THEN
+        RAISE EXCEPTION 'Período % a % não corresponde a um ciclo', p_start, p_end
+            USING ERRCODE = '22023';
+    END IF;
+
+    IF p_end >= public.business_date(now()) THEN
+        RAISE EXCEPTION 'O ciclo só pode ser fechado depois do dia %', to_char(p_end, 'DD/MM/YYYY')
+            USING ERRCODE = '55000', HINT = 'cycle_not_ended';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.month_reset
+        WHERE cycle_id = p_cycle_id AND reopened_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'O ciclo já está fechado'
+            USING ERRCODE = '55000', HINT = 'already_closed';
+    END IF;
+
+    -- Registros pendentes ficariam congelados sem revisão
+    SELECT COUNT(*) INTO pending_count
+    FROM public.entry
+    WHERE status = 'pending'
+      AND public.business_date(date) BETWEEN p_start AND p_end;
+
+    IF pending_count > 0 THEN
+        RAISE EXCEPTION 'Há % registros pendentes de aprovação no ciclo', pending_count
+            USING ERRCODE = '55000', HINT = 'pending_entries';
+    END IF;
+
+    -- Cada funcionário com pontos no ciclo aparece uma vez, com os mesmos pontos do banco,
+    -- e a soma das semanas fecha com o total
+    WITH totals AS (
+        SELECT p.employee_id, p.points
+        FROM public.get_points_by_period(jsonb_build_array(jsonb_build_object(
+            'key', p_cycle_id, 'start_date', p_start, 'end_date', p_end
+        ))) AS p
+    ),
+    summary AS (
+        SELECT
+            (item ->> 'employee_id')::INTEGER AS employee_id,
+            (item ->> 'points')::BIGINT AS points,
+            (SELECT COALESCE(SUM(week::BIGINT), 0)
+             FROM jsonb_array_elements_text(COALESCE(item -> 'week_points', '[]'::JSONB)) AS week) AS week_total
+        FROM jsonb_array_elements(COALESCE(p_summary, '[]'::JSONB)) AS item
+    )
+    SELECT COUNT(*) INTO mismatch_count
+    FROM totals t
+    FULL JOIN summary s ON s.employee_id = t.employee_id
+    WHERE t.employee_id IS NULL
+       OR s.employee_id IS NULL
+       OR s.points IS DISTINCT FROM t.points
+       OR s.week_total <> t.points;
+
+    IF mismatch_count > 0 THEN
+        RAISE EXCEPTION 'Os pontos do Fechamento não conferem com os registros aprovados; recarregue a página e tente de novo'
+            USING ERRCODE = '22023', HINT = 'summary_mismatch';
+    END IF;
+
+    SELECT COALESCE(emp.real_name, emp.name) INTO actor_label
+    FROM public.employee emp
+    WHERE emp.auth_user_id = auth.uid();
+
+    INSERT INTO public.month_reset (reset_date, cycle_id, cycle_start, cycle_end, closed_by, closed_by_name)
+    VALUES (
+        public.business_date(now()), p_cycle_id, p_start, p_end,
+        auth.uid(), COALESCE(actor_label, auth.jwt() ->> 'email', 'Sistema')
+    )
+    RETURNING id INTO closing_id;
+
+    -- Pontos, valor, atingimento e total calculados aqui; meta e bônus vêm do cliente
+    INSERT INTO public.cycle_summary (
+        closing_id, cycle_id, employee_id, employee_name, employment_type, week_points, points,
+        value, monthly_goal, absent_days, attainment, bonus_tier, bonus_value, total
+    )
+    SELECT
+        closing_id, p_cycle_id, t.employee_id, t.real_name, COALESCE(s.employment_type, 'clt'),
+        COALESCE(s.week_points, '{}'), t.points, t.value, COALESCE(s.monthly_goal, 0),
+        COALESCE(s.absent_days, 0),
+        CASE WHEN COALESCE(s.monthly_goal, 0) = 0 THEN 0
+             ELSE round(t.points * 100.0 / s.monthly_goal, 1) END,
+        s.bonus_tier, COALESCE(s.bonus_value, 0), t.value + COALESCE(s.bonus_value, 0)
+    FROM public.get_points_by_period(jsonb_build_array(jsonb_build_object(
+        'key', p_cycle_id, 'start_date', p_start, 'end_date', p_end
+    ))) AS t
+    JOIN jsonb_to_recordset(COALESCE(p_summary, '[]'::JSONB)) AS s(
+        employee_id INTEGER,
+        employment_type TEXT,
+        week_points INTEGER[],
+        monthly_goal INTEGER,
+        absent_days INTEGER,
+        bonus_tier TEXT,
+        bonus_value NUMERIC
+    ) ON s.employee_id = t.employee_id;
+
+    RETURN closing_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.close_cycle(TEXT, DATE, DATE, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_cycle(TEXT, DATE, DATE, JSONB) TO authenticated;
@@ -0,0 +1,95 @@
+-- REGISTROS SIMULTÂNEOS DO MESMO FUNCIONÁRIO
+-- validate_entry confere o limite diário, o registro idêntico em poucos segundos e
+-- a suspeita de duplicidade lendo entry sem trava. Em READ COMMITTED, dois inserts
+-- simultâneos (clique duplo) não enxergam um ao outro: os dois passam no limite e
+-- nenhum é marcado. A trava por funcionário, no início do trigger, faz os registros
+-- do mesmo funcionário serem validados um depois do outro até o fim da transação.
+
+-- 1. Validação com trava por funcionário
+CREATE OR REPLACE FUNCTION public.validate_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    rule public.entry_rule%ROWTYPE;
+    day_points BIGINT;
+    entry_day DATE;
+    today DATE;
+BEGIN
+    -- Registros do mesmo funcionário são validados em fila
+    PERFORM pg_advisory_xact_lock(NEW.employee_id);
+
+    SELECT * INTO rule FROM public.entry_rule ORDER BY id LIMIT 1;
+    entry_day := public.business_date(NEW.date);
+    today := public.business_date(now());
+
+    IF rule.id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.points IS DISTINCT FROM OLD.points) THEN
+        IF NEW.points < rule.min_points OR NEW.points > rule.max_points THEN
+            RAISE EXCEPTION 'Os pontos devem estar entre % e % por registro', rule.min_points, rule.max_points
+                USING ERRCODE = '23514', HINT = 'points_range';
+        END IF;
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.date IS DISTINCT FROM OLD.date THEN
+        IF NEW.date > now() + INTERVAL '5 minutes' THEN
+            RAISE EXCEPTION 'A data do registro não pode estar no futuro'
+                USING ERRCODE = '23514', HINT = 'future_date';
+        END IF;
+
+        IF rule.id IS NOT NULL AND (SELECT public.auth_role()) IS DISTINCT FROM 'admin'
+           AND entry_day < today - rule.backdate_grace_days THEN
+            RAISE EXCEPTION 'Registros retroativos são aceitos só até % dias atrás', rule.backdate_grace_days
+                USING ERRCODE = '23514', HINT = 'backdate_window';
+        END IF;
+
+        -- Atraso do lançamento em relação à data do registro
+        NEW.lateness_minutes := GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (COALESCE(NEW.created_at, now()) - NEW.date)) / 60))::INTEGER;
+        NEW.backdated := entry_day < public.business_date(COALESCE(NEW.created_at, now()));
+    END IF;
+
+    IF NEW.status <> 'rejected' THEN
+        IF rule.id IS NOT NULL THEN
+            SELECT COALESCE(SUM(points), 0) INTO day_points
+            FROM public.entry
+            WHERE employee_id = NEW.employee_id
+              AND status <> 'rejected'
+              AND id IS DISTINCT FROM NEW.id
+              AND public.business_date(date) = entry_day;
+
+            IF day_points + NEW.points > rule.daily_max_points
+               AND (TG_OP = 'INSERT' OR NEW.points > OLD.points OR NEW.date IS DISTINCT FROM OLD.date
+                    OR NEW.employee_id IS DISTINCT FROM OLD.employee_id) THEN
+                RAISE EXCEPTION 'Limite diário de % pontos excedido (% já registrados no dia)', rule.daily_max_points, day_points
+                    USING ERRCODE = '23514', HINT = 'daily_cap';
+            END IF;
+
+            -- Clique duplo: o mesmo registro enviado de novo em poucos segundos
+            IF TG_OP = 'INSERT' AND EXISTS (
+                SELECT 1 FROM public.entry
+                WHERE employee_id = NEW.employee_id
+                  AND status <> 'rejected'
+                  AND refinery_id IS NOT DISTINCT FROM NEW.refinery_id
+                  AND points = NEW.points
+                  AND date BETWEEN NEW.date - make_interval(secs => rule.duplicate_window_seconds)
+                               AND NEW.date + make_interval(secs => rule.duplicate_window_seconds)
+            ) THEN
+                RAISE EXCEPTION 'Registro idêntico enviado há poucos instantes'
+                    USING ERRCODE = '23505', HINT = 'duplicate';
+            END IF;
+        END IF;
+
+        NEW.duplicate_suspect := EXISTS (
+            SELECT 1 FROM public.entry
+            WHERE employee_id = NEW.employee_id
+              AND status <> 'rejected'
+              AND id IS DISTINCT FROM NEW.id
+              AND refinery_id IS NOT DISTINCT FROM NEW.refinery_id
+              AND points = NEW.points
+              AND public.business_date(date) = entry_day
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
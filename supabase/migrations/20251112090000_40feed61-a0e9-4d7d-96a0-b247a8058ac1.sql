@@ -0,0 +1,106 @@
+-- IMPORTAÇÃO: REFINARIA INEXISTENTE
+-- import_entries juntava as linhas com refineries por JOIN: linhas com refinaria
+-- inexistente (ou sem refinaria) sumiam sem erro e eram contadas como "já
+-- existentes" em skipped_count. Agora a importação inteira é recusada apontando a
+-- linha, e skipped_count conta só as linhas ignoradas por já existirem ou se
+-- repetirem no lote.
+
+-- 1. Importar as linhas em uma transação
+-- p_rows: [{ employee_id, date, refinery_id, points, observations, file_name, line }]
+-- file_name/line (planilha e linha de origem) só aparecem nas mensagens de erro
+-- Qualquer erro (ciclo fechado, limite diário, refinaria inexistente) desfaz a importação inteira
+CREATE OR REPLACE FUNCTION public.import_entries(p_file_names TEXT[], p_rows JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    batch_id INTEGER;
+    total_rows INTEGER;
+    inserted_rows INTEGER;
+    missing_line TEXT;
+    actor_label TEXT;
+BEGIN
+    IF (SELECT public.auth_role()) IS DISTINCT FROM 'admin' THEN
+        RAISE EXCEPTION 'Apenas administradores podem importar registros'
+            USING ERRCODE = '42501';
+    END IF;
+
+    total_rows := jsonb_array_length(COALESCE(p_rows, '[]'::JSONB));
+    IF total_rows = 0 THEN
+        RAISE EXCEPTION 'Nenhuma linha para importar'
+            USING ERRCODE = '22023', HINT = 'empty_import';
+    END IF;
+
+    -- Toda linha precisa de uma refinaria cadastrada (sem a origem, vale a posição em p_rows)
+    SELECT COALESCE(
+        (r.item ->> 'line') || COALESCE(' de ' || (r.item ->> 'file_name'), ''),
+        r.row_number::TEXT
+    ) INTO missing_line
+    FROM jsonb_array_elements(p_rows) WITH ORDINALITY AS r(item, row_number)
+    LEFT JOIN public.refineries ref ON ref.id = (r.item ->> 'refinery_id')::INTEGER
+    WHERE ref.id IS NULL
+    ORDER BY r.row_number
+    LIMIT 1;
+
+    IF missing_line IS NOT NULL THEN
+        RAISE EXCEPTION 'Linha % sem refinaria cadastrada', missing_line
+            USING ERRCODE = '23503', HINT = 'unknown_refinery';
+    END IF;
+
+    SELECT COALESCE(emp.real_name, emp.name) INTO actor_label
+    FROM public.employee emp
+    WHERE emp.auth_user_id = auth.uid();
+
+    INSERT INTO public.import_batch (file_names, row_count, created_by, created_by_name)
+    VALUES (COALESCE(p_file_names, '{}'), total_rows, auth.uid(), COALESCE(actor_label, auth.jwt() ->> 'email', 'Sistema'))
+    RETURNING id INTO batch_id;
+
+    -- Linhas repetidas no próprio lote entram uma vez só
+    WITH incoming AS (
+        SELECT DISTINCT ON (r.employee_id, public.business_date(r.date), r.refinery_id, r.points)
+            r.employee_id, r.date, r.refinery_id, r.points, r.observations
+        FROM jsonb_to_recordset(p_rows) AS r(
+            employee_id INTEGER,
+            date TIMESTAMP WITH TIME ZONE,
+            refinery_id INTEGER,
+            points INTEGER,
+            observations TEXT
+        )
+        ORDER BY r.employee_id, public.business_date(r.date), r.refinery_id, r.points, r.date
+    )
+    INSERT INTO public.entry (employee_id, date, refinery, refinery_id, points, observations, status, import_batch_id)
+    SELECT
+        i.employee_id, i.date, ref.name, i.refinery_id, i.points,
+        COALESCE(NULLIF(btrim(i.observations), ''), 'Importado de planilha'), 'approved', batch_id
+    FROM incoming i
+    JOIN public.refineries ref ON ref.id = i.refinery_id
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.entry e
+        WHERE e.employee_id = i.employee_id
+          AND e.status <> 'rejected'
+          AND e.refinery_id IS NOT DISTINCT FROM i.refinery_id
+          AND e.points = i.points
+          AND public.business_date(e.date) = public.business_date(i.date)
+    );
+
+    GET DIAGNOSTICS inserted_rows = ROW_COUNT;
+
+    -- Com as refinarias conferidas, o JOIN não descarta linhas: o que não entrou
+    -- já existia ou se repetia no lote
+    UPDATE public.import_batch
+    SET inserted_count = inserted_rows,
+        skipped_count = total_rows - inserted_rows
+    WHERE id = batch_id;
+
+    RETURN jsonb_build_object(
+        'batch_id', batch_id,
+        'inserted', inserted_rows,
+        'skipped', total_rows - inserted_rows
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.import_entries(TEXT[], JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_entries(TEXT[], JSONB) TO authenticated;
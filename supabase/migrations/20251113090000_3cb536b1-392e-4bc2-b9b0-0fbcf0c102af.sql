@@ -0,0 +1,58 @@
+-- RESTAURAR REGISTRO EXCLUÍDO
+-- O "desfazer" da exclusão (Registros) insere o registro de novo com o mesmo id.
+-- set_entry_review trocava a revisão original pelo admin que restaurou e pela
+-- hora da restauração, e o lote da importação se perdia: o registro restaurado não
+-- saía mais com rollback_import. A view passa a expor o lote e quem revisou, o
+-- cliente os envia na restauração e o trigger mantém a revisão informada no INSERT.
+
+-- 1. Revisão informada no INSERT (registro restaurado) é mantida
+CREATE OR REPLACE FUNCTION public.set_entry_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status <> 'rejected' THEN
+        NEW.rejection_reason := NULL;
+    END IF;
+
+    IF NEW.status = 'pending' THEN
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+    ELSIF TG_OP = 'INSERT' AND NEW.reviewed_at IS NOT NULL THEN
+        -- Só admins inserem registros já revisados (o funcionário registra pendente)
+        RETURN NEW;
+    ELSIF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.reviewed_by := auth.uid();
+        NEW.reviewed_at := now();
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- 2. Consulta de registros com o lote da importação e quem revisou (colunas novas no fim da view)
+CREATE OR REPLACE VIEW public.entry_with_employee
+WITH (security_invoker = true)
+AS
+SELECT
+    e.id,
+    e.employee_id,
+    e.date,
+    e.refinery,
+    e.points,
+    e.observations,
+    e.created_at,
+    e.updated_at,
+    emp.real_name AS employee_name,
+    lower(concat_ws(' ', emp.real_name, e.refinery, e.observations)) AS search_text,
+    e.refinery_id,
+    e.status,
+    e.rejection_reason,
+    e.reviewed_at,
+    e.duplicate_suspect,
+    e.backdated,
+    e.lateness_minutes,
+    e.reviewed_by,
+    e.import_batch_id
+FROM public.entry e
+LEFT JOIN public.employee emp ON emp.id = e.employee_id;
@@ -0,0 +1,13 @@
+-- HISTÓRICO DE VALORES DA REFINARIA
+-- point_rate.refinery_id apagava em cascata os valores da refinaria excluída, e os
+-- registros antigos dela passavam a ser valorizados pelo valor geral. A refinaria
+-- com valores cadastrados não pode mais ser excluída: ela é desativada
+-- (refineries.active), como já faz a tela de refinarias.
+
+-- 1. Exclusão da refinaria bloqueada enquanto houver valores dela
+ALTER TABLE public.point_rate
+    DROP CONSTRAINT IF EXISTS point_rate_refinery_id_fkey;
+
+ALTER TABLE public.point_rate
+    ADD CONSTRAINT point_rate_refinery_id_fkey
+        FOREIGN KEY (refinery_id) REFERENCES public.refineries(id) ON DELETE RESTRICT;
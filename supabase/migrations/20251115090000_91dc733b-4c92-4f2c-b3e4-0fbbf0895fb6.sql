@@ -0,0 +1,12 @@
+-- META DA EQUIPE SEM FREELANCERS
+-- A meta da equipe era 29500 = 10500 + 9500 + 9500, as metas dos três CLT, sem a
+-- do freelancer. A regra semeada em employment_type_rule incluía freelancers na
+-- meta da equipe e mudava o total na implantação. Freelancers ficam fora da média
+-- e da meta da equipe; uma regra já alterada pelo admin é mantida.
+
+-- 1. Freelancers fora da meta da equipe (se a regra ainda é a semeada)
+UPDATE public.employment_type_rule
+SET in_team_goal = false
+WHERE employment_type = 'freelancer'
+  AND in_team_goal
+  AND updated_at IS NOT DISTINCT FROM created_at;
@@ -0,0 +1,171 @@
+-- TESTES DE RLS: entry e employee por papel da sessão
+-- Rodar com o banco local: supabase start && supabase test db
+-- A sessão é simulada com SET ROLE (anon/authenticated) e request.jwt.claims,
+-- de onde public.auth_role() e public.auth_employee_id() leem app_metadata.
+-- Tudo roda em uma transação desfeita no final.
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(19);
+
+-- 1. Dados de teste (como postgres, sem RLS)
+INSERT INTO public.refineries (id, name) VALUES (900001, 'RLS TESTE');
+
+INSERT INTO public.employee (id, name, real_name, username, role, default_refinery)
+VALUES
+    (900001, 'rls_a', 'Funcionário A', 'rls_a', 'employee', 'RLS TESTE'),
+    (900002, 'rls_b', 'Funcionário B', 'rls_b', 'employee', 'RLS TESTE');
+
+INSERT INTO public.entry (id, employee_id, date, refinery, refinery_id, points, observations, status)
+VALUES
+    (900001, 900001, now() - INTERVAL '2 hours', 'RLS TESTE', 900001, 101, 'A aprovado', 'approved'),
+    (900002, 900002, now() - INTERVAL '2 hours', 'RLS TESTE', 900001, 102, 'B aprovado', 'approved');
+
+-- 2. Anônimo: nenhum acesso
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT throws_ok(
+    'SELECT count(*) FROM public.entry',
+    '42501', NULL,
+    'anon não lê entry'
+);
+SELECT throws_ok(
+    'SELECT count(*) FROM public.employee',
+    '42501', NULL,
+    'anon não lê employee'
+);
+SELECT throws_ok(
+    $$INSERT INTO public.entry (employee_id, date, refinery, refinery_id, points, observations)
+      VALUES (900001, now(), 'RLS TESTE', 900001, 103, 'anon')$$,
+    '42501', NULL,
+    'anon não registra pontos'
+);
+
+RESET ROLE;
+
+-- 3. Funcionário A: só os próprios registros e o próprio cadastro
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims',
+    '{"role": "authenticated", "app_metadata": {"role": "employee", "employee_id": 900001}}', true);
+
+SELECT results_eq(
+    'SELECT id FROM public.entry WHERE id IN (900001, 900002) ORDER BY id',
+    ARRAY[900001],
+    'funcionário lê só os próprios registros'
+);
+SELECT results_eq(
+    'SELECT id FROM public.employee WHERE id IN (900001, 900002) ORDER BY id',
+    ARRAY[900001],
+    'funcionário lê só o próprio cadastro'
+);
+SELECT throws_ok(
+    'SELECT access_key FROM public.employee WHERE id = 900001',
+    '42501', NULL,
+    'funcionário não lê employee.access_key'
+);
+SELECT lives_ok(
+    $$INSERT INTO public.entry (id, employee_id, date, refinery, refinery_id, points, observations)
+      VALUES (900003, 900001, now() - INTERVAL '1 hour', 'RLS TESTE', 900001, 104, 'A pendente')$$,
+    'funcionário registra os próprios pontos'
+);
+SELECT throws_ok(
+    $$INSERT INTO public.entry (employee_id, date, refinery, refinery_id, points, observations)
+      VALUES (900002, now() - INTERVAL '1 hour', 'RLS TESTE', 900001, 105, 'para B')$$,
+    '42501', NULL,
+    'funcionário não registra pontos de outro funcionário'
+);
+SELECT throws_ok(
+    $$INSERT INTO public.entry (employee_id, date, refinery, refinery_id, points, observations, status)
+      VALUES (900001, now() - INTERVAL '1 hour', 'RLS TESTE', 900001, 106, 'já aprovado', 'approved')$$,
+    '42501', NULL,
+    'funcionário não registra pontos já aprovados'
+);
+
+-- Sem política de UPDATE/DELETE para o funcionário: os comandos não alcançam nenhuma linha
+UPDATE public.entry SET points = 999 WHERE id IN (900001, 900003);
+DELETE FROM public.entry WHERE id IN (900001, 900003);
+
+RESET ROLE;
+
+SELECT results_eq(
+    'SELECT id, points FROM public.entry WHERE id IN (900001, 900003) ORDER BY id',
+    $$VALUES (900001, 101), (900003, 104)$$,
+    'funcionário não altera nem exclui registros'
+);
+
+-- 4. Funcionário B não vê o registro de A
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims',
+    '{"role": "authenticated", "app_metadata": {"role": "employee", "employee_id": 900002}}', true);
+
+SELECT results_eq(
+    'SELECT id FROM public.entry WHERE id IN (900001, 900002, 900003) ORDER BY id',
+    ARRAY[900002],
+    'outro funcionário não vê os registros de A'
+);
+
+RESET ROLE;
+
+-- 5. Funcionário desativado não registra pontos
+UPDATE public.employee SET active = false WHERE id = 900002;
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims',
+    '{"role": "authenticated", "app_metadata": {"role": "employee", "employee_id": 900002}}', true);
+
+SELECT throws_ok(
+    $$INSERT INTO public.entry (employee_id, date, refinery, refinery_id, points, observations)
+      VALUES (900002, now() - INTERVAL '1 hour', 'RLS TESTE', 900001, 107, 'desativado')$$,
+    '42501', NULL,
+    'funcionário desativado não registra pontos'
+);
+
+RESET ROLE;
+
+-- 6. Admin: lê tudo, altera e exclui; access_key continua ilegível
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims',
+    '{"role": "authenticated", "app_metadata": {"role": "admin"}}', true);
+
+SELECT results_eq(
+    'SELECT id FROM public.entry WHERE id IN (900001, 900002, 900003) ORDER BY id',
+    ARRAY[900001, 900002, 900003],
+    'admin lê os registros de todos'
+);
+SELECT results_eq(
+    'SELECT id FROM public.employee WHERE id IN (900001, 900002) ORDER BY id',
+    ARRAY[900001, 900002],
+    'admin lê todos os cadastros'
+);
+SELECT throws_ok(
+    'SELECT access_key FROM public.employee WHERE id = 900001',
+    '42501', NULL,
+    'admin também não lê employee.access_key'
+);
+SELECT lives_ok(
+    $$INSERT INTO public.employee (id, name, real_name, username, role, default_refinery)
+      VALUES (900003, 'rls_c', 'Funcionário C', 'rls_c', 'employee', 'RLS TESTE')$$,
+    'admin cadastra funcionário (chave gerada pelo default da coluna)'
+);
+SELECT lives_ok(
+    'UPDATE public.entry SET points = 150 WHERE id = 900001',
+    'admin altera registros'
+);
+SELECT lives_ok(
+    'DELETE FROM public.entry WHERE id = 900003',
+    'admin exclui registros'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+    'SELECT id, points FROM public.entry WHERE id IN (900001, 900003) ORDER BY id',
+    $$VALUES (900001, 150)$$,
+    'alteração e exclusão do admin gravadas'
+);
+
+SELECT * FROM finish();
+ROLLBACK;